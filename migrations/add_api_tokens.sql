@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Migration: Add api_tokens and api_token_usage tables (Personal API tokens)
+-- ============================================================================
+-- Researchers and admins create personal tokens in the dashboard for scripted
+-- clients (e.g. Python notebooks) calling the authenticated /api/v1 endpoints:
+-- - token_hash: SHA-256 of the token; the token is only shown once
+-- - scopes: 'read_drafts' | 'write' | 'publish' ('publish' is admin-only)
+-- - Requests act as the owner with their current role; revoked, expired or
+--   deactivated owners' tokens are rejected
+-- Every authenticated request is logged in api_token_usage.
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "profile_id" uuid NOT NULL REFERENCES "profiles"("id") ON DELETE CASCADE,
+    "name" varchar(100) NOT NULL,
+    "token_hash" varchar(64) NOT NULL UNIQUE,
+    "token_prefix" varchar(16) NOT NULL,
+    "scopes" text[] NOT NULL,
+    "expires_at" timestamp with time zone,
+    "last_used_at" timestamp with time zone,
+    "revoked_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "api_tokens_profile_idx"
+    ON "api_tokens" ("profile_id");
+
+CREATE TABLE IF NOT EXISTS "api_token_usage" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "token_id" uuid NOT NULL REFERENCES "api_tokens"("id") ON DELETE CASCADE,
+    "method" varchar(10) NOT NULL,
+    "path" text NOT NULL,
+    "status" integer NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "api_token_usage_token_idx"
+    ON "api_token_usage" ("token_id", "created_at");
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Migration: Add construction_contributors table (Credits and co-authorship)
+-- ============================================================================
+-- constructions.created_by keeps the owner of a record. Everyone else who
+-- worked on the ficha is credited here with a role:
+-- - role: 'surveyor' | 'author' | 'photographer' | 'reviewer' | 'translator'
+-- - profile_id: the contributor's account, or null for people credited by name
+-- Contributors with the 'author' role (co-authors) have the same edit rights
+-- as the owner. Credits are shown on the public mill page and in the PDF sheet.
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "construction_contributors" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "construction_id" uuid NOT NULL REFERENCES "constructions"("id") ON DELETE CASCADE,
+    "profile_id" uuid REFERENCES "profiles"("id") ON DELETE CASCADE,
+    "name" varchar(255),
+    "role" varchar(20) NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "construction_contributors_identity_check" CHECK ("profile_id" IS NOT NULL OR "name" IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS "construction_contributors_construction_idx"
+    ON "construction_contributors" ("construction_id");
+
+CREATE INDEX IF NOT EXISTS "construction_contributors_profile_idx"
+    ON "construction_contributors" ("profile_id");
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Migration: Add construction_revisions table (Revision History / Audit Log)
+-- ============================================================================
+-- One row per create / update / status change / delete / restore of a construction.
+-- - snapshot: full record state (constructions, mills_data or pocas_data,
+--   translations, water line path and translations) as JSON
+-- - diff: changed fields relative to the previous state
+-- - construction_id has no foreign key so history outlives deleted records
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "construction_revisions" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "construction_id" uuid NOT NULL,
+    "action" varchar(20) NOT NULL,
+    "author_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "snapshot" jsonb NOT NULL,
+    "diff" jsonb NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "construction_revisions_construction_idx"
+    ON "construction_revisions" ("construction_id", "created_at");
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration: Add construction_slug_redirects table
+-- ============================================================================
+-- Merging two duplicate constructions keeps one (the survivor) and moves the
+-- other to the trash. The public URL of the merged record keeps working: its
+-- slug is stored here and the mill / levada pages redirect it to the
+-- survivor's current slug.
+-- - Rows are removed with the survivor (ON DELETE CASCADE)
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "construction_slug_redirects" (
+    "slug" varchar(255) PRIMARY KEY,
+    "construction_id" uuid NOT NULL REFERENCES "constructions"("id") ON DELETE CASCADE,
+    "created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "construction_slug_redirects_construction_idx"
+    ON "construction_slug_redirects" ("construction_id");
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration: Add trash (soft delete) columns to constructions
+-- ============================================================================
+-- Deleting a construction now moves it to the trash instead of removing the
+-- rows. Related data (mills_data, pocas_data, translations, water_lines) is
+-- kept untouched so a restore brings the record back exactly as it was.
+-- Trashed records are only removed for good by an admin (purge).
+-- - deleted_at: when the record was moved to the trash (NULL = not trashed)
+-- - deleted_by: who moved it to the trash
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+ALTER TABLE "constructions"
+    ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
+
+ALTER TABLE "constructions"
+    ADD COLUMN IF NOT EXISTS "deleted_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "constructions_deleted_at_idx"
+    ON "constructions" ("deleted_at")
+    WHERE "deleted_at" IS NOT NULL;
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration: Support duplicate detection when creating mills
+-- ============================================================================
+-- createMillConstruction looks for existing mills before inserting a new one:
+-- - nearby: ST_DWithin on constructions.geom (GiST index)
+-- - similar title: pg_trgm % operator on construction_translations.title
+--   (GIN trigram index)
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS "constructions_geom_idx"
+    ON "constructions" USING GIST ("geom");
+
+CREATE INDEX IF NOT EXISTS "construction_translations_title_trgm_idx"
+    ON "construction_translations" USING GIN ("title" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "constructions_legacy_id_idx"
+    ON "constructions" ("legacy_id")
+    WHERE "legacy_id" IS NOT NULL;
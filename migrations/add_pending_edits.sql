@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Migration: Add pending_edits table (Working copies of published records)
+-- ============================================================================
+-- Researchers' edits of a published construction are stored here instead of
+-- changing the live record. The published version stays visible until an admin
+-- approves the working copy from the review queue.
+-- - snapshot: proposed record state (same JSON format as construction_revisions)
+-- - status: 'draft' (working copy) or 'review' (in the review queue)
+-- - base_updated_at: live constructions.updated_at the copy was taken from;
+--   approval is refused when the live record changed since
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "pending_edits" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "construction_id" uuid NOT NULL UNIQUE REFERENCES "constructions"("id") ON DELETE CASCADE,
+    "author_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "status" "status" DEFAULT 'draft' NOT NULL,
+    "snapshot" jsonb NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "pending_edits" ADD COLUMN IF NOT EXISTS "base_updated_at" timestamp with time zone;
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration: Add ORCID and bio to profiles (Public researcher pages)
+-- ============================================================================
+-- Researchers and admins have a public page (/researchers/[id]) listing their
+-- published mills, levadas and poças, so their fieldwork can be cited.
+-- - orcid: ORCID iD in its canonical form (0000-0000-0000-000X)
+-- - bio: short biography, edited by the researcher in the dashboard
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+ALTER TABLE "profiles" ADD COLUMN IF NOT EXISTS "orcid" varchar(19);
+ALTER TABLE "profiles" ADD COLUMN IF NOT EXISTS "bio" text;
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration: Add researcher_scopes table (Geographic scoping of researchers)
+-- ============================================================================
+-- Regional teams: an admin can limit a researcher to districts, municipalities
+-- and / or drainage basins. A researcher with no rows here is not restricted.
+-- Otherwise they may only create, edit, submit, delete and list constructions
+-- located in one of their areas (matched case-insensitively against
+-- constructions.district / municipality / drainage_basin). Admins are never
+-- restricted.
+-- - kind: 'district' | 'municipality' | 'drainage_basin'
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "researcher_scopes" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "profile_id" uuid NOT NULL REFERENCES "profiles"("id") ON DELETE CASCADE,
+    "kind" varchar(20) NOT NULL,
+    "value" text NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "researcher_scopes_profile_idx"
+    ON "researcher_scopes" ("profile_id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "researcher_scopes_area_idx"
+    ON "researcher_scopes" ("profile_id", "kind", lower("value"));
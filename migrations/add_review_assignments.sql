@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Migration: Add review_assignments table and pending_edits.submitted_at
+-- ============================================================================
+-- Review queue management: an admin assigns a reviewer to a queued item,
+-- optionally with a due date, and tracks its progress.
+-- - One row per construction (the record in review, or its pending edit)
+-- - review_status: 'in_progress' | 'changes_requested' (NULL = not started)
+-- - Rows are cleared when the item is published / approved
+--
+-- pending_edits.submitted_at records when a working copy entered the queue,
+-- so the queue can show how long items have been waiting.
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "review_assignments" (
+    "construction_id" uuid PRIMARY KEY REFERENCES "constructions"("id") ON DELETE CASCADE,
+    "reviewer_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "assigned_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "due_date" date,
+    "review_status" varchar(20),
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "review_assignments_reviewer_idx"
+    ON "review_assignments" ("reviewer_id");
+
+ALTER TABLE "pending_edits" ADD COLUMN IF NOT EXISTS "submitted_at" timestamp with time zone;
+
+-- Working copies already in the queue: best known submission time
+UPDATE "pending_edits"
+SET "submitted_at" = "updated_at"
+WHERE "status" = 'review' AND "submitted_at" IS NULL;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration: Add review_comments table (Review Workflow Feedback)
+-- ============================================================================
+-- Threaded reviewer feedback attached to a construction.
+-- - parent_id: reply target (NULL for top-level comments)
+-- - field_name: optional mills_data property the comment refers to (e.g. 'roofShape')
+-- - is_change_request: reason given when an admin returns a record to draft
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS "review_comments" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "construction_id" uuid NOT NULL REFERENCES "constructions"("id") ON DELETE CASCADE,
+    "parent_id" uuid REFERENCES "review_comments"("id") ON DELETE CASCADE,
+    "author_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "field_name" varchar(100),
+    "body" text NOT NULL,
+    "is_change_request" boolean DEFAULT false NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "review_comments_construction_idx" ON "review_comments" ("construction_id");
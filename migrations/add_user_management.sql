@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Migration: User management (deactivation, audit log, invitations)
+-- ============================================================================
+-- Admins manage accounts from the dashboard instead of editing profiles by hand.
+-- - profiles.deactivated_at: deactivated accounts have no access (like a
+--   missing profile) until reactivated
+-- - profile_audit_log: every role change, profile edit, deactivation and
+--   accepted invitation, with the admin who made it. No foreign key on
+--   profile_id so the log survives removed accounts
+-- - user_invitations: researchers invited by email; only the SHA-256 of the
+--   invitation token is stored
+--
+-- Usage: Run this script in Supabase SQL Editor or via psql
+-- ============================================================================
+
+ALTER TABLE "profiles" ADD COLUMN IF NOT EXISTS "deactivated_at" timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS "profile_audit_log" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "profile_id" uuid NOT NULL,
+    "actor_id" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "action" varchar(20) NOT NULL,
+    "changes" jsonb NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "profile_audit_log_profile_idx"
+    ON "profile_audit_log" ("profile_id", "created_at");
+
+CREATE TABLE IF NOT EXISTS "user_invitations" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "email" varchar(255) NOT NULL,
+    "role" "user_role" DEFAULT 'researcher' NOT NULL,
+    "full_name" varchar(255),
+    "academic_affiliation" varchar(255),
+    "token_hash" varchar(64) NOT NULL UNIQUE,
+    "invited_by" uuid REFERENCES "profiles"("id") ON DELETE SET NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "accepted_at" timestamp with time zone,
+    "revoked_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -1,12 +1,25 @@
 'use server';
 
 import { db } from '@/lib/db';
-import { constructions, constructionTranslations, millsData, waterLines, waterLineTranslations, pocasData } from '@/db/schema';
-import { eq, and, desc, sql, or, like } from 'drizzle-orm';
+import { constructions, constructionTranslations, millsData, waterLines, waterLineTranslations, pocasData, reviewComments, profiles, pendingEdits, reviewAssignments, constructionRevisions } from '@/db/schema';
+import { eq, ne, and, desc, sql, or, like, inArray, isNull, getTableColumns, type SQL } from 'drizzle-orm';
 import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import { generateSlug, generateUniqueSlug } from '@/lib/slug';
+import { parseMillImportCsv } from '@/lib/mill-import';
+import { recordCreateRevision, withRevision } from '@/lib/revisions';
+import { savePendingEdit, withPendingEditApplied } from '@/lib/pending-edits';
+import { getTrashBlocker, moveConstructionToTrash } from '@/lib/trash';
+import { assertEditVersion, EditConflictError, getEditVersion, type EditConflict } from '@/lib/edit-conflicts';
+import { findMillDuplicateCandidates, type DuplicateMatches } from '@/lib/duplicates';
+import { computeCompleteness, type CompletenessInput } from '@/lib/completeness';
+import { formatFieldName } from '@/lib/review-fields';
+import { clearReviewAssignment, markChangesRequested, type ReviewStatus } from '@/lib/review-assignments';
+import { getGeoScope, getGeoScopeBlocker, getGeoScopeCondition, type GeoScope } from '@/lib/geo-scope';
+import { getAuthorshipCondition, isConstructionAuthor } from '@/lib/contributors';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 /**
  * Admin Server Actions
@@ -43,9 +56,21 @@ export async function getCurrentUserInfo(): Promise<
   }
 }
 
+/**
+ * Gets the regions a non-admin user is limited to (applies to mills, see src/lib/geo-scope.ts)
+ *
+ * @returns The scope, or null when the user is an admin or not restricted
+ */
+async function getUserGeoScope(userId: string, isUserAdmin: boolean): Promise<GeoScope | null> {
+  return isUserAdmin ? null : getGeoScope(db, userId);
+}
+
 /**
  * Deletes a construction (MILL, POCA, or water_line) with role-based permissions
  * 
+ * The record is moved to the trash (soft delete) and can be restored from the Trash view;
+ * see src/lib/trash.ts. Permanent removal is admin-only (purgeConstruction).
+ * 
  * Phase 5.9.7.2: Scoped Deletion
  * - Researchers: Can delete ONLY if status === 'draft' AND they are the author (created_by)
  * - Admins: Can delete ANY item in the inventory or review queue
@@ -117,9 +142,12 @@ export async function deleteConstruction(
         status: constructions.status,
         createdBy: constructions.createdBy,
         typeCategory: constructions.typeCategory,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        drainageBasin: constructions.drainageBasin,
       })
       .from(constructions)
-      .where(eq(constructions.id, id))
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (existing.length === 0) {
@@ -142,12 +170,12 @@ export async function deleteConstruction(
     });
 
     // Phase 5.9.7.2: Scoped deletion logic - STRICT ENFORCEMENT
-    // Researchers: Can delete ONLY if status === 'draft' AND they are the author
+    // Researchers: Can delete ONLY if status === 'draft' AND they are the author (owner or co-author)
     // Admins: Can delete ANY item
     if (!isUserAdmin) {
-      // Check if record exists but createdBy doesn't match - return "Unauthorized" for better debugging
-      if (construction.createdBy !== userId) {
-        console.log('[deleteConstruction]: Unauthorized - createdBy mismatch', {
+      // Check if record exists but the user is not an author - return "Unauthorized" for better debugging
+      if (!(await isConstructionAuthor(db, construction, userId))) {
+        console.log('[deleteConstruction]: Unauthorized - not an author', {
           constructionId: construction.id,
           constructionCreatedBy: construction.createdBy,
           currentUserId: userId,
@@ -170,50 +198,28 @@ export async function deleteConstruction(
           error: 'Only draft constructions can be deleted by the author'
         };
       }
-    }
-    // Admins: Can delete any item (no additional checks needed)
 
-    // Use transaction to ensure atomicity
-    // Note: Foreign key constraints are set to onDelete: 'cascade' in schema.ts:
-    // - mills_data.constructionId -> constructions.id (cascade)
-    // - pocas_data.constructionId -> constructions.id (cascade)
-    // - construction_translations.constructionId -> constructions.id (cascade)
-    // - water_lines.constructionId -> constructions.id (cascade)
-    // However, we manually delete water_lines first as a safety measure
-    await db.transaction(async (tx) => {
-      // Check if this construction is a water line and delete the water_lines record first
-      // This handles cases where the database constraint might not cascade properly
-      const waterLineCheck = await tx
-        .select({ id: waterLines.id })
-        .from(waterLines)
-        .where(eq(waterLines.constructionId, id))
-        .limit(1);
-
-      if (waterLineCheck.length > 0) {
-        console.log('[deleteConstruction]: Deleting water_line record first', {
-          waterLineId: waterLineCheck[0]!.id,
-          constructionId: id,
-        });
-        // Delete the water line first to avoid foreign key constraint violation
-        await tx
-          .delete(waterLines)
-          .where(eq(waterLines.constructionId, id));
+      // Regional teams: mills must also be in the researcher's regions
+      if (construction.typeCategory === 'MILL') {
+        const scopeBlocker = getGeoScopeBlocker(await getUserGeoScope(userId, isUserAdmin), construction);
+        if (scopeBlocker) {
+          return { success: false, error: scopeBlocker };
+        }
       }
+    }
+    // Admins: Can delete any item (no additional checks needed)
 
-      // Delete construction (cascade will handle other related records like mills_data, pocas_data, etc.)
-      const result = await tx
-        .delete(constructions)
-        .where(eq(constructions.id, id))
-        .returning({ id: constructions.id });
+    // Move to the trash instead of removing the rows (restorable from the Trash view;
+    // only admins purge for good). Related rows are kept as they are.
+    const trashBlocker = await getTrashBlocker(db, id);
+    if (trashBlocker) {
+      return { success: false, error: trashBlocker };
+    }
 
-      if (!result || result.length === 0) {
-        throw new Error('Failed to delete construction - no rows affected');
-      }
+    await db.transaction((tx) => moveConstructionToTrash(tx, id, userId));
 
-      console.log('[deleteConstruction]: Successfully deleted construction', {
-        constructionId: id,
-        deletedId: result[0]!.id,
-      });
+    console.log('[deleteConstruction]: Moved construction to the trash', {
+      constructionId: id,
     });
 
     // Revalidate dashboard pages
@@ -223,6 +229,11 @@ export async function deleteConstruction(
     revalidatePath('/pt/dashboard/review');
     revalidatePath('/en/dashboard/inventory');
     revalidatePath('/pt/dashboard/inventory');
+    revalidatePath('/en/dashboard/trash');
+    revalidatePath('/pt/dashboard/trash');
+    // Published records disappear from the public pages
+    revalidatePath('/en', 'layout');
+    revalidatePath('/pt', 'layout');
 
     return { success: true };
   } catch (error) {
@@ -270,15 +281,28 @@ export async function updateConstructionStatus(
       return { success: false, error: 'Invalid status value' };
     }
 
-    // Update construction status
-    const result = await db
-      .update(constructions)
-      .set({
-        status,
-        updatedAt: new Date(),
-      })
-      .where(eq(constructions.id, id))
-      .returning({ id: constructions.id, status: constructions.status });
+    const userId = await getSessionUserId();
+
+    // Update construction status (recorded in the revision history)
+    const result = await db.transaction(async (tx) => {
+      const updated = await withRevision(tx, { constructionId: id, action: 'status', authorId: userId }, () =>
+        tx
+          .update(constructions)
+          .set({
+            status,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
+          .returning({ id: constructions.id, status: constructions.status })
+      );
+
+      // Publishing ends the review cycle
+      if (status === 'published' && updated.length > 0) {
+        await clearReviewAssignment(tx, id);
+      }
+
+      return updated;
+    });
 
     if (!result || result.length === 0) {
       return { success: false, error: 'Construction not found' };
@@ -300,6 +324,287 @@ export async function updateConstructionStatus(
   }
 }
 
+/**
+ * Review comment with its author, as shown in the review page and the editors
+ */
+export interface ReviewCommentItem {
+  id: string;
+  parentId: string | null;
+  fieldName: string | null; // mills_data property for field-level comments
+  body: string;
+  isChangeRequest: boolean;
+  createdAt: Date;
+  authorId: string | null;
+  authorName: string | null;
+  authorRole: 'admin' | 'researcher' | 'public' | null;
+}
+
+// mills_data properties that field-level review comments can point at
+const REVIEW_COMMENT_FIELDS = Object.keys(getTableColumns(millsData)).filter((key) => key !== 'constructionId');
+
+/**
+ * Verifies that the current user may read and write the review comments of a construction
+ *
+ * Security: Admins can access every construction; researchers only their own (created_by)
+ *
+ * @returns The user ID and admin flag, or an error message
+ */
+async function getReviewCommentAccess(
+  constructionId: string
+): Promise<{ success: true; data: { userId: string; isUserAdmin: boolean } } | { success: false; error: string }> {
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  const [construction] = await db
+    .select({ createdBy: constructions.createdBy })
+    .from(constructions)
+    .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+    .limit(1);
+
+  if (!construction) {
+    return { success: false, error: 'Construction not found' };
+  }
+
+  const isUserAdmin = await isAdmin();
+  if (!isUserAdmin && !(await isConstructionAuthor(db, { id: constructionId, createdBy: construction.createdBy }, userId))) {
+    return { success: false, error: 'Unauthorized: You can only view comments on your own constructions' };
+  }
+
+  return { success: true, data: { userId, isUserAdmin } };
+}
+
+/**
+ * Revalidates the pages that display review comments
+ */
+function revalidateReviewPaths() {
+  revalidatePath('/en/dashboard/review', 'layout');
+  revalidatePath('/pt/dashboard/review', 'layout');
+  revalidatePath('/en/dashboard/add');
+  revalidatePath('/pt/dashboard/add');
+  revalidatePath('/en/dashboard');
+  revalidatePath('/pt/dashboard');
+  revalidatePath('/en/dashboard/inventory');
+  revalidatePath('/pt/dashboard/inventory');
+}
+
+/**
+ * Fetches the review comments of a construction (oldest first)
+ *
+ * Security: Admins, or the researcher who authored the construction
+ *
+ * @param constructionId - Construction UUID
+ * @returns Standardized response with the comments (threads are rebuilt from parentId)
+ *          and the field names available for field-level comments
+ */
+export async function getReviewComments(
+  constructionId: string
+): Promise<
+  | { success: true; data: { comments: ReviewCommentItem[]; fieldNames: string[] } }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getReviewCommentAccess(constructionId);
+    if (!access.success) {
+      return access;
+    }
+
+    const comments = await db
+      .select({
+        id: reviewComments.id,
+        parentId: reviewComments.parentId,
+        fieldName: reviewComments.fieldName,
+        body: reviewComments.body,
+        isChangeRequest: reviewComments.isChangeRequest,
+        createdAt: reviewComments.createdAt,
+        authorId: reviewComments.authorId,
+        authorName: profiles.fullName,
+        authorRole: profiles.role,
+      })
+      .from(reviewComments)
+      .leftJoin(profiles, eq(profiles.id, reviewComments.authorId))
+      .where(eq(reviewComments.constructionId, constructionId))
+      .orderBy(reviewComments.createdAt);
+
+    return { success: true, data: { comments, fieldNames: REVIEW_COMMENT_FIELDS } };
+  } catch (error) {
+    console.error('[getReviewComments]:', error);
+    return { success: false, error: 'An error occurred while fetching review comments' };
+  }
+}
+
+/**
+ * Zod schema for a review comment
+ */
+const reviewCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment is required').max(5000, 'Comment is too long'),
+  parentId: z.string().uuid().optional(),
+  fieldName: z
+    .string()
+    .refine((value) => REVIEW_COMMENT_FIELDS.includes(value), 'Invalid field')
+    .optional(),
+});
+
+/**
+ * Adds a review comment (top-level, reply or field-level) to a construction
+ *
+ * Security: Admins, or the researcher who authored the construction (to answer the reviewer)
+ *
+ * @param constructionId - Construction UUID
+ * @param input - Comment body, optional parent comment (reply) and mills_data field
+ * @returns Standardized response with the new comment ID
+ */
+export async function addReviewComment(
+  constructionId: string,
+  input: { body: string; parentId?: string; fieldName?: string }
+): Promise<
+  | { success: true; data: { id: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getReviewCommentAccess(constructionId);
+    if (!access.success) {
+      return access;
+    }
+
+    const validationResult = reviewCommentSchema.safeParse(input);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const validated = validationResult.data;
+
+    // Replies must stay on the same construction
+    if (validated.parentId) {
+      const [parent] = await db
+        .select({ constructionId: reviewComments.constructionId })
+        .from(reviewComments)
+        .where(eq(reviewComments.id, validated.parentId))
+        .limit(1);
+
+      if (!parent || parent.constructionId !== constructionId) {
+        return { success: false, error: 'Parent comment not found' };
+      }
+    }
+
+    const [comment] = await db
+      .insert(reviewComments)
+      .values({
+        constructionId,
+        parentId: validated.parentId ?? null,
+        authorId: access.data.userId,
+        fieldName: validated.fieldName ?? null,
+        body: validated.body,
+      })
+      .returning({ id: reviewComments.id });
+
+    revalidateReviewPaths();
+
+    return { success: true, data: { id: comment!.id } };
+  } catch (error) {
+    console.error('[addReviewComment]:', error);
+    return { success: false, error: 'An error occurred while adding the comment' };
+  }
+}
+
+/**
+ * Returns a construction under review to draft with a required reason
+ *
+ * The reason is stored as a change-request review comment so the researcher can see
+ * (and reply to) why the record was sent back.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param constructionId - Construction UUID
+ * @param reason - Why the construction is sent back (required)
+ * @returns Standardized response with the new status
+ */
+export async function requestChanges(
+  constructionId: string,
+  reason: string
+): Promise<
+  | { success: true; data: { id: string; status: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    if (!trimmedReason) {
+      return { success: false, error: 'A reason is required to request changes' };
+    }
+
+    const [existing] = await db
+      .select({ status: constructions.status })
+      .from(constructions)
+      .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!existing) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    if (existing.status !== 'review') {
+      return { success: false, error: 'Only constructions under review can be returned to draft' };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [updated] = await withRevision(tx, { constructionId, action: 'status', authorId: userId }, () =>
+        tx
+          .update(constructions)
+          .set({ status: 'draft', updatedAt: new Date() })
+          .where(eq(constructions.id, constructionId))
+          .returning({ id: constructions.id, status: constructions.status })
+      );
+
+      await tx.insert(reviewComments).values({
+        constructionId,
+        authorId: userId,
+        body: trimmedReason,
+        isChangeRequest: true,
+      });
+
+      await markChangesRequested(tx, constructionId);
+
+      return updated!;
+    });
+
+    revalidateReviewPaths();
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('[requestChanges]:', error);
+    return { success: false, error: 'An error occurred while requesting changes' };
+  }
+}
+
+/**
+ * Returns why a mill cannot go to review (mandatory Ficha fields for its typology are
+ * empty), or null if it can. See src/lib/completeness.ts for the rules.
+ */
+function getReviewReadinessError(mill: CompletenessInput): string | null {
+  const { missingMandatory } = computeCompleteness(mill);
+  if (missingMandatory.length === 0) {
+    return null;
+  }
+  return `Required fields are missing for review: ${missingMandatory.map(formatFieldName).join(', ')}`;
+}
+
 /**
  * Submits a construction for review (sets status to 'review')
  * 
@@ -341,10 +646,14 @@ export async function submitForReview(
       .select({
         id: constructions.id,
         status: constructions.status,
+        typeCategory: constructions.typeCategory,
         createdBy: constructions.createdBy,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        drainageBasin: constructions.drainageBasin,
       })
       .from(constructions)
-      .where(eq(constructions.id, id))
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (existing.length === 0) {
@@ -353,25 +662,46 @@ export async function submitForReview(
 
     const construction = existing[0]!;
 
-    // Security check: Only author or admin can submit for review
-    if (!isUserAdmin && construction.createdBy !== userId) {
+    // Security check: Only authors (owner or co-authors) or admin can submit for review
+    if (!isUserAdmin && !(await isConstructionAuthor(db, construction, userId))) {
       return { success: false, error: 'Unauthorized: You can only submit your own constructions for review' };
     }
 
+    // Regional teams: mills must also be in the researcher's regions
+    if (construction.typeCategory === 'MILL') {
+      const scopeBlocker = getGeoScopeBlocker(await getUserGeoScope(userId, isUserAdmin), construction);
+      if (scopeBlocker) {
+        return { success: false, error: scopeBlocker };
+      }
+    }
+
     // Only allow submitting drafts for review
     if (construction.status !== 'draft') {
       return { success: false, error: 'Only draft constructions can be submitted for review' };
     }
 
-    // Update construction status to 'review'
-    const result = await db
-      .update(constructions)
-      .set({
-        status: 'review',
-        updatedAt: new Date(),
-      })
-      .where(eq(constructions.id, id))
-      .returning({ id: constructions.id, status: constructions.status });
+    // Mills need the mandatory Ficha fields for their typology
+    if (construction.typeCategory === 'MILL') {
+      const [mill] = await db.select().from(millsData).where(eq(millsData.constructionId, id)).limit(1);
+      const readinessError = mill ? getReviewReadinessError(mill) : null;
+      if (readinessError) {
+        return { success: false, error: readinessError };
+      }
+    }
+
+    // Update construction status to 'review' (recorded in the revision history)
+    const result = await db.transaction((tx) =>
+      withRevision(tx, { constructionId: id, action: 'status', authorId: userId }, () =>
+        tx
+          .update(constructions)
+          .set({
+            status: 'review',
+            updatedAt: new Date(),
+          })
+          .where(eq(constructions.id, id))
+          .returning({ id: constructions.id, status: constructions.status })
+      )
+    );
 
     if (!result || result.length === 0) {
       return { success: false, error: 'Failed to update construction status' };
@@ -416,14 +746,14 @@ export async function getUserConstructionStats(): Promise<
       return { success: false, error: 'User not authenticated' };
     }
 
-    // Query constructions created by the user, grouped by status
+    // Query constructions authored by the user (owner or co-author), grouped by status
     const stats = await db
       .select({
         status: constructions.status,
         count: sql<number>`count(*)::int`,
       })
       .from(constructions)
-      .where(eq(constructions.createdBy, userId))
+      .where(and(getAuthorshipCondition(userId), isNull(constructions.deletedAt)))
       .groupBy(constructions.status);
 
     // Initialize counts
@@ -489,7 +819,7 @@ export async function getDashboardStats(): Promise<
     const totalMillsResult = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(constructions)
-      .where(eq(constructions.typeCategory, 'MILL'));
+      .where(and(eq(constructions.typeCategory, 'MILL'), isNull(constructions.deletedAt)));
 
     const totalMills = totalMillsResult[0]?.count || 0;
 
@@ -497,7 +827,7 @@ export async function getDashboardStats(): Promise<
     const totalLevadasResult = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(constructions)
-      .where(eq(constructions.typeCategory, 'water_line'));
+      .where(and(eq(constructions.typeCategory, 'water_line'), isNull(constructions.deletedAt)));
 
     const totalLevadas = totalLevadasResult[0]?.count || 0;
 
@@ -505,7 +835,7 @@ export async function getDashboardStats(): Promise<
     const pendingReviewsResult = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(constructions)
-      .where(eq(constructions.status, 'review'));
+      .where(and(eq(constructions.status, 'review'), isNull(constructions.deletedAt)));
 
     const pendingReviews = pendingReviewsResult[0]?.count || 0;
 
@@ -515,8 +845,9 @@ export async function getDashboardStats(): Promise<
       .from(constructions)
       .where(
         and(
-          eq(constructions.createdBy, userId),
-          eq(constructions.status, 'draft')
+          getAuthorshipCondition(userId),
+          eq(constructions.status, 'draft'),
+          isNull(constructions.deletedAt)
         )
       );
 
@@ -528,8 +859,9 @@ export async function getDashboardStats(): Promise<
       .from(constructions)
       .where(
         and(
-          eq(constructions.createdBy, userId),
-          eq(constructions.status, 'published')
+          getAuthorshipCondition(userId),
+          eq(constructions.status, 'published'),
+          isNull(constructions.deletedAt)
         )
       );
 
@@ -758,7 +1090,7 @@ export async function getConstructionForReview(
           eq(constructionTranslations.langCode, locale)
         )
       )
-      .where(eq(constructions.slug, slug))
+      .where(and(eq(constructions.slug, slug), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (results.length === 0) {
@@ -854,28 +1186,50 @@ export async function getConstructionForReview(
   }
 }
 
+/**
+ * Item of the review queue
+ */
+export interface ReviewQueueItem {
+  id: string;
+  slug: string;
+  title: string | null;
+  typeCategory: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isPendingEdit: boolean;
+  submittedAt: Date; // When the item entered the queue (queue age)
+  reviewerId: string | null;
+  reviewerName: string | null;
+  dueDate: string | null; // YYYY-MM-DD
+  reviewStatus: ReviewStatus | null; // null = not started
+}
+
+/**
+ * Review queue filters
+ */
+export interface ReviewQueueFilters {
+  assignment?: 'mine' | 'unassigned'; // All items when omitted
+}
+
 /**
  * Fetches all constructions with draft status for review
  * 
+ * Also lists pending edits (working copies of published records) submitted for review,
+ * flagged with isPendingEdit; their title is the live one. Each item carries its review
+ * assignment (reviewer, due date, progress) and the time it entered the queue; the items
+ * waiting longest come first.
+ * 
  * Security: Verifies that the performing user has 'admin' role
  * 
  * @param locale - Current locale code ('en' | 'pt')
+ * @param filters - Optional assignment filter ('mine' = assigned to the current user)
  * @returns Standardized response with array of draft constructions including localized title
  */
 export async function getReviewQueue(
-  locale: string
+  locale: string,
+  filters: ReviewQueueFilters = {}
 ): Promise<
-  | {
-    success: true;
-    data: Array<{
-      id: string;
-      slug: string;
-      title: string | null;
-      typeCategory: string;
-      createdAt: Date;
-      updatedAt: Date;
-    }>;
-  }
+  | { success: true; data: ReviewQueueItem[] }
   | { success: false; error: string }
 > {
   try {
@@ -890,43 +1244,84 @@ export async function getReviewQueue(
       return { success: false, error: 'Locale is required' };
     }
 
-    // Query constructions with status = 'review' (Phase 5.9.7.1: Review queue shows only 'review' status)
-    // Join with construction_translations for mills/pocas and water_line_translations for water lines
-    const drafts = await db
-      .select({
-        id: constructions.id,
-        slug: constructions.slug,
-        typeCategory: constructions.typeCategory,
-        createdAt: constructions.createdAt,
-        updatedAt: constructions.updatedAt,
-        title: constructionTranslations.title,
-        waterLineName: waterLineTranslations.name,
-      })
-      .from(constructions)
-      .leftJoin(
-        constructionTranslations,
-        and(
-          eq(constructionTranslations.constructionId, constructions.id),
-          eq(constructionTranslations.langCode, locale)
+    const userId = await getSessionUserId();
+
+    const assignmentCondition =
+      filters.assignment === 'mine' && userId
+        ? eq(reviewAssignments.reviewerId, userId)
+        : filters.assignment === 'unassigned'
+        ? isNull(reviewAssignments.reviewerId)
+        : undefined;
+
+    // Records entered the queue with their last status change (or were created in review)
+    const recordSubmittedAt = sql`coalesce(
+      (select max(${constructionRevisions.createdAt}) from ${constructionRevisions}
+       where ${constructionRevisions.constructionId} = ${constructions.id}
+         and (${constructionRevisions.diff} -> 'construction.status') is not null),
+      ${constructions.createdAt}
+    )`.mapWith(constructions.createdAt);
+
+    // Localized title joins shared by new records and pending edits
+    // (construction_translations for mills/pocas, water_line_translations for water lines)
+    const selectQueueItems = (pendingEditsOnly: boolean) => {
+      const query = db
+        .select({
+          id: constructions.id,
+          slug: constructions.slug,
+          typeCategory: constructions.typeCategory,
+          createdAt: pendingEditsOnly ? pendingEdits.createdAt : constructions.createdAt,
+          updatedAt: pendingEditsOnly ? pendingEdits.updatedAt : constructions.updatedAt,
+          submittedAt: pendingEditsOnly
+            ? sql`coalesce(${pendingEdits.submittedAt}, ${pendingEdits.updatedAt})`.mapWith(pendingEdits.updatedAt)
+            : recordSubmittedAt,
+          title: constructionTranslations.title,
+          waterLineName: waterLineTranslations.name,
+          reviewerId: reviewAssignments.reviewerId,
+          reviewerName: profiles.fullName,
+          dueDate: reviewAssignments.dueDate,
+          reviewStatus: reviewAssignments.reviewStatus,
+        })
+        .from(constructions)
+        .leftJoin(
+          constructionTranslations,
+          and(
+            eq(constructionTranslations.constructionId, constructions.id),
+            eq(constructionTranslations.langCode, locale)
+          )
         )
-      )
-      .leftJoin(
-        waterLines,
-        eq(waterLines.constructionId, constructions.id)
-      )
-      .leftJoin(
-        waterLineTranslations,
-        and(
-          eq(waterLineTranslations.waterLineId, waterLines.id),
-          eq(waterLineTranslations.locale, locale)
+        .leftJoin(
+          waterLines,
+          eq(waterLines.constructionId, constructions.id)
         )
-      )
-      .where(eq(constructions.status, 'review'))
-      .orderBy(desc(constructions.createdAt));
+        .leftJoin(
+          waterLineTranslations,
+          and(
+            eq(waterLineTranslations.waterLineId, waterLines.id),
+            eq(waterLineTranslations.locale, locale)
+          )
+        )
+        .leftJoin(reviewAssignments, eq(reviewAssignments.constructionId, constructions.id))
+        .leftJoin(profiles, eq(profiles.id, reviewAssignments.reviewerId));
+
+      return pendingEditsOnly
+        ? query
+          .innerJoin(pendingEdits, eq(pendingEdits.constructionId, constructions.id))
+          .where(and(eq(pendingEdits.status, 'review'), isNull(constructions.deletedAt), assignmentCondition))
+        : query.where(and(eq(constructions.status, 'review'), isNull(constructions.deletedAt), assignmentCondition));
+    };
+
+    // Query constructions with status = 'review' (Phase 5.9.7.1: Review queue shows only 'review' status)
+    // plus pending edits of published records submitted for review
+    const [drafts, edits] = await Promise.all([selectQueueItems(false), selectQueueItems(true)]);
+
+    const items = [
+      ...drafts.map((draft) => ({ ...draft, isPendingEdit: false })),
+      ...edits.map((edit) => ({ ...edit, isPendingEdit: true })),
+    ].sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
 
     return {
       success: true,
-      data: drafts.map((draft) => ({
+      data: items.map((draft) => ({
         id: draft.id,
         slug: draft.slug,
         // Use water line name if it's a water line, otherwise use construction title
@@ -934,6 +1329,12 @@ export async function getReviewQueue(
         typeCategory: draft.typeCategory,
         createdAt: draft.createdAt,
         updatedAt: draft.updatedAt,
+        isPendingEdit: draft.isPendingEdit,
+        submittedAt: draft.submittedAt,
+        reviewerId: draft.reviewerId,
+        reviewerName: draft.reviewerName,
+        dueDate: draft.dueDate,
+        reviewStatus: draft.reviewStatus as ReviewStatus | null,
       })),
     };
   } catch (error) {
@@ -1060,6 +1461,148 @@ const createMillConstructionSchema = z.object({
   status: z.enum(['draft', 'review']).optional(),
 });
 
+/**
+ * Inserts a validated mill into constructions, construction_translations and mills_data
+ *
+ * Shared by createMillConstruction and importMillConstructionsCsv; the caller owns
+ * the transaction so a bulk import can be committed or rolled back as a whole.
+ *
+ * @param tx - Drizzle transaction
+ * @param validated - Data parsed by createMillConstructionSchema
+ * @param slug - Unique slug for the new construction
+ * @param userId - Author (created_by)
+ * @returns The new construction's id and slug
+ */
+async function insertMillConstruction(
+  tx: DbTransaction,
+  validated: z.infer<typeof createMillConstructionSchema>,
+  slug: string,
+  userId: string
+): Promise<{ id: string; slug: string }> {
+  // Step 1: Insert into constructions (core data)
+  const insertValues = {
+    slug,
+    legacyId: validated.legacyId || null,
+    typeCategory: 'MILL',
+    geom: [validated.longitude, validated.latitude] as [number, number], // PostGIS: [lng, lat]
+    district: validated.district || null,
+    municipality: validated.municipality || null,
+    parish: validated.parish || null,
+    address: validated.address || null,
+    place: validated.place || null, // Phase 5.9.20.10: Lugar field
+    drainageBasin: validated.drainageBasin || null,
+    mainImage: validated.mainImage || null,
+    galleryImages: validated.galleryImages && validated.galleryImages.length > 0
+      ? validated.galleryImages
+      : null,
+    documentPaths: validated.documents && validated.documents.length > 0
+      ? validated.documents
+      : null,
+    status: (validated.status || 'draft') as 'draft' | 'review', // Phase 5.9.7.1: Use provided status or default to draft
+    createdBy: userId,
+  };
+
+  const [newConstruction] = await tx
+    .insert(constructions)
+    .values(insertValues)
+    .returning({ id: constructions.id, slug: constructions.slug });
+
+  if (!newConstruction) {
+    throw new Error('Failed to create construction');
+  }
+
+  // Step 2: Insert into construction_translations (i18n + conservation observations)
+  await tx.insert(constructionTranslations).values({
+    constructionId: newConstruction.id,
+    langCode: validated.locale,
+    title: validated.title,
+    description: validated.description || null,
+    observationsStructure: validated.observationsStructure || null,
+    observationsRoof: validated.observationsRoof || null,
+    observationsHydraulic: validated.observationsHydraulic || null,
+    observationsMechanism: validated.observationsMechanism || null,
+    observationsGeneral: validated.observationsGeneral || null,
+  });
+
+  // Step 3: Insert into mills_data (scientific/technical details - all sections)
+  await tx.insert(millsData).values({
+    constructionId: newConstruction.id,
+    typology: validated.typology,
+    // Characterization
+    epoch: validated.epoch || null,
+    setting: validated.setting || null,
+    currentUse: validated.currentUse || null,
+    // Access & Legal
+    access: validated.access || null,
+    legalProtection: validated.legalProtection || null,
+    propertyStatus: validated.propertyStatus || null,
+    // Architecture (Section III)
+    planShape: validated.planShape || null,
+    volumetry: validated.volumetry || null,
+    constructionTechnique: validated.constructionTechnique || null,
+    exteriorFinish: validated.exteriorFinish || null,
+    roofShape: validated.roofShape || null,
+    roofMaterial: validated.roofMaterial || null,
+    // Physical Dimensions (Phase 5.9.3.10)
+    length: validated.length || null,
+    width: validated.width || null,
+    height: validated.height || null,
+    // Data Transition: Stone Material
+    stoneTypeGranite: validated.stoneTypeGranite || false,
+    stoneTypeSchist: validated.stoneTypeSchist || false,
+    stoneTypeOther: validated.stoneTypeOther || false,
+    stoneMaterialDescription: validated.stoneMaterialDescription || null,
+    // Data Transition: Gable Roof Materials
+    gableMaterialLusa: validated.gableMaterialLusa || false,
+    gableMaterialMarselha: validated.gableMaterialMarselha || false,
+    gableMaterialMeiaCana: validated.gableMaterialMeiaCana || false,
+    // Motive Systems - Hydraulic (Section IV)
+    captationType: validated.captationType || null,
+    conductionType: validated.conductionType || null,
+    conductionState: validated.conductionState || null,
+    admissionRodizio: validated.admissionRodizio || null,
+    admissionAzenha: validated.admissionAzenha || null,
+    wheelTypeRodizio: validated.wheelTypeRodizio || null,
+    wheelTypeAzenha: validated.wheelTypeAzenha || null,
+    rodizioQty: validated.rodizioQty || null,
+    azenhaQty: validated.azenhaQty || null,
+    // Motive Systems - Wind
+    motiveApparatus: validated.motiveApparatus || null,
+    // Grinding Mechanism
+    millstoneQuantity: validated.millstoneQuantity || null,
+    millstoneDiameter: validated.millstoneDiameter || null,
+    millstoneState: validated.millstoneState || null,
+    hasTremonha: validated.hasTremonha || false,
+    hasQuelha: validated.hasQuelha || false,
+    hasUrreiro: validated.hasUrreiro || false,
+    hasAliviadouro: validated.hasAliviadouro || false,
+    hasFarinaleiro: validated.hasFarinaleiro || false,
+    // Epigraphy (Section V)
+    epigraphyPresence: validated.epigraphyPresence || false,
+    epigraphyLocation: validated.epigraphyLocation || null,
+    epigraphyType: validated.epigraphyType || null,
+    epigraphyDescription: validated.epigraphyDescription || null,
+    // Conservation Ratings (Section VI)
+    ratingStructure: validated.ratingStructure || null,
+    ratingRoof: validated.ratingRoof || null,
+    ratingHydraulic: validated.ratingHydraulic || null,
+    ratingMechanism: validated.ratingMechanism || null,
+    ratingOverall: validated.ratingOverall || null,
+    // Annexes
+    hasOven: validated.hasOven || false,
+    hasMillerHouse: validated.hasMillerHouse || false,
+    hasStable: validated.hasStable || false,
+    hasFullingMill: validated.hasFullingMill || false,
+    // Hydraulic Infrastructure (Phase 5.9.2.3)
+    waterLineId: validated.waterLineId || null,
+  });
+
+  // Revision history: initial version
+  await recordCreateRevision(tx, newConstruction.id, userId);
+
+  return newConstruction;
+}
+
 /**
  * Creates a new mill construction with all related data
  * 
@@ -1070,14 +1613,20 @@ const createMillConstructionSchema = z.object({
  * 2. Inserts into construction_translations (title/description for locale)
  * 3. Inserts into mills_data (scientific/technical details)
  * 
+ * Before inserting, existing mills nearby, with the same legacyId or with a similar title are
+ * looked up (src/lib/duplicates.ts). If any are found nothing is created and they are returned
+ * as `duplicates`; the form shows them and may resend with ignoreDuplicates.
+ * 
  * @param data - Form data containing all construction information
- * @returns Standardized response: { success: true, data?: { id: string, slug: string } } or { success: false, error: string }
+ * @param options.ignoreDuplicates - Skip the duplicate check (user confirmed it is a different mill)
+ * @returns Standardized response: { success: true, data?: { id: string, slug: string } } or { success: false, error: string, duplicates?: DuplicateMatches }
  */
 export async function createMillConstruction(
-  data: z.infer<typeof createMillConstructionSchema>
+  data: z.infer<typeof createMillConstructionSchema>,
+  options: { ignoreDuplicates?: boolean } = {}
 ): Promise<
   | { success: true; data: { id: string; slug: string } }
-  | { success: false; error: string }
+  | { success: false; error: string; duplicates?: DuplicateMatches }
 > {
   try {
     // Verify researcher or admin role
@@ -1101,6 +1650,37 @@ export async function createMillConstruction(
 
     const validated = validationResult.data;
 
+    const isUserAdmin = await isAdmin();
+
+    // Regional teams: researchers only create mills in their regions
+    const scopeBlocker = getGeoScopeBlocker(await getUserGeoScope(userId, isUserAdmin), validated);
+    if (scopeBlocker) {
+      return { success: false, error: scopeBlocker };
+    }
+
+    // Submitting straight to review requires the mandatory Ficha fields
+    if (validated.status === 'review') {
+      const readinessError = getReviewReadinessError(validated);
+      if (readinessError) {
+        return { success: false, error: readinessError };
+      }
+    }
+
+    // Stop on likely duplicates unless the user confirmed this is a different mill
+    if (!options.ignoreDuplicates) {
+      const duplicates = await findMillDuplicateCandidates({
+        latitude: validated.latitude,
+        longitude: validated.longitude,
+        legacyId: validated.legacyId,
+        title: validated.title,
+        locale: validated.locale,
+        viewer: { userId, isAdmin: isUserAdmin },
+      });
+      if (duplicates.candidates.length > 0 || duplicates.hiddenCount > 0) {
+        return { success: false, error: 'Possible duplicate mills found', duplicates };
+      }
+    }
+
     // Generate unique slug from title
     const baseSlug = generateSlug(validated.title);
 
@@ -1117,141 +1697,251 @@ export async function createMillConstruction(
     const uniqueSlug = await generateUniqueSlug(baseSlug, slugExists);
 
     // Use database transaction to ensure atomicity
-    const result = await db.transaction(async (tx) => {
-      // Step 1: Insert into constructions (core data)
-      const insertValues = {
-        slug: uniqueSlug,
-        legacyId: validated.legacyId || null,
-        typeCategory: 'MILL',
-        geom: [validated.longitude, validated.latitude] as [number, number], // PostGIS: [lng, lat]
-        district: validated.district || null,
-        municipality: validated.municipality || null,
-        parish: validated.parish || null,
-        address: validated.address || null,
-        place: validated.place || null, // Phase 5.9.20.10: Lugar field
-        drainageBasin: validated.drainageBasin || null,
-        mainImage: validated.mainImage || null,
-        galleryImages: validated.galleryImages && validated.galleryImages.length > 0
-          ? validated.galleryImages
-          : null,
-        documentPaths: validated.documents && validated.documents.length > 0
-          ? validated.documents
-          : null,
-        status: (validated.status || 'draft') as 'draft' | 'review', // Phase 5.9.7.1: Use provided status or default to draft
-        createdBy: userId,
+    const result = await db.transaction((tx) =>
+      insertMillConstruction(tx, validated, uniqueSlug, userId)
+    );
+
+    // Revalidate dashboard pages to show new draft
+    revalidatePath('/en/dashboard');
+    revalidatePath('/pt/dashboard');
+    revalidatePath('/en/dashboard/review');
+    revalidatePath('/pt/dashboard/review');
+
+    return { success: true, data: { id: result.id, slug: result.slug } };
+  } catch (error) {
+    console.error('[createMillConstruction]:', error);
+    return { success: false, error: 'An error occurred while creating the construction' };
+  }
+}
+
+/**
+ * Maximum number of data rows accepted in a single CSV import
+ */
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Per-row outcome of a mill CSV import
+ */
+export interface MillImportRowResult {
+  rowNumber: number; // Spreadsheet row number (header is row 1)
+  legacyId: string | null;
+  title: string | null;
+  errors: string[]; // Empty when the row is valid
+  construction?: { id: string; slug: string }; // Set once the draft has been created
+}
+
+/**
+ * Report returned by importMillConstructionsCsv (dry run or real import)
+ */
+export interface MillImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdCount: number;
+  ignoredColumns: string[]; // CSV headers that do not map to any field
+  rows: MillImportRowResult[];
+}
+
+/**
+ * Imports transcribed paper inventory fichas from a CSV file as draft mills
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * Every row is validated with createMillConstructionSchema (enum cells are first
+ * checked against the pgEnums by parseMillImportCsv). legacyId values must be unique
+ * within the file and not already present in the inventory, so re-importing the same
+ * spreadsheet never duplicates records. waterLineId must reference an existing levada.
+ *
+ * - dryRun: validates only and returns the row-by-row report
+ * - otherwise: refuses to import if any row is invalid, then creates all rows as
+ *   drafts in a single transaction (all or nothing), preserving legacyId
+ *
+ * @param csvText - Raw CSV file contents (',' or ';' delimited, header row required)
+ * @param options - Locale of the transcribed titles/descriptions and dry-run flag
+ * @returns Standardized response with the import report
+ */
+export async function importMillConstructionsCsv(
+  csvText: string,
+  options: { locale: 'pt' | 'en'; dryRun: boolean }
+): Promise<
+  | { success: true; data: MillImportReport }
+  | { success: false; error: string }
+> {
+  try {
+    // Verify researcher or admin role
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    // Get current user ID for audit trail
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    if (options.locale !== 'pt' && options.locale !== 'en') {
+      return { success: false, error: 'Invalid locale. Must be "pt" or "en"' };
+    }
+
+    const parsed = parseMillImportCsv(csvText);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    if (parsed.data.rows.length > MAX_IMPORT_ROWS) {
+      return {
+        success: false,
+        error: `Too many rows (${parsed.data.rows.length}). Split the file into batches of at most ${MAX_IMPORT_ROWS} rows`,
       };
+    }
 
-      // Debug logging: Print the exact values being sent to the database
-      console.log('[createMillConstruction]: Inserting into constructions table with values:', JSON.stringify(insertValues, null, 2));
+    // Find legacy IDs that already exist in the inventory
+    const fileLegacyIds = parsed.data.rows
+      .map((row) => row.values.legacyId)
+      .filter((legacyId): legacyId is string => typeof legacyId === 'string');
+    const existingLegacyIds = new Set(
+      fileLegacyIds.length > 0
+        ? (
+            await db
+              .select({ legacyId: constructions.legacyId })
+              .from(constructions)
+              .where(inArray(constructions.legacyId, fileLegacyIds))
+          ).map((row) => row.legacyId)
+        : []
+    );
+
+    // Find the referenced levadas that exist (an unknown ID would only fail on insert)
+    const fileWaterLineIds = parsed.data.rows
+      .map((row) => row.values.waterLineId)
+      .filter((waterLineId): waterLineId is string => typeof waterLineId === 'string')
+      // Malformed IDs are reported by the schema (and would fail the uuid comparison)
+      .filter((waterLineId) => z.string().uuid().safeParse(waterLineId).success);
+    const existingWaterLineIds = new Set(
+      fileWaterLineIds.length > 0
+        ? (
+            await db
+              .select({ id: waterLines.id })
+              .from(waterLines)
+              .innerJoin(constructions, eq(constructions.id, waterLines.constructionId))
+              .where(and(inArray(waterLines.id, fileWaterLineIds), isNull(constructions.deletedAt)))
+          ).map((row) => row.id)
+        : []
+    );
+
+    // Regional teams: every row must be in the researcher's regions
+    const scope = await getUserGeoScope(userId, await isAdmin());
+
+    // Validate every row
+    const seenLegacyIds = new Set<string>();
+    const validatedRows: { result: MillImportRowResult; data?: z.infer<typeof createMillConstructionSchema> }[] =
+      parsed.data.rows.map((row) => {
+        const errors = [...row.errors];
+        const legacyId = typeof row.values.legacyId === 'string' ? row.values.legacyId : null;
+        const title = typeof row.values.title === 'string' ? row.values.title : null;
+
+        if (legacyId) {
+          if (existingLegacyIds.has(legacyId)) {
+            errors.push(`legacyId: "${legacyId}" already exists in the inventory`);
+          } else if (seenLegacyIds.has(legacyId)) {
+            errors.push(`legacyId: "${legacyId}" appears more than once in the file`);
+          }
+          seenLegacyIds.add(legacyId);
+        }
 
-      const [newConstruction] = await tx
-        .insert(constructions)
-        .values(insertValues)
-        .returning({ id: constructions.id, slug: constructions.slug });
+        const validationResult = createMillConstructionSchema.safeParse({
+          ...row.values,
+          locale: options.locale,
+          status: 'draft',
+        });
 
-      if (!newConstruction) {
-        throw new Error('Failed to create construction');
-      }
+        if (!validationResult.success) {
+          // Skip schema issues for cells that already failed type/enum coercion
+          const erroredFields = new Set(row.errors.map((error) => error.split(':')[0]));
+          for (const issue of validationResult.error.issues) {
+            const field = issue.path.join('.');
+            if (!erroredFields.has(field)) {
+              errors.push(`${field}: ${issue.message}`);
+            }
+          }
+        }
 
-      // Step 2: Insert into construction_translations (i18n + conservation observations)
-      await tx.insert(constructionTranslations).values({
-        constructionId: newConstruction.id,
-        langCode: validated.locale,
-        title: validated.title,
-        description: validated.description || null,
-        observationsStructure: validated.observationsStructure || null,
-        observationsRoof: validated.observationsRoof || null,
-        observationsHydraulic: validated.observationsHydraulic || null,
-        observationsMechanism: validated.observationsMechanism || null,
-        observationsGeneral: validated.observationsGeneral || null,
-      });
+        if (validationResult.success) {
+          const waterLineId = validationResult.data.waterLineId;
+          if (waterLineId && !existingWaterLineIds.has(waterLineId)) {
+            errors.push(`waterLineId: no levada with ID "${waterLineId}"`);
+          }
 
-      // Step 3: Insert into mills_data (scientific/technical details - all sections)
-      await tx.insert(millsData).values({
-        constructionId: newConstruction.id,
-        typology: validated.typology,
-        // Characterization
-        epoch: validated.epoch || null,
-        setting: validated.setting || null,
-        currentUse: validated.currentUse || null,
-        // Access & Legal
-        access: validated.access || null,
-        legalProtection: validated.legalProtection || null,
-        propertyStatus: validated.propertyStatus || null,
-        // Architecture (Section III)
-        planShape: validated.planShape || null,
-        volumetry: validated.volumetry || null,
-        constructionTechnique: validated.constructionTechnique || null,
-        exteriorFinish: validated.exteriorFinish || null,
-        roofShape: validated.roofShape || null,
-        roofMaterial: validated.roofMaterial || null,
-        // Physical Dimensions (Phase 5.9.3.10)
-        length: validated.length || null,
-        width: validated.width || null,
-        height: validated.height || null,
-        // Data Transition: Stone Material
-        stoneTypeGranite: validated.stoneTypeGranite || false,
-        stoneTypeSchist: validated.stoneTypeSchist || false,
-        stoneTypeOther: validated.stoneTypeOther || false,
-        stoneMaterialDescription: validated.stoneMaterialDescription || null,
-        // Data Transition: Gable Roof Materials
-        gableMaterialLusa: validated.gableMaterialLusa || false,
-        gableMaterialMarselha: validated.gableMaterialMarselha || false,
-        gableMaterialMeiaCana: validated.gableMaterialMeiaCana || false,
-        // Motive Systems - Hydraulic (Section IV)
-        captationType: validated.captationType || null,
-        conductionType: validated.conductionType || null,
-        conductionState: validated.conductionState || null,
-        admissionRodizio: validated.admissionRodizio || null,
-        admissionAzenha: validated.admissionAzenha || null,
-        wheelTypeRodizio: validated.wheelTypeRodizio || null,
-        wheelTypeAzenha: validated.wheelTypeAzenha || null,
-        rodizioQty: validated.rodizioQty || null,
-        azenhaQty: validated.azenhaQty || null,
-        // Motive Systems - Wind
-        motiveApparatus: validated.motiveApparatus || null,
-        // Grinding Mechanism
-        millstoneQuantity: validated.millstoneQuantity || null,
-        millstoneDiameter: validated.millstoneDiameter || null,
-        millstoneState: validated.millstoneState || null,
-        hasTremonha: validated.hasTremonha || false,
-        hasQuelha: validated.hasQuelha || false,
-        hasUrreiro: validated.hasUrreiro || false,
-        hasAliviadouro: validated.hasAliviadouro || false,
-        hasFarinaleiro: validated.hasFarinaleiro || false,
-        // Epigraphy (Section V)
-        epigraphyPresence: validated.epigraphyPresence || false,
-        epigraphyLocation: validated.epigraphyLocation || null,
-        epigraphyType: validated.epigraphyType || null,
-        epigraphyDescription: validated.epigraphyDescription || null,
-        // Conservation Ratings (Section VI)
-        ratingStructure: validated.ratingStructure || null,
-        ratingRoof: validated.ratingRoof || null,
-        ratingHydraulic: validated.ratingHydraulic || null,
-        ratingMechanism: validated.ratingMechanism || null,
-        ratingOverall: validated.ratingOverall || null,
-        // Annexes
-        hasOven: validated.hasOven || false,
-        hasMillerHouse: validated.hasMillerHouse || false,
-        hasStable: validated.hasStable || false,
-        hasFullingMill: validated.hasFullingMill || false,
-        // Hydraulic Infrastructure (Phase 5.9.2.3)
-        waterLineId: validated.waterLineId || null,
+          const scopeBlocker = getGeoScopeBlocker(scope, validationResult.data);
+          if (scopeBlocker) {
+            errors.push(`district: ${scopeBlocker}`);
+          }
+        }
+
+        return {
+          result: { rowNumber: row.rowNumber, legacyId, title, errors },
+          data: validationResult.success && errors.length === 0 ? validationResult.data : undefined,
+        };
       });
 
-      return newConstruction;
+    const invalidRows = validatedRows.filter((row) => row.result.errors.length > 0).length;
+
+    const report: MillImportReport = {
+      dryRun: options.dryRun,
+      totalRows: validatedRows.length,
+      validRows: validatedRows.length - invalidRows,
+      invalidRows,
+      createdCount: 0,
+      ignoredColumns: parsed.data.ignoredColumns,
+      rows: validatedRows.map((row) => row.result),
+    };
+
+    if (options.dryRun) {
+      return { success: true, data: report };
+    }
+
+    if (invalidRows > 0) {
+      return {
+        success: false,
+        error: `Import aborted: ${invalidRows} row(s) have errors. Run a dry run to see the report.`,
+      };
+    }
+
+    // Create all drafts atomically
+    await db.transaction(async (tx) => {
+      const usedSlugs = new Set<string>();
+      const slugExists = async (slug: string): Promise<boolean> => {
+        if (usedSlugs.has(slug)) return true;
+        const existing = await tx
+          .select({ id: constructions.id })
+          .from(constructions)
+          .where(eq(constructions.slug, slug))
+          .limit(1);
+        return existing.length > 0;
+      };
+
+      for (const row of validatedRows) {
+        const validated = row.data!;
+        const uniqueSlug = await generateUniqueSlug(generateSlug(validated.title), slugExists);
+        usedSlugs.add(uniqueSlug);
+
+        row.result.construction = await insertMillConstruction(tx, validated, uniqueSlug, userId);
+      }
     });
 
-    // Revalidate dashboard pages to show new draft
+    report.createdCount = validatedRows.length;
+
+    // Revalidate dashboard pages to show the new drafts
     revalidatePath('/en/dashboard');
     revalidatePath('/pt/dashboard');
-    revalidatePath('/en/dashboard/review');
-    revalidatePath('/pt/dashboard/review');
+    revalidatePath('/en/dashboard/inventory');
+    revalidatePath('/pt/dashboard/inventory');
 
-    return { success: true, data: { id: result.id, slug: result.slug } };
+    return { success: true, data: report };
   } catch (error) {
-    console.error('[createMillConstruction]:', error);
-    return { success: false, error: 'An error occurred while creating the construction' };
+    console.error('[importMillConstructionsCsv]:', error);
+    return { success: false, error: 'An error occurred while importing the CSV file' };
   }
 }
 
@@ -1375,6 +2065,9 @@ export async function createWaterLine(
         description: validated.description || null,
       });
 
+      // Step 4: Revision history (initial version)
+      await recordCreateRevision(tx, newConstruction.id, userId);
+
       return newWaterLine;
     });
 
@@ -1495,6 +2188,9 @@ export async function createPocaConstruction(
         waterLineId: validated.waterLineId,
       });
 
+      // Step 4: Revision history (initial version)
+      await recordCreateRevision(tx, newConstruction.id, userId);
+
       return newConstruction;
     });
 
@@ -1523,6 +2219,91 @@ export interface InventoryItem {
   createdAt: Date;
   updatedAt: Date;
   createdBy: string | null; // Phase 5.9.7.2: Include for permission checks
+  isAuthor: boolean; // Current user owns or co-authors the item (see src/lib/contributors.ts)
+  completeness: number | null; // Ficha completeness score 0-100 (mills only, see src/lib/completeness.ts)
+}
+
+/**
+ * Inventory list filters (shared by the dashboard table and the tabular export)
+ */
+export interface InventoryFilters {
+  type?: 'MILL' | 'LEVADA' | 'POCA' | 'ALL';
+  status?: 'draft' | 'review' | 'published' | 'ALL';
+  myProjects?: boolean; // Phase 5.9.7.1: Filter by current user's drafts
+  ids?: string[]; // Only these constructions (bulk export of a selection)
+}
+
+/**
+ * Builds the role-based status conditions for inventory queries
+ *
+ * Phase 5.9.7.2:
+ * - "My Projects": only the user's own drafts (owned or co-authored)
+ * - Researchers: their own drafts + all published items (never review items)
+ * - Admins: everything, optionally narrowed by the status filter
+ * - Researchers scoped to regions: only the mills in those regions
+ *
+ * @param filters - Inventory filters (status, myProjects)
+ * @param userId - Current user's UUID
+ * @param isUserAdmin - Whether the current user is an admin
+ * @param scope - Regions of the user (null = not restricted), see getUserGeoScope
+ * @returns Array of SQL conditions on the constructions table
+ */
+function getInventoryAccessConditions(
+  filters: InventoryFilters | undefined,
+  userId: string,
+  isUserAdmin: boolean,
+  scope: GeoScope | null
+): SQL[] {
+  // Trashed records are only listed in the Trash view
+  const conditions: SQL[] = [isNull(constructions.deletedAt)];
+
+  if (filters?.ids) {
+    conditions.push(filters.ids.length > 0 ? inArray(constructions.id, filters.ids) : sql`1 = 0`);
+  }
+
+  if (scope) {
+    conditions.push(or(ne(constructions.typeCategory, 'MILL'), getGeoScopeCondition(scope))!);
+  }
+
+  if (filters?.myProjects) {
+    // "My Projects" tab: show only user's drafts
+    conditions.push(getAuthorshipCondition(userId));
+    conditions.push(eq(constructions.status, 'draft'));
+  } else if (!isUserAdmin) {
+    // Researchers: see only their own draft items + all published items
+    // Apply status filter if specified, but respect role-based restrictions
+    if (filters?.status && filters.status !== 'ALL') {
+      if (filters.status === 'draft') {
+        // Only show drafts owned by the user
+        conditions.push(getAuthorshipCondition(userId));
+        conditions.push(eq(constructions.status, 'draft'));
+      } else if (filters.status === 'published') {
+        // Show all published items
+        conditions.push(eq(constructions.status, 'published'));
+      } else if (filters.status === 'review') {
+        // Researchers don't see review items in inventory (only admins do)
+        conditions.push(sql`1 = 0`); // Always false - no results
+      }
+    } else {
+      // No status filter: show user's drafts + all published
+      conditions.push(
+        or(
+          and(
+            getAuthorshipCondition(userId),
+            eq(constructions.status, 'draft')
+          ),
+          eq(constructions.status, 'published')
+        )!
+      );
+    }
+  } else {
+    // Admins: see everything - apply status filter if specified
+    if (filters?.status && filters.status !== 'ALL') {
+      conditions.push(eq(constructions.status, filters.status));
+    }
+  }
+
+  return conditions;
 }
 
 /**
@@ -1537,11 +2318,7 @@ export interface InventoryItem {
  */
 export async function getInventoryItems(
   locale: string,
-  filters?: {
-    type?: 'MILL' | 'LEVADA' | 'POCA' | 'ALL';
-    status?: 'draft' | 'review' | 'published' | 'ALL';
-    myProjects?: boolean; // Phase 5.9.7.1: Filter by current user's drafts
-  },
+  filters?: InventoryFilters,
   searchQuery?: string
 ): Promise<
   | { success: true; data: InventoryItem[] }
@@ -1565,6 +2342,7 @@ export async function getInventoryItems(
       return { success: false, error: 'User not authenticated' };
     }
     const isUserAdmin = await isAdmin();
+    const scope = await getUserGeoScope(userId, isUserAdmin);
 
     const items: InventoryItem[] = [];
 
@@ -1593,43 +2371,7 @@ export async function getInventoryItems(
       // If no type filter, default behavior includes MILL and POCA
 
       // Phase 5.9.7.2: Role-based filtering
-      if (filters?.myProjects) {
-        // "My Projects" tab: show only user's drafts
-        whereConditions.push(eq(constructions.createdBy, userId));
-        whereConditions.push(eq(constructions.status, 'draft'));
-      } else if (!isUserAdmin) {
-        // Researchers: see only their own draft items + all published items
-        // Apply status filter if specified, but respect role-based restrictions
-        if (filters?.status && filters.status !== 'ALL') {
-          if (filters.status === 'draft') {
-            // Only show drafts owned by the user
-            whereConditions.push(eq(constructions.createdBy, userId));
-            whereConditions.push(eq(constructions.status, 'draft'));
-          } else if (filters.status === 'published') {
-            // Show all published items
-            whereConditions.push(eq(constructions.status, 'published'));
-          } else if (filters.status === 'review') {
-            // Researchers don't see review items in inventory (only admins do)
-            whereConditions.push(sql`1 = 0`); // Always false - no results
-          }
-        } else {
-          // No status filter: show user's drafts + all published
-          whereConditions.push(
-            or(
-              and(
-                eq(constructions.createdBy, userId),
-                eq(constructions.status, 'draft')
-              ),
-              eq(constructions.status, 'published')
-            )
-          );
-        }
-      } else {
-        // Admins: see everything - apply status filter if specified
-        if (filters?.status && filters.status !== 'ALL') {
-          whereConditions.push(eq(constructions.status, filters.status));
-        }
-      }
+      whereConditions.push(...getInventoryAccessConditions(filters, userId, isUserAdmin, scope));
 
       // Apply search query (searches in title)
       if (searchQuery && searchQuery.trim()) {
@@ -1653,6 +2395,7 @@ export async function getInventoryItems(
           updatedAt: constructions.updatedAt,
           title: constructionTranslations.title,
           createdBy: constructions.createdBy, // Phase 5.9.7.2: Include for permission checks
+          isAuthor: sql<boolean>`(${getAuthorshipCondition(userId)})`,
         })
         .from(constructions)
         .leftJoin(
@@ -1680,6 +2423,18 @@ export async function getInventoryItems(
         }
       }
 
+      // Completeness scores: mills data fetched separately to keep one row per construction
+      const millIds = Array.from(uniqueConstructions.values())
+        .filter((row) => row.typeCategory === 'MILL')
+        .map((row) => row.id);
+      const completenessById = new Map<string, number>();
+      if (millIds.length > 0) {
+        const millRows = await db.select().from(millsData).where(inArray(millsData.constructionId, millIds));
+        for (const mill of millRows) {
+          completenessById.set(mill.constructionId, computeCompleteness(mill).score);
+        }
+      }
+
       items.push(
         ...Array.from(uniqueConstructions.values()).map((row) => ({
           id: row.id,
@@ -1690,6 +2445,8 @@ export async function getInventoryItems(
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           createdBy: row.createdBy, // Phase 5.9.7.2: Include for permission checks
+          isAuthor: row.isAuthor,
+          completeness: completenessById.get(row.id) ?? null,
         }))
       );
     }
@@ -1702,43 +2459,7 @@ export async function getInventoryItems(
       ];
 
       // Phase 5.9.7.2: Role-based filtering for water lines (same as mills)
-      if (filters?.myProjects) {
-        // "My Projects" tab: show only user's drafts
-        whereConditions.push(eq(constructions.createdBy, userId));
-        whereConditions.push(eq(constructions.status, 'draft'));
-      } else if (!isUserAdmin) {
-        // Researchers: see only their own draft items + all published items
-        // Apply status filter if specified, but respect role-based restrictions
-        if (filters?.status && filters.status !== 'ALL') {
-          if (filters.status === 'draft') {
-            // Only show drafts owned by the user
-            whereConditions.push(eq(constructions.createdBy, userId));
-            whereConditions.push(eq(constructions.status, 'draft'));
-          } else if (filters.status === 'published') {
-            // Show all published items
-            whereConditions.push(eq(constructions.status, 'published'));
-          } else if (filters.status === 'review') {
-            // Researchers don't see review items in inventory (only admins do)
-            whereConditions.push(sql`1 = 0`); // Always false - no results
-          }
-        } else {
-          // No status filter: show user's drafts + all published
-          whereConditions.push(
-            or(
-              and(
-                eq(constructions.createdBy, userId),
-                eq(constructions.status, 'draft')
-              ),
-              eq(constructions.status, 'published')
-            )!
-          );
-        }
-      } else {
-        // Admins: see everything - apply status filter if specified
-        if (filters?.status && filters.status !== 'ALL') {
-          whereConditions.push(eq(constructions.status, filters.status));
-        }
-      }
+      whereConditions.push(...getInventoryAccessConditions(filters, userId, isUserAdmin, scope));
 
       // Apply search query (searches in name)
       if (searchQuery && searchQuery.trim()) {
@@ -1757,6 +2478,7 @@ export async function getInventoryItems(
           name: waterLineTranslations.name,
           status: constructions.status, // Phase 5.9.7.1: Include actual status from database
           createdBy: constructions.createdBy, // Phase 5.9.7.2: Include for permission checks
+          isAuthor: sql<boolean>`(${getAuthorshipCondition(userId)})`,
         })
         .from(constructions)
         .innerJoin(
@@ -1789,6 +2511,8 @@ export async function getInventoryItems(
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           createdBy: row.createdBy, // Phase 5.9.7.2: Include for permission checks
+          isAuthor: row.isAuthor,
+          completeness: null,
         }))
       );
     }
@@ -1803,6 +2527,173 @@ export async function getInventoryItems(
   }
 }
 
+/**
+ * Mills data columns as returned by the export (nullable for poças and levadas)
+ */
+type MillsDataExportColumns = {
+  [K in Exclude<keyof typeof millsData.$inferSelect, 'constructionId'>]: (typeof millsData.$inferSelect)[K] | null;
+};
+
+/**
+ * Full tabular row for the inventory export (CSV/XLSX)
+ *
+ * One row per construction: core constructions columns, coordinates as separate
+ * lat/lng columns, translated fields for the requested locale, and every mills_data
+ * column (null for poças and levadas).
+ */
+export type InventoryExportRow = {
+  id: string;
+  slug: string;
+  legacyId: string | null;
+  typeCategory: string;
+  status: 'draft' | 'review' | 'published';
+  lat: number | null;
+  lng: number | null;
+  district: string | null;
+  municipality: string | null;
+  parish: string | null;
+  address: string | null;
+  place: string | null;
+  drainageBasin: string | null;
+  mainImage: string | null;
+  galleryImages: string[] | null;
+  customIconUrl: string | null;
+  documentPaths: string[] | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  // Translated fields (construction_translations, or water_line_translations for levadas)
+  title: string | null;
+  description: string | null;
+  observationsStructure: string | null;
+  observationsRoof: string | null;
+  observationsHydraulic: string | null;
+  observationsMechanism: string | null;
+  observationsGeneral: string | null;
+} & MillsDataExportColumns;
+
+/**
+ * Fetches the full inventory as flat rows for the CSV/XLSX export
+ *
+ * Honours the same type/status/myProjects filters and role-based visibility as
+ * getInventoryItems, so the export always matches the dashboard table.
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @param locale - Locale for translated fields ('en' | 'pt')
+ * @param filters - Optional filters for type and status
+ * @param searchQuery - Optional text search query (searches in title/name)
+ * @returns Standardized response with array of export rows
+ */
+export async function getInventoryExportRows(
+  locale: string,
+  filters?: InventoryFilters,
+  searchQuery?: string
+): Promise<
+  | { success: true; data: InventoryExportRow[] }
+  | { success: false; error: string }
+> {
+  try {
+    // Verify researcher or admin role
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    // Validate locale
+    if (!locale || (locale !== 'pt' && locale !== 'en')) {
+      return { success: false, error: 'Invalid locale. Must be "pt" or "en"' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+    const isUserAdmin = await isAdmin();
+    const scope = await getUserGeoScope(userId, isUserAdmin);
+
+    const whereConditions = getInventoryAccessConditions(filters, userId, isUserAdmin, scope);
+
+    // Map inventory type filter to constructions.type_category
+    if (filters?.type === 'MILL') {
+      whereConditions.push(eq(constructions.typeCategory, 'MILL'));
+    } else if (filters?.type === 'POCA') {
+      whereConditions.push(eq(constructions.typeCategory, 'POCA'));
+    } else if (filters?.type === 'LEVADA') {
+      whereConditions.push(eq(constructions.typeCategory, 'water_line'));
+    }
+
+    // Apply search query (title for mills/poças, name for levadas)
+    if (searchQuery && searchQuery.trim()) {
+      const searchPattern = `%${searchQuery.trim()}%`;
+      whereConditions.push(
+        sql`LOWER(COALESCE(${constructionTranslations.title}, ${waterLineTranslations.name})) LIKE LOWER(${searchPattern})`
+      );
+    }
+
+    // All mills_data columns except the FK (already exported as id)
+    const { constructionId: _millConstructionId, ...millColumns } = getTableColumns(millsData);
+
+    // Left joins only: every extension table is 1:1 with constructions and each
+    // translation table has a composite (id, locale) key, so there is one row per construction
+    const results = await db
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        legacyId: constructions.legacyId,
+        typeCategory: constructions.typeCategory,
+        status: constructions.status,
+        lat: sql<number | null>`ST_Y(${constructions.geom}::geometry)`,
+        lng: sql<number | null>`ST_X(${constructions.geom}::geometry)`,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        parish: constructions.parish,
+        address: constructions.address,
+        place: constructions.place,
+        drainageBasin: constructions.drainageBasin,
+        mainImage: constructions.mainImage,
+        galleryImages: constructions.galleryImages,
+        customIconUrl: constructions.customIconUrl,
+        documentPaths: constructions.documentPaths,
+        createdBy: constructions.createdBy,
+        createdAt: constructions.createdAt,
+        updatedAt: constructions.updatedAt,
+        title: sql<string | null>`COALESCE(${constructionTranslations.title}, ${waterLineTranslations.name})`,
+        description: sql<string | null>`COALESCE(${constructionTranslations.description}, ${waterLineTranslations.description})`,
+        observationsStructure: constructionTranslations.observationsStructure,
+        observationsRoof: constructionTranslations.observationsRoof,
+        observationsHydraulic: constructionTranslations.observationsHydraulic,
+        observationsMechanism: constructionTranslations.observationsMechanism,
+        observationsGeneral: constructionTranslations.observationsGeneral,
+        ...millColumns,
+      })
+      .from(constructions)
+      .leftJoin(millsData, eq(millsData.constructionId, constructions.id))
+      .leftJoin(
+        constructionTranslations,
+        and(
+          eq(constructionTranslations.constructionId, constructions.id),
+          eq(constructionTranslations.langCode, locale)
+        )
+      )
+      .leftJoin(waterLines, eq(waterLines.constructionId, constructions.id))
+      .leftJoin(
+        waterLineTranslations,
+        and(
+          eq(waterLineTranslations.waterLineId, waterLines.id),
+          eq(waterLineTranslations.locale, locale)
+        )
+      )
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(desc(constructions.updatedAt));
+
+    return { success: true, data: results };
+  } catch (error) {
+    console.error('[getInventoryExportRows]:', error);
+    return { success: false, error: 'An error occurred while exporting the inventory' };
+  }
+}
+
 /**
  * Gets the type of an item by ID (MILL, POCA, or LEVADA)
  * 
@@ -1837,7 +2728,7 @@ export async function getItemTypeById(
         typeCategory: constructions.typeCategory,
       })
       .from(constructions)
-      .where(eq(constructions.id, id))
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (construction.length > 0) {
@@ -1890,6 +2781,7 @@ export async function getConstructionByIdForEdit(
     data: {
       id: string;
       slug: string;
+      version: string; // Optimistic concurrency: send back as expectedVersion when saving
       status: string;
       legacyId: string | null;
       district: string | null;
@@ -1924,6 +2816,7 @@ export async function getConstructionByIdForEdit(
       stoneTypeGranite: boolean;
       stoneTypeSchist: boolean;
       stoneTypeOther: boolean;
+      stoneMaterialDescription: string | null;
       gableMaterialLusa: boolean;
       gableMaterialMarselha: boolean;
       gableMaterialMeiaCana: boolean;
@@ -1995,7 +2888,9 @@ export async function getConstructionByIdForEdit(
     }
 
     // Query construction with all related data
-    const results = await db
+    // A pending edit (working copy of a published record) is loaded instead of the live rows,
+    // except for admins, who edit the live record
+    const results = await withPendingEditApplied(id, (executor) => executor
       .select({
         // Construction fields
         id: constructions.id,
@@ -2035,6 +2930,7 @@ export async function getConstructionByIdForEdit(
         stoneTypeGranite: millsData.stoneTypeGranite,
         stoneTypeSchist: millsData.stoneTypeSchist,
         stoneTypeOther: millsData.stoneTypeOther,
+        stoneMaterialDescription: millsData.stoneMaterialDescription,
         gableMaterialLusa: millsData.gableMaterialLusa,
         gableMaterialMarselha: millsData.gableMaterialMarselha,
         gableMaterialMeiaCana: millsData.gableMaterialMeiaCana,
@@ -2089,8 +2985,8 @@ export async function getConstructionByIdForEdit(
           eq(constructionTranslations.langCode, locale)
         )
       )
-      .where(eq(constructions.id, id))
-      .limit(1);
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
+      .limit(1), { live: isUserAdmin });
 
     if (results.length === 0) {
       return { success: false, error: 'Construction not found' };
@@ -2098,16 +2994,19 @@ export async function getConstructionByIdForEdit(
 
     const row = results[0]!;
 
-    // Security check: Only author or admin can edit
-    if (!isUserAdmin && row.createdBy !== userId) {
+    // Security check: Only authors (owner or co-authors) or admin can edit
+    if (!isUserAdmin && !(await isConstructionAuthor(db, row, userId))) {
       return { success: false, error: 'Unauthorized: You can only edit your own constructions' };
     }
 
+    const version = await getEditVersion(id, db, { live: isUserAdmin });
+
     return {
       success: true,
       data: {
         id: row.id,
         slug: row.slug,
+        version: version!,
         status: row.status,
         legacyId: row.legacyId,
         district: row.district,
@@ -2142,6 +3041,7 @@ export async function getConstructionByIdForEdit(
         stoneTypeGranite: row.stoneTypeGranite ?? false,
         stoneTypeSchist: row.stoneTypeSchist ?? false,
         stoneTypeOther: row.stoneTypeOther ?? false,
+        stoneMaterialDescription: row.stoneMaterialDescription,
         gableMaterialLusa: row.gableMaterialLusa ?? false,
         gableMaterialMarselha: row.gableMaterialMarselha ?? false,
         gableMaterialMeiaCana: row.gableMaterialMeiaCana ?? false,
@@ -2209,6 +3109,7 @@ export async function getWaterLineByIdForEdit(
     data: {
       id: string;
       slug: string;
+      version: string; // Optimistic concurrency: send back as expectedVersion when saving
       name: string;
       description: string | null;
       color: string;
@@ -2234,10 +3135,14 @@ export async function getWaterLineByIdForEdit(
       return { success: false, error: 'Locale is required' };
     }
 
+    const isUserAdmin = await isAdmin();
+
     // Query water line by construction ID with translation
     // Use INNER JOIN with constructions to ensure valid parent-child relationship
     // The edit URL uses construction ID, so we query by that
-    const results = await db
+    // A pending edit (working copy of a published record) is loaded instead of the live rows,
+    // except for admins, who edit the live record
+    const results = await withPendingEditApplied(id, (executor) => executor
       .select({
         id: waterLines.id,
         slug: constructions.slug, // Use construction slug
@@ -2262,10 +3167,11 @@ export async function getWaterLineByIdForEdit(
       .where(
         and(
           eq(constructions.id, id), // Query by construction ID (not water line ID)
-          eq(constructions.typeCategory, 'water_line')
+          eq(constructions.typeCategory, 'water_line'),
+          isNull(constructions.deletedAt)
         )
       )
-      .limit(1);
+      .limit(1), { live: isUserAdmin });
 
     if (results.length === 0) {
       return { success: false, error: 'Water line not found' };
@@ -2292,11 +3198,14 @@ export async function getWaterLineByIdForEdit(
       return { success: false, error: 'Invalid water line path' };
     }
 
+    const version = await getEditVersion(id, db, { live: isUserAdmin });
+
     return {
       success: true,
       data: {
         id: row.id,
         slug: row.slug,
+        version: version!,
         name: row.name || row.slug,
         description: row.description,
         color: row.color,
@@ -2329,6 +3238,7 @@ export async function getPocaByIdForEdit(
     data: {
       id: string;
       slug: string;
+      version: string; // Optimistic concurrency: send back as expectedVersion when saving
       title: string;
       latitude: number;
       longitude: number;
@@ -2363,7 +3273,9 @@ export async function getPocaByIdForEdit(
     const isUserAdmin = await isAdmin();
 
     // Query poça by construction ID with translation and pocas_data
-    const results = await db
+    // A pending edit (working copy of a published record) is loaded instead of the live rows,
+    // except for admins, who edit the live record
+    const results = await withPendingEditApplied(id, (executor) => executor
       .select({
         id: constructions.id,
         slug: constructions.slug,
@@ -2385,10 +3297,11 @@ export async function getPocaByIdForEdit(
       .where(
         and(
           eq(constructions.id, id),
-          eq(constructions.typeCategory, 'POCA')
+          eq(constructions.typeCategory, 'POCA'),
+          isNull(constructions.deletedAt)
         )
       )
-      .limit(1);
+      .limit(1), { live: isUserAdmin });
 
     if (results.length === 0) {
       return { success: false, error: 'Poça not found' };
@@ -2396,8 +3309,8 @@ export async function getPocaByIdForEdit(
 
     const row = results[0]!;
 
-    // Security check: Only author or admin can edit
-    if (!isUserAdmin && row.createdBy !== userId) {
+    // Security check: Only authors (owner or co-authors) or admin can edit
+    if (!isUserAdmin && !(await isConstructionAuthor(db, row, userId))) {
       return { success: false, error: 'Unauthorized: You can only edit your own poças' };
     }
 
@@ -2414,11 +3327,14 @@ export async function getPocaByIdForEdit(
 
     const [longitude, latitude] = coords; // PostGIS format: [lng, lat]
 
+    const version = await getEditVersion(id, db, { live: isUserAdmin });
+
     return {
       success: true,
       data: {
         id: row.id,
         slug: row.slug,
+        version: version!,
         title: row.title || row.slug,
         latitude,
         longitude,
@@ -2437,6 +3353,8 @@ export async function getPocaByIdForEdit(
  */
 const updateMillConstructionSchema = createMillConstructionSchema.extend({
   id: z.string().uuid('Invalid construction ID'),
+  // Optimistic concurrency: version the editor loaded (see getEditVersion), checked in the save transaction
+  expectedVersion: z.string().min(1, 'Record version is required'),
 });
 
 /**
@@ -2457,7 +3375,7 @@ export async function updateMillConstruction(
   data: z.infer<typeof updateMillConstructionSchema>
 ): Promise<
   | { success: true; data: { id: string; slug: string } }
-  | { success: false; error: string }
+  | { success: false; error: string; conflict?: EditConflict }
 > {
   try {
     // Verify researcher or admin role
@@ -2488,23 +3406,44 @@ export async function updateMillConstruction(
     const existing = await db
       .select({
         id: constructions.id,
+        slug: constructions.slug,
+        status: constructions.status,
         createdBy: constructions.createdBy,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        drainageBasin: constructions.drainageBasin,
       })
       .from(constructions)
-      .where(eq(constructions.id, validated.id))
+      .where(and(eq(constructions.id, validated.id), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (existing.length === 0) {
       return { success: false, error: 'Construction not found' };
     }
 
-    // Security check: Only author or admin can update
-    if (!isUserAdmin && existing[0]!.createdBy !== userId) {
+    // Security check: Only authors (owner or co-authors) or admin can update
+    if (!isUserAdmin && !(await isConstructionAuthor(db, existing[0]!, userId))) {
       return { success: false, error: 'Unauthorized: You can only edit your own constructions' };
     }
 
-    // Use database transaction to ensure atomicity
-    const result = await db.transaction(async (tx) => {
+    // Regional teams: the mill must be in the researcher's regions, before and after the edit
+    const scope = await getUserGeoScope(userId, isUserAdmin);
+    const scopeBlocker = getGeoScopeBlocker(scope, existing[0]!) ?? getGeoScopeBlocker(scope, validated);
+    if (scopeBlocker) {
+      return { success: false, error: scopeBlocker };
+    }
+
+    // Sending a draft (or a working copy) to review requires the mandatory Ficha fields;
+    // records already in review can still be corrected
+    if (validated.status === 'review' && existing[0]!.status !== 'review') {
+      const readinessError = getReviewReadinessError(validated);
+      if (readinessError) {
+        return { success: false, error: readinessError };
+      }
+    }
+
+    // Update logic, shared by live edits and pending edits (working copies)
+    const applyUpdate = async (tx: DbTransaction) => {
       // Step 1: Update constructions (core data)
       // Phase 5.9.7.1: Update status if provided (for draft/review workflow)
       const updateData: {
@@ -2678,6 +3617,32 @@ export async function updateMillConstruction(
         .where(eq(millsData.constructionId, validated.id));
 
       return updatedConstruction;
+    };
+
+    // Researchers' edits of a published record become a pending edit: the live version stays
+    // published until an admin approves the working copy from the review queue
+    if (existing[0]!.status === 'published' && !isUserAdmin) {
+      await savePendingEdit({
+        constructionId: validated.id,
+        authorId: userId,
+        status: validated.status,
+        expectedVersion: validated.expectedVersion,
+        applyUpdate,
+      });
+
+      revalidatePath('/en/dashboard');
+      revalidatePath('/pt/dashboard');
+      revalidatePath('/en/dashboard/review');
+      revalidatePath('/pt/dashboard/review');
+
+      return { success: true, data: { id: validated.id, slug: existing[0]!.slug } };
+    }
+
+    // Use database transaction to ensure atomicity (the edit is recorded in the revision history);
+    // the version is checked with the record locked so concurrent saves cannot both pass
+    const result = await db.transaction(async (tx) => {
+      await assertEditVersion(tx, validated.id, validated.expectedVersion, { live: isUserAdmin });
+      return withRevision(tx, { constructionId: validated.id, action: 'update', authorId: userId }, () => applyUpdate(tx));
     });
 
     // Revalidate dashboard pages and public pages
@@ -2692,6 +3657,10 @@ export async function updateMillConstruction(
 
     return { success: true, data: { id: result.id, slug: result.slug } };
   } catch (error) {
+    // Optimistic concurrency: the record changed since the editor loaded it (nothing was saved)
+    if (error instanceof EditConflictError) {
+      return { success: false, error: error.message, conflict: error.conflict };
+    }
     console.error('[updateMillConstruction]:', error);
     return { success: false, error: 'An error occurred while updating the construction' };
   }
@@ -2702,6 +3671,8 @@ export async function updateMillConstruction(
  */
 const updateWaterLineSchema = createWaterLineSchema.extend({
   id: z.string().uuid('Invalid water line ID'),
+  // Optimistic concurrency: version the editor loaded (see getEditVersion), checked in the save transaction
+  expectedVersion: z.string().min(1, 'Record version is required'),
 });
 
 /**
@@ -2720,7 +3691,7 @@ export async function updateWaterLine(
   data: z.infer<typeof updateWaterLineSchema>
 ): Promise<
   | { success: true; data: { id: string; slug: string } }
-  | { success: false; error: string }
+  | { success: false; error: string; conflict?: EditConflict }
 > {
   try {
     // Verify researcher or admin role
@@ -2760,8 +3731,24 @@ export async function updateWaterLine(
 
     const existingWaterLine = existing[0]!;
 
-    // Use database transaction to ensure atomicity
-    const result = await db.transaction(async (tx) => {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+    const isUserAdmin = await isAdmin();
+
+    const [existingConstruction] = await db
+      .select({ status: constructions.status })
+      .from(constructions)
+      .where(and(eq(constructions.id, existingWaterLine.constructionId), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!existingConstruction) {
+      return { success: false, error: 'Water line not found' };
+    }
+
+    // Update logic, shared by live edits and pending edits (working copies)
+    const applyUpdate = async (tx: DbTransaction) => {
       // Step 1: Update constructions (update geom from first point of path)
       // Use the first point of the path as the representative location
       const firstPoint = validated.path[0]!;
@@ -2839,6 +3826,32 @@ export async function updateWaterLine(
       }
 
       return updatedWaterLine;
+    };
+
+    // Researchers' edits of a published record become a pending edit: the live version stays
+    // published until an admin approves the working copy from the review queue
+    if (existingConstruction.status === 'published' && !isUserAdmin) {
+      await savePendingEdit({
+        constructionId: existingWaterLine.constructionId,
+        authorId: userId,
+        status: validated.status,
+        expectedVersion: validated.expectedVersion,
+        applyUpdate,
+      });
+
+      revalidatePath('/en/dashboard');
+      revalidatePath('/pt/dashboard');
+      revalidatePath('/en/dashboard/review');
+      revalidatePath('/pt/dashboard/review');
+
+      return { success: true, data: { id: existingWaterLine.id, slug: existingWaterLine.slug } };
+    }
+
+    // Use database transaction to ensure atomicity (the edit is recorded in the revision history);
+    // the version is checked with the record locked so concurrent saves cannot both pass
+    const result = await db.transaction(async (tx) => {
+      await assertEditVersion(tx, existingWaterLine.constructionId, validated.expectedVersion, { live: isUserAdmin });
+      return withRevision(tx, { constructionId: existingWaterLine.constructionId, action: 'update', authorId: userId }, () => applyUpdate(tx));
     });
 
     // Revalidate dashboard pages and public pages
@@ -2851,6 +3864,10 @@ export async function updateWaterLine(
 
     return { success: true, data: { id: result.id, slug: result.slug } };
   } catch (error) {
+    // Optimistic concurrency: the record changed since the editor loaded it (nothing was saved)
+    if (error instanceof EditConflictError) {
+      return { success: false, error: error.message, conflict: error.conflict };
+    }
     console.error('[updateWaterLine]:', error);
     return { success: false, error: 'An error occurred while updating the water line' };
   }
@@ -2861,6 +3878,8 @@ export async function updateWaterLine(
  */
 const updatePocaConstructionSchema = createPocaConstructionSchema.extend({
   id: z.string().uuid('Invalid construction ID'),
+  // Optimistic concurrency: version the editor loaded (see getEditVersion), checked in the save transaction
+  expectedVersion: z.string().min(1, 'Record version is required'),
 });
 
 /**
@@ -2881,7 +3900,7 @@ export async function updatePocaConstruction(
   data: z.infer<typeof updatePocaConstructionSchema>
 ): Promise<
   | { success: true; data: { id: string; slug: string } }
-  | { success: false; error: string }
+  | { success: false; error: string; conflict?: EditConflict }
 > {
   try {
     // Verify researcher or admin role
@@ -2912,6 +3931,7 @@ export async function updatePocaConstruction(
       .select({
         id: constructions.id,
         slug: constructions.slug,
+        status: constructions.status,
         constructionId: pocasData.constructionId,
         createdBy: constructions.createdBy,
       })
@@ -2920,7 +3940,8 @@ export async function updatePocaConstruction(
       .where(
         and(
           eq(constructions.id, validated.id),
-          eq(constructions.typeCategory, 'POCA')
+          eq(constructions.typeCategory, 'POCA'),
+          isNull(constructions.deletedAt)
         )
       )
       .limit(1);
@@ -2929,13 +3950,13 @@ export async function updatePocaConstruction(
       return { success: false, error: 'Poça not found' };
     }
 
-    // Security check: Only author or admin can edit
-    if (!isUserAdmin && existingPoca[0]!.createdBy !== userId) {
+    // Security check: Only authors (owner or co-authors) or admin can edit
+    if (!isUserAdmin && !(await isConstructionAuthor(db, existingPoca[0]!, userId))) {
       return { success: false, error: 'Unauthorized: You can only edit your own poças' };
     }
 
-    // Use database transaction to ensure atomicity
-    const result = await db.transaction(async (tx) => {
+    // Update logic, shared by live edits and pending edits (working copies)
+    const applyUpdate = async (tx: DbTransaction) => {
       // Step 1: Update constructions (core data including geom)
       const updateData: {
         geom: [number, number];
@@ -2999,6 +4020,32 @@ export async function updatePocaConstruction(
         .where(eq(pocasData.constructionId, validated.id));
 
       return existingPoca[0]!;
+    };
+
+    // Researchers' edits of a published record become a pending edit: the live version stays
+    // published until an admin approves the working copy from the review queue
+    if (existingPoca[0]!.status === 'published' && !isUserAdmin) {
+      await savePendingEdit({
+        constructionId: validated.id,
+        authorId: userId,
+        status: validated.status,
+        expectedVersion: validated.expectedVersion,
+        applyUpdate,
+      });
+
+      revalidatePath('/en/dashboard');
+      revalidatePath('/pt/dashboard');
+      revalidatePath('/en/dashboard/review');
+      revalidatePath('/pt/dashboard/review');
+
+      return { success: true, data: { id: existingPoca[0]!.id, slug: existingPoca[0]!.slug } };
+    }
+
+    // Use database transaction to ensure atomicity (the edit is recorded in the revision history);
+    // the version is checked with the record locked so concurrent saves cannot both pass
+    const result = await db.transaction(async (tx) => {
+      await assertEditVersion(tx, validated.id, validated.expectedVersion, { live: isUserAdmin });
+      return withRevision(tx, { constructionId: validated.id, action: 'update', authorId: userId }, () => applyUpdate(tx));
     });
 
     // Revalidate dashboard pages
@@ -3009,6 +4056,10 @@ export async function updatePocaConstruction(
 
     return { success: true, data: { id: result.id, slug: result.slug } };
   } catch (error) {
+    // Optimistic concurrency: the record changed since the editor loaded it (nothing was saved)
+    if (error instanceof EditConflictError) {
+      return { success: false, error: error.message, conflict: error.conflict };
+    }
     console.error('[updatePocaConstruction]:', error);
     return { success: false, error: 'An error occurred while updating the poça' };
   }
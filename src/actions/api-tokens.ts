@@ -0,0 +1,302 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { apiTokens, apiTokenUsage } from '@/db/schema';
+import { and, count, desc, eq, gt, isNull, or } from 'drizzle-orm';
+import { z } from 'zod';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { API_TOKEN_SCOPES, generateApiToken, type ApiTokenScope } from '@/lib/api-tokens';
+
+/**
+ * API Token Server Actions
+ *
+ * Personal tokens for scripted clients (see src/lib/api-tokens.ts), managed by their
+ * owner in the dashboard. The token itself is only returned once, when it is created.
+ */
+
+/**
+ * Maximum number of active (not revoked, not expired) tokens per user
+ */
+const MAX_ACTIVE_TOKENS = 10;
+
+/**
+ * Number of usage log entries shown in the dashboard
+ */
+const USAGE_LOG_LIMIT = 100;
+
+/**
+ * Token as listed in the dashboard (never includes the token itself)
+ */
+export interface ApiTokenItem {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  requestCount: number;
+}
+
+/**
+ * Request made with one of the user's tokens
+ */
+export interface ApiTokenUsageItem {
+  id: string;
+  tokenName: string;
+  method: string;
+  path: string;
+  status: number;
+  createdAt: Date;
+}
+
+/**
+ * Zod schema for creating a token
+ */
+const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).nullable(), // null = never expires
+});
+
+/**
+ * Fetches the current user's tokens (newest first) with their request counts
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @returns Standardized response with the tokens
+ */
+export async function getApiTokens(): Promise<
+  | { success: true; data: ApiTokenItem[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const rows = await db
+      .select({
+        id: apiTokens.id,
+        name: apiTokens.name,
+        tokenPrefix: apiTokens.tokenPrefix,
+        scopes: apiTokens.scopes,
+        expiresAt: apiTokens.expiresAt,
+        lastUsedAt: apiTokens.lastUsedAt,
+        revokedAt: apiTokens.revokedAt,
+        createdAt: apiTokens.createdAt,
+        requestCount: count(apiTokenUsage.id),
+      })
+      .from(apiTokens)
+      .leftJoin(apiTokenUsage, eq(apiTokenUsage.tokenId, apiTokens.id))
+      .where(eq(apiTokens.profileId, userId))
+      .groupBy(apiTokens.id)
+      .orderBy(desc(apiTokens.createdAt));
+
+    return {
+      success: true,
+      data: rows.map((row) => ({ ...row, scopes: row.scopes as ApiTokenScope[] })),
+    };
+  } catch (error) {
+    console.error('[getApiTokens]:', error);
+    return { success: false, error: 'An error occurred while fetching API tokens' };
+  }
+}
+
+/**
+ * Fetches the latest requests made with the current user's tokens
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @returns Standardized response with the usage log (newest first)
+ */
+export async function getApiTokenUsage(): Promise<
+  | { success: true; data: ApiTokenUsageItem[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const rows = await db
+      .select({
+        id: apiTokenUsage.id,
+        tokenName: apiTokens.name,
+        method: apiTokenUsage.method,
+        path: apiTokenUsage.path,
+        status: apiTokenUsage.status,
+        createdAt: apiTokenUsage.createdAt,
+      })
+      .from(apiTokenUsage)
+      .innerJoin(apiTokens, eq(apiTokens.id, apiTokenUsage.tokenId))
+      .where(eq(apiTokens.profileId, userId))
+      .orderBy(desc(apiTokenUsage.createdAt))
+      .limit(USAGE_LOG_LIMIT);
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error('[getApiTokenUsage]:', error);
+    return { success: false, error: 'An error occurred while fetching API token usage' };
+  }
+}
+
+/**
+ * Creates a personal API token for the current user
+ *
+ * The 'publish' scope can only be granted by admins (and is only honoured while the
+ * owner is an admin).
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @param data - Name, scopes and validity in days (null = never expires)
+ * @returns Standardized response with the token (shown once) and its dashboard entry
+ */
+export async function createApiToken(
+  data: z.infer<typeof createApiTokenSchema>
+): Promise<
+  | { success: true; data: { token: string; item: ApiTokenItem } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const validationResult = createApiTokenSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const validated = validationResult.data;
+    const scopes = Array.from(new Set(validated.scopes));
+
+    if (scopes.includes('publish') && !(await isAdmin())) {
+      return { success: false, error: "Unauthorized: Only admins can create tokens with the 'publish' scope" };
+    }
+
+    const now = new Date();
+    const [active] = await db
+      .select({ count: count() })
+      .from(apiTokens)
+      .where(
+        and(
+          eq(apiTokens.profileId, userId),
+          isNull(apiTokens.revokedAt),
+          or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, now))
+        )
+      );
+
+    if ((active?.count ?? 0) >= MAX_ACTIVE_TOKENS) {
+      return { success: false, error: `You can have at most ${MAX_ACTIVE_TOKENS} active tokens. Revoke one first` };
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+    const expiresAt = validated.expiresInDays
+      ? new Date(now.getTime() + validated.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const [created] = await db
+      .insert(apiTokens)
+      .values({ profileId: userId, name: validated.name, tokenHash, tokenPrefix, scopes, expiresAt })
+      .returning();
+
+    revalidatePath('/en/dashboard/api-tokens');
+    revalidatePath('/pt/dashboard/api-tokens');
+
+    return {
+      success: true,
+      data: {
+        token,
+        item: {
+          id: created!.id,
+          name: created!.name,
+          tokenPrefix: created!.tokenPrefix,
+          scopes,
+          expiresAt: created!.expiresAt,
+          lastUsedAt: null,
+          revokedAt: null,
+          createdAt: created!.createdAt,
+          requestCount: 0,
+        },
+      },
+    };
+  } catch (error) {
+    console.error('[createApiToken]:', error);
+    return { success: false, error: 'An error occurred while creating the API token' };
+  }
+}
+
+/**
+ * Revokes an API token (it stops working immediately; its usage log is kept)
+ *
+ * Security: Verifies that the performing user owns the token or is an admin
+ *
+ * @param tokenId - Token UUID
+ * @returns Standardized response
+ */
+export async function revokeApiToken(
+  tokenId: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [token] = await db
+      .select({ profileId: apiTokens.profileId, revokedAt: apiTokens.revokedAt })
+      .from(apiTokens)
+      .where(eq(apiTokens.id, tokenId))
+      .limit(1);
+
+    if (!token) {
+      return { success: false, error: 'API token not found' };
+    }
+
+    if (token.profileId !== userId && !(await isAdmin())) {
+      return { success: false, error: 'Unauthorized: You can only revoke your own tokens' };
+    }
+
+    if (!token.revokedAt) {
+      await db.update(apiTokens).set({ revokedAt: new Date() }).where(eq(apiTokens.id, tokenId));
+    }
+
+    revalidatePath('/en/dashboard/api-tokens');
+    revalidatePath('/pt/dashboard/api-tokens');
+
+    return { success: true };
+  } catch (error) {
+    console.error('[revokeApiToken]:', error);
+    return { success: false, error: 'An error occurred while revoking the API token' };
+  }
+}
@@ -60,7 +60,7 @@ export async function signInWithPassword(
     // Verify user has a profile with researcher or admin role
     // This is a closed system - profiles must be pre-provisioned by admin
     const profileResult = await db
-      .select({ role: profiles.role })
+      .select({ role: profiles.role, deactivatedAt: profiles.deactivatedAt })
       .from(profiles)
       .where(eq(profiles.id, authData.user.id))
       .limit(1);
@@ -74,6 +74,13 @@ export async function signInWithPassword(
       return { success: false, error: 'errors.auth.accessDenied' };
     }
 
+    if (profile.deactivatedAt) {
+      // Account deactivated by an admin - sign them out and deny access
+      console.warn(`[signInWithPassword]: User ${authData.user.id} is deactivated - denying access`);
+      await supabase.auth.signOut();
+      return { success: false, error: 'errors.auth.accountDeactivated' };
+    }
+
     if (profile.role !== 'researcher' && profile.role !== 'admin') {
       // User has profile but wrong role - sign them out and deny access
       console.warn(`[signInWithPassword]: User ${authData.user.id} has role ${profile.role} - denying access`);
@@ -147,13 +154,14 @@ export async function getCurrentUserRole(): Promise<'admin' | 'researcher' | 'pu
 
     // Retrieve user's role from public.profiles
     const profileResult = await db
-      .select({ role: profiles.role })
+      .select({ role: profiles.role, deactivatedAt: profiles.deactivatedAt })
       .from(profiles)
       .where(eq(profiles.id, user.id))
       .limit(1);
 
     const profile = profileResult[0];
-    return profile?.role ?? 'public';
+    // Deactivated accounts have no access
+    return profile && !profile.deactivatedAt ? profile.role : 'public';
   } catch (error) {
     console.error('[getCurrentUserRole]:', error);
     return 'public';
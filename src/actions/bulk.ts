@@ -0,0 +1,318 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructions, pendingEdits, profiles } from '@/db/schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { withRevision } from '@/lib/revisions';
+import { deleteConstruction, submitForReview, updateConstructionStatus } from '@/actions/admin';
+
+/**
+ * Bulk Inventory Server Actions
+ *
+ * Apply one action to a selection of inventory rows. Each item goes through the same
+ * permission and state checks as the single-row action (most delegate to it), so a
+ * selection can partly succeed: the result is a per-item report instead of all-or-nothing.
+ */
+
+/**
+ * Maximum number of constructions processed by one bulk action
+ */
+const MAX_BULK_ITEMS = 500;
+
+/**
+ * Outcome of a bulk action for one construction
+ */
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Per-item report returned by every bulk action
+ */
+export interface BulkActionReport {
+  results: BulkItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Researcher or admin that constructions can be reassigned to
+ */
+export interface AssignableAuthor {
+  id: string;
+  fullName: string | null;
+  role: 'researcher' | 'admin';
+}
+
+const bulkIdsSchema = z
+  .array(z.string().uuid('Invalid construction ID'))
+  .min(1, 'Select at least one item')
+  .max(MAX_BULK_ITEMS, `At most ${MAX_BULK_ITEMS} items can be processed at once`);
+
+/**
+ * Validates the selection and runs `processItem` for each construction, one at a time
+ *
+ * @returns The per-item report, or the validation error
+ */
+async function runBulkAction(
+  ids: string[],
+  processItem: (id: string) => Promise<{ success: true } | { success: false; error: string }>
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  const validationResult = bulkIdsSchema.safeParse(Array.from(new Set(ids)));
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+    return { success: false, error: `Validation failed: ${errors}` };
+  }
+
+  const results: BulkItemResult[] = [];
+  for (const id of validationResult.data) {
+    try {
+      const result = await processItem(id);
+      results.push(result.success ? { id, success: true } : { id, success: false, error: result.error });
+    } catch (error) {
+      console.error('[runBulkAction]:', id, error);
+      results.push({ id, success: false, error: 'An unexpected error occurred' });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+  return { success: true, data: { results, succeeded, failed: results.length - succeeded } };
+}
+
+/**
+ * Submits the selected drafts for review
+ *
+ * Security: Researcher or admin; per item, only the author or an admin (see submitForReview)
+ *
+ * @param ids - Construction UUIDs
+ * @returns Standardized response with the per-item report
+ */
+export async function bulkSubmitForReview(
+  ids: string[]
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+  }
+
+  return runBulkAction(ids, submitForReview);
+}
+
+/**
+ * Publishes the selected constructions
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param ids - Construction UUIDs
+ * @returns Standardized response with the per-item report
+ */
+export async function bulkPublish(
+  ids: string[]
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  const hasAdminRole = await isAdmin();
+  if (!hasAdminRole) {
+    return { success: false, error: 'Unauthorized: Admin role required' };
+  }
+
+  return runBulkAction(ids, async (id) => {
+    const [construction] = await db
+      .select({ status: constructions.status })
+      .from(constructions)
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found' };
+    }
+    if (construction.status === 'published') {
+      return { success: false, error: 'Already published' };
+    }
+
+    return updateConstructionStatus(id, 'published');
+  });
+}
+
+/**
+ * Takes the selected constructions off the public site (back to draft)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param ids - Construction UUIDs
+ * @returns Standardized response with the per-item report
+ */
+export async function bulkUnpublish(
+  ids: string[]
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  const hasAdminRole = await isAdmin();
+  if (!hasAdminRole) {
+    return { success: false, error: 'Unauthorized: Admin role required' };
+  }
+
+  return runBulkAction(ids, async (id) => {
+    const [construction] = await db
+      .select({ status: constructions.status, pendingEditId: pendingEdits.id })
+      .from(constructions)
+      .leftJoin(pendingEdits, eq(pendingEdits.constructionId, constructions.id))
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found' };
+    }
+    if (construction.status !== 'published') {
+      return { success: false, error: 'Only published constructions can be unpublished' };
+    }
+    // Working copies only exist for published records
+    if (construction.pendingEditId) {
+      return { success: false, error: 'This record has a pending edit. Approve or reject it first' };
+    }
+
+    return updateConstructionStatus(id, 'draft');
+  });
+}
+
+/**
+ * Moves the selected constructions to the trash
+ *
+ * Security: Researcher or admin; per item, the same rules as deleteConstruction
+ * (researchers only their own drafts)
+ *
+ * @param ids - Construction UUIDs
+ * @returns Standardized response with the per-item report
+ */
+export async function bulkDelete(
+  ids: string[]
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+  }
+
+  return runBulkAction(ids, deleteConstruction);
+}
+
+/**
+ * Fetches the researchers and admins constructions can be reassigned to
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the authors (by name)
+ */
+export async function getAssignableAuthors(): Promise<
+  | { success: true; data: AssignableAuthor[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const rows = await db
+      .select({ id: profiles.id, fullName: profiles.fullName, role: profiles.role })
+      .from(profiles)
+      .where(inArray(profiles.role, ['researcher', 'admin']))
+      .orderBy(asc(profiles.fullName));
+
+    return {
+      success: true,
+      data: rows.map((row) => ({ ...row, role: row.role as AssignableAuthor['role'] })),
+    };
+  } catch (error) {
+    console.error('[getAssignableAuthors]:', error);
+    return { success: false, error: 'An error occurred while fetching authors' };
+  }
+}
+
+/**
+ * Reassigns the selected constructions to another author (recorded in the revision history)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param ids - Construction UUIDs
+ * @param authorId - Profile ID of a researcher or admin
+ * @returns Standardized response with the per-item report
+ */
+export async function bulkReassignAuthor(
+  ids: string[],
+  authorId: string
+): Promise<
+  | { success: true; data: BulkActionReport }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [author] = await db
+      .select({ id: profiles.id })
+      .from(profiles)
+      .where(and(eq(profiles.id, authorId), inArray(profiles.role, ['researcher', 'admin'])))
+      .limit(1);
+
+    if (!author) {
+      return { success: false, error: 'The new author must be a researcher or an admin' };
+    }
+
+    const report = await runBulkAction(ids, async (id) => {
+      const [construction] = await db
+        .select({ createdBy: constructions.createdBy })
+        .from(constructions)
+        .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
+        .limit(1);
+
+      if (!construction) {
+        return { success: false, error: 'Construction not found' };
+      }
+      if (construction.createdBy === authorId) {
+        return { success: true };
+      }
+
+      await db.transaction((tx) =>
+        withRevision(tx, { constructionId: id, action: 'update', authorId: userId }, () =>
+          tx
+            .update(constructions)
+            .set({ createdBy: authorId, updatedAt: new Date() })
+            .where(eq(constructions.id, id))
+        )
+      );
+
+      return { success: true };
+    });
+
+    revalidatePath('/en/dashboard', 'layout');
+    revalidatePath('/pt/dashboard', 'layout');
+
+    return report;
+  } catch (error) {
+    console.error('[bulkReassignAuthor]:', error);
+    return { success: false, error: 'An error occurred while reassigning the constructions' };
+  }
+}
@@ -0,0 +1,427 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructionContributors, constructions, profiles } from '@/db/schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { withRevision } from '@/lib/revisions';
+import { CONTRIBUTOR_ROLES, isConstructionAuthor, type ContributorRole } from '@/lib/contributors';
+
+/**
+ * Contributor Server Actions
+ *
+ * Team credits of a construction: who surveyed, wrote, photographed, reviewed or translated
+ * the ficha, and ownership transfer. Co-authors ('author' role) can edit like the owner.
+ * See src/lib/contributors.ts.
+ */
+
+/**
+ * Credited contributor of a construction
+ */
+export interface ContributorItem {
+  id: string;
+  profileId: string | null;
+  name: string | null; // Account name, or the credited name for people without an account
+  role: ContributorRole;
+}
+
+/**
+ * Owner and contributors of a construction, as shown in the editor
+ */
+export interface ConstructionTeam {
+  ownerId: string | null;
+  ownerName: string | null;
+  contributors: ContributorItem[];
+  canManage: boolean; // Owner or admin: may add / remove contributors and transfer ownership
+}
+
+/**
+ * Account that can be credited or receive ownership (active researchers and admins)
+ */
+export interface ContributorCandidate {
+  id: string;
+  fullName: string | null;
+  academicAffiliation: string | null;
+}
+
+/**
+ * Zod schema for crediting a contributor (an account or a name)
+ */
+const addContributorSchema = z
+  .object({
+    constructionId: z.string().uuid('Invalid construction ID'),
+    profileId: z.string().uuid('Invalid user ID').nullable(),
+    name: z.string().trim().max(255).nullable(),
+    role: z.enum(CONTRIBUTOR_ROLES),
+  })
+  .refine((data) => data.profileId || data.name, { message: 'Choose a user or enter a name' });
+
+/**
+ * Revalidates the pages that display credits of a construction
+ */
+function revalidateContributorPaths(slug: string) {
+  revalidatePath('/en/dashboard', 'layout');
+  revalidatePath('/pt/dashboard', 'layout');
+  revalidatePath(`/en/mill/${slug}`);
+  revalidatePath(`/pt/mill/${slug}`);
+}
+
+/**
+ * Verifies that the current user owns the construction or is an admin
+ *
+ * @returns The user ID and the construction's owner and slug, or an error message
+ */
+async function getManageAccess(
+  constructionId: string
+): Promise<
+  | { success: true; data: { userId: string; createdBy: string | null; slug: string } }
+  | { success: false; error: string }
+> {
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  const [construction] = await db
+    .select({ createdBy: constructions.createdBy, slug: constructions.slug })
+    .from(constructions)
+    .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+    .limit(1);
+
+  if (!construction) {
+    return { success: false, error: 'Construction not found' };
+  }
+
+  const isUserAdmin = await isAdmin();
+  if (!isUserAdmin && construction.createdBy !== userId) {
+    return { success: false, error: 'Unauthorized: Only the owner or an admin can manage contributors' };
+  }
+
+  return { success: true, data: { userId, ...construction } };
+}
+
+/**
+ * Fetches the owner and contributors of a construction
+ *
+ * Security: Verifies that the performing user is an author (owner or co-author) or an admin
+ *
+ * @param constructionId - Construction UUID
+ * @returns Standardized response with the team
+ */
+export async function getConstructionTeam(
+  constructionId: string
+): Promise<
+  | { success: true; data: ConstructionTeam }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [construction] = await db
+      .select({ createdBy: constructions.createdBy, ownerName: profiles.fullName })
+      .from(constructions)
+      .leftJoin(profiles, eq(profiles.id, constructions.createdBy))
+      .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    const isUserAdmin = await isAdmin();
+    if (
+      !isUserAdmin &&
+      !(await isConstructionAuthor(db, { id: constructionId, createdBy: construction.createdBy }, userId))
+    ) {
+      return { success: false, error: 'Unauthorized: You can only view your own constructions' };
+    }
+
+    const rows = await db
+      .select({
+        id: constructionContributors.id,
+        profileId: constructionContributors.profileId,
+        creditedName: constructionContributors.name,
+        fullName: profiles.fullName,
+        role: constructionContributors.role,
+      })
+      .from(constructionContributors)
+      .leftJoin(profiles, eq(profiles.id, constructionContributors.profileId))
+      .where(eq(constructionContributors.constructionId, constructionId))
+      .orderBy(asc(constructionContributors.createdAt));
+
+    return {
+      success: true,
+      data: {
+        ownerId: construction.createdBy,
+        ownerName: construction.ownerName,
+        contributors: rows.map((row) => ({
+          id: row.id,
+          profileId: row.profileId,
+          name: row.fullName ?? row.creditedName,
+          role: row.role as ContributorRole,
+        })),
+        canManage: isUserAdmin || construction.createdBy === userId,
+      },
+    };
+  } catch (error) {
+    console.error('[getConstructionTeam]:', error);
+    return { success: false, error: 'An error occurred while fetching contributors' };
+  }
+}
+
+/**
+ * Fetches the accounts that can be credited or receive ownership
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @returns Standardized response with active researchers and admins (by name)
+ */
+export async function getContributorCandidates(): Promise<
+  | { success: true; data: ContributorCandidate[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const rows = await db
+      .select({
+        id: profiles.id,
+        fullName: profiles.fullName,
+        academicAffiliation: profiles.academicAffiliation,
+      })
+      .from(profiles)
+      .where(and(inArray(profiles.role, ['researcher', 'admin']), isNull(profiles.deactivatedAt)))
+      .orderBy(asc(profiles.fullName));
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error('[getContributorCandidates]:', error);
+    return { success: false, error: 'An error occurred while fetching users' };
+  }
+}
+
+/**
+ * Credits a contributor on a construction
+ *
+ * Security: Verifies that the performing user owns the construction or is an admin
+ *
+ * @param data - Construction, account (or credited name) and role
+ * @returns Standardized response
+ */
+export async function addContributor(
+  data: z.infer<typeof addContributorSchema>
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const validationResult = addContributorSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const validated = validationResult.data;
+
+    const access = await getManageAccess(validated.constructionId);
+    if (!access.success) {
+      return access;
+    }
+
+    if (validated.profileId) {
+      if (validated.profileId === access.data.createdBy && validated.role === 'author') {
+        return { success: false, error: 'The owner is already credited as author' };
+      }
+
+      const [profile] = await db
+        .select({ id: profiles.id })
+        .from(profiles)
+        .where(
+          and(
+            eq(profiles.id, validated.profileId),
+            inArray(profiles.role, ['researcher', 'admin']),
+            isNull(profiles.deactivatedAt)
+          )
+        )
+        .limit(1);
+
+      if (!profile) {
+        return { success: false, error: 'Contributors must be active researchers or admins' };
+      }
+    }
+
+    const existing = await db
+      .select({ profileId: constructionContributors.profileId, name: constructionContributors.name })
+      .from(constructionContributors)
+      .where(
+        and(
+          eq(constructionContributors.constructionId, validated.constructionId),
+          eq(constructionContributors.role, validated.role)
+        )
+      );
+
+    const isDuplicate = existing.some((row) =>
+      validated.profileId
+        ? row.profileId === validated.profileId
+        : !row.profileId && row.name?.toLowerCase() === validated.name!.toLowerCase()
+    );
+    if (isDuplicate) {
+      return { success: false, error: 'This contributor is already credited with this role' };
+    }
+
+    await db.insert(constructionContributors).values({
+      constructionId: validated.constructionId,
+      profileId: validated.profileId,
+      // The account name is shown for users; a name is only stored for people without one
+      name: validated.profileId ? null : validated.name,
+      role: validated.role,
+    });
+
+    revalidateContributorPaths(access.data.slug);
+
+    return { success: true };
+  } catch (error) {
+    console.error('[addContributor]:', error);
+    return { success: false, error: 'An error occurred while adding the contributor' };
+  }
+}
+
+/**
+ * Removes a credit from a construction
+ *
+ * Security: Verifies that the performing user owns the construction or is an admin
+ *
+ * @param contributorId - Contributor row UUID
+ * @returns Standardized response
+ */
+export async function removeContributor(
+  contributorId: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const [contributor] = await db
+      .select({ constructionId: constructionContributors.constructionId })
+      .from(constructionContributors)
+      .where(eq(constructionContributors.id, contributorId))
+      .limit(1);
+
+    if (!contributor) {
+      return { success: false, error: 'Contributor not found' };
+    }
+
+    const access = await getManageAccess(contributor.constructionId);
+    if (!access.success) {
+      return access;
+    }
+
+    await db.delete(constructionContributors).where(eq(constructionContributors.id, contributorId));
+
+    revalidateContributorPaths(access.data.slug);
+
+    return { success: true };
+  } catch (error) {
+    console.error('[removeContributor]:', error);
+    return { success: false, error: 'An error occurred while removing the contributor' };
+  }
+}
+
+/**
+ * Makes another researcher the owner of a construction
+ *
+ * The previous owner stays credited as co-author (and keeps edit rights) until removed.
+ * Recorded in the revision history.
+ *
+ * Security: Verifies that the performing user owns the construction or is an admin
+ *
+ * @param constructionId - Construction UUID
+ * @param newOwnerId - Profile UUID of an active researcher or admin
+ * @returns Standardized response
+ */
+export async function transferConstructionOwnership(
+  constructionId: string,
+  newOwnerId: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getManageAccess(constructionId);
+    if (!access.success) {
+      return access;
+    }
+    const { userId, createdBy, slug } = access.data;
+
+    if (createdBy === newOwnerId) {
+      return { success: true };
+    }
+
+    const [newOwner] = await db
+      .select({ id: profiles.id })
+      .from(profiles)
+      .where(
+        and(
+          eq(profiles.id, newOwnerId),
+          inArray(profiles.role, ['researcher', 'admin']),
+          isNull(profiles.deactivatedAt)
+        )
+      )
+      .limit(1);
+
+    if (!newOwner) {
+      return { success: false, error: 'The new owner must be an active researcher or admin' };
+    }
+
+    await db.transaction((tx) =>
+      withRevision(tx, { constructionId, action: 'update', authorId: userId }, async () => {
+        await tx
+          .update(constructions)
+          .set({ createdBy: newOwnerId, updatedAt: new Date() })
+          .where(eq(constructions.id, constructionId));
+
+        // The new owner no longer needs a co-author credit
+        await tx
+          .delete(constructionContributors)
+          .where(
+            and(
+              eq(constructionContributors.constructionId, constructionId),
+              eq(constructionContributors.profileId, newOwnerId),
+              eq(constructionContributors.role, 'author')
+            )
+          );
+
+        if (createdBy) {
+          await tx
+            .insert(constructionContributors)
+            .values({ constructionId, profileId: createdBy, role: 'author' });
+        }
+      })
+    );
+
+    revalidateContributorPaths(slug);
+
+    return { success: true };
+  } catch (error) {
+    console.error('[transferConstructionOwnership]:', error);
+    return { success: false, error: 'An error occurred while transferring ownership' };
+  }
+}
@@ -0,0 +1,277 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructions, constructionRevisions, profiles } from '@/db/schema';
+import { and, desc, eq, or, sql, type SQL } from 'drizzle-orm';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import {
+  parseStoredSnapshot,
+  restoreConstructionSnapshot,
+  withRevision,
+  type ConstructionSnapshot,
+  type RevisionAction,
+  type RevisionDiff,
+} from '@/lib/revisions';
+import { getCoAuthorCondition, isConstructionAuthor } from '@/lib/contributors';
+import { assertEditVersion, EditConflictError } from '@/lib/edit-conflicts';
+import { savePendingEdit } from '@/lib/pending-edits';
+import { getGeoScope, getGeoScopeBlocker } from '@/lib/geo-scope';
+
+/**
+ * Revision History Server Actions
+ *
+ * Browse the audit log of constructions and restore previous versions.
+ * Admins see every record; researchers only the records they authored.
+ */
+
+/**
+ * Revision entry as listed in the dashboard history
+ */
+export interface RevisionLogItem {
+  id: string;
+  constructionId: string;
+  action: RevisionAction;
+  createdAt: Date;
+  authorName: string | null;
+  title: string; // Title (or levada name) in the requested locale, from the snapshot
+  typeCategory: string;
+  diff: RevisionDiff;
+}
+
+// Most recent entries shown in the global audit log
+const REVISION_LOG_LIMIT = 100;
+
+/**
+ * Picks the display title of a snapshot in the requested locale (any locale as fallback)
+ */
+function getSnapshotTitle(snapshot: ConstructionSnapshot, locale: string): string {
+  const waterLineTranslations = snapshot.waterLine?.translations ?? [];
+  const waterLineName =
+    waterLineTranslations.find((translation) => translation.locale === locale)?.name ??
+    waterLineTranslations[0]?.name;
+  const title =
+    snapshot.translations.find((translation) => translation.langCode === locale)?.title ??
+    snapshot.translations[0]?.title;
+
+  return waterLineName || title || snapshot.construction.slug;
+}
+
+/**
+ * Fetches revision history entries (newest first)
+ *
+ * - With constructionId: every version of that construction (including after deletion)
+ * - Without: the latest REVISION_LOG_LIMIT entries across all accessible constructions
+ *
+ * Security: Admins see everything; researchers only revisions of constructions they authored
+ * (matched on the author stored in each snapshot, so deleted records remain visible)
+ *
+ * @param locale - Language code for titles ('pt' | 'en')
+ * @param constructionId - Optional construction UUID
+ * @returns Standardized response with the revisions
+ */
+export async function getRevisionLog(
+  locale: string,
+  constructionId?: string
+): Promise<
+  | { success: true; data: RevisionLogItem[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const isUserAdmin = await isAdmin();
+
+    const conditions: SQL[] = [];
+    if (constructionId) {
+      conditions.push(eq(constructionRevisions.constructionId, constructionId));
+    }
+    if (!isUserAdmin) {
+      conditions.push(
+        or(
+          sql`${constructionRevisions.snapshot}->'construction'->>'createdBy' = ${userId}`,
+          getCoAuthorCondition(constructionRevisions.constructionId, userId)
+        )!
+      );
+    }
+
+    const query = db
+      .select({
+        id: constructionRevisions.id,
+        constructionId: constructionRevisions.constructionId,
+        action: constructionRevisions.action,
+        createdAt: constructionRevisions.createdAt,
+        authorName: profiles.fullName,
+        snapshot: constructionRevisions.snapshot,
+        diff: constructionRevisions.diff,
+      })
+      .from(constructionRevisions)
+      .leftJoin(profiles, eq(profiles.id, constructionRevisions.authorId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(constructionRevisions.createdAt));
+
+    const rows = constructionId ? await query : await query.limit(REVISION_LOG_LIMIT);
+
+    const revisions: RevisionLogItem[] = rows.map((row) => {
+      const snapshot = row.snapshot as ConstructionSnapshot;
+      return {
+        id: row.id,
+        constructionId: row.constructionId,
+        action: row.action as RevisionAction,
+        createdAt: row.createdAt,
+        authorName: row.authorName,
+        title: getSnapshotTitle(snapshot, locale),
+        typeCategory: snapshot.construction.typeCategory,
+        diff: row.diff as RevisionDiff,
+      };
+    });
+
+    return { success: true, data: revisions };
+  } catch (error) {
+    console.error('[getRevisionLog]:', error);
+    return { success: false, error: 'An error occurred while fetching the revision history' };
+  }
+}
+
+/**
+ * Restores a construction to the state stored in a revision
+ *
+ * Content (core fields, geometry, translations, mill/poça/levada data) is restored;
+ * slug, author and status are kept. The restore itself is recorded as a new revision,
+ * so it can be undone by restoring the revision before it.
+ *
+ * Like any researcher edit of a published record, a researcher's restore becomes its
+ * working copy (pending edit) and only goes live once an admin approves it. The version
+ * is checked in the save transaction, as in the editors.
+ *
+ * Security: Admins, or the researcher who authored the construction (mills: within their regions)
+ *
+ * @param revisionId - Revision UUID
+ * @param expectedVersion - Edit version of the record when the history was loaded (see getEditVersion)
+ * @returns Standardized response with the construction ID; pending when saved as a working copy
+ */
+export async function restoreConstructionRevision(
+  revisionId: string,
+  expectedVersion: string
+): Promise<
+  | { success: true; data: { id: string; pending: boolean } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [revision] = await db
+      .select({
+        constructionId: constructionRevisions.constructionId,
+        action: constructionRevisions.action,
+        snapshot: constructionRevisions.snapshot,
+      })
+      .from(constructionRevisions)
+      .where(eq(constructionRevisions.id, revisionId))
+      .limit(1);
+
+    if (!revision) {
+      return { success: false, error: 'Revision not found' };
+    }
+
+    if (revision.action === 'delete' || revision.action === 'purge') {
+      return { success: false, error: 'A deletion cannot be restored as a version' };
+    }
+
+    const [construction] = await db
+      .select({
+        createdBy: constructions.createdBy,
+        typeCategory: constructions.typeCategory,
+        status: constructions.status,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        drainageBasin: constructions.drainageBasin,
+        deletedAt: constructions.deletedAt,
+      })
+      .from(constructions)
+      .where(eq(constructions.id, revision.constructionId))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found (it may have been deleted)' };
+    }
+
+    if (construction.deletedAt) {
+      return { success: false, error: 'This construction is in the trash. Restore it from the trash first' };
+    }
+
+    const isUserAdmin = await isAdmin();
+    if (
+      !isUserAdmin &&
+      !(await isConstructionAuthor(db, { id: revision.constructionId, createdBy: construction.createdBy }, userId))
+    ) {
+      return { success: false, error: 'Unauthorized: You can only restore your own constructions' };
+    }
+
+    const snapshot = parseStoredSnapshot(revision.snapshot);
+    if (snapshot.construction.typeCategory !== construction.typeCategory) {
+      return { success: false, error: 'Revision does not match the construction type' };
+    }
+
+    // Regional teams: the mill must be in the researcher's regions, before and after the restore
+    if (construction.typeCategory === 'MILL' && !isUserAdmin) {
+      const scope = await getGeoScope(db, userId);
+      const scopeBlocker = getGeoScopeBlocker(scope, construction) ?? getGeoScopeBlocker(scope, snapshot.construction);
+      if (scopeBlocker) {
+        return { success: false, error: scopeBlocker };
+      }
+    }
+
+    if (construction.status === 'published' && !isUserAdmin) {
+      await savePendingEdit({
+        constructionId: revision.constructionId,
+        authorId: userId,
+        expectedVersion,
+        applyUpdate: (tx) => restoreConstructionSnapshot(tx, snapshot),
+      });
+
+      revalidatePath('/en/dashboard');
+      revalidatePath('/pt/dashboard');
+      revalidatePath('/en/dashboard/review');
+      revalidatePath('/pt/dashboard/review');
+
+      return { success: true, data: { id: revision.constructionId, pending: true } };
+    }
+
+    await db.transaction(async (tx) => {
+      await assertEditVersion(tx, revision.constructionId, expectedVersion, { live: isUserAdmin });
+      await withRevision(tx, { constructionId: revision.constructionId, action: 'restore', authorId: userId }, () =>
+        restoreConstructionSnapshot(tx, snapshot)
+      );
+    });
+
+    // Dashboard and public pages both show the restored content
+    revalidatePath('/en', 'layout');
+    revalidatePath('/pt', 'layout');
+
+    return { success: true, data: { id: revision.constructionId, pending: false } };
+  } catch (error) {
+    // The record changed since the history was loaded (nothing was restored)
+    if (error instanceof EditConflictError) {
+      return { success: false, error: error.message };
+    }
+    console.error('[restoreConstructionRevision]:', error);
+    return { success: false, error: 'An error occurred while restoring the revision' };
+  }
+}
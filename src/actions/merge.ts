@@ -0,0 +1,271 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { millsData, pocasData } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { isAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { takeConstructionSnapshot, type ConstructionSnapshot } from '@/lib/revisions';
+import {
+  buildMergedSnapshot,
+  getMergeBlocker,
+  getMergeFields,
+  mergeConstructionInto,
+  type MergeField,
+} from '@/lib/merge';
+import { findMillDuplicateCandidates, type DuplicateCandidate } from '@/lib/duplicates';
+
+/**
+ * Merge Server Actions
+ *
+ * Admin tool to combine two duplicate constructions: preview the differing fields, pick a
+ * value per field and merge one record into the other. See src/lib/merge.ts.
+ */
+
+/**
+ * One side of a merge as shown on the merge screen
+ */
+export interface MergeRecordSummary {
+  id: string;
+  slug: string;
+  title: string | null; // Title (or levada name) in the requested locale
+  typeCategory: string;
+  status: 'draft' | 'review' | 'published';
+  updatedAt: Date;
+}
+
+/**
+ * Everything the merge screen needs to let the admin choose
+ */
+export interface MergePreview {
+  survivor: MergeRecordSummary;
+  loser: MergeRecordSummary;
+  fields: MergeField[];
+  copiedLanguages: string[]; // Translations only the merged record has (copied whole)
+  galleryImageCount: number; // Gallery size after the merge (with the survivor's main image)
+  documentCount: number;
+  relinkedCount: number; // Mills and poças linked to the merged record's levada
+}
+
+/**
+ * Zod schema for merging two constructions
+ */
+const mergeConstructionsSchema = z.object({
+  survivorId: z.string().uuid('Invalid survivor ID'),
+  loserId: z.string().uuid('Invalid merged record ID'),
+  choices: z.record(z.string(), z.enum(['survivor', 'loser'])),
+});
+
+/**
+ * Builds the summary of one side from its snapshot
+ */
+function toSummary(snapshot: ConstructionSnapshot, locale: string): MergeRecordSummary {
+  const { construction } = snapshot;
+  const title =
+    snapshot.translations.find((translation) => translation.langCode === locale)?.title ??
+    snapshot.waterLine?.translations.find((translation) => translation.locale === locale)?.name ??
+    null;
+
+  return {
+    id: construction.id,
+    slug: construction.slug,
+    title,
+    typeCategory: construction.typeCategory,
+    status: construction.status,
+    updatedAt: construction.updatedAt,
+  };
+}
+
+/**
+ * Compares two constructions for merging
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param survivorId - Construction that is kept
+ * @param loserId - Construction merged into it (moved to the trash afterwards)
+ * @param locale - Language code for titles ('pt' | 'en')
+ * @returns Standardized response with the merge preview
+ */
+export async function getMergePreview(
+  survivorId: string,
+  loserId: string,
+  locale: string
+): Promise<
+  | { success: true; data: MergePreview }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const mergeBlocker = await getMergeBlocker(db, survivorId, loserId);
+    if (mergeBlocker) {
+      return { success: false, error: mergeBlocker };
+    }
+
+    const [survivor, loser] = await db.transaction(async (tx) => [
+      await takeConstructionSnapshot(tx, survivorId),
+      await takeConstructionSnapshot(tx, loserId),
+    ]);
+
+    if (!survivor || !loser) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    const merged = buildMergedSnapshot(survivor, loser, {});
+
+    let relinkedCount = 0;
+    if (loser.waterLine) {
+      const [mills] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(millsData)
+        .where(eq(millsData.waterLineId, loser.waterLine.id));
+      const [pocas] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(pocasData)
+        .where(eq(pocasData.waterLineId, loser.waterLine.id));
+      relinkedCount = (mills?.count ?? 0) + (pocas?.count ?? 0);
+    }
+
+    return {
+      success: true,
+      data: {
+        survivor: toSummary(survivor, locale),
+        loser: toSummary(loser, locale),
+        fields: getMergeFields(survivor, loser),
+        copiedLanguages: [
+          ...loser.translations
+            .map((translation) => translation.langCode)
+            .filter((langCode) => !survivor.translations.some((translation) => translation.langCode === langCode)),
+          ...(loser.waterLine?.translations ?? [])
+            .map((translation) => translation.locale)
+            .filter((lang) => !survivor.waterLine?.translations.some((translation) => translation.locale === lang)),
+        ],
+        galleryImageCount: merged.construction.galleryImages?.length ?? 0,
+        documentCount: merged.construction.documentPaths?.length ?? 0,
+        relinkedCount,
+      },
+    };
+  } catch (error) {
+    console.error('[getMergePreview]:', error);
+    return { success: false, error: 'An error occurred while comparing the records' };
+  }
+}
+
+/**
+ * Suggests records to merge with a construction
+ *
+ * Mills get the duplicate candidates used when creating a mill (nearby, same legacy ID,
+ * similar title); other types have no suggestions.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param constructionId - Construction UUID
+ * @param locale - Language code for titles ('pt' | 'en')
+ * @returns Standardized response with the candidates
+ */
+export async function getMergeSuggestions(
+  constructionId: string,
+  locale: string
+): Promise<
+  | { success: true; data: DuplicateCandidate[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const snapshot = await db.transaction((tx) => takeConstructionSnapshot(tx, constructionId));
+    if (!snapshot) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    const { construction, translations } = snapshot;
+    const title = (translations.find((translation) => translation.langCode === locale) ?? translations[0])?.title;
+    if (construction.typeCategory !== 'MILL' || !title) {
+      return { success: true, data: [] };
+    }
+
+    const { candidates } = await findMillDuplicateCandidates({
+      latitude: construction.geom[1],
+      longitude: construction.geom[0],
+      legacyId: construction.legacyId ?? undefined,
+      title,
+      locale,
+      viewer: { userId, isAdmin: true },
+    });
+
+    return { success: true, data: candidates.filter((candidate) => candidate.id !== constructionId) };
+  } catch (error) {
+    console.error('[getMergeSuggestions]:', error);
+    return { success: false, error: 'An error occurred while looking for duplicates' };
+  }
+}
+
+/**
+ * Merges one construction into another
+ *
+ * The survivor keeps its identity and receives the chosen values, combined images and
+ * documents, and missing translations; the merged record goes to the trash and its slug
+ * redirects to the survivor.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param data - Survivor, merged record and per-field choices (diff path -> side)
+ * @returns Standardized response with the survivor's slug
+ */
+export async function mergeConstructions(
+  data: z.infer<typeof mergeConstructionsSchema>
+): Promise<
+  | { success: true; data: { id: string; slug: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const validationResult = mergeConstructionsSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const { survivorId, loserId, choices } = validationResult.data;
+
+    const mergeBlocker = await getMergeBlocker(db, survivorId, loserId);
+    if (mergeBlocker) {
+      return { success: false, error: mergeBlocker };
+    }
+
+    const survivor = await db.transaction(async (tx) => {
+      await mergeConstructionInto(tx, { survivorId, loserId, choices, userId });
+      return takeConstructionSnapshot(tx, survivorId);
+    });
+
+    // Both records may be listed or shown anywhere (inventory, map, public pages, trash)
+    revalidatePath('/en', 'layout');
+    revalidatePath('/pt', 'layout');
+
+    return { success: true, data: { id: survivorId, slug: survivor?.construction.slug ?? '' } };
+  } catch (error) {
+    console.error('[mergeConstructions]:', error);
+    return { success: false, error: 'An error occurred while merging the records' };
+  }
+}
@@ -0,0 +1,348 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructions, pendingEdits, profiles, reviewComments } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { getPendingEditRow } from '@/lib/pending-edits';
+import {
+  diffSnapshots,
+  parseStoredSnapshot,
+  restoreConstructionSnapshot,
+  takeConstructionSnapshot,
+  withRevision,
+  type RevisionDiff,
+} from '@/lib/revisions';
+import { clearReviewAssignment, markChangesRequested } from '@/lib/review-assignments';
+import { isConstructionAuthor } from '@/lib/contributors';
+
+/**
+ * Pending Edit Server Actions
+ *
+ * Working copies of published constructions: inspection (live vs. proposed diff),
+ * approval, rejection and discarding. Pending edits are created by the regular update
+ * actions in admin.ts (see savePendingEdit).
+ */
+
+/**
+ * Pending edit summary with its field-by-field diff against the live record
+ */
+export interface PendingEditDetails {
+  status: 'draft' | 'review' | 'published';
+  authorName: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  diff: RevisionDiff; // from = live (published) value, to = proposed value
+}
+
+/**
+ * Revalidates the pages affected by a pending edit decision
+ */
+function revalidatePendingEditPaths() {
+  revalidatePath('/en/dashboard', 'layout');
+  revalidatePath('/pt/dashboard', 'layout');
+}
+
+/**
+ * Fetches the pending edit of a construction with its diff against the live version
+ *
+ * Security: Admins, or the researcher who authored the construction
+ *
+ * @param constructionId - Construction UUID
+ * @returns Standardized response with the pending edit, or null when there is none
+ */
+export async function getPendingEdit(
+  constructionId: string
+): Promise<
+  | { success: true; data: PendingEditDetails | null }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [construction] = await db
+      .select({ createdBy: constructions.createdBy })
+      .from(constructions)
+      .where(eq(constructions.id, constructionId))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin && !(await isConstructionAuthor(db, { id: constructionId, createdBy: construction.createdBy }, userId))) {
+      return { success: false, error: 'Unauthorized: You can only view your own constructions' };
+    }
+
+    const [pendingEdit] = await db
+      .select({
+        status: pendingEdits.status,
+        snapshot: pendingEdits.snapshot,
+        createdAt: pendingEdits.createdAt,
+        updatedAt: pendingEdits.updatedAt,
+        authorName: profiles.fullName,
+      })
+      .from(pendingEdits)
+      .leftJoin(profiles, eq(profiles.id, pendingEdits.authorId))
+      .where(eq(pendingEdits.constructionId, constructionId))
+      .limit(1);
+
+    if (!pendingEdit) {
+      return { success: true, data: null };
+    }
+
+    const live = await db.transaction((tx) => takeConstructionSnapshot(tx, constructionId));
+    const proposed = parseStoredSnapshot(pendingEdit.snapshot);
+
+    // Workflow fields are not part of the proposal (approval keeps them as they are)
+    const diff = diffSnapshots(live, proposed);
+    delete diff['construction.status'];
+
+    return {
+      success: true,
+      data: {
+        status: pendingEdit.status,
+        authorName: pendingEdit.authorName,
+        createdAt: pendingEdit.createdAt,
+        updatedAt: pendingEdit.updatedAt,
+        diff,
+      },
+    };
+  } catch (error) {
+    console.error('[getPendingEdit]:', error);
+    return { success: false, error: 'An error occurred while fetching the pending edit' };
+  }
+}
+
+/**
+ * Approves a pending edit: applies the proposed version to the live record
+ *
+ * The live rows are overwritten and the working copy removed in one transaction; the change
+ * is recorded in the revision history under the author of the pending edit. The record stays
+ * published throughout. With the live record and the working copy locked, approval is refused
+ * when:
+ * - the working copy is not in the review queue
+ * - the author changed it after the admin opened it (expectedVersion)
+ * - the live record changed since the copy was taken (approving would silently revert it)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param constructionId - Construction UUID
+ * @param expectedVersion - updatedAt (ISO) of the working copy the admin reviewed
+ * @returns Standardized response with the construction slug
+ */
+export async function approvePendingEdit(
+  constructionId: string,
+  expectedVersion: string
+): Promise<
+  | { success: true; data: { id: string; slug: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+
+    const result = await db.transaction(async (tx): Promise<
+      { success: true; slug: string } | { success: false; error: string }
+    > => {
+      // Same lock order as the editors' saves (construction, then working copy)
+      const [live] = await tx
+        .select({ slug: constructions.slug, updatedAt: constructions.updatedAt })
+        .from(constructions)
+        .where(eq(constructions.id, constructionId))
+        .limit(1)
+        .for('update');
+
+      const pendingEdit = live ? await getPendingEditRow(constructionId, tx, { lock: true }) : null;
+      if (!live || !pendingEdit) {
+        return { success: false, error: 'Pending edit not found' };
+      }
+
+      if (pendingEdit.status !== 'review') {
+        return { success: false, error: 'Only working copies submitted for review can be approved' };
+      }
+
+      if (pendingEdit.updatedAt.toISOString() !== expectedVersion) {
+        return { success: false, error: 'The working copy was changed after you opened it. Reload to review the latest version' };
+      }
+
+      if (pendingEdit.baseUpdatedAt && pendingEdit.baseUpdatedAt.getTime() !== live.updatedAt.getTime()) {
+        return {
+          success: false,
+          error: 'The published record changed after this working copy was created. Request changes so the author can redo the edit',
+        };
+      }
+
+      const proposed = parseStoredSnapshot(pendingEdit.snapshot);
+
+      await withRevision(tx, { constructionId, action: 'update', authorId: pendingEdit.authorId ?? userId }, async () => {
+        await restoreConstructionSnapshot(tx, proposed);
+
+        const deleted = await tx
+          .delete(pendingEdits)
+          .where(
+            and(
+              eq(pendingEdits.id, pendingEdit.id),
+              eq(pendingEdits.status, 'review'),
+              sql`date_trunc('milliseconds', ${pendingEdits.updatedAt}) = ${expectedVersion}::timestamptz`
+            )
+          )
+          .returning({ id: pendingEdits.id });
+        if (deleted.length === 0) {
+          throw new Error('Pending edit changed during approval');
+        }
+
+        await clearReviewAssignment(tx, constructionId);
+      });
+
+      return { success: true, slug: live.slug };
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    revalidatePendingEditPaths();
+    // Public pages show the approved content
+    revalidatePath('/en', 'layout');
+    revalidatePath('/pt', 'layout');
+
+    return { success: true, data: { id: constructionId, slug: result.slug } };
+  } catch (error) {
+    console.error('[approvePendingEdit]:', error);
+    return { success: false, error: 'An error occurred while approving the pending edit' };
+  }
+}
+
+/**
+ * Sends a pending edit back to its author with a required reason
+ *
+ * The working copy is kept (status 'draft') so the author can address the feedback;
+ * the reason is stored as a change-request review comment.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param constructionId - Construction UUID
+ * @param reason - Why the changes are not accepted (required)
+ * @returns Standardized response
+ */
+export async function rejectPendingEdit(
+  constructionId: string,
+  reason: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const trimmedReason = typeof reason === 'string' ? reason.trim() : '';
+    if (!trimmedReason) {
+      return { success: false, error: 'A reason is required to request changes' };
+    }
+
+    const pendingEdit = await getPendingEditRow(constructionId);
+    if (!pendingEdit) {
+      return { success: false, error: 'Pending edit not found' };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(pendingEdits)
+        .set({ status: 'draft', submittedAt: null, updatedAt: new Date() })
+        .where(eq(pendingEdits.id, pendingEdit.id));
+
+      await tx.insert(reviewComments).values({
+        constructionId,
+        authorId: userId,
+        body: trimmedReason,
+        isChangeRequest: true,
+      });
+
+      await markChangesRequested(tx, constructionId);
+    });
+
+    revalidatePendingEditPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[rejectPendingEdit]:', error);
+    return { success: false, error: 'An error occurred while rejecting the pending edit' };
+  }
+}
+
+/**
+ * Discards the working copy of a construction (the live record is unchanged)
+ *
+ * Security: Admins, or the researcher who authored the construction
+ *
+ * @param constructionId - Construction UUID
+ * @returns Standardized response
+ */
+export async function discardPendingEdit(
+  constructionId: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [construction] = await db
+      .select({ createdBy: constructions.createdBy })
+      .from(constructions)
+      .where(eq(constructions.id, constructionId))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found' };
+    }
+
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin && !(await isConstructionAuthor(db, { id: constructionId, createdBy: construction.createdBy }, userId))) {
+      return { success: false, error: 'Unauthorized: You can only discard edits of your own constructions' };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(pendingEdits).where(eq(pendingEdits.constructionId, constructionId));
+      await clearReviewAssignment(tx, constructionId);
+    });
+
+    revalidatePendingEditPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[discardPendingEdit]:', error);
+    return { success: false, error: 'An error occurred while discarding the pending edit' };
+  }
+}
@@ -1,8 +1,9 @@
 'use server';
 
 import { db } from '@/lib/db';
-import { constructions, millsData, constructionTranslations, waterLines, waterLineTranslations, pocasData } from '@/db/schema';
-import { eq, and, sql, inArray, or, ne } from 'drizzle-orm';
+import { constructions, millsData, constructionTranslations, waterLines, waterLineTranslations, pocasData, constructionSlugRedirects, constructionContributors, profiles } from '@/db/schema';
+import { eq, and, asc, sql, inArray, or, ne, gte, lt, isNotNull, isNull, type SQL } from 'drizzle-orm';
+import { CONTRIBUTOR_ROLES, type ContributorRole } from '@/lib/contributors';
 
 /**
  * Public Server Actions
@@ -11,6 +12,9 @@ import { eq, and, sql, inArray, or, ne } from 'drizzle-orm';
  * They only return published constructions.
  */
 
+// Published and not in the trash (trashed records keep their status for restore)
+const isPubliclyVisible = and(eq(constructions.status, 'published'), isNull(constructions.deletedAt))!;
+
 /**
  * Type definition for a published mill with all related data
  */
@@ -64,19 +68,33 @@ export interface PublishedPoca {
  * Type definition for a water line on the map
  */
 export interface MapWaterLine {
-  id: string;
+  id: string; // water_lines id (referenced by mills and poças as waterLineId)
   slug: string;
   path: [number, number][]; // Array of [lng, lat] coordinate pairs
   color: string; // Hex color code
   name: string; // Translated name
 }
 
+/**
+ * Published water line as returned by getPublishedWaterLines
+ */
+export interface PublishedWaterLine extends MapWaterLine {
+  constructionId: string;
+}
+
+/**
+ * Geographic bounding box in WGS 84: [minLng, minLat, maxLng, maxLat]
+ */
+export type BoundingBox = [number, number, number, number];
+
 /**
  * Filter options for published mills
  */
 export interface MillFilters {
   typology?: string[];
   district?: string;
+  municipality?: string;
+  drainageBasin?: string;
   roofMaterial?: string[];
   roofShape?: string[];
   access?: string[];
@@ -90,6 +108,21 @@ export interface MillFilters {
   planShape?: string[];
   volumetry?: string[];
   exteriorFinish?: string[];
+  // Spatial filter used by the public API (mills whose geom falls inside the box)
+  bbox?: BoundingBox;
+  // Single mill lookup by construction UUID (OGC API single item)
+  id?: string;
+}
+
+/**
+ * Builds a PostGIS condition matching geometries that intersect a bounding box
+ *
+ * ST_MakeEnvelope creates a polygon in SRID 4326 from [minLng, minLat, maxLng, maxLat].
+ * Geography columns must be cast to geometry before calling ST_Intersects with it.
+ */
+function intersectsBoundingBox(geometry: SQL, bbox: BoundingBox): SQL {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  return sql`ST_Intersects(${geometry}, ST_MakeEnvelope(${minLng}, ${minLat}, ${maxLng}, ${maxLat}, 4326))`;
 }
 
 /**
@@ -117,7 +150,7 @@ export async function getPublishedMills(
     }
 
     // Build where conditions
-    const whereConditions = [eq(constructions.status, 'published')];
+    const whereConditions = [isPubliclyVisible];
 
     // Apply typology filter (if provided)
     if (filters?.typology && filters.typology.length > 0) {
@@ -129,6 +162,16 @@ export async function getPublishedMills(
       whereConditions.push(eq(constructions.district, filters.district));
     }
 
+    // Apply municipality filter (if provided)
+    if (filters?.municipality) {
+      whereConditions.push(eq(constructions.municipality, filters.municipality));
+    }
+
+    // Apply drainage basin filter (if provided)
+    if (filters?.drainageBasin) {
+      whereConditions.push(eq(constructions.drainageBasin, filters.drainageBasin));
+    }
+
     // Apply roof material filter (if provided)
     if (filters?.roofMaterial && filters.roofMaterial.length > 0) {
       whereConditions.push(inArray(millsData.roofMaterial, filters.roofMaterial as any));
@@ -194,6 +237,15 @@ export async function getPublishedMills(
       whereConditions.push(inArray(millsData.exteriorFinish, filters.exteriorFinish as any));
     }
 
+    // Apply bounding box filter (if provided)
+    if (filters?.bbox) {
+      whereConditions.push(intersectsBoundingBox(sql`${constructions.geom}::geometry`, filters.bbox));
+    }
+
+    if (filters?.id) {
+      whereConditions.push(eq(constructions.id, filters.id));
+    }
+
     // Query published mills with joins and PostGIS coordinate extraction
     // Use try/catch for coordinate extraction to handle malformed geometries gracefully
     const results = await db
@@ -303,10 +355,15 @@ export async function getPublishedMills(
  * Localization: Fetches translation matching the provided locale
  * 
  * @param locale - Language code ('pt' | 'en')
+ * @param options - Optional bounding box filter, or a single poça by construction UUID
  * @returns Standardized response with array of published pocas
  */
 export async function getPublishedPocas(
-  locale: string
+  locale: string,
+  options?: {
+    bbox?: BoundingBox;
+    id?: string;
+  }
 ): Promise<
   | { success: true; data: PublishedPoca[] }
   | { success: false; error: string }
@@ -344,8 +401,12 @@ export async function getPublishedPocas(
       )
       .where(
         and(
-          eq(constructions.status, 'published'),
-          eq(constructions.typeCategory, 'POCA')
+          isPubliclyVisible,
+          eq(constructions.typeCategory, 'POCA'),
+          options?.bbox
+            ? intersectsBoundingBox(sql`${constructions.geom}::geometry`, options.bbox)
+            : undefined,
+          options?.id ? eq(constructions.id, options.id) : undefined
         )
       );
 
@@ -391,6 +452,368 @@ export async function getPublishedPocas(
   }
 }
 
+/**
+ * Type definition for a published construction of any type (mill, poça or water line)
+ */
+export interface PublishedConstruction {
+  id: string;
+  slug: string;
+  typeCategory: string; // 'MILL' | 'POCA' | 'water_line'
+  legacyId: string | null;
+  district: string | null;
+  municipality: string | null;
+  parish: string | null;
+  place: string | null;
+  mainImage: string | null;
+  // Representative point (water lines use the first point of their path)
+  lat: number;
+  lng: number;
+  // Translated title (construction title, or water line name for levadas)
+  title: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fetches all published constructions (generic core data only)
+ * 
+ * Security: Only returns constructions with status = 'published'
+ * GIS Logic: Extracts lat/lng from PostGIS geom field using ST_X/ST_Y
+ * Localization: Uses construction_translations for mills/poças and
+ * water_line_translations for water lines (same strategy as getReviewQueue)
+ * 
+ * @param locale - Language code ('pt' | 'en')
+ * @param options - Optional filters (type category, district, bounding box)
+ * @returns Standardized response with array of published constructions
+ */
+export async function getPublishedConstructions(
+  locale: string,
+  options?: {
+    typeCategory?: string;
+    district?: string;
+    bbox?: BoundingBox;
+  }
+): Promise<
+  | { success: true; data: PublishedConstruction[] }
+  | { success: false; error: string }
+> {
+  try {
+    // Validate locale
+    if (!locale || (locale !== 'pt' && locale !== 'en')) {
+      return { success: false, error: 'Invalid locale. Must be "pt" or "en"' };
+    }
+
+    // Build where conditions
+    const whereConditions = [isPubliclyVisible];
+
+    if (options?.typeCategory) {
+      whereConditions.push(eq(constructions.typeCategory, options.typeCategory));
+    }
+
+    if (options?.district) {
+      whereConditions.push(eq(constructions.district, options.district));
+    }
+
+    if (options?.bbox) {
+      whereConditions.push(intersectsBoundingBox(sql`${constructions.geom}::geometry`, options.bbox));
+    }
+
+    // Join both translation tables - only one of them matches depending on the type category
+    const results = await db
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        typeCategory: constructions.typeCategory,
+        legacyId: constructions.legacyId,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        parish: constructions.parish,
+        place: constructions.place,
+        mainImage: constructions.mainImage,
+        createdAt: constructions.createdAt,
+        updatedAt: constructions.updatedAt,
+        // PostGIS coordinate extraction: ST_X returns longitude, ST_Y returns latitude
+        lng: sql<number | null>`COALESCE(ST_X(${constructions.geom}::geometry), NULL)`,
+        lat: sql<number | null>`COALESCE(ST_Y(${constructions.geom}::geometry), NULL)`,
+        title: constructionTranslations.title,
+        waterLineName: waterLineTranslations.name,
+      })
+      .from(constructions)
+      .leftJoin(
+        constructionTranslations,
+        and(
+          eq(constructionTranslations.constructionId, constructions.id),
+          eq(constructionTranslations.langCode, locale)
+        )
+      )
+      .leftJoin(
+        waterLines,
+        eq(waterLines.constructionId, constructions.id)
+      )
+      .leftJoin(
+        waterLineTranslations,
+        and(
+          eq(waterLineTranslations.waterLineId, waterLines.id),
+          eq(waterLineTranslations.locale, locale)
+        )
+      )
+      .where(and(...whereConditions));
+
+    // Transform results and skip constructions with invalid coordinates
+    const published: PublishedConstruction[] = results
+      .map((row) => {
+        const lat = row.lat !== null ? Number(row.lat) : null;
+        const lng = row.lng !== null ? Number(row.lng) : null;
+
+        if (lat === null || lng === null || isNaN(lat) || isNaN(lng)) {
+          console.warn('[getPublishedConstructions]: Skipping construction with invalid coordinates:', row.slug);
+          return null;
+        }
+
+        return {
+          id: row.id,
+          slug: row.slug,
+          typeCategory: row.typeCategory,
+          legacyId: row.legacyId,
+          district: row.district,
+          municipality: row.municipality,
+          parish: row.parish,
+          place: row.place,
+          mainImage: row.mainImage,
+          lat,
+          lng,
+          // Use water line name if it's a water line, otherwise use construction title
+          title: row.typeCategory === 'water_line' ? row.waterLineName : row.title,
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+        };
+      })
+      .filter((construction): construction is PublishedConstruction => construction !== null);
+
+    return { success: true, data: published };
+  } catch (error) {
+    console.error('[getPublishedConstructions]:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching published constructions',
+    };
+  }
+}
+
+/**
+ * Published construction with all its translations, for metadata harvesting (OAI-PMH)
+ */
+export interface HarvestableConstruction {
+  id: string;
+  slug: string;
+  typeCategory: string; // 'MILL' | 'POCA' | 'water_line'
+  legacyId: string | null;
+  district: string | null;
+  municipality: string | null;
+  parish: string | null;
+  place: string | null;
+  mainImage: string | null;
+  galleryImages: string[] | null;
+  lat: number | null;
+  lng: number | null;
+  typology: string | null; // Mills only
+  createdAt: Date;
+  updatedAt: Date;
+  // Every available translation (construction_translations, or water_line_translations for levadas)
+  translations: Array<{
+    locale: string;
+    title: string;
+    description: string | null;
+  }>;
+}
+
+/**
+ * Fetches published constructions ordered by last update, for incremental harvesting
+ *
+ * Security: Only returns constructions with status = 'published'
+ * Ordering: updatedAt then id, so offset paging is stable while nothing changes
+ *
+ * @param options - Selective harvesting (updatedAt range, type category, district, single id)
+ *   and paging (offset/limit)
+ * @returns Standardized response with one page of constructions and the total match count
+ */
+export async function getHarvestableConstructions(options: {
+  from?: Date; // Inclusive lower bound on updatedAt
+  until?: Date; // Exclusive upper bound on updatedAt
+  typeCategory?: string;
+  district?: string;
+  hasDistrict?: boolean; // Only constructions with a non-empty district
+  id?: string;
+  offset?: number;
+  limit?: number;
+}): Promise<
+  | { success: true; data: { items: HarvestableConstruction[]; total: number } }
+  | { success: false; error: string }
+> {
+  try {
+    const whereConditions = [isPubliclyVisible];
+
+    if (options.from) {
+      whereConditions.push(gte(constructions.updatedAt, options.from));
+    }
+    if (options.until) {
+      whereConditions.push(lt(constructions.updatedAt, options.until));
+    }
+    if (options.typeCategory) {
+      whereConditions.push(eq(constructions.typeCategory, options.typeCategory));
+    }
+    if (options.district) {
+      whereConditions.push(eq(constructions.district, options.district));
+    }
+    if (options.hasDistrict) {
+      whereConditions.push(isNotNull(constructions.district), ne(constructions.district, ''));
+    }
+    if (options.id) {
+      whereConditions.push(eq(constructions.id, options.id));
+    }
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(constructions)
+      .where(and(...whereConditions));
+
+    const rows = await db
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        typeCategory: constructions.typeCategory,
+        legacyId: constructions.legacyId,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        parish: constructions.parish,
+        place: constructions.place,
+        mainImage: constructions.mainImage,
+        galleryImages: constructions.galleryImages,
+        createdAt: constructions.createdAt,
+        updatedAt: constructions.updatedAt,
+        // PostGIS coordinate extraction: ST_X returns longitude, ST_Y returns latitude
+        lng: sql<number | null>`ST_X(${constructions.geom}::geometry)`,
+        lat: sql<number | null>`ST_Y(${constructions.geom}::geometry)`,
+        typology: millsData.typology,
+        waterLineId: waterLines.id,
+      })
+      .from(constructions)
+      .leftJoin(millsData, eq(millsData.constructionId, constructions.id))
+      .leftJoin(waterLines, eq(waterLines.constructionId, constructions.id))
+      .where(and(...whereConditions))
+      .orderBy(constructions.updatedAt, constructions.id)
+      .offset(options.offset ?? 0)
+      .limit(options.limit ?? 100);
+
+    if (rows.length === 0) {
+      return { success: true, data: { items: [], total: countResult?.count ?? 0 } };
+    }
+
+    // Load all translations of the page in two queries
+    const waterLineIds = rows.map((row) => row.waterLineId).filter((id): id is string => id !== null);
+
+    const [constructionTexts, waterLineTexts] = await Promise.all([
+      db
+        .select({
+          constructionId: constructionTranslations.constructionId,
+          locale: constructionTranslations.langCode,
+          title: constructionTranslations.title,
+          description: constructionTranslations.description,
+        })
+        .from(constructionTranslations)
+        .where(inArray(constructionTranslations.constructionId, rows.map((row) => row.id))),
+      waterLineIds.length > 0
+        ? db
+            .select({
+              waterLineId: waterLineTranslations.waterLineId,
+              locale: waterLineTranslations.locale,
+              title: waterLineTranslations.name,
+              description: waterLineTranslations.description,
+            })
+            .from(waterLineTranslations)
+            .where(inArray(waterLineTranslations.waterLineId, waterLineIds))
+        : Promise.resolve([]),
+    ]);
+
+    const items: HarvestableConstruction[] = rows.map((row) => ({
+      id: row.id,
+      slug: row.slug,
+      typeCategory: row.typeCategory,
+      legacyId: row.legacyId,
+      district: row.district,
+      municipality: row.municipality,
+      parish: row.parish,
+      place: row.place,
+      mainImage: row.mainImage,
+      galleryImages: row.galleryImages,
+      lat: row.lat !== null ? Number(row.lat) : null,
+      lng: row.lng !== null ? Number(row.lng) : null,
+      typology: row.typology,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      // Use water line names for levadas, construction titles otherwise
+      translations: (row.typeCategory === 'water_line'
+        ? waterLineTexts.filter((text) => text.waterLineId === row.waterLineId)
+        : constructionTexts.filter((text) => text.constructionId === row.id)
+      ).map(({ locale, title, description }) => ({ locale, title, description })),
+    }));
+
+    return { success: true, data: { items, total: countResult?.count ?? 0 } };
+  } catch (error) {
+    console.error('[getHarvestableConstructions]:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching harvestable constructions',
+    };
+  }
+}
+
+/**
+ * Summarizes the published collection for harvesting (set values and earliest datestamp)
+ *
+ * @returns Standardized response with the distinct type categories and districts of
+ *   published constructions (sorted) and the oldest updatedAt (null when empty)
+ */
+export async function getHarvestingSummary(): Promise<
+  | {
+      success: true;
+      data: { typeCategories: string[]; districts: string[]; earliestUpdatedAt: Date | null };
+    }
+  | { success: false; error: string }
+> {
+  try {
+    const [typeRows, districtRows, [earliest]] = await Promise.all([
+      db
+        .selectDistinct({ typeCategory: constructions.typeCategory })
+        .from(constructions)
+        .where(isPubliclyVisible),
+      db
+        .selectDistinct({ district: constructions.district })
+        .from(constructions)
+        .where(and(isPubliclyVisible, isNotNull(constructions.district), ne(constructions.district, ''))),
+      db
+        .select({ updatedAt: sql<Date | null>`min(${constructions.updatedAt})` })
+        .from(constructions)
+        .where(isPubliclyVisible),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        typeCategories: typeRows.map((row) => row.typeCategory).sort(),
+        districts: districtRows.map((row) => row.district!).sort(),
+        earliestUpdatedAt: earliest?.updatedAt ? new Date(earliest.updatedAt) : null,
+      },
+    };
+  } catch (error) {
+    console.error('[getHarvestingSummary]:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching the harvesting summary',
+    };
+  }
+}
+
 /**
  * Detailed mill data for the detail page
  */
@@ -467,6 +890,31 @@ export interface MillDetail extends PublishedMill {
   observationsGeneral: string | null;
 }
 
+/**
+ * Resolves the old slug of a construction that was merged into another one
+ * 
+ * Used by the mill and levada pages when a slug matches no record, so links to a
+ * merged duplicate keep working.
+ * 
+ * @param slug - Slug that matched no record
+ * @returns The current slug of the surviving construction, or null if there is no redirect
+ */
+export async function getMergedSlugRedirect(slug: string): Promise<string | null> {
+  try {
+    const [redirect] = await db
+      .select({ slug: constructions.slug })
+      .from(constructionSlugRedirects)
+      .innerJoin(constructions, eq(constructions.id, constructionSlugRedirects.constructionId))
+      .where(and(eq(constructionSlugRedirects.slug, slug), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    return redirect && redirect.slug !== slug ? redirect.slug : null;
+  } catch (error) {
+    console.error('[getMergedSlugRedirect]:', error);
+    return null;
+  }
+}
+
 /**
  * Fetches a single published mill by slug
  * 
@@ -611,7 +1059,7 @@ export async function getMillBySlug(
           eq(waterLineTranslations.locale, locale)
         )
       )
-      .where(and(eq(constructions.slug, slug), eq(constructions.status, 'published')))
+      .where(and(eq(constructions.slug, slug), isPubliclyVisible))
       .limit(1);
 
     if (results.length === 0) {
@@ -732,6 +1180,257 @@ export async function getMillBySlug(
   }
 }
 
+/**
+ * Credit line of a published construction (the owner is credited as author)
+ */
+export interface ConstructionCredit {
+  profileId: string | null; // Links to the researcher page; null for people without an account
+  name: string;
+  role: ContributorRole;
+  academicAffiliation: string | null;
+}
+
+/**
+ * Fetches the credits of a published construction
+ *
+ * Ordered by role (surveyor, author, photographer, reviewer, translator), the owner first
+ * among the authors. Accounts without a name are left out.
+ *
+ * @param constructionId - Construction UUID
+ * @returns Credits, or an empty array if the construction is not published
+ */
+export async function getConstructionCredits(constructionId: string): Promise<ConstructionCredit[]> {
+  try {
+    const [construction] = await db
+      .select({ ownerId: constructions.createdBy, ownerName: profiles.fullName, ownerAffiliation: profiles.academicAffiliation })
+      .from(constructions)
+      .leftJoin(profiles, eq(profiles.id, constructions.createdBy))
+      .where(and(eq(constructions.id, constructionId), isPubliclyVisible))
+      .limit(1);
+
+    if (!construction) {
+      return [];
+    }
+
+    const rows = await db
+      .select({
+        profileId: constructionContributors.profileId,
+        role: constructionContributors.role,
+        creditedName: constructionContributors.name,
+        fullName: profiles.fullName,
+        academicAffiliation: profiles.academicAffiliation,
+      })
+      .from(constructionContributors)
+      .leftJoin(profiles, eq(profiles.id, constructionContributors.profileId))
+      .where(eq(constructionContributors.constructionId, constructionId))
+      .orderBy(asc(constructionContributors.createdAt));
+
+    const credits: ConstructionCredit[] = [];
+    if (construction.ownerName) {
+      credits.push({
+        profileId: construction.ownerId,
+        name: construction.ownerName,
+        role: 'author',
+        academicAffiliation: construction.ownerAffiliation,
+      });
+    }
+    for (const row of rows) {
+      const name = row.fullName ?? row.creditedName;
+      if (name) {
+        credits.push({
+          profileId: row.profileId,
+          name,
+          role: row.role as ContributorRole,
+          academicAffiliation: row.academicAffiliation,
+        });
+      }
+    }
+
+    // Stable sort keeps the owner first among the authors
+    return credits.sort((a, b) => CONTRIBUTOR_ROLES.indexOf(a.role) - CONTRIBUTOR_ROLES.indexOf(b.role));
+  } catch (error) {
+    console.error('[getConstructionCredits]:', error);
+    return [];
+  }
+}
+
+/**
+ * Published construction a researcher owns or is credited on
+ */
+export interface ResearcherContribution {
+  id: string;
+  slug: string;
+  title: string | null;
+  municipality: string | null;
+  roles: ContributorRole[]; // The owner counts as author
+  updatedAt: Date;
+}
+
+/**
+ * Public researcher page data
+ */
+export interface ResearcherProfile {
+  id: string;
+  fullName: string | null;
+  academicAffiliation: string | null;
+  orcid: string | null;
+  bio: string | null;
+  mills: ResearcherContribution[];
+  levadas: ResearcherContribution[];
+  pocas: ResearcherContribution[]; // Poças have no page of their own
+}
+
+// Researchers and admins with an active account have a public page
+const hasPublicProfile = and(inArray(profiles.role, ['researcher', 'admin']), isNull(profiles.deactivatedAt))!;
+
+/**
+ * Fetches a researcher and the published constructions they own or are credited on
+ *
+ * Security: Only researchers / admins with an active account; only published constructions
+ *
+ * @param id - Profile UUID
+ * @param locale - Language code ('pt' | 'en')
+ * @returns Researcher page data, or null if there is no public profile (caller should handle 404)
+ */
+export async function getResearcherProfile(id: string, locale: string): Promise<ResearcherProfile | null> {
+  try {
+    if (!locale || (locale !== 'pt' && locale !== 'en')) {
+      return null;
+    }
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return null;
+    }
+
+    const [profile] = await db
+      .select({
+        id: profiles.id,
+        fullName: profiles.fullName,
+        academicAffiliation: profiles.academicAffiliation,
+        orcid: profiles.orcid,
+        bio: profiles.bio,
+      })
+      .from(profiles)
+      .where(and(eq(profiles.id, id), hasPublicProfile))
+      .limit(1);
+
+    if (!profile) {
+      return null;
+    }
+
+    // Credited roles per construction (ownership counts as 'author')
+    const creditRows = await db
+      .select({ constructionId: constructionContributors.constructionId, role: constructionContributors.role })
+      .from(constructionContributors)
+      .where(eq(constructionContributors.profileId, id));
+
+    const rolesById = new Map<string, Set<ContributorRole>>();
+    for (const row of creditRows) {
+      const roles = rolesById.get(row.constructionId) ?? new Set<ContributorRole>();
+      roles.add(row.role as ContributorRole);
+      rolesById.set(row.constructionId, roles);
+    }
+
+    const ownershipOrCredit = or(
+      eq(constructions.createdBy, id),
+      rolesById.size > 0 ? inArray(constructions.id, Array.from(rolesById.keys())) : undefined
+    )!;
+
+    // Join both translation tables - only one of them matches depending on the type category
+    const rows = await db
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        typeCategory: constructions.typeCategory,
+        municipality: constructions.municipality,
+        createdBy: constructions.createdBy,
+        updatedAt: constructions.updatedAt,
+        title: constructionTranslations.title,
+        waterLineName: waterLineTranslations.name,
+      })
+      .from(constructions)
+      .leftJoin(
+        constructionTranslations,
+        and(
+          eq(constructionTranslations.constructionId, constructions.id),
+          eq(constructionTranslations.langCode, locale)
+        )
+      )
+      .leftJoin(waterLines, eq(waterLines.constructionId, constructions.id))
+      .leftJoin(
+        waterLineTranslations,
+        and(
+          eq(waterLineTranslations.waterLineId, waterLines.id),
+          eq(waterLineTranslations.locale, locale)
+        )
+      )
+      .where(and(isPubliclyVisible, ownershipOrCredit))
+      .orderBy(asc(constructions.slug));
+
+    const contributions = rows.map((row) => {
+      const roles = new Set(rolesById.get(row.id));
+      if (row.createdBy === id) {
+        roles.add('author');
+      }
+      return {
+        typeCategory: row.typeCategory,
+        contribution: {
+          id: row.id,
+          slug: row.slug,
+          title: row.typeCategory === 'water_line' ? row.waterLineName : row.title,
+          municipality: row.municipality,
+          roles: CONTRIBUTOR_ROLES.filter((role) => roles.has(role)),
+          updatedAt: row.updatedAt,
+        },
+      };
+    });
+    const ofType = (typeCategory: string) =>
+      contributions.filter((item) => item.typeCategory === typeCategory).map((item) => item.contribution);
+
+    return {
+      ...profile,
+      mills: ofType('MILL'),
+      levadas: ofType('water_line'),
+      pocas: ofType('POCA'),
+    };
+  } catch (error) {
+    console.error('[getResearcherProfile]:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetches the researchers that have at least one published construction (for the sitemap)
+ *
+ * @returns Profile IDs with the date of their latest published change
+ */
+export async function getPublicResearchers(): Promise<Array<{ id: string; lastModified: Date }>> {
+  try {
+    const rows = await db
+      .select({
+        id: profiles.id,
+        lastModified: sql<Date>`max(${constructions.updatedAt})`.mapWith(constructions.updatedAt),
+      })
+      .from(profiles)
+      .innerJoin(
+        constructions,
+        and(
+          isPubliclyVisible,
+          or(
+            eq(constructions.createdBy, profiles.id),
+            sql`exists (select 1 from ${constructionContributors} where ${constructionContributors.constructionId} = ${constructions.id} and ${constructionContributors.profileId} = ${profiles.id})`
+          )
+        )
+      )
+      .where(hasPublicProfile)
+      .groupBy(profiles.id);
+
+    return rows;
+  } catch (error) {
+    console.error('[getPublicResearchers]:', error);
+    return [];
+  }
+}
+
 /**
  * Fetches a single published mill by ID
  * 
@@ -876,7 +1575,7 @@ export async function getMillById(
           eq(waterLineTranslations.locale, locale)
         )
       )
-      .where(and(eq(constructions.id, id), eq(constructions.status, 'published')))
+      .where(and(eq(constructions.id, id), isPubliclyVisible))
       .limit(1);
 
     if (results.length === 0) {
@@ -1026,7 +1725,7 @@ export async function getConnectedMills(
       })
       .from(constructions)
       .innerJoin(millsData, eq(millsData.constructionId, constructions.id))
-      .where(and(eq(constructions.id, millId), eq(constructions.status, 'published')))
+      .where(and(eq(constructions.id, millId), isPubliclyVisible))
       .limit(1);
 
     if (millResult.length === 0 || !millResult[0]!.waterLineId) {
@@ -1083,7 +1782,7 @@ export async function getConnectedMills(
       )
       .where(
         and(
-          eq(constructions.status, 'published'),
+          isPubliclyVisible,
           eq(millsData.waterLineId, waterLineId),
           ne(constructions.id, millId) // Exclude the mill itself
         )
@@ -1154,7 +1853,7 @@ export async function getUniqueDistricts(): Promise<
       })
       .from(constructions)
       .innerJoin(millsData, eq(millsData.constructionId, constructions.id))
-      .where(eq(constructions.status, 'published'));
+      .where(isPubliclyVisible);
 
     // Extract districts, filter out nulls, get unique values, and sort
     const districtsSet = new Set<string>();
@@ -1212,7 +1911,7 @@ export async function getWaterLinesList(
     }
 
     // Build where conditions
-    const whereConditions = [eq(constructions.typeCategory, 'water_line')];
+    const whereConditions = [eq(constructions.typeCategory, 'water_line'), isNull(constructions.deletedAt)];
 
     // Phase 5.9.7.2: Filter for published constructions when requested
     if (options?.publishedOnly) {
@@ -1266,6 +1965,7 @@ export async function getWaterLinesList(
 export interface WaterLineDetail {
   id: string;
   slug: string;
+  status: 'draft' | 'review' | 'published';
   color: string;
   path: [number, number][]; // Array of [lat, lng] coordinate pairs (Leaflet format)
   name: string; // Translated name
@@ -1279,7 +1979,7 @@ export interface WaterLineDetail {
 export interface MapData {
   mills: PublishedMill[];
   pocas: PublishedPoca[];
-  waterLines: MapWaterLine[];
+  waterLines: PublishedWaterLine[];
 }
 
 /**
@@ -1289,11 +1989,19 @@ export interface MapData {
  * 
  * @param slug - Water line slug identifier
  * @param locale - Language code ('pt' | 'en')
+ * @param options - Optional flags (publishedOnly hides non-published water lines)
  * @returns Water line detail data or null if not found
  */
 export async function getWaterLineBySlug(
   slug: string,
-  locale: string
+  locale: string,
+  options?: {
+    /**
+     * When true, returns null unless the water line's construction is published.
+     * Used by the public API, which must never expose drafts.
+     */
+    publishedOnly?: boolean;
+  }
 ): Promise<WaterLineDetail | null> {
   try {
     // Validate locale
@@ -1307,6 +2015,7 @@ export async function getWaterLineBySlug(
       .select({
         id: waterLines.id,
         slug: constructions.slug, // Use construction slug
+        status: constructions.status,
         pathText: sql<string>`ST_AsText(${waterLines.path})`.as('path_text'),
         color: waterLines.color,
         name: waterLineTranslations.name,
@@ -1327,7 +2036,9 @@ export async function getWaterLineBySlug(
       .where(
         and(
           eq(constructions.slug, slug),
-          eq(constructions.typeCategory, 'water_line')
+          eq(constructions.typeCategory, 'water_line'),
+          isNull(constructions.deletedAt),
+          options?.publishedOnly ? eq(constructions.status, 'published') : undefined
         )
       )
       .limit(1);
@@ -1404,7 +2115,7 @@ export async function getWaterLineBySlug(
       )
       .where(
         and(
-          eq(constructions.status, 'published'),
+          isPubliclyVisible,
           eq(millsData.waterLineId, waterLineRow.id)
         )
       );
@@ -1453,6 +2164,7 @@ export async function getWaterLineBySlug(
     return {
       id: waterLineRow.id,
       slug: waterLineRow.slug,
+      status: waterLineRow.status,
       color: waterLineRow.color,
       path: leafletPath,
       name: waterLineRow.name || waterLineRow.slug, // Fallback to slug if name is null
@@ -1466,23 +2178,24 @@ export async function getWaterLineBySlug(
 }
 
 /**
- * Fetches all data needed for the map display
+ * Fetches all published water lines with their geometry and translated name
  * 
- * Returns both published mills (with custom icons and water line references) and all water lines.
- * Water lines are always shown regardless of filters (as per Phase 5.9.2.4 requirements).
- * 
- * Strategy: Properly awaits getPublishedMills and getWaterLinesList separately, then merges
- * their results into a clean GeoJSON/Feature structure.
+ * Security: Only returns water lines whose construction has status = 'published'
+ * GIS Logic: Reads the PostGIS LineString with ST_AsText and converts it to Leaflet [lat, lng] pairs
  * 
  * @param locale - Language code ('pt' | 'en')
- * @param filters - Optional filters for mills (typology and district)
- * @returns Standardized response with mills and water lines
+ * @param options - Optional bounding box filter (water lines whose path intersects the box), or a
+ *   single water line by construction UUID
+ * @returns Standardized response with array of map water lines
  */
-export async function getMapData(
+export async function getPublishedWaterLines(
   locale: string,
-  filters?: MillFilters
+  options?: {
+    bbox?: BoundingBox;
+    id?: string;
+  }
 ): Promise<
-  | { success: true; data: MapData }
+  | { success: true; data: PublishedWaterLine[] }
   | { success: false; error: string }
 > {
   try {
@@ -1491,58 +2204,45 @@ export async function getMapData(
       return { success: false, error: 'Invalid locale. Must be "pt" or "en"' };
     }
 
-    // Fetch mills with filters (reuse existing function)
-    // This properly handles all mill filtering logic internally
-    const millsResult = await getPublishedMills(locale, filters);
-    if (!millsResult.success) {
-      return millsResult;
-    }
-
-    // Fetch published pocas
-    const pocasResult = await getPublishedPocas(locale);
-    if (!pocasResult.success) {
-      return pocasResult;
-    }
-
-    // Fetch all water lines with translations (separate call)
-    // This fetches the list of water lines with their translated names
-    const waterLinesResult = await getWaterLinesList(locale);
-    if (!waterLinesResult.success) {
-      return waterLinesResult;
-    }
-
-    // Fetch water line geometries and colors separately
+    // Fetch water line geometries, colors and translated names
     // Use INNER JOIN with constructions to ensure valid parent-child relationship
+    // Use inner join on the translation to skip water lines without a name in the locale
     // Use ST_AsText to get the raw PostGIS text, then parse it manually
     // since Drizzle custom types may not always parse correctly in selects
     // Only show published water lines on the public map
     const waterLinesWithGeometry = await db
       .select({
         id: waterLines.id,
+        constructionId: constructions.id,
         slug: constructions.slug, // Use construction slug
         pathText: sql<string>`ST_AsText(${waterLines.path})`.as('path_text'),
         color: waterLines.color,
+        name: waterLineTranslations.name,
       })
       .from(constructions)
       .innerJoin(
         waterLines,
         eq(waterLines.constructionId, constructions.id)
       )
+      .innerJoin(
+        waterLineTranslations,
+        and(
+          eq(waterLineTranslations.waterLineId, waterLines.id),
+          eq(waterLineTranslations.locale, locale)
+        )
+      )
       .where(
         and(
           eq(constructions.typeCategory, 'water_line'),
-          eq(constructions.status, 'published')
+          isPubliclyVisible,
+          // path is already geometry(LineString, 4326) - no cast needed
+          options?.bbox ? intersectsBoundingBox(sql`${waterLines.path}`, options.bbox) : undefined,
+          options?.id ? eq(constructions.id, options.id) : undefined
         )
       );
 
-    // Combine water line data with translations
-    const mapWaterLines: MapWaterLine[] = waterLinesWithGeometry
+    const mapWaterLines: PublishedWaterLine[] = waterLinesWithGeometry
       .map((wl) => {
-        const translation = waterLinesResult.data.find((t) => t.id === wl.id);
-        if (!translation) {
-          return null; // Skip water lines without translations
-        }
-
         // Parse PostGIS LINESTRING format: LINESTRING(lng1 lat1, lng2 lat2, ...)
         const match = wl.pathText.match(/LINESTRING\((.+)\)/);
         if (!match) {
@@ -1564,20 +2264,76 @@ export async function getMapData(
 
         return {
           id: wl.id,
+          constructionId: wl.constructionId,
           slug: wl.slug,
           path: leafletPath, // Leaflet uses [lat, lng] format
           color: wl.color,
-          name: translation.name,
+          name: wl.name,
         };
       })
-      .filter((wl): wl is MapWaterLine => wl !== null);
+      .filter((wl): wl is PublishedWaterLine => wl !== null);
+
+    return { success: true, data: mapWaterLines };
+  } catch (error) {
+    console.error('[getPublishedWaterLines]:', error);
+    return {
+      success: false,
+      error: 'An error occurred while fetching published water lines',
+    };
+  }
+}
+
+/**
+ * Fetches all data needed for the map display
+ * 
+ * Returns both published mills (with custom icons and water line references) and all water lines.
+ * Water lines are always shown regardless of filters (as per Phase 5.9.2.4 requirements).
+ * 
+ * Strategy: Properly awaits getPublishedMills, getPublishedPocas and getPublishedWaterLines
+ * separately, then merges their results into a clean GeoJSON/Feature structure.
+ * 
+ * @param locale - Language code ('pt' | 'en')
+ * @param filters - Optional filters for mills (typology and district)
+ * @returns Standardized response with mills and water lines
+ */
+export async function getMapData(
+  locale: string,
+  filters?: MillFilters
+): Promise<
+  | { success: true; data: MapData }
+  | { success: false; error: string }
+> {
+  try {
+    // Validate locale
+    if (!locale || (locale !== 'pt' && locale !== 'en')) {
+      return { success: false, error: 'Invalid locale. Must be "pt" or "en"' };
+    }
+
+    // Fetch mills with filters (reuse existing function)
+    // This properly handles all mill filtering logic internally
+    const millsResult = await getPublishedMills(locale, filters);
+    if (!millsResult.success) {
+      return millsResult;
+    }
+
+    // Fetch published pocas
+    const pocasResult = await getPublishedPocas(locale);
+    if (!pocasResult.success) {
+      return pocasResult;
+    }
+
+    // Fetch published water lines (geometry + translated names)
+    const waterLinesResult = await getPublishedWaterLines(locale);
+    if (!waterLinesResult.success) {
+      return waterLinesResult;
+    }
 
     return {
       success: true,
       data: {
         mills: millsResult.data,
         pocas: pocasResult.data,
-        waterLines: mapWaterLines,
+        waterLines: waterLinesResult.data,
       },
     };
   } catch (error) {
@@ -1791,7 +2547,7 @@ export async function getSearchableMills(
         eq(constructionTranslations.constructionId, constructions.id)
         // Note: No langCode filter - we want ALL translations
       )
-      .where(eq(constructions.status, 'published'));
+      .where(isPubliclyVisible);
 
     // Group results by construction ID and collect all translations
     const millsMap = new Map<string, {
@@ -2158,7 +2914,7 @@ export async function getSearchableWaterLines(
       .where(
         and(
           eq(constructions.typeCategory, 'water_line'),
-          eq(constructions.status, 'published')
+          isPubliclyVisible
         )
       );
 
@@ -2282,7 +3038,7 @@ export async function getSearchablePocas(
       )
       .where(
         and(
-          eq(constructions.status, 'published'),
+          isPubliclyVisible,
           eq(constructions.typeCategory, 'POCA')
         )
       );
@@ -3,9 +3,34 @@
 import { createClient } from '@/lib/supabase';
 import { db } from '@/lib/db';
 import { profiles, constructions, waterLines } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-import { getSessionUserId } from '@/lib/auth';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getSessionUserId, isResearcherOrAdmin } from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
+import { getTrashBlocker, moveConstructionToTrash } from '@/lib/trash';
+import { isConstructionAuthor } from '@/lib/contributors';
+import { normalizeOrcid } from '@/lib/orcid';
+import { z } from 'zod';
+
+/**
+ * Profile details shown on the public researcher page (/researchers/[id])
+ */
+export interface OwnProfile {
+  id: string;
+  fullName: string | null;
+  academicAffiliation: string | null;
+  orcid: string | null;
+  bio: string | null;
+}
+
+/**
+ * Zod schema for editing one's own public profile
+ */
+const updateOwnProfileSchema = z.object({
+  fullName: z.string().trim().min(1, 'Full name is required').max(255),
+  academicAffiliation: z.string().trim().max(255).nullable(),
+  orcid: z.string().trim().max(64).nullable(),
+  bio: z.string().trim().max(2000, 'Bio must be at most 2000 characters').nullable(),
+});
 
 /**
  * Verifies if the current authenticated user has researcher or admin role
@@ -33,14 +58,14 @@ export async function getIsResearcher(): Promise<boolean> {
 
     // Query the profiles table for the user's role
     const profileResult = await db
-      .select({ role: profiles.role })
+      .select({ role: profiles.role, deactivatedAt: profiles.deactivatedAt })
       .from(profiles)
       .where(eq(profiles.id, user.id))
       .limit(1);
 
     const profile = profileResult[0];
 
-    if (!profile) {
+    if (!profile || profile.deactivatedAt) {
       return false;
     }
 
@@ -55,6 +80,8 @@ export async function getIsResearcher(): Promise<boolean> {
 /**
  * Deletes a draft construction (MILL or POCA)
  * 
+ * The draft is moved to the trash (restorable from the Trash view); see src/lib/trash.ts
+ * 
  * Security: Verifies that the performing user is the author of the draft
  * Only drafts can be deleted by the author (Phase 5.9.7.1)
  * 
@@ -87,7 +114,7 @@ export async function deleteDraftConstruction(
         createdBy: constructions.createdBy,
       })
       .from(constructions)
-      .where(eq(constructions.id, id))
+      .where(and(eq(constructions.id, id), isNull(constructions.deletedAt)))
       .limit(1);
 
     if (existing.length === 0) {
@@ -101,25 +128,25 @@ export async function deleteDraftConstruction(
       return { success: false, error: 'Only draft constructions can be deleted by the author' };
     }
 
-    if (construction.createdBy !== userId) {
+    if (!(await isConstructionAuthor(db, construction, userId))) {
       return { success: false, error: 'Unauthorized: You can only delete your own draft constructions' };
     }
 
-    // Delete construction (cascade will handle related records)
-    const result = await db
-      .delete(constructions)
-      .where(eq(constructions.id, id))
-      .returning({ id: constructions.id });
-
-    if (!result || result.length === 0) {
-      return { success: false, error: 'Failed to delete construction' };
+    const trashBlocker = await getTrashBlocker(db, id);
+    if (trashBlocker) {
+      return { success: false, error: trashBlocker };
     }
 
+    // Move to the trash (related records are kept for a restore)
+    await db.transaction((tx) => moveConstructionToTrash(tx, id, userId));
+
     // Revalidate dashboard pages
     revalidatePath('/en/dashboard');
     revalidatePath('/pt/dashboard');
     revalidatePath('/en/dashboard/inventory');
     revalidatePath('/pt/dashboard/inventory');
+    revalidatePath('/en/dashboard/trash');
+    revalidatePath('/pt/dashboard/trash');
 
     return { success: true };
   } catch (error) {
@@ -173,3 +200,112 @@ export async function getWaterLineColor(
 
 
 
+
+/**
+ * Fetches the public profile details of the current user
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @returns Standardized response with the profile
+ */
+export async function getOwnProfile(): Promise<
+  | { success: true; data: OwnProfile }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [profile] = await db
+      .select({
+        id: profiles.id,
+        fullName: profiles.fullName,
+        academicAffiliation: profiles.academicAffiliation,
+        orcid: profiles.orcid,
+        bio: profiles.bio,
+      })
+      .from(profiles)
+      .where(eq(profiles.id, userId))
+      .limit(1);
+
+    if (!profile) {
+      return { success: false, error: 'Profile not found' };
+    }
+
+    return { success: true, data: profile };
+  } catch (error) {
+    console.error('[getOwnProfile]:', error);
+    return { success: false, error: 'An error occurred while fetching your profile' };
+  }
+}
+
+/**
+ * Updates the name, affiliation, ORCID iD and bio of the current user
+ *
+ * Security: Verifies that the performing user has 'researcher' or 'admin' role
+ *
+ * @param data - Profile details (empty affiliation, ORCID or bio = cleared)
+ * @returns Standardized response
+ */
+export async function updateOwnProfile(
+  data: z.infer<typeof updateOwnProfileSchema>
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const validationResult = updateOwnProfileSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const validated = validationResult.data;
+
+    let orcid: string | null = null;
+    if (validated.orcid) {
+      orcid = normalizeOrcid(validated.orcid);
+      if (!orcid) {
+        return { success: false, error: 'Validation failed: Invalid ORCID iD (expected 0000-0000-0000-0000)' };
+      }
+    }
+
+    await db
+      .update(profiles)
+      .set({
+        fullName: validated.fullName,
+        academicAffiliation: validated.academicAffiliation || null,
+        orcid,
+        bio: validated.bio || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(profiles.id, userId));
+
+    revalidatePath('/en/dashboard/profile');
+    revalidatePath('/pt/dashboard/profile');
+    revalidatePath(`/en/researchers/${userId}`);
+    revalidatePath(`/pt/researchers/${userId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error('[updateOwnProfile]:', error);
+    return { success: false, error: 'An error occurred while updating your profile' };
+  }
+}
@@ -0,0 +1,156 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructions, pendingEdits, profiles, reviewAssignments } from '@/db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+import { isAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { REVIEW_STATUSES } from '@/lib/review-assignments';
+
+/**
+ * Review Assignment Server Actions
+ *
+ * Queue management for admins: who reviews a queued item, by when, and how far the review
+ * is. See src/lib/review-assignments.ts.
+ */
+
+/**
+ * Admin that queued items can be assigned to
+ */
+export interface Reviewer {
+  id: string;
+  fullName: string | null;
+}
+
+/**
+ * Zod schema for updating the assignment of a queued item
+ */
+const updateReviewAssignmentSchema = z.object({
+  constructionId: z.string().uuid('Invalid construction ID'),
+  reviewerId: z.string().uuid('Invalid reviewer ID').nullable(),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be a date (YYYY-MM-DD)')
+    .nullable(),
+  reviewStatus: z.enum(REVIEW_STATUSES).nullable(),
+});
+
+/**
+ * Fetches the admins queued items can be assigned to
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the reviewers (by name)
+ */
+export async function getReviewers(): Promise<
+  | { success: true; data: Reviewer[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const rows = await db
+      .select({ id: profiles.id, fullName: profiles.fullName })
+      .from(profiles)
+      .where(eq(profiles.role, 'admin'))
+      .orderBy(asc(profiles.fullName));
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error('[getReviewers]:', error);
+    return { success: false, error: 'An error occurred while fetching reviewers' };
+  }
+}
+
+/**
+ * Sets the reviewer, due date and review status of an item in the review queue
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param data - Construction, reviewer (an admin, or null to unassign), due date and status
+ * @returns Standardized response
+ */
+export async function updateReviewAssignment(
+  data: z.infer<typeof updateReviewAssignmentSchema>
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const validationResult = updateReviewAssignmentSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const { constructionId, reviewerId, dueDate, reviewStatus } = validationResult.data;
+
+    // Only items waiting in the queue (record in review, or pending edit in review)
+    const [queued] = await db
+      .select({ status: constructions.status, pendingEditStatus: pendingEdits.status })
+      .from(constructions)
+      .leftJoin(pendingEdits, eq(pendingEdits.constructionId, constructions.id))
+      .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!queued) {
+      return { success: false, error: 'Construction not found' };
+    }
+    if (queued.status !== 'review' && queued.pendingEditStatus !== 'review') {
+      return { success: false, error: 'Only items in the review queue can be assigned' };
+    }
+
+    if (reviewerId) {
+      const [reviewer] = await db
+        .select({ id: profiles.id })
+        .from(profiles)
+        .where(and(eq(profiles.id, reviewerId), eq(profiles.role, 'admin')))
+        .limit(1);
+
+      if (!reviewer) {
+        return { success: false, error: 'The reviewer must be an admin' };
+      }
+    }
+
+    const [existing] = await db
+      .select({ reviewerId: reviewAssignments.reviewerId, assignedBy: reviewAssignments.assignedBy })
+      .from(reviewAssignments)
+      .where(eq(reviewAssignments.constructionId, constructionId))
+      .limit(1);
+
+    // assigned_by follows the last reviewer change
+    const assignedBy = existing && existing.reviewerId === reviewerId ? existing.assignedBy : userId;
+
+    await db
+      .insert(reviewAssignments)
+      .values({ constructionId, reviewerId, assignedBy, dueDate, reviewStatus })
+      .onConflictDoUpdate({
+        target: reviewAssignments.constructionId,
+        set: { reviewerId, assignedBy, dueDate, reviewStatus, updatedAt: new Date() },
+      });
+
+    revalidatePath('/en/dashboard/review');
+    revalidatePath('/pt/dashboard/review');
+    revalidatePath('/en/dashboard');
+    revalidatePath('/pt/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('[updateReviewAssignment]:', error);
+    return { success: false, error: 'An error occurred while updating the review assignment' };
+  }
+}
@@ -0,0 +1,246 @@
+'use server';
+
+import { db } from '@/lib/db';
+import { constructions, constructionTranslations, profiles, waterLines, waterLineTranslations } from '@/db/schema';
+import { and, desc, eq, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { isAdmin, isResearcherOrAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { withRevision } from '@/lib/revisions';
+import { getPurgeBlocker, getRestoreBlocker, purgeTrashedConstruction } from '@/lib/trash';
+import { getAuthorshipCondition, isConstructionAuthor } from '@/lib/contributors';
+import { getGeoScope, getGeoScopeBlocker } from '@/lib/geo-scope';
+
+/**
+ * Trash Server Actions
+ *
+ * Lists constructions moved to the trash by deleteConstruction / deleteDraftConstruction,
+ * restores them, and purges them for good (admins only). See src/lib/trash.ts.
+ */
+
+/**
+ * Trashed construction as listed in the dashboard Trash view
+ */
+export interface TrashItem {
+  id: string;
+  slug: string;
+  title: string | null; // Title (or levada name) in the requested locale
+  typeCategory: string;
+  status: 'draft' | 'review' | 'published'; // Status the record returns to on restore
+  deletedAt: Date;
+  deletedByName: string | null;
+  createdBy: string | null;
+}
+
+/**
+ * Revalidates the pages that list or show a construction leaving or entering the trash
+ */
+function revalidateTrashPaths() {
+  revalidatePath('/en', 'layout');
+  revalidatePath('/pt', 'layout');
+}
+
+/**
+ * Fetches the constructions in the trash (most recently deleted first)
+ *
+ * Security: Admins see the whole trash; researchers only the records they authored
+ *
+ * @param locale - Language code for titles ('pt' | 'en')
+ * @returns Standardized response with the trashed constructions
+ */
+export async function getTrashItems(
+  locale: string
+): Promise<
+  | { success: true; data: TrashItem[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const isUserAdmin = await isAdmin();
+
+    const conditions: SQL[] = [isNotNull(constructions.deletedAt)];
+    if (!isUserAdmin) {
+      conditions.push(getAuthorshipCondition(userId));
+    }
+
+    const rows = await db
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        typeCategory: constructions.typeCategory,
+        status: constructions.status,
+        deletedAt: constructions.deletedAt,
+        createdBy: constructions.createdBy,
+        deletedByName: profiles.fullName,
+        title: sql<string | null>`COALESCE(${constructionTranslations.title}, ${waterLineTranslations.name})`,
+      })
+      .from(constructions)
+      .leftJoin(profiles, eq(profiles.id, constructions.deletedBy))
+      .leftJoin(
+        constructionTranslations,
+        and(
+          eq(constructionTranslations.constructionId, constructions.id),
+          eq(constructionTranslations.langCode, locale)
+        )
+      )
+      .leftJoin(waterLines, eq(waterLines.constructionId, constructions.id))
+      .leftJoin(
+        waterLineTranslations,
+        and(
+          eq(waterLineTranslations.waterLineId, waterLines.id),
+          eq(waterLineTranslations.locale, locale)
+        )
+      )
+      .where(and(...conditions))
+      .orderBy(desc(constructions.deletedAt));
+
+    return {
+      success: true,
+      data: rows.map((row) => ({ ...row, deletedAt: row.deletedAt! })),
+    };
+  } catch (error) {
+    console.error('[getTrashItems]:', error);
+    return { success: false, error: 'An error occurred while fetching the trash' };
+  }
+}
+
+/**
+ * Restores a construction from the trash with its previous status and data
+ *
+ * A poça can only come back once its levada is out of the trash.
+ *
+ * Security: Admins, or the researcher who authored the construction (mills: within their regions)
+ *
+ * @param id - Construction UUID
+ * @returns Standardized response with the construction ID
+ */
+export async function restoreFromTrash(
+  id: string
+): Promise<
+  | { success: true; data: { id: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasPermission = await isResearcherOrAdmin();
+    if (!hasPermission) {
+      return { success: false, error: 'Unauthorized: Researcher or Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [construction] = await db
+      .select({
+        createdBy: constructions.createdBy,
+        typeCategory: constructions.typeCategory,
+        district: constructions.district,
+        municipality: constructions.municipality,
+        drainageBasin: constructions.drainageBasin,
+      })
+      .from(constructions)
+      .where(and(eq(constructions.id, id), isNotNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Construction not found in the trash' };
+    }
+
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin && !(await isConstructionAuthor(db, { id, createdBy: construction.createdBy }, userId))) {
+      return { success: false, error: 'Unauthorized: You can only restore your own constructions' };
+    }
+
+    // Regional teams: researchers only restore mills in their regions
+    if (construction.typeCategory === 'MILL' && !isUserAdmin) {
+      const scopeBlocker = getGeoScopeBlocker(await getGeoScope(db, userId), construction);
+      if (scopeBlocker) {
+        return { success: false, error: scopeBlocker };
+      }
+    }
+
+    const restoreBlocker = await getRestoreBlocker(db, id);
+    if (restoreBlocker) {
+      return { success: false, error: restoreBlocker };
+    }
+
+    await db.transaction((tx) =>
+      withRevision(tx, { constructionId: id, action: 'restore', authorId: userId }, () =>
+        tx
+          .update(constructions)
+          .set({ deletedAt: null, deletedBy: null })
+          .where(eq(constructions.id, id))
+      )
+    );
+
+    revalidateTrashPaths();
+
+    return { success: true, data: { id } };
+  } catch (error) {
+    console.error('[restoreFromTrash]:', error);
+    return { success: false, error: 'An error occurred while restoring the construction' };
+  }
+}
+
+/**
+ * Permanently removes a construction from the trash
+ *
+ * The revision history is kept (recorded as a 'purge'). A levada can only be purged once
+ * no poça points to it anymore.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param id - Construction UUID
+ * @returns Standardized response
+ */
+export async function purgeConstruction(
+  id: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const [construction] = await db
+      .select({ id: constructions.id })
+      .from(constructions)
+      .where(and(eq(constructions.id, id), isNotNull(constructions.deletedAt)))
+      .limit(1);
+
+    if (!construction) {
+      return { success: false, error: 'Only constructions in the trash can be purged' };
+    }
+
+    const purgeBlocker = await getPurgeBlocker(db, id);
+    if (purgeBlocker) {
+      return { success: false, error: purgeBlocker };
+    }
+
+    await db.transaction((tx) => purgeTrashedConstruction(tx, id, userId));
+
+    revalidateTrashPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[purgeConstruction]:', error);
+    return { success: false, error: 'An error occurred while purging the construction' };
+  }
+}
@@ -0,0 +1,930 @@
+'use server';
+
+import { createHash, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { createClient } from '@/lib/supabase';
+import { constructions, profileAuditLog, profiles, researcherScopes, userInvitations } from '@/db/schema';
+import { and, asc, desc, eq, gt, isNotNull, isNull, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { z } from 'zod';
+import { isAdmin, getSessionUserId } from '@/lib/auth';
+import { revalidatePath } from 'next/cache';
+import { getTranslations } from 'next-intl/server';
+import { getMailer } from '@/lib/mailer';
+import { getSiteUrl } from '@/lib/site-url';
+import { getGeoScope, type GeoScope, type ScopeKind } from '@/lib/geo-scope';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * User Management Server Actions
+ *
+ * Admin console for accounts: profile details, roles, deactivation and researcher
+ * invitations (sent through the configured mailer, see src/lib/mailer.ts), and the regions
+ * researchers are limited to (see src/lib/geo-scope.ts). Every change made here is recorded
+ * in profile_audit_log.
+ */
+
+export type UserRole = 'public' | 'researcher' | 'admin';
+
+export type ProfileAuditAction = 'role' | 'profile' | 'deactivate' | 'reactivate' | 'invite' | 'scope';
+
+/**
+ * Account as listed in the user management console
+ */
+export interface ManagedUser {
+  id: string;
+  email: string | null;
+  fullName: string | null;
+  academicAffiliation: string | null;
+  role: UserRole;
+  deactivatedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Invitation that has not been accepted, revoked or expired yet
+ */
+export interface PendingInvitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  fullName: string | null;
+  invitedByName: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Entry of the account audit log
+ */
+export interface ProfileAuditEntry {
+  id: string;
+  profileId: string;
+  profileName: string | null;
+  actorName: string | null;
+  action: ProfileAuditAction;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: Date;
+}
+
+/**
+ * Known area names (from the mills in the inventory), suggested when scoping researchers
+ */
+export interface ScopeOptions {
+  districts: string[];
+  municipalities: string[];
+  drainageBasins: string[];
+}
+
+/**
+ * Days an invitation link stays valid
+ */
+const INVITATION_TTL_DAYS = 7;
+
+const userRoleSchema = z.enum(['public', 'researcher', 'admin']);
+
+/**
+ * Zod schema for editing a profile
+ */
+const updateUserProfileSchema = z.object({
+  fullName: z.string().trim().max(255).nullable(),
+  academicAffiliation: z.string().trim().max(255).nullable(),
+});
+
+const scopeAreasSchema = z.array(z.string().trim().min(1).max(255)).max(100);
+
+/**
+ * Zod schema for the regions of a researcher (all empty = not restricted)
+ */
+const geoScopeSchema = z.object({
+  districts: scopeAreasSchema,
+  municipalities: scopeAreasSchema,
+  drainageBasins: scopeAreasSchema,
+});
+
+/**
+ * Zod schema for inviting a user
+ */
+const inviteUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  role: z.enum(['researcher', 'admin']),
+  fullName: z.string().trim().max(255).optional(),
+  academicAffiliation: z.string().trim().max(255).optional(),
+  locale: z.enum(['en', 'pt']),
+});
+
+/**
+ * Zod schema for accepting an invitation
+ */
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invalid invitation'),
+  fullName: z.string().trim().min(1, 'Full name is required').max(255),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+// Email of the auth user behind a profile (auth.users is managed by Supabase Auth)
+const profileEmail = sql<string | null>`(select email from auth.users where auth.users.id = ${profiles.id})`;
+
+/**
+ * Hashes an invitation token (only the hash is stored)
+ */
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Records an account change in the audit log
+ */
+async function recordProfileAudit(
+  executor: typeof db | DbTransaction,
+  entry: {
+    profileId: string;
+    actorId: string | null;
+    action: ProfileAuditAction;
+    changes: Record<string, { from: unknown; to: unknown }>;
+  }
+): Promise<void> {
+  await executor.insert(profileAuditLog).values(entry);
+}
+
+/**
+ * Revalidates the user management page
+ */
+function revalidateUserPaths() {
+  revalidatePath('/en/dashboard/users');
+  revalidatePath('/pt/dashboard/users');
+}
+
+/**
+ * Verifies that the current user is an admin managing another account
+ *
+ * Admins cannot change their own role or deactivate themselves (no lock-out).
+ *
+ * @returns The admin's user ID and the target profile, or an error message
+ */
+async function getManagedProfile(
+  profileId: string,
+  options: { allowSelf: boolean }
+): Promise<
+  | { success: true; data: { userId: string; profile: typeof profiles.$inferSelect } }
+  | { success: false; error: string }
+> {
+  const hasAdminRole = await isAdmin();
+  if (!hasAdminRole) {
+    return { success: false, error: 'Unauthorized: Admin role required' };
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  if (!options.allowSelf && profileId === userId) {
+    return { success: false, error: 'You cannot change the role or access of your own account' };
+  }
+
+  const [profile] = await db.select().from(profiles).where(eq(profiles.id, profileId)).limit(1);
+  if (!profile) {
+    return { success: false, error: 'User not found' };
+  }
+
+  return { success: true, data: { userId, profile } };
+}
+
+/**
+ * Fetches all accounts (by name)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the users
+ */
+export async function getUsers(): Promise<
+  | { success: true; data: ManagedUser[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const rows = await db
+      .select({
+        id: profiles.id,
+        email: profileEmail,
+        fullName: profiles.fullName,
+        academicAffiliation: profiles.academicAffiliation,
+        role: profiles.role,
+        deactivatedAt: profiles.deactivatedAt,
+        createdAt: profiles.createdAt,
+      })
+      .from(profiles)
+      .orderBy(asc(profiles.fullName), asc(profiles.createdAt));
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error('[getUsers]:', error);
+    return { success: false, error: 'An error occurred while fetching users' };
+  }
+}
+
+/**
+ * Updates the name and affiliation of an account
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param profileId - Profile UUID
+ * @param data - Full name and academic affiliation (empty = cleared)
+ * @returns Standardized response
+ */
+export async function updateUserProfile(
+  profileId: string,
+  data: z.infer<typeof updateUserProfileSchema>
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getManagedProfile(profileId, { allowSelf: true });
+    if (!access.success) {
+      return access;
+    }
+    const { userId, profile } = access.data;
+
+    const validationResult = updateUserProfileSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const fullName = validationResult.data.fullName || null;
+    const academicAffiliation = validationResult.data.academicAffiliation || null;
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    if (fullName !== profile.fullName) {
+      changes.fullName = { from: profile.fullName, to: fullName };
+    }
+    if (academicAffiliation !== profile.academicAffiliation) {
+      changes.academicAffiliation = { from: profile.academicAffiliation, to: academicAffiliation };
+    }
+    if (Object.keys(changes).length === 0) {
+      return { success: true };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(profiles)
+        .set({ fullName, academicAffiliation, updatedAt: new Date() })
+        .where(eq(profiles.id, profileId));
+      await recordProfileAudit(tx, { profileId, actorId: userId, action: 'profile', changes });
+    });
+
+    revalidateUserPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[updateUserProfile]:', error);
+    return { success: false, error: 'An error occurred while updating the user' };
+  }
+}
+
+/**
+ * Promotes or demotes an account (recorded in the audit log)
+ *
+ * Security: Verifies that the performing user has 'admin' role; not for the admin's own account
+ *
+ * @param profileId - Profile UUID
+ * @param role - New role
+ * @returns Standardized response
+ */
+export async function changeUserRole(
+  profileId: string,
+  role: UserRole
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const roleResult = userRoleSchema.safeParse(role);
+    if (!roleResult.success) {
+      return { success: false, error: 'Invalid role value' };
+    }
+
+    const access = await getManagedProfile(profileId, { allowSelf: false });
+    if (!access.success) {
+      return access;
+    }
+    const { userId, profile } = access.data;
+
+    if (profile.role === roleResult.data) {
+      return { success: true };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(profiles)
+        .set({ role: roleResult.data, updatedAt: new Date() })
+        .where(eq(profiles.id, profileId));
+      await recordProfileAudit(tx, {
+        profileId,
+        actorId: userId,
+        action: 'role',
+        changes: { role: { from: profile.role, to: roleResult.data } },
+      });
+    });
+
+    revalidateUserPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[changeUserRole]:', error);
+    return { success: false, error: 'An error occurred while changing the role' };
+  }
+}
+
+/**
+ * Deactivates an account (no access until reactivated) or reactivates it
+ *
+ * The profile, its role and authored records are kept.
+ *
+ * Security: Verifies that the performing user has 'admin' role; not for the admin's own account
+ *
+ * @param profileId - Profile UUID
+ * @param deactivated - true to deactivate, false to reactivate
+ * @returns Standardized response
+ */
+export async function setUserDeactivated(
+  profileId: string,
+  deactivated: boolean
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getManagedProfile(profileId, { allowSelf: false });
+    if (!access.success) {
+      return access;
+    }
+    const { userId, profile } = access.data;
+
+    if (Boolean(profile.deactivatedAt) === deactivated) {
+      return { success: true };
+    }
+
+    const deactivatedAt = deactivated ? new Date() : null;
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(profiles)
+        .set({ deactivatedAt, updatedAt: new Date() })
+        .where(eq(profiles.id, profileId));
+      await recordProfileAudit(tx, {
+        profileId,
+        actorId: userId,
+        action: deactivated ? 'deactivate' : 'reactivate',
+        changes: { deactivatedAt: { from: profile.deactivatedAt, to: deactivatedAt } },
+      });
+    });
+
+    revalidateUserPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[setUserDeactivated]:', error);
+    return { success: false, error: 'An error occurred while updating the account' };
+  }
+}
+
+/**
+ * Fetches the latest account changes (role changes, edits, deactivations, invitations)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param limit - Maximum number of entries (newest first)
+ * @returns Standardized response with the audit log entries
+ */
+export async function getProfileAuditLog(
+  limit = 50
+): Promise<
+  | { success: true; data: ProfileAuditEntry[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const actors = alias(profiles, 'actors');
+
+    const rows = await db
+      .select({
+        id: profileAuditLog.id,
+        profileId: profileAuditLog.profileId,
+        profileName: profiles.fullName,
+        actorName: actors.fullName,
+        action: profileAuditLog.action,
+        changes: profileAuditLog.changes,
+        createdAt: profileAuditLog.createdAt,
+      })
+      .from(profileAuditLog)
+      .leftJoin(profiles, eq(profiles.id, profileAuditLog.profileId))
+      .leftJoin(actors, eq(actors.id, profileAuditLog.actorId))
+      .orderBy(desc(profileAuditLog.createdAt))
+      .limit(Math.min(Math.max(limit, 1), 500));
+
+    return {
+      success: true,
+      data: rows.map((row) => ({
+        ...row,
+        action: row.action as ProfileAuditAction,
+        changes: row.changes as ProfileAuditEntry['changes'],
+      })),
+    };
+  } catch (error) {
+    console.error('[getProfileAuditLog]:', error);
+    return { success: false, error: 'An error occurred while fetching the audit log' };
+  }
+}
+
+/**
+ * Fetches the regions of every scoped account
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the scopes by profile ID (unrestricted accounts are omitted)
+ */
+export async function getResearcherScopes(): Promise<
+  | { success: true; data: Record<string, GeoScope> }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const rows = await db
+      .select({ profileId: researcherScopes.profileId, kind: researcherScopes.kind, value: researcherScopes.value })
+      .from(researcherScopes)
+      .orderBy(asc(researcherScopes.value));
+
+    const scopes: Record<string, GeoScope> = {};
+    for (const row of rows) {
+      const scope = (scopes[row.profileId] ??= { districts: [], municipalities: [], drainageBasins: [] });
+      if (row.kind === 'district') {
+        scope.districts.push(row.value);
+      } else if (row.kind === 'municipality') {
+        scope.municipalities.push(row.value);
+      } else if (row.kind === 'drainage_basin') {
+        scope.drainageBasins.push(row.value);
+      }
+    }
+
+    return { success: true, data: scopes };
+  } catch (error) {
+    console.error('[getResearcherScopes]:', error);
+    return { success: false, error: 'An error occurred while fetching researcher regions' };
+  }
+}
+
+/**
+ * Fetches the district, municipality and drainage basin names used by mills
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the sorted, distinct names per kind
+ */
+export async function getScopeOptions(): Promise<
+  | { success: true; data: ScopeOptions }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const distinctValues = async (column: typeof constructions.district | typeof constructions.municipality | typeof constructions.drainageBasin) => {
+      const rows = await db
+        .selectDistinct({ value: column })
+        .from(constructions)
+        .where(and(eq(constructions.typeCategory, 'MILL'), isNotNull(column), isNull(constructions.deletedAt)))
+        .orderBy(asc(column));
+      return rows.map((row) => row.value).filter((value): value is string => Boolean(value?.trim()));
+    };
+
+    const [districts, municipalities, drainageBasins] = await Promise.all([
+      distinctValues(constructions.district),
+      distinctValues(constructions.municipality),
+      distinctValues(constructions.drainageBasin),
+    ]);
+
+    return { success: true, data: { districts, municipalities, drainageBasins } };
+  } catch (error) {
+    console.error('[getScopeOptions]:', error);
+    return { success: false, error: 'An error occurred while fetching regions' };
+  }
+}
+
+/**
+ * Limits an account to districts, municipalities and/or drainage basins (recorded in the
+ * audit log); empty lists remove the restriction
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param profileId - Profile UUID
+ * @param scope - Area names per kind
+ * @returns Standardized response
+ */
+export async function updateResearcherScope(
+  profileId: string,
+  scope: GeoScope
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const access = await getManagedProfile(profileId, { allowSelf: true });
+    if (!access.success) {
+      return access;
+    }
+    const { userId } = access.data;
+
+    const validationResult = geoScopeSchema.safeParse(scope);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    // Same area listed twice (in any letter case) is stored once
+    const unique = (areas: string[]) =>
+      areas.filter((area, index) => areas.findIndex((other) => other.toLowerCase() === area.toLowerCase()) === index);
+    const next: GeoScope = {
+      districts: unique(validationResult.data.districts),
+      municipalities: unique(validationResult.data.municipalities),
+      drainageBasins: unique(validationResult.data.drainageBasins),
+    };
+
+    const previous = (await getGeoScope(db, profileId)) ?? { districts: [], municipalities: [], drainageBasins: [] };
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const key of ['districts', 'municipalities', 'drainageBasins'] as const) {
+      if (previous[key].join('\n') !== next[key].join('\n')) {
+        changes[key] = { from: previous[key], to: next[key] };
+      }
+    }
+    if (Object.keys(changes).length === 0) {
+      return { success: true };
+    }
+
+    const rows: Array<{ profileId: string; kind: ScopeKind; value: string }> = [
+      ...next.districts.map((value) => ({ profileId, kind: 'district' as const, value })),
+      ...next.municipalities.map((value) => ({ profileId, kind: 'municipality' as const, value })),
+      ...next.drainageBasins.map((value) => ({ profileId, kind: 'drainage_basin' as const, value })),
+    ];
+
+    await db.transaction(async (tx) => {
+      await tx.delete(researcherScopes).where(eq(researcherScopes.profileId, profileId));
+      if (rows.length > 0) {
+        await tx.insert(researcherScopes).values(rows);
+      }
+      await recordProfileAudit(tx, { profileId, actorId: userId, action: 'scope', changes });
+    });
+
+    revalidateUserPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[updateResearcherScope]:', error);
+    return { success: false, error: 'An error occurred while updating the regions' };
+  }
+}
+
+/**
+ * Invites a researcher (or admin) by email
+ *
+ * Stores the invitation (replacing a pending one for the same address) and emails a link
+ * to the invitation page, valid for INVITATION_TTL_DAYS days.
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param data - Email, role, optional name / affiliation, and the email's language
+ * @returns Standardized response with the invitation ID
+ */
+export async function inviteUser(
+  data: z.infer<typeof inviteUserSchema>
+): Promise<
+  | { success: true; data: { id: string } }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const validationResult = inviteUserSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const { email, role, fullName, academicAffiliation, locale } = validationResult.data;
+
+    const [existingAccount] = await db
+      .select({ id: profiles.id })
+      .from(profiles)
+      .where(sql`lower(${profileEmail}) = ${email}`)
+      .limit(1);
+
+    if (existingAccount) {
+      return { success: false, error: 'This email already has an account. Change its role in the user list instead' };
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invitation = await db.transaction(async (tx) => {
+      // Inviting again replaces the previous link
+      await tx
+        .update(userInvitations)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(eq(userInvitations.email, email), isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt))
+        );
+
+      const [created] = await tx
+        .insert(userInvitations)
+        .values({
+          email,
+          role,
+          fullName: fullName || null,
+          academicAffiliation: academicAffiliation || null,
+          tokenHash: hashInvitationToken(token),
+          invitedBy: userId,
+          expiresAt,
+        })
+        .returning({ id: userInvitations.id });
+
+      return created!;
+    });
+
+    const t = await getTranslations({ locale, namespace: 'users.inviteEmail' });
+    const link = `${getSiteUrl()}/${locale}/invite/${token}`;
+
+    await getMailer().send({
+      to: email,
+      subject: t('subject'),
+      text: t('body', { name: fullName || email, link, days: INVITATION_TTL_DAYS }),
+    });
+
+    revalidateUserPaths();
+
+    return { success: true, data: invitation };
+  } catch (error) {
+    console.error('[inviteUser]:', error);
+    return { success: false, error: 'An error occurred while sending the invitation' };
+  }
+}
+
+/**
+ * Fetches the invitations that can still be accepted
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @returns Standardized response with the pending invitations (newest first)
+ */
+export async function getPendingInvitations(): Promise<
+  | { success: true; data: PendingInvitation[] }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const rows = await db
+      .select({
+        id: userInvitations.id,
+        email: userInvitations.email,
+        role: userInvitations.role,
+        fullName: userInvitations.fullName,
+        invitedByName: profiles.fullName,
+        expiresAt: userInvitations.expiresAt,
+        createdAt: userInvitations.createdAt,
+      })
+      .from(userInvitations)
+      .leftJoin(profiles, eq(profiles.id, userInvitations.invitedBy))
+      .where(
+        and(
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt),
+          gt(userInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(userInvitations.createdAt));
+
+    return { success: true, data: rows };
+  } catch (error) {
+    console.error('[getPendingInvitations]:', error);
+    return { success: false, error: 'An error occurred while fetching invitations' };
+  }
+}
+
+/**
+ * Revokes a pending invitation (its link stops working)
+ *
+ * Security: Verifies that the performing user has 'admin' role
+ *
+ * @param invitationId - Invitation UUID
+ * @returns Standardized response
+ */
+export async function revokeInvitation(
+  invitationId: string
+): Promise<
+  | { success: true }
+  | { success: false; error: string }
+> {
+  try {
+    const hasAdminRole = await isAdmin();
+    if (!hasAdminRole) {
+      return { success: false, error: 'Unauthorized: Admin role required' };
+    }
+
+    const result = await db
+      .update(userInvitations)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(userInvitations.id, invitationId), isNull(userInvitations.acceptedAt), isNull(userInvitations.revokedAt))
+      )
+      .returning({ id: userInvitations.id });
+
+    if (result.length === 0) {
+      return { success: false, error: 'Invitation not found' };
+    }
+
+    revalidateUserPaths();
+
+    return { success: true };
+  } catch (error) {
+    console.error('[revokeInvitation]:', error);
+    return { success: false, error: 'An error occurred while revoking the invitation' };
+  }
+}
+
+/**
+ * Finds the invitation behind a token if it can still be accepted
+ */
+async function findOpenInvitation(token: string) {
+  const [invitation] = await db
+    .select()
+    .from(userInvitations)
+    .where(
+      and(
+        eq(userInvitations.tokenHash, hashInvitationToken(token)),
+        isNull(userInvitations.acceptedAt),
+        isNull(userInvitations.revokedAt),
+        gt(userInvitations.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return invitation ?? null;
+}
+
+/**
+ * Fetches the invitation shown on the invitation page
+ *
+ * Security: Public; the token is the credential
+ *
+ * @param token - Token from the invitation link
+ * @returns Standardized response with the invited email and details, or null when the
+ *          link is invalid, expired, revoked or already used
+ */
+export async function getInvitation(
+  token: string
+): Promise<
+  | { success: true; data: { email: string; fullName: string | null; role: UserRole } | null }
+  | { success: false; error: string }
+> {
+  try {
+    const invitation = await findOpenInvitation(token);
+    return {
+      success: true,
+      data: invitation ? { email: invitation.email, fullName: invitation.fullName, role: invitation.role } : null,
+    };
+  } catch (error) {
+    console.error('[getInvitation]:', error);
+    return { success: false, error: 'An error occurred while fetching the invitation' };
+  }
+}
+
+/**
+ * Accepts an invitation: creates the account with the invited role
+ *
+ * The invitation is claimed first (accepted_at set atomically) and released again if the
+ * sign-up fails. The Supabase Auth user is created with the chosen password; if the project
+ * requires email confirmation the user must confirm before signing in.
+ *
+ * Security: Public; the token is the credential
+ *
+ * @param data - Invitation token, full name and password
+ * @returns Standardized response; needsConfirmation when the email must be confirmed first
+ */
+export async function acceptInvitation(
+  data: z.infer<typeof acceptInvitationSchema>
+): Promise<
+  | { success: true; data: { needsConfirmation: boolean } }
+  | { success: false; error: string }
+> {
+  try {
+    const validationResult = acceptInvitationSchema.safeParse(data);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+      return { success: false, error: `Validation failed: ${errors}` };
+    }
+
+    const { token, fullName, password } = validationResult.data;
+
+    // Claim the invitation before creating the account, so a link submitted twice at the same
+    // time only creates one account (and one role change and audit entry)
+    const [invitation] = await db
+      .update(userInvitations)
+      .set({ acceptedAt: new Date() })
+      .where(
+        and(
+          eq(userInvitations.tokenHash, hashInvitationToken(token)),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt),
+          gt(userInvitations.expiresAt, new Date())
+        )
+      )
+      .returning();
+
+    if (!invitation) {
+      return { success: false, error: 'This invitation is invalid or has expired' };
+    }
+
+    // Sign-up failed: the link can be used again
+    const releaseClaim = () =>
+      db.update(userInvitations).set({ acceptedAt: null }).where(eq(userInvitations.id, invitation.id));
+
+    const supabase = await createClient();
+    const { data: authData, error: authError } = await supabase.auth
+      .signUp({
+        email: invitation.email,
+        password,
+        options: { data: { full_name: fullName } },
+      })
+      .catch(async (error: unknown) => {
+        await releaseClaim();
+        throw error;
+      });
+
+    // Supabase returns a user without identities when the email is already registered
+    if (authError || !authData.user || authData.user.identities?.length === 0) {
+      console.error('[acceptInvitation]: Sign up failed:', authError);
+      await releaseClaim();
+      return { success: false, error: 'The account could not be created. It may already exist: try signing in' };
+    }
+
+    const profileId = authData.user.id;
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(profiles)
+        .values({
+          id: profileId,
+          role: invitation.role,
+          fullName,
+          academicAffiliation: invitation.academicAffiliation,
+        })
+        .onConflictDoUpdate({
+          target: profiles.id,
+          set: { role: invitation.role, fullName, academicAffiliation: invitation.academicAffiliation, updatedAt: new Date() },
+        });
+
+      await recordProfileAudit(tx, {
+        profileId,
+        actorId: invitation.invitedBy,
+        action: 'invite',
+        changes: { role: { from: null, to: invitation.role } },
+      });
+    });
+
+    revalidateUserPaths();
+
+    return { success: true, data: { needsConfirmation: !authData.session } };
+  } catch (error) {
+    console.error('[acceptInvitation]:', error);
+    return { success: false, error: 'An error occurred while accepting the invitation' };
+  }
+}
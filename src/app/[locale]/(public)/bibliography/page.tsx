@@ -1,7 +1,26 @@
+import type { Metadata } from 'next';
 import { getBibliography } from '@/actions/bibliography';
 import { getTranslations } from 'next-intl/server';
 import { BookOpen, Globe, Calendar, User } from 'lucide-react';
 import Link from 'next/link';
+import { getLocalizedUrl, getOpenGraph, getPageAlternates } from '@/lib/seo';
+import { getSiteUrl } from '@/lib/site-url';
+
+export async function generateMetadata({ params: { locale } }: { params: { locale: string } }): Promise<Metadata> {
+    const t = await getTranslations({ locale });
+    const baseUrl = getSiteUrl();
+
+    return {
+        title: t('bibliography.title'),
+        description: t('bibliography.description'),
+        alternates: getPageAlternates(baseUrl, locale, '/bibliography'),
+        openGraph: getOpenGraph(locale, {
+            title: t('bibliography.title'),
+            description: t('bibliography.description'),
+            url: getLocalizedUrl(baseUrl, locale, '/bibliography'),
+        }),
+    };
+}
 
 export default async function BibliographyPage({ params: { locale } }: { params: { locale: string } }) {
     const t = await getTranslations();
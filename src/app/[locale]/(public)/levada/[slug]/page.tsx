@@ -1,13 +1,17 @@
-import { getWaterLineBySlug } from '@/actions/public';
+import type { Metadata } from 'next';
+import { getMergedSlugRedirect, getWaterLineBySlug } from '@/actions/public';
 import { getTranslations } from 'next-intl/server';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Edit } from 'lucide-react';
+import { ArrowLeft, Download, Edit } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import Image from 'next/image';
 import { getPublicUrl } from '@/lib/storage';
 import { isResearcherOrAdmin } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
+import { levadaToSchemaOrg, serializeJsonLdScript } from '@/lib/linked-data';
+import { getSiteUrl } from '@/lib/site-url';
+import { getLocalizedUrl, getOpenGraph, getPageAlternates, toMetaDescription } from '@/lib/seo';
 
 // Dynamically import LevadaMap to avoid SSR issues with Leaflet
 const DynamicLevadaMap = dynamic(
@@ -29,6 +33,45 @@ interface PageProps {
   };
 }
 
+/**
+ * Localized title, description, OpenGraph image and hreflang alternates
+ *
+ * Levadas have no photos of their own: the first connected mill with a main image is used.
+ * Unpublished levadas (still viewable by URL) get no metadata and are kept out of search indexes.
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const [t, levada] = await Promise.all([
+    getTranslations({ locale: params.locale }),
+    getWaterLineBySlug(params.slug, params.locale, { publishedOnly: true }),
+  ]);
+
+  if (!levada) {
+    return { robots: { index: false } };
+  }
+
+  const baseUrl = getSiteUrl();
+  const path = `/levada/${levada.slug}`;
+  const description = toMetaDescription(
+    levada.description || t('seo.levadaDescription', { name: levada.name, count: levada.connectedMills.length })
+  );
+  const image = getPublicUrl(
+    levada.connectedMills.find((mill) => mill.mainImage)?.mainImage,
+    { width: 1200, quality: 80 }
+  );
+
+  return {
+    title: levada.name,
+    description,
+    alternates: getPageAlternates(baseUrl, params.locale, path),
+    openGraph: getOpenGraph(params.locale, {
+      title: levada.name,
+      description,
+      url: getLocalizedUrl(baseUrl, params.locale, path),
+      ...(image && { images: [image] }),
+    }),
+  };
+}
+
 /**
  * Levada (Water Line) Detail Page
  * 
@@ -45,14 +88,29 @@ export default async function LevadaDetailPage({ params }: PageProps) {
 
   // Return 404 if levada doesn't exist
   if (!levada) {
+    // Old URL of a record merged into another one
+    const redirectSlug = await getMergedSlugRedirect(params.slug);
+    if (redirectSlug) {
+      permanentRedirect(`/${params.locale}/levada/${redirectSlug}`);
+    }
     notFound();
   }
 
   // Check if user can edit (researcher or admin)
   const canEdit = await isResearcherOrAdmin();
 
+  // schema.org structured data for search engines and heritage aggregators (published only)
+  const jsonLd = levada.status === 'published' ? levadaToSchemaOrg(levada, getSiteUrl(), params.locale) : null;
+
   return (
     <div className="container mx-auto p-8 max-w-6xl">
+      {jsonLd && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLdScript(jsonLd) }}
+        />
+      )}
+
       {/* Breadcrumbs and Edit Button */}
       <div className="flex items-center justify-between mb-6">
         <Link
@@ -93,7 +151,25 @@ export default async function LevadaDetailPage({ params }: PageProps) {
 
       {/* Map Section */}
       <div className="mb-8">
-        <h2 className="text-xl font-semibold mb-4">{t('levadaDetails.map')}</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">{t('levadaDetails.map')}</h2>
+          {/* Fieldwork Download - levada track with its connected mills */}
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">{t('levadaDetails.download')}</span>
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/export/kml?locale=${params.locale}&levada=${levada.slug}`} download>
+                <Download className="mr-2 h-4 w-4" />
+                KML
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/export/gpx?locale=${params.locale}&levada=${levada.slug}`} download>
+                <Download className="mr-2 h-4 w-4" />
+                GPX
+              </a>
+            </Button>
+          </div>
+        </div>
         <div className="h-[400px] w-full rounded-lg overflow-hidden border border-gray-300">
           <DynamicLevadaMap
             mills={levada.connectedMills}
@@ -1,6 +1,7 @@
-import { getMillBySlug } from '@/actions/public';
+import type { Metadata } from 'next';
+import { getConstructionCredits, getMergedSlugRedirect, getMillBySlug } from '@/actions/public';
 import { getTranslations } from 'next-intl/server';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Edit, FileText, Download } from 'lucide-react';
 import Image from 'next/image';
@@ -10,6 +11,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { MillImageProvider, MillMainImage, MillGalleryGrid } from '@/components/features/MillImageGroup';
 import { MillPdfButton } from '@/components/features/MillPdfButton';
+import { millToSchemaOrg, serializeJsonLdScript } from '@/lib/linked-data';
+import { getSiteUrl } from '@/lib/site-url';
+import { getLocalizedUrl, getOpenGraph, getPageAlternates, toMetaDescription } from '@/lib/seo';
 
 interface PageProps {
   params: {
@@ -18,6 +22,42 @@ interface PageProps {
   };
 }
 
+/**
+ * Localized title, description, OpenGraph image (main image) and hreflang alternates
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const [t, mill] = await Promise.all([
+    getTranslations({ locale: params.locale }),
+    getMillBySlug(params.slug, params.locale),
+  ]);
+
+  if (!mill) {
+    return {};
+  }
+
+  const baseUrl = getSiteUrl();
+  const path = `/mill/${mill.slug}`;
+  const title = mill.title || mill.slug;
+  const location = [mill.municipality, mill.district].filter(Boolean).join(', ');
+  const description = toMetaDescription(
+    mill.description ||
+      t('seo.millDescription', { typology: t(`taxonomy.typology.${mill.typology}`), location: location || '—' })
+  );
+  const image = getPublicUrl(mill.mainImage, { width: 1200, quality: 80 });
+
+  return {
+    title,
+    description,
+    alternates: getPageAlternates(baseUrl, params.locale, path),
+    openGraph: getOpenGraph(params.locale, {
+      title,
+      description,
+      url: getLocalizedUrl(baseUrl, params.locale, path),
+      ...(image && { images: [image] }),
+    }),
+  };
+}
+
 /**
  * Mill Detail Page - Academic Record Sheet
  * 
@@ -35,9 +75,17 @@ export default async function MillDetailPage({ params }: PageProps) {
 
   // Return 404 if mill doesn't exist or is not published
   if (!mill) {
+    // Old URL of a record merged into another one
+    const redirectSlug = await getMergedSlugRedirect(params.slug);
+    if (redirectSlug) {
+      permanentRedirect(`/${params.locale}/mill/${redirectSlug}`);
+    }
     notFound();
   }
 
+  // Team credits (owner and contributors)
+  const credits = await getConstructionCredits(mill.id);
+
   // Helper function to get translated enum value
   const getTranslatedValue = (category: string, key: string | null | undefined): string => {
     if (!key) return '';
@@ -84,9 +132,16 @@ export default async function MillDetailPage({ params }: PageProps) {
     ...galleryImages
   ].filter((img): img is { src: string; thumbnailSrc: string; alt: string } => img !== null);
 
+  // schema.org structured data for search engines and heritage aggregators
+  const jsonLd = millToSchemaOrg(mill, getSiteUrl(), params.locale);
+
   return (
     <MillImageProvider images={images}>
       <div className="min-h-screen bg-white pt-20">
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLdScript(jsonLd) }}
+        />
         {/* Navigation Bar */}
         <div className="border-b border-gray-300 bg-white sticky top-20 z-10">
           <div className="container mx-auto max-w-7xl px-8 py-3">
@@ -108,7 +163,20 @@ export default async function MillDetailPage({ params }: PageProps) {
                     </Link>
                   </Button>
                 )}
-                <MillPdfButton mill={mill} />
+                {/* CIDOC-CRM RDF downloads */}
+                <Button asChild variant="ghost" size="sm" className="text-xs h-7" title={t('mill.detail.cidocDownload')}>
+                  <a href={`/api/export/cidoc-crm/${mill.slug}?format=turtle&locale=${params.locale}`} download>
+                    <Download className="mr-1.5 h-3 w-3" />
+                    Turtle
+                  </a>
+                </Button>
+                <Button asChild variant="ghost" size="sm" className="text-xs h-7" title={t('mill.detail.cidocDownload')}>
+                  <a href={`/api/export/cidoc-crm/${mill.slug}?format=jsonld&locale=${params.locale}`} download>
+                    <Download className="mr-1.5 h-3 w-3" />
+                    JSON-LD
+                  </a>
+                </Button>
+                <MillPdfButton mill={mill} credits={credits} />
               </div>
             </div>
           </div>
@@ -768,6 +836,36 @@ export default async function MillDetailPage({ params }: PageProps) {
               </section>
             )}
 
+          {/* Credits */}
+          {credits.length > 0 && (
+            <section className="mb-12 max-w-4xl">
+              <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-5 border-b border-gray-300 pb-1.5">
+                {t('mill.detail.credits')}
+              </h2>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3.5">
+                {credits.map((credit, idx) => (
+                  <div key={idx}>
+                    <dt className="text-xs font-normal text-gray-400 uppercase tracking-wide mb-0.5">
+                      {t(`contributors.roles.${credit.role}`)}
+                    </dt>
+                    <dd className="text-xs text-gray-700 font-normal">
+                      {credit.profileId ? (
+                        <Link href={`/${params.locale}/researchers/${credit.profileId}`} className="hover:underline">
+                          {credit.name}
+                        </Link>
+                      ) : (
+                        credit.name
+                      )}
+                      {credit.academicAffiliation && (
+                        <span className="text-gray-400"> · {credit.academicAffiliation}</span>
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+
           {/* Technical Documents */}
           {documentUrls.length > 0 && (
             <section className="mb-12">
@@ -0,0 +1,181 @@
+import type { Metadata } from 'next';
+import { getResearcherProfile, type ResearcherContribution } from '@/actions/public';
+import { getTranslations } from 'next-intl/server';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ExternalLink, User } from 'lucide-react';
+import { researcherToSchemaOrg, serializeJsonLdScript } from '@/lib/linked-data';
+import { getOrcidUrl } from '@/lib/orcid';
+import { getSiteUrl } from '@/lib/site-url';
+import { getLocalizedUrl, getOpenGraph, getPageAlternates, toMetaDescription } from '@/lib/seo';
+
+interface PageProps {
+  params: {
+    locale: string;
+    id: string;
+  };
+}
+
+/**
+ * Localized title, description and hreflang alternates
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const [t, researcher] = await Promise.all([
+    getTranslations({ locale: params.locale }),
+    getResearcherProfile(params.id, params.locale),
+  ]);
+
+  if (!researcher) {
+    return {};
+  }
+
+  const baseUrl = getSiteUrl();
+  const path = `/researchers/${researcher.id}`;
+  const title = researcher.fullName || t('researchers.unnamed');
+  const description = toMetaDescription(
+    researcher.bio ||
+      t('researchers.metaDescription', {
+        name: title,
+        mills: researcher.mills.length,
+        levadas: researcher.levadas.length,
+        pocas: researcher.pocas.length,
+      })
+  );
+
+  return {
+    title,
+    description,
+    alternates: getPageAlternates(baseUrl, params.locale, path),
+    openGraph: getOpenGraph(params.locale, {
+      title,
+      description,
+      url: getLocalizedUrl(baseUrl, params.locale, path),
+    }),
+  };
+}
+
+/**
+ * Researcher Page
+ *
+ * Public profile of a researcher so their fieldwork can be cited:
+ * - Name, academic affiliation, ORCID iD and bio
+ * - Published mills, levadas and poças they own or are credited on, with their roles
+ *   (poças have no page of their own and are not linked)
+ *
+ * Security: Only researchers / admins with an active account. Returns 404 otherwise.
+ */
+export default async function ResearcherPage({ params }: PageProps) {
+  const [t, researcher] = await Promise.all([
+    getTranslations(),
+    getResearcherProfile(params.id, params.locale),
+  ]);
+
+  if (!researcher) {
+    notFound();
+  }
+
+  // schema.org structured data (Person with ORCID)
+  const jsonLd = researcherToSchemaOrg(researcher, getSiteUrl(), params.locale);
+
+  const sections: Array<{ key: 'mills' | 'levadas' | 'pocas'; path: string | null; items: ResearcherContribution[] }> = [
+    { key: 'mills', path: 'mill', items: researcher.mills },
+    { key: 'levadas', path: 'levada', items: researcher.levadas },
+    { key: 'pocas', path: null, items: researcher.pocas },
+  ];
+  const totalCount = sections.reduce((sum, section) => sum + section.items.length, 0);
+
+  return (
+    <div className="min-h-screen bg-white pt-24 pb-12">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLdScript(jsonLd) }}
+      />
+      <div className="container mx-auto max-w-4xl px-8">
+        {/* Header */}
+        <div className="mb-10 flex items-start gap-4">
+          <div className="rounded-full border border-gray-300 p-3">
+            <User className="h-8 w-8 text-gray-400" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-normal text-gray-900 mb-1 tracking-tight">
+              {researcher.fullName || t('researchers.unnamed')}
+            </h1>
+            {researcher.academicAffiliation && (
+              <p className="text-sm text-gray-500 mb-1">{researcher.academicAffiliation}</p>
+            )}
+            {researcher.orcid && (
+              <a
+                href={getOrcidUrl(researcher.orcid)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs font-mono text-gray-500 hover:text-gray-900"
+              >
+                ORCID {researcher.orcid}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        </div>
+
+        {/* Bio */}
+        {researcher.bio && (
+          <section className="mb-10">
+            <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-3">
+              {t('researchers.bio')}
+            </h2>
+            <p className="text-sm text-gray-600 leading-relaxed font-normal whitespace-pre-wrap">{researcher.bio}</p>
+          </section>
+        )}
+
+        {/* Counts */}
+        <dl className="mb-10 grid grid-cols-3 gap-4 border-y border-gray-300 py-4">
+          {sections.map((section) => (
+            <div key={section.key}>
+              <dt className="text-xs font-normal text-gray-400 uppercase tracking-wide mb-0.5">
+                {t(`researchers.${section.key}`)}
+              </dt>
+              <dd className="text-2xl font-normal text-gray-900">{section.items.length}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {totalCount === 0 && (
+          <p className="text-sm text-gray-500">{t('researchers.noContributions')}</p>
+        )}
+
+        {/* Contributions */}
+        {sections
+          .filter((section) => section.items.length > 0)
+          .map((section) => (
+            <section key={section.key} className="mb-10">
+              <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-5 border-b border-gray-300 pb-1.5">
+                {t(`researchers.${section.key}`)}
+              </h2>
+              <ul className="space-y-2.5">
+                {section.items.map((item) => (
+                  <li key={item.id} className="flex flex-wrap items-baseline justify-between gap-2">
+                    <span className="text-sm text-gray-700">
+                      {section.path ? (
+                        <Link
+                          href={`/${params.locale}/${section.path}/${item.slug}`}
+                          className="hover:text-gray-900 hover:underline"
+                        >
+                          {item.title || item.slug}
+                        </Link>
+                      ) : (
+                        item.title || item.slug
+                      )}
+                      {item.municipality && <span className="text-gray-400"> · {item.municipality}</span>}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      {item.roles.map((role) => t(`contributors.roles.${role}`)).join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+      </div>
+    </div>
+  );
+}
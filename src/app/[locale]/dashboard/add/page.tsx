@@ -10,6 +10,13 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { createMillConstruction, updateMillConstruction, getConstructionByIdForEdit, updateConstructionStatus, getCurrentUserInfo } from '@/actions/admin';
+import { ReviewCommentsPanel } from '@/components/features/ReviewCommentsPanel';
+import { PendingEditPanel } from '@/components/features/PendingEditPanel';
+import { ContributorsPanel } from '@/components/features/ContributorsPanel';
+import { EditConflictPanel } from '@/components/features/EditConflictPanel';
+import type { EditConflict } from '@/lib/edit-conflicts';
+import { DuplicateCandidatesPanel } from '@/components/features/DuplicateCandidatesPanel';
+import type { DuplicateMatches } from '@/lib/duplicates';
 import { uploadStoneworkImage } from '@/actions/storage';
 import { getWaterLinesList, getMapData, type WaterLineListItem } from '@/actions/public';
 import { Upload, X, Image as ImageIcon, GripVertical, FileText } from 'lucide-react';
@@ -128,6 +135,14 @@ function AddMillPageContent() {
   const [constructionId, setConstructionId] = useState<string | null>(editId);
   const [initialStatus, setInitialStatus] = useState<'draft' | 'review' | 'published' | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  // Optimistic concurrency: version loaded with the record, and the last rejected save
+  const [version, setVersion] = useState<string | undefined>(undefined);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  // Possible duplicates returned on create, with the status the user was saving with
+  const [duplicates, setDuplicates] = useState<{
+    matches: DuplicateMatches;
+    status?: 'draft' | 'review';
+  } | null>(null);
 
   // Form state
   const [activeTab, setActiveTab] = useState('general');
@@ -319,6 +334,7 @@ function AddMillPageContent() {
           const data = result.data;
           setConstructionId(data.id);
           setInitialStatus(data.status as 'draft' | 'review' | 'published');
+          setVersion(data.version);
 
           // Populate all form fields
           setTitle(data.title || '');
@@ -361,6 +377,7 @@ function AddMillPageContent() {
           setStoneTypeGranite(data.stoneTypeGranite ?? false);
           setStoneTypeSchist(data.stoneTypeSchist ?? false);
           setStoneTypeOther(data.stoneTypeOther ?? false);
+          setMaterialDescription(data.stoneMaterialDescription || '');
 
           // Gable Roof Materials (Phase 5.9.20.6: Persistence Fix)
           setGableRoofMaterialLusa(data.gableMaterialLusa ?? false);
@@ -585,9 +602,14 @@ function AddMillPageContent() {
     return `${baseUrl}/storage/v1/object/public/constructions/${path}`;
   };
 
-  const handleSubmit = async (e: React.FormEvent, status?: 'draft' | 'review') => {
+  const handleSubmit = async (
+    e: React.FormEvent,
+    status?: 'draft' | 'review',
+    ignoreDuplicates = false
+  ) => {
     e.preventDefault();
     setError(null);
+    setDuplicates(null);
     setIsSubmitting(true);
 
     try {
@@ -742,16 +764,22 @@ function AddMillPageContent() {
         ? await updateMillConstruction({
           ...formData,
           id: constructionId,
+          expectedVersion: version ?? '',
         })
-        : await createMillConstruction(formData);
+        : await createMillConstruction(formData, { ignoreDuplicates });
 
       if (result.success) {
         // Redirect to dashboard with success message
         const successKey = status === 'draft' ? 'savedDraft' : 'submittedForReview';
         router.push(`/${locale}/dashboard?success=${successKey}`);
         router.refresh();
+      } else if ('duplicates' in result && result.duplicates) {
+        setDuplicates({ matches: result.duplicates as DuplicateMatches, status });
       } else {
         setError(result.error);
+        if ('conflict' in result && result.conflict) {
+          setConflict(result.conflict as EditConflict);
+        }
       }
     } catch (err) {
       console.error('[AddMillPage]: Submit error:', err);
@@ -772,6 +800,41 @@ function AddMillPageContent() {
         </div>
       )}
 
+      {/* Save rejected: someone else changed the record after it was opened */}
+      {conflict && (
+        <div className="mb-6">
+          <EditConflictPanel
+            conflict={conflict}
+            onKeepMine={() => {
+              setVersion(conflict.version);
+              setConflict(null);
+              setError(null);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Review feedback on the record being edited */}
+      {isEditMode && constructionId && (
+        <div className="mb-6">
+          <ReviewCommentsPanel constructionId={constructionId} allowFieldComments />
+        </div>
+      )}
+
+      {/* Working copy of a published record (researchers' edits await approval) */}
+      {isEditMode && constructionId && initialStatus === 'published' && (
+        <div className="mb-6">
+          <PendingEditPanel constructionId={constructionId} mode="editor" isAdmin={isAdmin} />
+        </div>
+      )}
+
+      {/* Owner and credited contributors */}
+      {isEditMode && constructionId && (
+        <div className="mb-6">
+          <ContributorsPanel constructionId={constructionId} />
+        </div>
+      )}
+
       <form onSubmit={(e) => e.preventDefault()}>
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-6">
@@ -2098,6 +2161,18 @@ function AddMillPageContent() {
           </TabsContent>
         </Tabs>
 
+        {/* Create stopped: existing mills that may be the same one */}
+        {duplicates && (
+          <div className="mt-8">
+            <DuplicateCandidatesPanel
+              candidates={duplicates.matches.candidates}
+              hiddenCount={duplicates.matches.hiddenCount}
+              onConfirmDifferent={(e) => handleSubmit(e, duplicates.status, true)}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
+
         <div className="mt-8 flex justify-end gap-4">
           {!isEditMode && (
             <>
@@ -2188,7 +2263,7 @@ function AddMillPageContent() {
               )}
             </>
           )}
-          {isEditMode && initialStatus === 'published' && (
+          {isEditMode && initialStatus === 'published' && isAdmin && (
             <Button
               type="button"
               variant="outline"
@@ -2200,6 +2275,25 @@ function AddMillPageContent() {
                 : t('add.form.update')}
             </Button>
           )}
+          {isEditMode && initialStatus === 'published' && !isAdmin && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => handleSubmit(e, 'draft')}
+                disabled={isSubmitting || isLoadingData}
+              >
+                {isSubmitting ? t('add.form.savingDraft') : t('pendingEdits.saveWorkingCopy')}
+              </Button>
+              <Button
+                type="button"
+                onClick={(e) => handleSubmit(e, 'review')}
+                disabled={isSubmitting || isLoadingData}
+              >
+                {isSubmitting ? t('add.form.submittingForReview') : t('pendingEdits.submitChanges')}
+              </Button>
+            </>
+          )}
         </div>
       </form>
     </div>
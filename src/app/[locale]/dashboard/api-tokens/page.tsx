@@ -0,0 +1,218 @@
+import { getTranslations } from 'next-intl/server';
+import { isAdmin, isResearcherOrAdmin } from '@/lib/auth';
+import { getApiTokens, getApiTokenUsage, type ApiTokenItem } from '@/actions/api-tokens';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CreateApiTokenForm } from '@/components/features/CreateApiTokenForm';
+import { RevokeApiTokenButton } from '@/components/features/RevokeApiTokenButton';
+import { getSiteUrl } from '@/lib/site-url';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+/**
+ * Endpoints accepted with a personal token (see src/lib/api-tokens.ts), with the scope they need
+ */
+const API_ENDPOINTS = [
+  { method: 'GET', path: '/api/v1/me', scope: null },
+  { method: 'GET', path: '/api/v1/inventory', scope: 'read_drafts' },
+  { method: 'GET', path: '/api/v1/inventory/:id', scope: 'read_drafts' },
+  { method: 'PATCH', path: '/api/v1/inventory/:id', scope: 'write' },
+  { method: 'POST', path: '/api/v1/inventory/batch', scope: 'write' },
+  { method: 'POST', path: '/api/v1/inventory/:id/status', scope: 'write / publish' },
+] as const;
+
+/**
+ * API Tokens Page
+ *
+ * Personal API tokens for scripted clients (e.g. Python notebooks):
+ * - Create a token with a name, scopes and validity (shown once)
+ * - List tokens with their last use and request count, and revoke them
+ * - Latest requests made with the tokens
+ * - Endpoints accepted with a token
+ *
+ * Security: Requires researcher or admin role; every user only sees their own tokens
+ */
+export default async function ApiTokensPage({ params }: PageProps) {
+  const t = await getTranslations();
+
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const [isUserAdmin, tokensResult, usageResult] = await Promise.all([
+    isAdmin(),
+    getApiTokens(),
+    getApiTokenUsage(),
+  ]);
+
+  if (!tokensResult.success) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center py-12">
+          <p className="text-lg text-destructive">{tokensResult.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const usage = usageResult.success ? usageResult.data : [];
+  const now = new Date();
+  const formatDate = (value: Date | null) => (value ? new Date(value).toLocaleString(params.locale) : '-');
+
+  const getTokenState = (token: ApiTokenItem): 'active' | 'revoked' | 'expired' => {
+    if (token.revokedAt) {
+      return 'revoked';
+    }
+    return token.expiresAt && new Date(token.expiresAt) <= now ? 'expired' : 'active';
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">{t('apiTokens.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('apiTokens.description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('apiTokens.createTitle')}</CardTitle>
+          <CardDescription>{t('apiTokens.createDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CreateApiTokenForm isAdmin={isUserAdmin} />
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">{t('apiTokens.listTitle')}</h2>
+        {tokensResult.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('apiTokens.empty')}</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('apiTokens.name')}</TableHead>
+                  <TableHead>{t('apiTokens.scopes.title')}</TableHead>
+                  <TableHead>{t('apiTokens.createdAt')}</TableHead>
+                  <TableHead>{t('apiTokens.lastUsedAt')}</TableHead>
+                  <TableHead>{t('apiTokens.expiresAt')}</TableHead>
+                  <TableHead>{t('apiTokens.requests')}</TableHead>
+                  <TableHead>{t('apiTokens.state')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokensResult.data.map((token) => {
+                  const state = getTokenState(token);
+                  return (
+                    <TableRow key={token.id}>
+                      <TableCell>
+                        <p className="font-medium">{token.name}</p>
+                        <p className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</p>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {token.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline">
+                              {t(`apiTokens.scopes.${scope}`)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(token.createdAt)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(token.lastUsedAt)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {token.expiresAt ? formatDate(token.expiresAt) : t('apiTokens.expiryNever')}
+                      </TableCell>
+                      <TableCell>{token.requestCount}</TableCell>
+                      <TableCell>
+                        <Badge variant={state === 'active' ? 'default' : 'secondary'}>
+                          {t(`apiTokens.states.${state}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {state === 'active' && <RevokeApiTokenButton tokenId={token.id} />}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">{t('apiTokens.usageTitle')}</h2>
+        {usage.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('apiTokens.usageEmpty')}</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('apiTokens.usageDate')}</TableHead>
+                  <TableHead>{t('apiTokens.name')}</TableHead>
+                  <TableHead>{t('apiTokens.usageRequest')}</TableHead>
+                  <TableHead>{t('apiTokens.usageStatus')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                    <TableCell>{entry.tokenName}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {entry.method} {entry.path}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.status < 400 ? 'outline' : 'destructive'}>{entry.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('apiTokens.docsTitle')}</CardTitle>
+          <CardDescription>{t('apiTokens.docsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+            {`curl -H "Authorization: Bearer mttc_..." ${getSiteUrl()}/api/v1/inventory?status=draft`}
+          </pre>
+          <ul className="divide-y rounded-md border text-sm">
+            {API_ENDPOINTS.map((endpoint) => (
+              <li key={`${endpoint.method} ${endpoint.path}`} className="flex items-center justify-between gap-2 p-3">
+                <span className="font-mono text-xs">
+                  {endpoint.method} {endpoint.path}
+                </span>
+                <span className="text-xs text-muted-foreground">{endpoint.scope ?? t('apiTokens.anyScope')}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">{t('apiTokens.docsNotice')}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { getTranslations } from 'next-intl/server';
+import { isAdmin, isResearcherOrAdmin } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { getEditVersion } from '@/lib/edit-conflicts';
+import { getRevisionLog } from '@/actions/history';
+import { RestoreRevisionButton } from '@/components/features/RestoreRevisionButton';
+import { RevisionDiffTable } from '@/components/features/RevisionDiffTable';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Edit } from 'lucide-react';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+  searchParams: {
+    construction?: string;
+  };
+}
+
+/**
+ * Revision History Page
+ *
+ * - Without ?construction: latest activity across the accessible constructions (audit log)
+ * - With ?construction=<id>: every version of one construction, with restore actions
+ *
+ * Security: Requires researcher or admin role; getRevisionLog scopes researchers to their own records
+ */
+export default async function HistoryPage({ params, searchParams }: PageProps) {
+  const t = await getTranslations();
+
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const constructionId = searchParams.construction;
+  const result = await getRevisionLog(params.locale, constructionId);
+
+  if (!result.success) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center py-12">
+          <p className="text-lg text-destructive">{result.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const revisions = result.data;
+  // Sent back with restores so they are refused if the record changed in the meantime
+  const version = constructionId && revisions.length > 0
+    ? await getEditVersion(constructionId, db, { live: await isAdmin() })
+    : null;
+  // Newest first: the first entry is the current state (or the deletion)
+  const isTrashed = revisions[0]?.action === 'delete';
+  const isDeleted = isTrashed || revisions[0]?.action === 'purge';
+
+  return (
+    <div className="container mx-auto py-8 max-w-5xl">
+      {constructionId && (
+        <div className="mb-6 flex items-center justify-between">
+          <Link href={`/${params.locale}/dashboard/history`}>
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {t('history.allActivity')}
+            </Button>
+          </Link>
+          {!isDeleted && revisions.length > 0 && (
+            <Button asChild variant="outline" size="sm">
+              <Link href={`/${params.locale}/dashboard/edit/${constructionId}`}>
+                <Edit className="mr-2 h-4 w-4" />
+                {t('inventory.actions.edit')}
+              </Link>
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">
+          {constructionId && revisions[0] ? revisions[0].title : t('history.title')}
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          {constructionId ? t('history.constructionDescription') : t('history.description')}
+        </p>
+        {isTrashed && (
+          <p className="mt-2 text-sm text-destructive">
+            {t('history.trashedNotice')}{' '}
+            <Link href={`/${params.locale}/dashboard/trash`} className="underline">
+              {t('dashboard.nav.trash')}
+            </Link>
+          </p>
+        )}
+        {isDeleted && !isTrashed && (
+          <p className="mt-2 text-sm text-destructive">{t('history.deletedNotice')}</p>
+        )}
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {t('history.empty')}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {revisions.map((revision, index) => {
+            const changes = Object.entries(revision.diff);
+            const canRestore = !!version && !isDeleted && index > 0 && revision.action !== 'delete' && revision.action !== 'purge';
+
+            return (
+              <Card key={revision.id} className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={revision.action === 'delete' || revision.action === 'purge' ? 'destructive' : revision.action === 'create' ? 'default' : 'secondary'}>
+                      {t(`history.actions.${revision.action}`)}
+                    </Badge>
+                    {!constructionId && (
+                      <Link
+                        href={`/${params.locale}/dashboard/history?construction=${revision.constructionId}`}
+                        className="font-medium hover:underline"
+                      >
+                        {revision.title}
+                      </Link>
+                    )}
+                    <span className="text-muted-foreground">
+                      {revision.authorName || t('history.unknownAuthor')} •{' '}
+                      {new Date(revision.createdAt).toLocaleString(params.locale)}
+                    </span>
+                    {constructionId && index === 0 && !isDeleted && (
+                      <Badge variant="outline">{t('history.current')}</Badge>
+                    )}
+                  </div>
+                  {canRestore && <RestoreRevisionButton revisionId={revision.id} expectedVersion={version} />}
+                </div>
+
+                {changes.length > 0 && (
+                  <details className="mt-3">
+                    <summary className="cursor-pointer text-sm text-muted-foreground">
+                      {t('history.changedFields', { count: changes.length })}
+                    </summary>
+                    <div className="mt-2">
+                      <RevisionDiffTable diff={revision.diff} />
+                    </div>
+                  </details>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { getTranslations } from 'next-intl/server';
+import { MillImportForm } from '@/components/features/MillImportForm';
+import { MILL_IMPORT_COLUMNS, MILL_IMPORT_REQUIRED_COLUMNS } from '@/lib/mill-import';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+/**
+ * Bulk Mill Import Page
+ *
+ * Imports transcribed paper inventory fichas from a CSV file:
+ * 1. Dry run - validates every row and shows a row-by-row error report
+ * 2. Import - creates all rows as draft mills (legacyId preserved)
+ *
+ * Security: Requires researcher or admin role (enforced by importMillConstructionsCsv)
+ */
+export default async function ImportPage({ params }: PageProps) {
+  const t = await getTranslations('import');
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">{t('title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('description')}</p>
+      </div>
+
+      <MillImportForm
+        locale={params.locale as 'pt' | 'en'}
+        columns={MILL_IMPORT_COLUMNS}
+        requiredColumns={MILL_IMPORT_REQUIRED_COLUMNS}
+      />
+    </div>
+  );
+}
@@ -17,9 +17,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { Eye, Edit, Search } from 'lucide-react';
+import { Eye, Edit, Search, Download, History, GitMerge } from 'lucide-react';
 import Link from 'next/link';
 import { DeleteButton } from '@/components/features/DeleteButton';
+import { InventoryBulkActions } from '@/components/features/InventoryBulkActions';
+import { Checkbox } from '@/components/ui/checkbox';
 import { getCurrentUserInfo } from '@/actions/admin';
 
 /**
@@ -30,6 +32,8 @@ import { getCurrentUserInfo } from '@/actions/admin';
  * - Filter by type (Mill vs. Levada) and Status (Draft, Review, Published)
  * - Debounced text search by Name/Title
  * - View and Edit buttons for each row
+ * - CSV/XLSX export of the full records matching the current filters
+ * - Multi-select with bulk actions (submit, publish/unpublish, delete, reassign author, export)
  * 
  * Security: Requires researcher or admin role (enforced by server action)
  */
@@ -51,6 +55,9 @@ export default function InventoryPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
 
+  // Bulk selection (construction IDs of the rows currently listed)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
   // Fetch user info for permission checks
   useEffect(() => {
     const fetchUserInfo = async () => {
@@ -97,6 +104,9 @@ export default function InventoryPage() {
 
       if (result.success) {
         setItems(result.data);
+        // Rows no longer listed (filtered out, deleted) leave the selection
+        const listedIds = new Set(result.data.map((item) => item.id));
+        setSelectedIds((current) => current.filter((id) => listedIds.has(id)));
       } else {
         setError(result.error);
       }
@@ -124,6 +134,20 @@ export default function InventoryPage() {
     }
   };
 
+  // Get export URL for the current tab, filters and search (same rules as the table)
+  const getExportUrl = (format: 'csv' | 'xlsx'): string => {
+    const params = new URLSearchParams({ format, locale, type: typeFilter });
+    if (activeTab === 'myProjects') {
+      params.set('myProjects', 'true');
+    } else {
+      params.set('status', statusFilter);
+    }
+    if (debouncedSearchQuery) {
+      params.set('q', debouncedSearchQuery);
+    }
+    return `/api/export/inventory?${params.toString()}`;
+  };
+
   // Get edit URL
   const getEditUrl = (item: InventoryItem): string => {
     return `/${locale}/dashboard/edit/${item.id}`;
@@ -153,6 +177,12 @@ export default function InventoryPage() {
     }
   };
 
+  // Bulk selection helpers
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)));
+  };
+  const allSelected = items.length > 0 && selectedIds.length === items.length;
+
   // Phase 5.9.7.2: Check if user can delete an item
   const canDeleteItem = (item: InventoryItem): boolean => {
     if (!userInfo) return false;
@@ -162,9 +192,9 @@ export default function InventoryPage() {
       return true;
     }
     
-    // Researchers can delete only if status === 'draft' AND they are the author
+    // Researchers can delete only if status === 'draft' AND they are an author (owner or co-author)
     if (userInfo.role === 'researcher') {
-      return item.status === 'draft' && item.createdBy === userInfo.userId;
+      return item.status === 'draft' && item.isAuthor;
     }
     
     return false;
@@ -172,11 +202,27 @@ export default function InventoryPage() {
 
   return (
     <div className="container mx-auto py-8">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold">{t('inventory.title')}</h1>
-        <p className="text-muted-foreground mt-2">
-          {t('inventory.description')}
-        </p>
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('inventory.title')}</h1>
+          <p className="text-muted-foreground mt-2">
+            {t('inventory.description')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={getExportUrl('csv')} download>
+              <Download className="mr-2 h-4 w-4" />
+              {t('inventory.export.csv')}
+            </a>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <a href={getExportUrl('xlsx')} download>
+              <Download className="mr-2 h-4 w-4" />
+              {t('inventory.export.xlsx')}
+            </a>
+          </Button>
+        </div>
       </div>
 
       {/* Tabs: All Items / My Projects */}
@@ -250,6 +296,22 @@ export default function InventoryPage() {
         </div>
       )}
 
+      {/* Bulk actions on the selected rows */}
+      <InventoryBulkActions
+        selectedIds={selectedIds}
+        isAdmin={userInfo?.role === 'admin'}
+        getItemTitle={(id) => {
+          const item = items.find((row) => row.id === id);
+          return item ? item.title || item.slug : id;
+        }}
+        onComplete={(report) => {
+          // Keep the failed items selected so they can be fixed and retried
+          setSelectedIds(report.results.filter((result) => !result.success).map((result) => result.id));
+          fetchItems();
+        }}
+        onClearSelection={() => setSelectedIds([])}
+      />
+
       {/* Table */}
       {loading ? (
         <div className="text-center py-12 text-muted-foreground">
@@ -264,9 +326,17 @@ export default function InventoryPage() {
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? items.map((item) => item.id) : [])}
+                    aria-label={t('inventory.bulk.selectAll')}
+                  />
+                </TableHead>
                 <TableHead>{t('common.title')}</TableHead>
                 <TableHead>{t('common.type')}</TableHead>
                 <TableHead>{t('common.status')}</TableHead>
+                <TableHead>{t('inventory.completeness')}</TableHead>
                 <TableHead>{t('common.updatedAt')}</TableHead>
                 <TableHead>{t('common.actions')}</TableHead>
               </TableRow>
@@ -274,6 +344,13 @@ export default function InventoryPage() {
             <TableBody>
               {items.map((item) => (
                 <TableRow key={item.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(item.id)}
+                      onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                      aria-label={t('inventory.bulk.selectRow', { title: item.title || item.slug })}
+                    />
+                  </TableCell>
                   <TableCell className="font-medium">
                     {item.title || item.slug}
                   </TableCell>
@@ -283,6 +360,24 @@ export default function InventoryPage() {
                       {getStatusText(item.status)}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    {item.completeness === null ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : (
+                      <span
+                        className={
+                          item.completeness >= 80
+                            ? 'text-green-700'
+                            : item.completeness >= 50
+                            ? 'text-amber-700'
+                            : 'text-red-700'
+                        }
+                        title={t('inventory.completenessHint')}
+                      >
+                        {item.completeness}%
+                      </span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {new Date(item.updatedAt).toLocaleDateString(locale)}
                   </TableCell>
@@ -311,6 +406,28 @@ export default function InventoryPage() {
                           {t('inventory.actions.edit')}
                         </Link>
                       </Button>
+                      <Button
+                        asChild
+                        variant="ghost"
+                        size="sm"
+                      >
+                        <Link href={`/${locale}/dashboard/history?construction=${item.id}`}>
+                          <History className="mr-2 h-4 w-4" />
+                          {t('inventory.actions.history')}
+                        </Link>
+                      </Button>
+                      {userInfo?.role === 'admin' && (
+                        <Button
+                          asChild
+                          variant="ghost"
+                          size="sm"
+                        >
+                          <Link href={`/${locale}/dashboard/merge?survivor=${encodeURIComponent(item.slug)}`}>
+                            <GitMerge className="mr-2 h-4 w-4" />
+                            {t('inventory.actions.merge')}
+                          </Link>
+                        </Button>
+                      )}
                       <DeleteButton
                         constructionId={item.id}
                         canDelete={canDeleteItem(item)}
@@ -0,0 +1,169 @@
+import { getTranslations } from 'next-intl/server';
+import { isAdmin } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { constructions } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { getMergePreview, getMergeSuggestions, type MergeRecordSummary } from '@/actions/merge';
+import { MergeForm } from '@/components/features/MergeForm';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeftRight } from 'lucide-react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+  searchParams: {
+    survivor?: string; // Slug of the record that is kept
+    loser?: string; // Slug of the record merged into it
+  };
+}
+
+/**
+ * Finds a construction outside the trash by slug
+ */
+async function findConstructionId(slug: string | undefined): Promise<string | null> {
+  if (!slug) {
+    return null;
+  }
+
+  const [construction] = await db
+    .select({ id: constructions.id })
+    .from(constructions)
+    .where(and(eq(constructions.slug, slug.trim()), isNull(constructions.deletedAt)))
+    .limit(1);
+
+  return construction?.id ?? null;
+}
+
+/**
+ * Merge Page
+ *
+ * Combines two duplicate constructions of the same type:
+ * 1. Pick the record to keep (survivor) and the one merged into it, by slug
+ *    (mills get duplicate suggestions)
+ * 2. Choose per field which value wins, then merge: the other record goes to the trash
+ *    and its URL redirects to the survivor
+ *
+ * Security: Requires admin role
+ */
+export default async function MergePage({ params, searchParams }: PageProps) {
+  const t = await getTranslations();
+
+  const hasAdminAccess = await isAdmin();
+  if (!hasAdminAccess) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const [survivorId, loserId] = await Promise.all([
+    findConstructionId(searchParams.survivor),
+    findConstructionId(searchParams.loser),
+  ]);
+
+  const previewResult = survivorId && loserId
+    ? await getMergePreview(survivorId, loserId, params.locale)
+    : null;
+  const suggestionsResult = survivorId && !loserId
+    ? await getMergeSuggestions(survivorId, params.locale)
+    : null;
+
+  const mergeUrl = (survivor: string, loser: string) =>
+    `/${params.locale}/dashboard/merge?survivor=${encodeURIComponent(survivor)}&loser=${encodeURIComponent(loser)}`;
+
+  const renderRecord = (label: string, record: MergeRecordSummary) => (
+    <Card className="flex-1">
+      <CardHeader>
+        <CardTitle className="text-base text-muted-foreground">{label}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        <p className="font-medium">{record.title || record.slug}</p>
+        <p className="text-sm text-muted-foreground">{record.slug}</p>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Badge variant="outline">{t(`common.${record.status}`)}</Badge>
+          <span>{t('common.updatedAt')}: {new Date(record.updatedAt).toLocaleDateString(params.locale)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">{t('merge.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('merge.description')}</p>
+      </div>
+
+      {!previewResult && (
+        <form method="get" className="mb-8 grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="survivor">{t('merge.survivorSlug')}</Label>
+            <Input id="survivor" name="survivor" defaultValue={searchParams.survivor ?? ''} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="loser">{t('merge.loserSlug')}</Label>
+            <Input id="loser" name="loser" defaultValue={searchParams.loser ?? ''} required />
+          </div>
+          <Button type="submit">{t('merge.compare')}</Button>
+        </form>
+      )}
+
+      {((searchParams.survivor && !survivorId) || (searchParams.loser && !loserId)) && (
+        <p className="mb-6 text-sm text-destructive">{t('merge.notFound')}</p>
+      )}
+
+      {suggestionsResult?.success && suggestionsResult.data.length > 0 && (
+        <div className="mb-8 space-y-2">
+          <h2 className="text-lg font-semibold">{t('merge.suggestions')}</h2>
+          <ul className="divide-y rounded-md border">
+            {suggestionsResult.data.map((candidate) => (
+              <li key={candidate.id} className="flex items-center justify-between gap-2 p-3">
+                <div>
+                  <p className="font-medium">{candidate.title || candidate.slug}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {candidate.reasons.map((reason) => t(`duplicates.reasons.${reason}`)).join(' · ')}
+                    {' · '}
+                    {t('duplicates.distance', { meters: candidate.distanceMeters })}
+                  </p>
+                </div>
+                <Button asChild size="sm" variant="outline">
+                  <Link href={mergeUrl(searchParams.survivor ?? '', candidate.slug)}>
+                    {t('merge.compare')}
+                  </Link>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {previewResult && !previewResult.success && (
+        <p className="text-lg text-destructive">{previewResult.error}</p>
+      )}
+
+      {previewResult?.success && (
+        <div className="space-y-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center">
+            {renderRecord(t('merge.survivor'), previewResult.data.survivor)}
+            <Button asChild variant="ghost" size="sm" title={t('merge.swap')}>
+              <Link href={mergeUrl(previewResult.data.loser.slug, previewResult.data.survivor.slug)}>
+                <ArrowLeftRight className="h-4 w-4" />
+              </Link>
+            </Button>
+            {renderRecord(t('merge.loser'), previewResult.data.loser)}
+          </div>
+
+          {previewResult.data.loser.status === 'published' && previewResult.data.survivor.status !== 'published' && (
+            <p className="text-sm text-destructive">{t('merge.statusWarning')}</p>
+          )}
+
+          <MergeForm preview={previewResult.data} />
+        </div>
+      )}
+    </div>
+  );
+}
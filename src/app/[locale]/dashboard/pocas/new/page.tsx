@@ -6,7 +6,12 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { createPocaConstruction, updatePocaConstruction, getPocaByIdForEdit } from '@/actions/admin';
+import { createPocaConstruction, updatePocaConstruction, getPocaByIdForEdit, getCurrentUserInfo } from '@/actions/admin';
+import { ReviewCommentsPanel } from '@/components/features/ReviewCommentsPanel';
+import { PendingEditPanel } from '@/components/features/PendingEditPanel';
+import { ContributorsPanel } from '@/components/features/ContributorsPanel';
+import { EditConflictPanel } from '@/components/features/EditConflictPanel';
+import type { EditConflict } from '@/lib/edit-conflicts';
 import { getWaterLinesList, getMapData, type WaterLineListItem } from '@/actions/public';
 import dynamic from 'next/dynamic';
 
@@ -45,6 +50,10 @@ function NewPocaPageContent() {
   const [isLoadingData, setIsLoadingData] = useState(!!editId);
   const [pocaId, setPocaId] = useState<string | null>(editId);
   const [initialStatus, setInitialStatus] = useState<'draft' | 'review' | 'published' | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  // Optimistic concurrency: version loaded with the record, and the last rejected save
+  const [version, setVersion] = useState<string | undefined>(undefined);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
 
   // Form state
   const [name, setName] = useState('');
@@ -62,6 +71,17 @@ function NewPocaPageContent() {
   const [mapData, setMapData] = useState<{ mills: any[]; waterLines: any[] } | null>(null);
   const [loadingMapData, setLoadingMapData] = useState(true);
 
+  // Fetch user info for admin check (researchers' edits of published records become working copies)
+  useEffect(() => {
+    const fetchUserInfo = async () => {
+      const result = await getCurrentUserInfo();
+      if (result.success) {
+        setIsAdmin(result.data.role === 'admin');
+      }
+    };
+    fetchUserInfo();
+  }, []);
+
   // Fetch water lines list on mount
   useEffect(() => {
     const fetchWaterLines = async () => {
@@ -127,6 +147,7 @@ function NewPocaPageContent() {
           setLongitude(data.longitude);
           setWaterLineId(data.waterLineId);
           setInitialStatus(data.status);
+          setVersion(data.version);
         } else {
           setError(result.error);
         }
@@ -176,6 +197,7 @@ function NewPocaPageContent() {
             longitude,
             waterLineId: waterLineId.trim(),
             status, // Pass status for update
+            expectedVersion: version ?? '',
           })
         : await createPocaConstruction({
             title: name.trim(),
@@ -193,6 +215,9 @@ function NewPocaPageContent() {
         router.refresh();
       } else {
         setError(result.error);
+        if ('conflict' in result && result.conflict) {
+          setConflict(result.conflict as EditConflict);
+        }
       }
     } catch (err) {
       console.error('[NewPocaPage]: Submit error:', err);
@@ -228,6 +253,41 @@ function NewPocaPageContent() {
         </div>
       )}
 
+      {/* Save rejected: someone else changed the record after it was opened */}
+      {conflict && (
+        <div className="mb-6">
+          <EditConflictPanel
+            conflict={conflict}
+            onKeepMine={() => {
+              setVersion(conflict.version);
+              setConflict(null);
+              setError(null);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Review feedback on the record being edited */}
+      {isEditMode && pocaId && (
+        <div className="mb-6">
+          <ReviewCommentsPanel constructionId={pocaId} />
+        </div>
+      )}
+
+      {/* Working copy of a published record (researchers' edits await approval) */}
+      {isEditMode && pocaId && initialStatus === 'published' && (
+        <div className="mb-6">
+          <PendingEditPanel constructionId={pocaId} mode="editor" isAdmin={isAdmin} />
+        </div>
+      )}
+
+      {/* Owner and credited contributors */}
+      {isEditMode && pocaId && (
+        <div className="mb-6">
+          <ContributorsPanel constructionId={pocaId} />
+        </div>
+      )}
+
       <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
         {/* Name Field */}
         <div className="space-y-2">
@@ -315,6 +375,25 @@ function NewPocaPageContent() {
               </Button>
             </>
           )}
+          {isEditMode && initialStatus === 'published' && !isAdmin && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => handleSubmit(e, 'draft')}
+                disabled={isSubmitting || loadingWaterLines || isLoadingData}
+              >
+                {isSubmitting ? t('pocas.form.savingDraft') : t('pendingEdits.saveWorkingCopy')}
+              </Button>
+              <Button
+                type="button"
+                onClick={(e) => handleSubmit(e, 'review')}
+                disabled={isSubmitting || loadingWaterLines || isLoadingData}
+              >
+                {isSubmitting ? t('pocas.form.submittingForReview') : t('pendingEdits.submitChanges')}
+              </Button>
+            </>
+          )}
         </div>
       </form>
     </div>
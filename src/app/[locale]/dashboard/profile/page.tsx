@@ -0,0 +1,71 @@
+import { getTranslations } from 'next-intl/server';
+import { isResearcherOrAdmin } from '@/lib/auth';
+import { getOwnProfile } from '@/actions/researcher';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { OwnProfileForm } from '@/components/features/OwnProfileForm';
+import { ExternalLink } from 'lucide-react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+/**
+ * Profile Page
+ *
+ * Lets researchers edit what their public page (/researchers/[id]) shows: name,
+ * affiliation, ORCID iD and bio.
+ *
+ * Security: Requires researcher or admin role
+ */
+export default async function ProfilePage({ params }: PageProps) {
+  const t = await getTranslations();
+
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const result = await getOwnProfile();
+
+  if (!result.success) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center py-12">
+          <p className="text-lg text-destructive">{result.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-3xl py-8 space-y-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t('profile.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('profile.description')}</p>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <Link href={`/${params.locale}/researchers/${result.data.id}`}>
+            <ExternalLink className="mr-2 h-4 w-4" />
+            {t('profile.viewPublicPage')}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('profile.details')}</CardTitle>
+          <CardDescription>{t('profile.detailsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OwnProfileForm profile={result.data} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
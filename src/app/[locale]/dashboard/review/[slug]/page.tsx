@@ -3,6 +3,9 @@ import { isAdmin } from '@/lib/auth';
 import { getConstructionForReview, getWaterLineByIdForEdit, getPocaByIdForEdit } from '@/actions/admin';
 import { getWaterLinesList } from '@/actions/public';
 import { PublishButton } from '@/components/features/PublishButton';
+import { RequestChangesButton } from '@/components/features/RequestChangesButton';
+import { ReviewCommentsPanel } from '@/components/features/ReviewCommentsPanel';
+import { PendingEditPanel } from '@/components/features/PendingEditPanel';
 import { getPublicUrl } from '@/lib/storage';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
@@ -12,7 +15,7 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { db } from '@/lib/db';
 import { constructions } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
 import dynamic from 'next/dynamic';
 
 // Dynamically import LevadaMap to avoid SSR issues with Leaflet
@@ -85,7 +88,7 @@ export default async function ReviewDetailPage({ params }: PageProps) {
       typeCategory: constructions.typeCategory,
     })
     .from(constructions)
-    .where(eq(constructions.slug, params.slug))
+    .where(and(eq(constructions.slug, params.slug), isNull(constructions.deletedAt)))
     .limit(1);
 
   if (constructionType.length === 0) {
@@ -131,6 +134,10 @@ export default async function ReviewDetailPage({ params }: PageProps) {
                 {t('review.editDraft')}
               </Link>
             </Button>
+            <RequestChangesButton
+              constructionId={constructionId}
+              currentStatus={poca.status as 'draft' | 'review' | 'published'}
+            />
             <PublishButton
               constructionId={constructionId}
               currentStatus={poca.status as 'draft' | 'review' | 'published'}
@@ -145,6 +152,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
           {t('review.detail.subtitle')} • {poca.status}
         </p>
 
+        {/* Proposed changes to the published version (pending edit) */}
+        <div className="mb-6">
+          <PendingEditPanel constructionId={constructionId} mode="review" />
+        </div>
+
         {/* Poça Review Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Main Content */}
@@ -214,6 +226,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
             </Card>
           </div>
         </div>
+
+        {/* Review Comments */}
+        <div className="mt-6">
+          <ReviewCommentsPanel constructionId={constructionId} />
+        </div>
       </div>
     );
   }
@@ -249,6 +266,10 @@ export default async function ReviewDetailPage({ params }: PageProps) {
                 {t('review.editDraft')}
               </Link>
             </Button>
+            <RequestChangesButton
+              constructionId={constructionId}
+              currentStatus={waterLine.status as 'draft' | 'review' | 'published'}
+            />
             <PublishButton
               constructionId={constructionId}
               currentStatus={waterLine.status as 'draft' | 'review' | 'published'}
@@ -263,6 +284,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
           {t('review.detail.subtitle')} • {waterLine.status}
         </p>
 
+        {/* Proposed changes to the published version (pending edit) */}
+        <div className="mb-6">
+          <PendingEditPanel constructionId={constructionId} mode="review" />
+        </div>
+
         {/* Water Line Review Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Main Content */}
@@ -330,6 +356,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
             </Card>
           </div>
         </div>
+
+        {/* Review Comments */}
+        <div className="mt-6">
+          <ReviewCommentsPanel constructionId={constructionId} />
+        </div>
       </div>
     );
   }
@@ -409,6 +440,10 @@ export default async function ReviewDetailPage({ params }: PageProps) {
               {t('review.editDraft')}
             </Link>
           </Button>
+          <RequestChangesButton
+            constructionId={construction.id}
+            currentStatus={construction.status as 'draft' | 'review' | 'published'}
+          />
           <PublishButton
             constructionId={construction.id}
             currentStatus={construction.status as 'draft' | 'review' | 'published'}
@@ -423,6 +458,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
         {t('review.detail.subtitle')} • {construction.status}
       </p>
 
+      {/* Proposed changes to the published version (pending edit) */}
+      <div className="mb-6">
+        <PendingEditPanel constructionId={construction.id} mode="review" />
+      </div>
+
       {/* Structured Grid Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Main Content */}
@@ -962,6 +1002,11 @@ export default async function ReviewDetailPage({ params }: PageProps) {
           )}
         </div>
       </div>
+
+      {/* Review Comments (field-level comments point at mills_data properties) */}
+      <div className="mt-6">
+        <ReviewCommentsPanel constructionId={construction.id} allowFieldComments />
+      </div>
     </div>
   );
 }
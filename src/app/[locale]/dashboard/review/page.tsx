@@ -1,6 +1,8 @@
 import { getTranslations } from 'next-intl/server';
-import { isAdmin } from '@/lib/auth';
+import { isAdmin, getSessionUserId } from '@/lib/auth';
 import { getReviewQueue } from '@/actions/admin';
+import { getReviewers } from '@/actions/review-assignments';
+import { getQueueAgeDays, REVIEW_STALE_DAYS } from '@/lib/review-assignments';
 import {
   Table,
   TableBody,
@@ -11,14 +13,19 @@ import {
 } from '@/components/ui/table';
 import { PublishButton } from '@/components/features/PublishButton';
 import { DeleteButton } from '@/components/features/DeleteButton';
+import { ReviewAssignmentControls } from '@/components/features/ReviewAssignmentControls';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Eye, Edit } from 'lucide-react';
 
 interface PageProps {
   params: {
     locale: string;
   };
+  searchParams: {
+    assigned?: string; // 'mine' | 'unassigned' (all items otherwise)
+  };
 }
 
 /**
@@ -27,8 +34,10 @@ interface PageProps {
  * Security: Verifies admin role before rendering
  * Data: Fetches constructions with draft status using getReviewQueue action
  * UI: Displays constructions in a table with review and publish actions
+ * - Longest waiting items first; queue age flagged after REVIEW_STALE_DAYS, due dates when overdue
+ * - Reviewer, due date and review status per item; "assigned to me" / "unassigned" filters
  */
-export default async function ReviewPage({ params }: PageProps) {
+export default async function ReviewPage({ params, searchParams }: PageProps) {
   const t = await getTranslations();
   
   // Security: Verify admin role
@@ -43,8 +52,15 @@ export default async function ReviewPage({ params }: PageProps) {
     );
   }
 
+  const assignment =
+    searchParams.assigned === 'mine' || searchParams.assigned === 'unassigned' ? searchParams.assigned : undefined;
+
   // Fetch constructions with draft status using server action
-  const result = await getReviewQueue(params.locale);
+  const [result, reviewersResult, currentUserId] = await Promise.all([
+    getReviewQueue(params.locale, { assignment }),
+    getReviewers(),
+    getSessionUserId(),
+  ]);
   
   if (!result.success) {
     return (
@@ -57,6 +73,14 @@ export default async function ReviewPage({ params }: PageProps) {
   }
 
   const drafts = result.data;
+  const reviewers = reviewersResult.success ? reviewersResult.data : [];
+  const today = new Date().toISOString().slice(0, 10);
+
+  const filterLinks = [
+    { value: undefined, label: t('review.filters.all') },
+    { value: 'mine', label: t('review.filters.mine') },
+    { value: 'unassigned', label: t('review.filters.unassigned') },
+  ];
 
   return (
     <div className="container mx-auto py-8">
@@ -67,6 +91,21 @@ export default async function ReviewPage({ params }: PageProps) {
         </p>
       </div>
 
+      <div className="mb-4 flex flex-wrap gap-2">
+        {filterLinks.map((filter) => (
+          <Button
+            key={filter.label}
+            asChild
+            size="sm"
+            variant={assignment === filter.value ? 'default' : 'outline'}
+          >
+            <Link href={`/${params.locale}/dashboard/review${filter.value ? `?assigned=${filter.value}` : ''}`}>
+              {filter.label}
+            </Link>
+          </Button>
+        ))}
+      </div>
+
       {drafts.length === 0 ? (
         <div className="text-center py-12 text-muted-foreground">
           {t('common.noItems')}
@@ -78,7 +117,8 @@ export default async function ReviewPage({ params }: PageProps) {
               <TableRow>
                 <TableHead>{t('common.title')}</TableHead>
                 <TableHead>{t('common.type')}</TableHead>
-                <TableHead>{t('common.createdAt')}</TableHead>
+                <TableHead>{t('review.queueAge')}</TableHead>
+                <TableHead>{t('review.assignment.title')}</TableHead>
                 <TableHead>{t('common.actions')}</TableHead>
               </TableRow>
             </TableHeader>
@@ -87,6 +127,11 @@ export default async function ReviewPage({ params }: PageProps) {
                 <TableRow key={draft.id}>
                   <TableCell className="font-medium">
                     {draft.title || draft.slug}
+                    {draft.isPendingEdit && (
+                      <Badge variant="outline" className="ml-2">
+                        {t('pendingEdits.queueBadge')}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     {draft.typeCategory === 'water_line' 
@@ -96,9 +141,29 @@ export default async function ReviewPage({ params }: PageProps) {
                       : t('inventory.type.mill')}
                   </TableCell>
                   <TableCell>
-                    {draft.createdAt
-                      ? new Date(draft.createdAt).toLocaleDateString(params.locale)
-                      : '-'}
+                    <div className="space-y-1">
+                      <span
+                        className={getQueueAgeDays(draft.submittedAt) >= REVIEW_STALE_DAYS ? 'font-medium text-amber-600' : undefined}
+                        title={new Date(draft.submittedAt).toLocaleDateString(params.locale)}
+                      >
+                        {t('review.ageDays', { days: getQueueAgeDays(draft.submittedAt) })}
+                      </span>
+                      {draft.dueDate && draft.dueDate < today && (
+                        <div>
+                          <Badge variant="destructive">{t('review.overdue')}</Badge>
+                        </div>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ReviewAssignmentControls
+                      constructionId={draft.id}
+                      reviewers={reviewers}
+                      currentUserId={currentUserId}
+                      reviewerId={draft.reviewerId}
+                      dueDate={draft.dueDate}
+                      reviewStatus={draft.reviewStatus}
+                    />
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -112,24 +177,29 @@ export default async function ReviewPage({ params }: PageProps) {
                           {t('common.review')}
                         </Link>
                       </Button>
-                      <Button
-                        asChild
-                        variant="outline"
-                        size="sm"
-                      >
-                        <Link href={`/${params.locale}/dashboard/edit/${draft.id}`}>
-                          <Edit className="mr-2 h-4 w-4" />
-                          {t('review.editDraft')}
-                        </Link>
-                      </Button>
-                      <PublishButton
-                        constructionId={draft.id}
-                        currentStatus="review"
-                      />
-                      <DeleteButton
-                        constructionId={draft.id}
-                        canDelete={true}
-                      />
+                      {/* Pending edits are decided on the review page (the record itself is published) */}
+                      {!draft.isPendingEdit && (
+                        <>
+                          <Button
+                            asChild
+                            variant="outline"
+                            size="sm"
+                          >
+                            <Link href={`/${params.locale}/dashboard/edit/${draft.id}`}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              {t('review.editDraft')}
+                            </Link>
+                          </Button>
+                          <PublishButton
+                            constructionId={draft.id}
+                            currentStatus="review"
+                          />
+                          <DeleteButton
+                            constructionId={draft.id}
+                            canDelete={true}
+                          />
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,123 @@
+import { getTranslations } from 'next-intl/server';
+import { isAdmin, isResearcherOrAdmin } from '@/lib/auth';
+import { getTrashItems } from '@/actions/trash';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RestoreFromTrashButton } from '@/components/features/RestoreFromTrashButton';
+import { PurgeButton } from '@/components/features/PurgeButton';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+/**
+ * Trash Page
+ *
+ * Lists deleted constructions with who deleted them and when.
+ * - Restore: admins, or the researcher who authored the record
+ * - Purge (permanent removal): admins only
+ *
+ * Security: Requires researcher or admin role; getTrashItems scopes researchers to their own records
+ */
+export default async function TrashPage({ params }: PageProps) {
+  const t = await getTranslations();
+
+  const hasPermission = await isResearcherOrAdmin();
+  if (!hasPermission) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const isUserAdmin = await isAdmin();
+  const result = await getTrashItems(params.locale);
+
+  if (!result.success) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center py-12">
+          <p className="text-lg text-destructive">{result.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const items = result.data;
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">{t('trash.title')}</h1>
+        <p className="text-muted-foreground mt-2">
+          {isUserAdmin ? t('trash.descriptionAdmin') : t('trash.description')}
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {t('trash.empty')}
+        </div>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('common.title')}</TableHead>
+                <TableHead>{t('common.type')}</TableHead>
+                <TableHead>{t('trash.deletedBy')}</TableHead>
+                <TableHead>{t('trash.deletedAt')}</TableHead>
+                <TableHead>{t('common.actions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">
+                    {item.title || item.slug}
+                    <Badge variant="outline" className="ml-2">
+                      {t(`common.${item.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {item.typeCategory === 'water_line'
+                      ? t('inventory.type.levada')
+                      : item.typeCategory === 'POCA'
+                      ? t('inventory.type.poca')
+                      : t('inventory.type.mill')}
+                  </TableCell>
+                  <TableCell>{item.deletedByName || t('history.unknownAuthor')}</TableCell>
+                  <TableCell>
+                    {new Date(item.deletedAt).toLocaleString(params.locale)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <RestoreFromTrashButton constructionId={item.id} />
+                      <Button asChild variant="ghost" size="sm">
+                        <Link href={`/${params.locale}/dashboard/history?construction=${item.id}`}>
+                          <History className="mr-2 h-4 w-4" />
+                          {t('inventory.actions.history')}
+                        </Link>
+                      </Button>
+                      {isUserAdmin && <PurgeButton constructionId={item.id} />}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
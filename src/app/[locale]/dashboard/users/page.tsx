@@ -0,0 +1,224 @@
+import { getTranslations } from 'next-intl/server';
+import { isAdmin, getSessionUserId } from '@/lib/auth';
+import {
+  getPendingInvitations,
+  getProfileAuditLog,
+  getResearcherScopes,
+  getScopeOptions,
+  getUsers,
+  type ProfileAuditEntry,
+} from '@/actions/users';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { UserAccountRow } from '@/components/features/UserAccountRow';
+import { InviteUserForm } from '@/components/features/InviteUserForm';
+import { RevokeInvitationButton } from '@/components/features/RevokeInvitationButton';
+import { ResearcherScopeEditor } from '@/components/features/ResearcherScopeEditor';
+import { redirect } from 'next/navigation';
+
+interface PageProps {
+  params: {
+    locale: string;
+  };
+}
+
+/**
+ * Users Page
+ *
+ * Admin console for accounts:
+ * - Edit name and academic affiliation, promote / demote between roles, deactivate
+ * - Invite researchers by email and revoke pending invitations
+ * - Limit researchers to districts, municipalities or drainage basins
+ * - Audit log of the latest account changes
+ *
+ * Security: Requires admin role
+ */
+export default async function UsersPage({ params }: PageProps) {
+  const t = await getTranslations();
+
+  const hasAdminAccess = await isAdmin();
+  if (!hasAdminAccess) {
+    redirect(`/${params.locale}/dashboard`);
+  }
+
+  const [usersResult, invitationsResult, auditResult, scopesResult, scopeOptionsResult, currentUserId] =
+    await Promise.all([
+      getUsers(),
+      getPendingInvitations(),
+      getProfileAuditLog(),
+      getResearcherScopes(),
+      getScopeOptions(),
+      getSessionUserId(),
+    ]);
+
+  if (!usersResult.success) {
+    return (
+      <div className="container mx-auto py-8">
+        <div className="text-center py-12">
+          <p className="text-lg text-destructive">{usersResult.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const invitations = invitationsResult.success ? invitationsResult.data : [];
+  const auditEntries = auditResult.success ? auditResult.data : [];
+  const scopes = scopesResult.success ? scopesResult.data : {};
+  const scopeOptions = scopeOptionsResult.success
+    ? scopeOptionsResult.data
+    : { districts: [], municipalities: [], drainageBasins: [] };
+  const researchers = usersResult.data.filter((user) => user.role === 'researcher' && !user.deactivatedAt);
+
+  const formatAuditValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') {
+      return '-';
+    }
+    if (field === 'role') {
+      return t(`users.roles.${value as 'public' | 'researcher' | 'admin'}`);
+    }
+    if (field === 'deactivatedAt') {
+      return new Date(value as string).toLocaleDateString(params.locale);
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.join(', ') : '-';
+    }
+    return String(value);
+  };
+
+  const formatAuditChanges = (entry: ProfileAuditEntry) =>
+    Object.entries(entry.changes)
+      .map(([field, change]) =>
+        `${t(`users.audit.fields.${field as 'role' | 'fullName' | 'academicAffiliation' | 'deactivatedAt' | 'districts' | 'municipalities' | 'drainageBasins'}`)}: ${formatAuditValue(field, change.from)} → ${formatAuditValue(field, change.to)}`
+      )
+      .join('; ');
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">{t('users.title')}</h1>
+        <p className="text-muted-foreground mt-2">{t('users.description')}</p>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('users.fullName')}</TableHead>
+              <TableHead>{t('users.academicAffiliation')}</TableHead>
+              <TableHead>{t('users.role')}</TableHead>
+              <TableHead>{t('users.status')}</TableHead>
+              <TableHead>{t('common.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {usersResult.data.map((user) => (
+              <UserAccountRow key={user.id} user={user} isCurrentUser={user.id === currentUserId} />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('users.invite.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <InviteUserForm />
+
+          {invitations.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold">{t('users.invitations.title')}</h2>
+              <ul className="divide-y rounded-md border">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex items-center justify-between gap-2 p-3">
+                    <div>
+                      <p className="font-medium">
+                        {invitation.fullName ? `${invitation.fullName} <${invitation.email}>` : invitation.email}
+                        <Badge variant="outline" className="ml-2">
+                          {t(`users.roles.${invitation.role}`)}
+                        </Badge>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {t('users.invitations.details', {
+                          name: invitation.invitedByName ?? '-',
+                          date: new Date(invitation.expiresAt).toLocaleDateString(params.locale),
+                        })}
+                      </p>
+                    </div>
+                    <RevokeInvitationButton invitationId={invitation.id} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('users.scope.title')}</CardTitle>
+          <CardDescription>{t('users.scope.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {researchers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('users.scope.empty')}</p>
+          ) : (
+            researchers.map((user) => (
+              <ResearcherScopeEditor
+                key={user.id}
+                profileId={user.id}
+                name={user.fullName ?? user.email ?? user.id}
+                scope={scopes[user.id] ?? null}
+                options={scopeOptions}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">{t('users.audit.title')}</h2>
+        {auditEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('users.audit.empty')}</p>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('users.audit.date')}</TableHead>
+                  <TableHead>{t('users.audit.user')}</TableHead>
+                  <TableHead>{t('users.audit.action')}</TableHead>
+                  <TableHead>{t('users.audit.changes')}</TableHead>
+                  <TableHead>{t('users.audit.by')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString(params.locale)}
+                    </TableCell>
+                    <TableCell>{entry.profileName ?? entry.profileId}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{t(`users.audit.actions.${entry.action}`)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatAuditChanges(entry)}</TableCell>
+                    <TableCell>{entry.actorName ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
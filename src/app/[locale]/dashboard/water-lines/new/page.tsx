@@ -6,7 +6,12 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { createWaterLine, updateWaterLine, getWaterLineByIdForEdit } from '@/actions/admin';
+import { createWaterLine, updateWaterLine, getWaterLineByIdForEdit, getCurrentUserInfo } from '@/actions/admin';
+import { ReviewCommentsPanel } from '@/components/features/ReviewCommentsPanel';
+import { PendingEditPanel } from '@/components/features/PendingEditPanel';
+import { ContributorsPanel } from '@/components/features/ContributorsPanel';
+import { EditConflictPanel } from '@/components/features/EditConflictPanel';
+import type { EditConflict } from '@/lib/edit-conflicts';
 import { getMapData } from '@/actions/public';
 import dynamic from 'next/dynamic';
 
@@ -44,6 +49,10 @@ function NewWaterLinePageContent() {
   const [isLoadingData, setIsLoadingData] = useState(!!editId);
   const [waterLineId, setWaterLineId] = useState<string | null>(editId);
   const [initialStatus, setInitialStatus] = useState<'draft' | 'review' | 'published' | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  // Optimistic concurrency: version loaded with the record, and the last rejected save
+  const [version, setVersion] = useState<string | undefined>(undefined);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
 
   // Form state
   const [name, setName] = useState('');
@@ -61,6 +70,17 @@ function NewWaterLinePageContent() {
     setPath(newPath);
   };
 
+  // Fetch user info for admin check (researchers' edits of published records become working copies)
+  useEffect(() => {
+    const fetchUserInfo = async () => {
+      const result = await getCurrentUserInfo();
+      if (result.success) {
+        setIsAdmin(result.data.role === 'admin');
+      }
+    };
+    fetchUserInfo();
+  }, []);
+
   // Phase 5.9.3: Fetch map data for contextual creation layer
   useEffect(() => {
     const fetchMapData = async () => {
@@ -103,6 +123,7 @@ function NewWaterLinePageContent() {
           setDescription(data.description || '');
           setColor(data.color);
           setInitialStatus(data.status); // Phase 5.9.7.1: Store initial status
+          setVersion(data.version);
           
           // Convert path from [lng, lat] to [lat, lng] for Leaflet
           const leafletPath: [number, number][] = data.path.map(([lng, lat]) => [lat, lng]);
@@ -162,6 +183,7 @@ function NewWaterLinePageContent() {
             path: dbPath,
             locale,
             status, // Pass status for update
+            expectedVersion: version ?? '',
           })
         : await createWaterLine({
             name: name.trim(),
@@ -179,6 +201,9 @@ function NewWaterLinePageContent() {
         router.refresh();
       } else {
         setError(result.error);
+        if ('conflict' in result && result.conflict) {
+          setConflict(result.conflict as EditConflict);
+        }
       }
     } catch (err) {
       console.error('[NewWaterLinePage]: Submit error:', err);
@@ -209,6 +234,41 @@ function NewWaterLinePageContent() {
         </div>
       )}
 
+      {/* Save rejected: someone else changed the record after it was opened */}
+      {conflict && (
+        <div className="mb-6">
+          <EditConflictPanel
+            conflict={conflict}
+            onKeepMine={() => {
+              setVersion(conflict.version);
+              setConflict(null);
+              setError(null);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Review feedback on the record being edited */}
+      {isEditMode && editId && (
+        <div className="mb-6">
+          <ReviewCommentsPanel constructionId={editId} />
+        </div>
+      )}
+
+      {/* Working copy of a published record (researchers' edits await approval) */}
+      {isEditMode && editId && initialStatus === 'published' && (
+        <div className="mb-6">
+          <PendingEditPanel constructionId={editId} mode="editor" isAdmin={isAdmin} />
+        </div>
+      )}
+
+      {/* Owner and credited contributors */}
+      {isEditMode && editId && (
+        <div className="mb-6">
+          <ContributorsPanel constructionId={editId} />
+        </div>
+      )}
+
       <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
         {/* Map Section - Full Width */}
         <div className="space-y-4">
@@ -330,7 +390,7 @@ function NewWaterLinePageContent() {
               {isSubmitting ? t('waterLines.form.updating') : t('waterLines.form.update')}
             </Button>
           )}
-          {isEditMode && initialStatus === 'published' && (
+          {isEditMode && initialStatus === 'published' && isAdmin && (
             <Button 
               type="button"
               variant="outline"
@@ -340,6 +400,25 @@ function NewWaterLinePageContent() {
               {isSubmitting ? t('waterLines.form.updating') : t('waterLines.form.update')}
             </Button>
           )}
+          {isEditMode && initialStatus === 'published' && !isAdmin && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => handleSubmit(e, 'draft')}
+                disabled={isSubmitting || isLoadingData}
+              >
+                {isSubmitting ? t('waterLines.form.savingDraft') : t('pendingEdits.saveWorkingCopy')}
+              </Button>
+              <Button
+                type="button"
+                onClick={(e) => handleSubmit(e, 'review')}
+                disabled={isSubmitting || isLoadingData}
+              >
+                {isSubmitting ? t('waterLines.form.submittingForReview') : t('pendingEdits.submitChanges')}
+              </Button>
+            </>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,53 @@
+import { getTranslations } from 'next-intl/server';
+import { getInvitation } from '@/actions/users';
+import { AcceptInvitationForm } from '@/components/features/AcceptInvitationForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+
+interface InvitePageProps {
+  params: {
+    locale: string;
+    token: string;
+  };
+}
+
+/**
+ * Invitation Page
+ *
+ * Landing page of the link in an invitation email: the invited person chooses a
+ * password and confirms their name to create the account (with the invited role).
+ * Invalid, expired, revoked or used links show a message instead.
+ */
+export default async function InvitePage({ params }: InvitePageProps) {
+  const t = await getTranslations();
+  const result = await getInvitation(params.token);
+  const invitation = result.success ? result.data : null;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/50 px-4">
+      <div className="w-full max-w-md">
+        {invitation ? (
+          <AcceptInvitationForm
+            locale={params.locale}
+            token={params.token}
+            email={invitation.email}
+            fullName={invitation.fullName}
+          />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('invite.invalidTitle')}</CardTitle>
+              <CardDescription>{t('invite.invalidDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline">
+                <Link href={`/${params.locale}/login`}>{t('invite.goToLogin')}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
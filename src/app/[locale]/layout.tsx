@@ -1,8 +1,11 @@
+import type { Metadata } from 'next';
 import { NextIntlClientProvider } from 'next-intl';
-import { getMessages, setRequestLocale } from 'next-intl/server';
+import { getMessages, getTranslations, setRequestLocale } from 'next-intl/server';
 import { notFound } from 'next/navigation';
 import { routing } from '@/i18n/routing';
 import { Header } from '@/components/features/Header';
+import { SITE_NAME } from '@/lib/seo';
+import { getSiteUrl } from '@/lib/site-url';
 
 interface LocaleLayoutProps {
   children: React.ReactNode;
@@ -14,6 +17,25 @@ interface LocaleLayoutProps {
 // Force dynamic rendering to prevent Header caching during testing
 export const dynamic = 'force-dynamic';
 
+/**
+ * Default metadata for all localized pages
+ *
+ * metadataBase resolves relative OpenGraph/alternate URLs; pages set their own title
+ * (rendered with the site name template), description and alternates.
+ */
+export async function generateMetadata({ params }: { params: { locale: string } }): Promise<Metadata> {
+  const t = await getTranslations({ locale: params.locale });
+
+  return {
+    metadataBase: new URL(getSiteUrl()),
+    title: {
+      default: t('home.title'),
+      template: `%s | ${SITE_NAME}`,
+    },
+    description: t('home.description'),
+  };
+}
+
 export default async function LocaleLayout({ children, params }: LocaleLayoutProps) {
   // Ensure that the incoming `locale` is valid
   if (!routing.locales.includes(params.locale as 'en' | 'pt')) {
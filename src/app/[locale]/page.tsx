@@ -1,6 +1,9 @@
 import { getMapData, getUniqueDistricts, type MillFilters } from '@/actions/public';
+import type { Metadata } from 'next';
 import { getTranslations } from 'next-intl/server';
 import dynamic from 'next/dynamic';
+import { getLocalizedUrl, getOpenGraph, getPageAlternates } from '@/lib/seo';
+import { getSiteUrl } from '@/lib/site-url';
 
 // Dynamically import MapWithSidebar to avoid SSR issues with Leaflet
 // Leaflet requires window object which is not available during SSR
@@ -40,6 +43,25 @@ interface RootLocalePageProps {
   };
 }
 
+/**
+ * Localized title, description and hreflang alternates of the map (home) page
+ */
+export async function generateMetadata({ params }: { params: { locale: string } }): Promise<Metadata> {
+  const t = await getTranslations({ locale: params.locale });
+  const baseUrl = getSiteUrl();
+
+  return {
+    title: t('map.title'),
+    description: t('home.description'),
+    alternates: getPageAlternates(baseUrl, params.locale, ''),
+    openGraph: getOpenGraph(params.locale, {
+      title: t('map.title'),
+      description: t('home.description'),
+      url: getLocalizedUrl(baseUrl, params.locale, ''),
+    }),
+  };
+}
+
 /**
  * Home Page - Map View
  * 
@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getMillBySlug } from '@/actions/public';
+import { routing } from '@/i18n/routing';
+import {
+  millToCidocCrm,
+  RDF_CONTENT_TYPES,
+  RDF_FILE_EXTENSIONS,
+  RDF_FORMATS,
+  type RdfFormat,
+} from '@/lib/linked-data';
+import { getSiteUrl } from '@/lib/site-url';
+
+// Always query the database - the record may be edited or unpublished at any time
+export const dynamic = 'force-dynamic';
+
+/**
+ * CIDOC-CRM Export Route Handler
+ *
+ * GET /api/export/cidoc-crm/:slug?format=turtle&locale=pt
+ *
+ * Serves the CIDOC-CRM RDF description of a published mill for heritage aggregators
+ * and triple stores.
+ *
+ * Query parameters:
+ * - format: 'turtle' (default) | 'jsonld'
+ * - locale: 'pt' | 'en' (defaults to the routing default locale) - selects translated fields
+ *
+ * Security: Public route - getMillBySlug returns null for unpublished mills (404)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const { searchParams } = request.nextUrl;
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+  const format = (searchParams.get('format') || 'turtle') as RdfFormat;
+
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return NextResponse.json(
+      { error: `Invalid locale. Must be one of: ${routing.locales.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!RDF_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Invalid format. Must be one of: ${RDF_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const mill = await getMillBySlug(params.slug, locale);
+  if (!mill) {
+    return NextResponse.json({ error: 'Mill not found' }, { status: 404 });
+  }
+
+  return new NextResponse(millToCidocCrm(mill, getSiteUrl(), locale, format), {
+    status: 200,
+    headers: {
+      'Content-Type': RDF_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${mill.slug}-cidoc-crm-${locale}.${RDF_FILE_EXTENSIONS[format]}"`,
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getMapData } from '@/actions/public';
+import { routing } from '@/i18n/routing';
+import { parseMillFilters, validateMillFilters } from '@/lib/map-filters';
+import { mapDataToFeatureCollection } from '@/lib/geojson';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * GeoJSON Export Route Handler
+ *
+ * GET /api/export/geojson?locale=pt&typology=azenha&district=Viseu
+ *
+ * Serves the public map dataset (published mills, poças and levadas) as a single
+ * GeoJSON FeatureCollection so it can be loaded directly into QGIS or other GIS tools.
+ *
+ * Query parameters:
+ * - locale: 'pt' | 'en' (defaults to the routing default locale) - selects translated titles
+ * - MillFilters fields (typology, district, roofMaterial, ...) - applied to mills only,
+ *   exactly like the map page
+ *
+ * Security: Public route - getMapData only returns published records
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return NextResponse.json(
+      { error: `Invalid locale. Must be one of: ${routing.locales.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const filters = parseMillFilters(searchParams);
+  const filterError = validateMillFilters(filters);
+  if (filterError) {
+    return NextResponse.json({ error: filterError }, { status: 400 });
+  }
+
+  const result = await getMapData(locale, filters);
+
+  if (!result.success) {
+    console.error('[GET /api/export/geojson]:', result.error);
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  const featureCollection = mapDataToFeatureCollection(result.data);
+
+  return new NextResponse(JSON.stringify(featureCollection), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/geo+json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="mttc-inventory-${locale}.geojson"`,
+    },
+  });
+}
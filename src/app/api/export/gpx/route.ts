@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { routing } from '@/i18n/routing';
+import {
+  FIELDWORK_EXPORT_CONTENT_TYPES,
+  getFieldworkSelection,
+  selectionToGpx,
+} from '@/lib/fieldwork-export';
+import { generateSlug } from '@/lib/slug';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * GPX Export Route Handler
+ *
+ * GET /api/export/gpx?locale=pt&district=Viseu&municipality=Tondela
+ * GET /api/export/gpx?locale=pt&levada=levada-do-moinho
+ *
+ * Serves published mills as GPX waypoints and levadas as GPX tracks for handheld GPS units.
+ * Levada colours are written with the gpx_style extension.
+ *
+ * Query parameters:
+ * - locale: 'pt' | 'en' (defaults to the routing default locale) - selects translated titles
+ * - levada: slug of a single levada - exports it with its connected mills (other filters ignored)
+ * - MillFilters fields (district, municipality, drainageBasin, typology, ...) - selects mills,
+ *   exactly like the map page, together with the levadas feeding them
+ *
+ * Security: Public route - only published records are exported
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return NextResponse.json(
+      { error: `Invalid locale. Must be one of: ${routing.locales.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const result = await getFieldworkSelection(searchParams, locale);
+
+  if (!result.success) {
+    if (result.status === 500) {
+      console.error('[GET /api/export/gpx]:', result.error);
+    }
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const fileName = `${generateSlug(result.data.name)}-${locale}.gpx`;
+
+  return new NextResponse(selectionToGpx(result.data, origin, locale), {
+    status: 200,
+    headers: {
+      'Content-Type': FIELDWORK_EXPORT_CONTENT_TYPES.gpx,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getInventoryExportRows, type InventoryFilters } from '@/actions/admin';
+import { routing } from '@/i18n/routing';
+import {
+  INVENTORY_EXPORT_CONTENT_TYPES,
+  INVENTORY_EXPORT_FORMATS,
+  inventoryToCsv,
+  inventoryToXlsx,
+  type InventoryExportFormat,
+} from '@/lib/inventory-export';
+
+// Always query the database - depends on the session and current inventory state
+export const dynamic = 'force-dynamic';
+
+const TYPE_FILTERS = ['MILL', 'LEVADA', 'POCA', 'ALL'];
+const STATUS_FILTERS = ['draft', 'review', 'published', 'ALL'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_EXPORT_IDS = 1000;
+
+/**
+ * Inventory Tabular Export Route Handler
+ *
+ * GET /api/export/inventory?format=xlsx&locale=pt&type=MILL&status=published&myProjects=true&q=search
+ *
+ * Downloads the researcher inventory as CSV or XLSX with every mills_data column,
+ * the joined constructions fields and the translated fields for the locale.
+ *
+ * Query parameters mirror the dashboard inventory filters:
+ * - format: 'csv' | 'xlsx' (defaults to csv)
+ * - locale: 'pt' | 'en' (defaults to the routing default locale)
+ * - type: 'MILL' | 'LEVADA' | 'POCA' | 'ALL'
+ * - status: 'draft' | 'review' | 'published' | 'ALL'
+ * - myProjects: 'true' to export only the current user's drafts
+ * - q: text search on title/name
+ * - ids: comma-separated construction IDs to export only a selection (bulk export)
+ *
+ * Security: Researcher or admin role (enforced by getInventoryExportRows)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const format = (searchParams.get('format') || 'csv') as InventoryExportFormat;
+  if (!INVENTORY_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Invalid format. Must be one of: ${INVENTORY_EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return NextResponse.json(
+      { error: `Invalid locale. Must be one of: ${routing.locales.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const type = searchParams.get('type') || 'ALL';
+  const status = searchParams.get('status') || 'ALL';
+  if (!TYPE_FILTERS.includes(type) || !STATUS_FILTERS.includes(status)) {
+    return NextResponse.json({ error: 'Invalid type or status filter' }, { status: 400 });
+  }
+
+  const ids = searchParams.get('ids')?.split(',').filter(Boolean);
+  if (ids && (ids.length > MAX_EXPORT_IDS || !ids.every((id) => UUID_PATTERN.test(id)))) {
+    return NextResponse.json(
+      { error: `Invalid ids. Must be at most ${MAX_EXPORT_IDS} construction UUIDs` },
+      { status: 400 }
+    );
+  }
+
+  const filters: InventoryFilters = {
+    type: type as InventoryFilters['type'],
+    status: status as InventoryFilters['status'],
+    myProjects: searchParams.get('myProjects') === 'true',
+    ids,
+  };
+
+  const result = await getInventoryExportRows(locale, filters, searchParams.get('q') || undefined);
+
+  if (!result.success) {
+    const isAuthError = result.error.startsWith('Unauthorized') || result.error === 'User not authenticated';
+    if (!isAuthError) {
+      console.error('[GET /api/export/inventory]:', result.error);
+    }
+    return NextResponse.json({ error: result.error }, { status: isAuthError ? 403 : 500 });
+  }
+
+  const body = format === 'xlsx' ? await inventoryToXlsx(result.data) : inventoryToCsv(result.data);
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': INVENTORY_EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="mttc-inventory-${date}.${format}"`,
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleOaiRequest } from '@/lib/oai';
+import { getSiteUrl } from '@/lib/site-url';
+
+// Always query the database - harvesters poll for recently updated records
+export const dynamic = 'force-dynamic';
+
+/**
+ * OAI-PMH 2.0 Route Handler
+ *
+ * GET  /api/oai?verb=ListRecords&metadataPrefix=oai_dc&set=type:MILL&from=2024-01-01
+ * POST /api/oai (application/x-www-form-urlencoded arguments)
+ *
+ * Verbs: Identify, ListMetadataFormats, ListSets, ListIdentifiers, ListRecords, GetRecord.
+ * Protocol errors are <error> elements with HTTP 200 (see handleOaiRequest).
+ *
+ * Configuration: OAI_ADMIN_EMAIL sets the adminEmail reported by Identify.
+ *
+ * Security: Public route - only published constructions are exposed
+ */
+async function respond(params: URLSearchParams) {
+  try {
+    const xml = await handleOaiRequest(params, getSiteUrl());
+
+    return new NextResponse(xml, {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('[/api/oai]:', error);
+    return new NextResponse('Internal server error', { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return respond(request.nextUrl.searchParams);
+}
+
+export async function POST(request: NextRequest) {
+  return respond(new URLSearchParams(await request.text()));
+}
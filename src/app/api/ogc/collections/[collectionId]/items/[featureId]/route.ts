@@ -0,0 +1,51 @@
+import type { NextRequest } from 'next/server';
+import { routing } from '@/i18n/routing';
+import {
+  buildFeature,
+  getCollectionFeature,
+  isOgcCollectionId,
+  ogcError,
+  ogcResponse,
+} from '@/lib/ogc';
+
+// Always query the database - the record may be edited or unpublished at any time
+export const dynamic = 'force-dynamic';
+
+/**
+ * OGC API - Features single item
+ *
+ * GET /api/ogc/collections/:collectionId/items/:featureId?locale=pt
+ *
+ * featureId is the construction UUID (the id returned in the items response, for levadas
+ * too). Only that record is queried.
+ *
+ * Security: Public route - unpublished records are reported as not found
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { collectionId: string; featureId: string } }
+) {
+  const { collectionId, featureId } = params;
+  if (!isOgcCollectionId(collectionId)) {
+    return ogcError('NotFound', `Collection "${collectionId}" not found`, 404);
+  }
+
+  const locale = request.nextUrl.searchParams.get('locale') || routing.defaultLocale;
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return ogcError('InvalidParameterValue', `Invalid locale. Must be one of: ${routing.locales.join(', ')}`, 400);
+  }
+
+  const result = await getCollectionFeature(collectionId, featureId, locale);
+
+  if (!result.success) {
+    console.error(`[GET /api/ogc/collections/${collectionId}/items/${featureId}]:`, result.error);
+    return ogcError('ServerError', result.error, 500);
+  }
+
+  const feature = result.data;
+  if (!feature) {
+    return ogcError('NotFound', `Feature "${featureId}" not found in collection "${collectionId}"`, 404);
+  }
+
+  return ogcResponse(buildFeature(request.nextUrl.origin, collectionId, feature), 'application/geo+json');
+}
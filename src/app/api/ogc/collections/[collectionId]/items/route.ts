@@ -0,0 +1,70 @@
+import type { NextRequest } from 'next/server';
+import { routing } from '@/i18n/routing';
+import { parseMillFilters, validateMillFilters } from '@/lib/map-filters';
+import {
+  buildFeatureCollection,
+  getCollectionFeatures,
+  isOgcCollectionId,
+  ogcError,
+  ogcResponse,
+  parseOgcItemsParams,
+} from '@/lib/ogc';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * OGC API - Features items
+ *
+ * GET /api/ogc/collections/:collectionId/items?bbox=-8.5,40.5,-7.5,41.5&limit=100&offset=0&locale=pt
+ *
+ * Query parameters:
+ * - bbox: minLng,minLat,maxLng,maxLat (CRS84)
+ * - limit: page size (default 10, clamped to 10000), offset: features to skip
+ * - locale: 'pt' | 'en' - selects translated titles
+ * - mills only: MillFilters fields (typology, district, ...)
+ *
+ * Security: Public route - only published records are returned
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { collectionId: string } }
+) {
+  const { collectionId } = params;
+  if (!isOgcCollectionId(collectionId)) {
+    return ogcError('NotFound', `Collection "${collectionId}" not found`, 404);
+  }
+
+  const { searchParams } = request.nextUrl;
+
+  const itemsParams = parseOgcItemsParams(searchParams);
+  if (!itemsParams.success) {
+    return ogcError('InvalidParameterValue', itemsParams.error, 400);
+  }
+
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return ogcError('InvalidParameterValue', `Invalid locale. Must be one of: ${routing.locales.join(', ')}`, 400);
+  }
+
+  const millFilters = collectionId === 'mills' ? parseMillFilters(searchParams) : undefined;
+  const filterError = millFilters ? validateMillFilters(millFilters) : null;
+  if (filterError) {
+    return ogcError('InvalidParameterValue', filterError, 400);
+  }
+
+  const result = await getCollectionFeatures(collectionId, locale, {
+    bbox: itemsParams.data.bbox ?? undefined,
+    millFilters,
+  });
+
+  if (!result.success) {
+    console.error(`[GET /api/ogc/collections/${collectionId}/items]:`, result.error);
+    return ogcError('ServerError', result.error, 500);
+  }
+
+  return ogcResponse(
+    buildFeatureCollection(request.nextUrl, result.data, itemsParams.data),
+    'application/geo+json'
+  );
+}
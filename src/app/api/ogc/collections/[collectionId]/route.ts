@@ -0,0 +1,18 @@
+import type { NextRequest } from 'next/server';
+import { buildCollection, isOgcCollectionId, ogcError, ogcResponse } from '@/lib/ogc';
+
+/**
+ * OGC API - Features collection metadata
+ *
+ * GET /api/ogc/collections/:collectionId
+ */
+export function GET(
+  request: NextRequest,
+  { params }: { params: { collectionId: string } }
+) {
+  if (!isOgcCollectionId(params.collectionId)) {
+    return ogcError('NotFound', `Collection "${params.collectionId}" not found`, 404);
+  }
+
+  return ogcResponse(buildCollection(request.nextUrl.origin, params.collectionId));
+}
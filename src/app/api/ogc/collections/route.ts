@@ -0,0 +1,11 @@
+import type { NextRequest } from 'next/server';
+import { buildCollections, ogcResponse } from '@/lib/ogc';
+
+/**
+ * OGC API - Features collections list
+ *
+ * GET /api/ogc/collections
+ */
+export function GET(request: NextRequest) {
+  return ogcResponse(buildCollections(request.nextUrl.origin));
+}
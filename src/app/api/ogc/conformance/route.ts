@@ -0,0 +1,10 @@
+import { buildConformance, ogcResponse } from '@/lib/ogc';
+
+/**
+ * OGC API - Features conformance declaration
+ *
+ * GET /api/ogc/conformance
+ */
+export function GET() {
+  return ogcResponse(buildConformance());
+}
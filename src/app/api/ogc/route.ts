@@ -0,0 +1,13 @@
+import type { NextRequest } from 'next/server';
+import { buildLandingPage, ogcResponse } from '@/lib/ogc';
+
+/**
+ * OGC API - Features landing page
+ *
+ * GET /api/ogc
+ *
+ * Entry point GIS clients are pointed at (e.g. QGIS "Add WFS / OGC API - Features Layer").
+ */
+export function GET(request: NextRequest) {
+  return ogcResponse(buildLandingPage(request.nextUrl.origin));
+}
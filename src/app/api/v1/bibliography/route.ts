@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getBibliography } from '@/actions/bibliography';
+import { jsonError, paginate, parseListParams } from '@/lib/api';
+
+// Always query the database - entries are managed from the dashboard
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Bibliography
+ *
+ * GET /api/v1/bibliography?limit=50&cursor=...
+ *
+ * Bibliography entries are not translated and have no location, so locale and bbox
+ * are accepted for consistency but ignored.
+ *
+ * Security: Public route - the bibliography page is public
+ */
+export async function GET(request: NextRequest) {
+  const params = parseListParams(request.nextUrl.searchParams);
+  if (!params.success) {
+    return jsonError(params.error, 400);
+  }
+
+  const result = await getBibliography();
+
+  if (!result.success || !result.data) {
+    console.error('[GET /api/v1/bibliography]:', result.error);
+    return jsonError(result.error || 'Failed to fetch bibliography', 500);
+  }
+
+  const { limit, cursor } = params.data;
+  return NextResponse.json(paginate(result.data, cursor, limit));
+}
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getPublishedConstructions } from '@/actions/public';
+import { jsonError, paginate, parseListParams } from '@/lib/api';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+const CONSTRUCTION_TYPES = ['MILL', 'POCA', 'water_line'];
+
+/**
+ * Public API - Constructions
+ *
+ * GET /api/v1/constructions?locale=pt&type=MILL&district=Viseu&bbox=-8.5,40.5,-7.5,41.5&limit=50&cursor=...
+ *
+ * Lists every published construction (mills, poças and water lines) with its generic
+ * core data. Use the type-specific endpoints for the full records.
+ *
+ * Query parameters:
+ * - locale, limit, cursor, bbox: see parseListParams
+ * - type: 'MILL' | 'POCA' | 'water_line'
+ * - district: exact district name
+ *
+ * Security: Public route - only published constructions are returned
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const params = parseListParams(searchParams);
+  if (!params.success) {
+    return jsonError(params.error, 400);
+  }
+
+  const typeCategory = searchParams.get('type') || undefined;
+  if (typeCategory && !CONSTRUCTION_TYPES.includes(typeCategory)) {
+    return jsonError(`Invalid type. Must be one of: ${CONSTRUCTION_TYPES.join(', ')}`, 400);
+  }
+
+  const { locale, limit, cursor, bbox } = params.data;
+  const result = await getPublishedConstructions(locale, {
+    typeCategory,
+    district: searchParams.get('district')?.trim() || undefined,
+    bbox: bbox ?? undefined,
+  });
+
+  if (!result.success) {
+    console.error('[GET /api/v1/constructions]:', result.error);
+    return jsonError(result.error, 500);
+  }
+
+  return NextResponse.json(paginate(result.data, cursor, limit));
+}
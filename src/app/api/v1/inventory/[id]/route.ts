@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getActionErrorStatus, jsonError, parseJsonBody, parseListParams } from '@/lib/api';
+import { withApiToken } from '@/lib/api-tokens';
+import { getInventoryItemForApi, millUpdateRequestSchema, updateMillFromApi } from '@/lib/api-inventory';
+
+// Always query the database - drafts change with every save
+export const dynamic = 'force-dynamic';
+
+/**
+ * Authenticated API - Inventory item
+ *
+ * GET /api/v1/inventory/:id?locale=pt
+ * Authorization: Bearer mttc_...
+ *
+ * Returns the record as its editor loads it ('type' plus every field; 'version' is used
+ * for conflict detection when saving).
+ *
+ * Security: API token with the 'read_drafts' scope; the owner must be allowed to edit
+ * the record (author, co-author or admin)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return withApiToken(request, 'read_drafts', async () => {
+    const listParams = parseListParams(request.nextUrl.searchParams);
+    if (!listParams.success) {
+      return jsonError(listParams.error, 400);
+    }
+
+    const result = await getInventoryItemForApi(params.id, listParams.data.locale);
+    if (!result.success) {
+      return jsonError(result.error, getActionErrorStatus(result.error));
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  });
+}
+
+/**
+ * Authenticated API - Update a mill
+ *
+ * PATCH /api/v1/inventory/:id?locale=pt
+ * Authorization: Bearer mttc_...
+ * { "changes": { "ratingOverall": "good", "epoch": null }, "expectedVersion": "..." }
+ *
+ * Omitted fields keep their value and null clears a field (see updateMillFromApi).
+ * expectedVersion (the 'version' returned by GET) is required; responds 409 with the
+ * conflicting changes when it is stale.
+ *
+ * Security: API token with the 'write' scope; same rules as the mill editor
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return withApiToken(request, 'write', async () => {
+    const listParams = parseListParams(request.nextUrl.searchParams);
+    if (!listParams.success) {
+      return jsonError(listParams.error, 400);
+    }
+
+    const body = await parseJsonBody(request, millUpdateRequestSchema);
+    if (!body.success) {
+      return jsonError(body.error, 400);
+    }
+
+    const result = await updateMillFromApi(params.id, body.data.changes, {
+      locale: listParams.data.locale,
+      expectedVersion: body.data.expectedVersion,
+    });
+    if (!result.success) {
+      if (result.conflict) {
+        return NextResponse.json(result, { status: 409 });
+      }
+      return jsonError(result.error, getActionErrorStatus(result.error));
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  });
+}
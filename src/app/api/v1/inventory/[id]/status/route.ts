@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getActionErrorStatus, jsonError, parseJsonBody } from '@/lib/api';
+import { withApiToken } from '@/lib/api-tokens';
+import { changeStatusFromApi, getStatusChangeScope, statusChangeRequestSchema } from '@/lib/api-inventory';
+
+// Never cache - changes the workflow status
+export const dynamic = 'force-dynamic';
+
+/**
+ * Authenticated API - Workflow status
+ *
+ * POST /api/v1/inventory/:id/status
+ * Authorization: Bearer mttc_...
+ * { "status": "review" | "published" | "draft" }
+ *
+ * Security: API token with the 'write' scope to send a draft to review, or the
+ * 'publish' scope (admins only) to publish or unpublish
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return withApiToken(request, null, async (identity) => {
+    const body = await parseJsonBody(request, statusChangeRequestSchema);
+    if (!body.success) {
+      return jsonError(body.error, 400);
+    }
+
+    const scope = getStatusChangeScope(body.data.status);
+    if (!identity.scopes.includes(scope)) {
+      return jsonError(`Forbidden: this token does not have the '${scope}' scope`, 403);
+    }
+
+    const result = await changeStatusFromApi(params.id, body.data.status);
+    if (!result.success) {
+      return jsonError(result.error, getActionErrorStatus(result.error));
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  });
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { jsonError, parseJsonBody, parseListParams } from '@/lib/api';
+import { withApiToken } from '@/lib/api-tokens';
+import { millBatchRequestSchema, updateMillsFromApi } from '@/lib/api-inventory';
+
+// Never cache - writes to the inventory
+export const dynamic = 'force-dynamic';
+
+/**
+ * Authenticated API - Batch update of mills
+ *
+ * POST /api/v1/inventory/batch?locale=pt
+ * Authorization: Bearer mttc_...
+ * { "items": [{ "id": "...", "changes": { ... }, "expectedVersion": "..." }] }
+ *
+ * Applies up to MAX_API_BATCH_ITEMS partial updates (same format as PATCH
+ * /api/v1/inventory/:id). Items succeed or fail independently; the response is the
+ * per-item report { results, succeeded, failed }.
+ *
+ * Security: API token with the 'write' scope; each item follows the mill editor rules
+ */
+export async function POST(request: NextRequest) {
+  return withApiToken(request, 'write', async () => {
+    const listParams = parseListParams(request.nextUrl.searchParams);
+    if (!listParams.success) {
+      return jsonError(listParams.error, 400);
+    }
+
+    const body = await parseJsonBody(request, millBatchRequestSchema);
+    if (!body.success) {
+      return jsonError(body.error, 400);
+    }
+
+    const report = await updateMillsFromApi(body.data.items, listParams.data.locale);
+
+    return NextResponse.json({ success: true, data: report });
+  });
+}
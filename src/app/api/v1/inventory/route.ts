@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getInventoryItems, type InventoryFilters } from '@/actions/admin';
+import { getActionErrorStatus, jsonError, paginate, parseListParams } from '@/lib/api';
+import { withApiToken } from '@/lib/api-tokens';
+
+// Always query the database - depends on the token owner and current inventory state
+export const dynamic = 'force-dynamic';
+
+const TYPE_FILTERS = ['MILL', 'LEVADA', 'POCA', 'ALL'];
+const STATUS_FILTERS = ['draft', 'review', 'published', 'ALL'];
+
+/**
+ * Authenticated API - Inventory
+ *
+ * GET /api/v1/inventory?locale=pt&type=MILL&status=draft&myProjects=true&q=search&limit=50&cursor=...
+ * Authorization: Bearer mttc_...
+ *
+ * Lists the inventory exactly as the dashboard shows it to the token owner
+ * (researchers: their own and co-authored drafts plus published records; admins: everything).
+ *
+ * Query parameters:
+ * - locale, limit, cursor: see parseListParams
+ * - type: 'MILL' | 'LEVADA' | 'POCA' | 'ALL'
+ * - status: 'draft' | 'review' | 'published' | 'ALL'
+ * - myProjects: 'true' to list only the owner's drafts
+ * - q: text search on title/name
+ *
+ * Security: API token with the 'read_drafts' scope (see src/lib/api-tokens.ts)
+ */
+export async function GET(request: NextRequest) {
+  return withApiToken(request, 'read_drafts', async () => {
+    const { searchParams } = request.nextUrl;
+
+    const listParams = parseListParams(searchParams);
+    if (!listParams.success) {
+      return jsonError(listParams.error, 400);
+    }
+
+    const type = searchParams.get('type') || 'ALL';
+    const status = searchParams.get('status') || 'ALL';
+    if (!TYPE_FILTERS.includes(type) || !STATUS_FILTERS.includes(status)) {
+      return jsonError('Invalid type or status filter', 400);
+    }
+
+    const filters: InventoryFilters = {
+      type: type as InventoryFilters['type'],
+      status: status as InventoryFilters['status'],
+      myProjects: searchParams.get('myProjects') === 'true',
+    };
+
+    const result = await getInventoryItems(listParams.data.locale, filters, searchParams.get('q') || undefined);
+    if (!result.success) {
+      return jsonError(result.error, getActionErrorStatus(result.error));
+    }
+
+    const { cursor, limit } = listParams.data;
+    return NextResponse.json(paginate(result.data, cursor, limit));
+  });
+}
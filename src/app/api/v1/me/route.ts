@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getCurrentUserInfo } from '@/actions/admin';
+import { getActionErrorStatus, jsonError } from '@/lib/api';
+import { withApiToken } from '@/lib/api-tokens';
+
+// Always resolve the token - it may be revoked or the owner's role changed at any time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Authenticated API - Token owner
+ *
+ * GET /api/v1/me
+ * Authorization: Bearer mttc_...
+ *
+ * Returns the user the token acts as, their current role and the token's scopes,
+ * so scripts can check their credentials before running.
+ *
+ * Security: Any valid API token (see src/lib/api-tokens.ts)
+ */
+export async function GET(request: NextRequest) {
+  return withApiToken(request, null, async (identity) => {
+    const result = await getCurrentUserInfo();
+    if (!result.success) {
+      return jsonError(result.error, getActionErrorStatus(result.error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result.data, scopes: identity.scopes },
+    });
+  });
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getMillBySlug } from '@/actions/public';
+import { jsonError, parseListParams } from '@/lib/api';
+
+// Always query the database - the record may be edited or unpublished at any time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Mill detail
+ *
+ * GET /api/v1/mills/:slug?locale=pt
+ *
+ * Security: Public route - getMillBySlug returns null for unpublished mills (404)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const listParams = parseListParams(request.nextUrl.searchParams);
+  if (!listParams.success) {
+    return jsonError(listParams.error, 400);
+  }
+
+  const mill = await getMillBySlug(params.slug, listParams.data.locale);
+  if (!mill) {
+    return jsonError('Mill not found', 404);
+  }
+
+  return NextResponse.json({ success: true, data: mill });
+}
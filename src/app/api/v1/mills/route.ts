@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getPublishedMills } from '@/actions/public';
+import { jsonError, paginate, parseListParams } from '@/lib/api';
+import { parseMillFilters, validateMillFilters } from '@/lib/map-filters';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Mills
+ *
+ * GET /api/v1/mills?locale=pt&typology=azenha,rodizio&district=Viseu&bbox=...&limit=50&cursor=...
+ *
+ * Query parameters:
+ * - locale, limit, cursor, bbox: see parseListParams
+ * - MillFilters fields (typology, district, roofMaterial, ...): same as the map page
+ *
+ * Security: Public route - getPublishedMills only returns published mills
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const params = parseListParams(searchParams);
+  if (!params.success) {
+    return jsonError(params.error, 400);
+  }
+
+  const filters = parseMillFilters(searchParams);
+  const filterError = validateMillFilters(filters);
+  if (filterError) {
+    return jsonError(filterError, 400);
+  }
+
+  const { locale, limit, cursor, bbox } = params.data;
+  if (bbox) {
+    filters.bbox = bbox;
+  }
+
+  const result = await getPublishedMills(locale, filters);
+
+  if (!result.success) {
+    console.error('[GET /api/v1/mills]:', result.error);
+    return jsonError(result.error, 500);
+  }
+
+  return NextResponse.json(paginate(result.data, cursor, limit));
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getPublishedPocas } from '@/actions/public';
+import { jsonError, paginate, parseListParams } from '@/lib/api';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Poças
+ *
+ * GET /api/v1/pocas?locale=pt&bbox=...&limit=50&cursor=...
+ *
+ * Security: Public route - getPublishedPocas only returns published poças
+ */
+export async function GET(request: NextRequest) {
+  const params = parseListParams(request.nextUrl.searchParams);
+  if (!params.success) {
+    return jsonError(params.error, 400);
+  }
+
+  const { locale, limit, cursor, bbox } = params.data;
+  const result = await getPublishedPocas(locale, { bbox: bbox ?? undefined });
+
+  if (!result.success) {
+    console.error('[GET /api/v1/pocas]:', result.error);
+    return jsonError(result.error, 500);
+  }
+
+  return NextResponse.json(paginate(result.data, cursor, limit));
+}
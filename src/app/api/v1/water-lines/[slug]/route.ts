@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getWaterLineBySlug } from '@/actions/public';
+import { jsonError, parseListParams } from '@/lib/api';
+import { leafletPathToLineString } from '@/lib/geojson';
+
+// Always query the database - the record may be edited or unpublished at any time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Water line detail
+ *
+ * GET /api/v1/water-lines/:slug?locale=pt
+ *
+ * Returns the water line with its published connected mills. The Leaflet path is
+ * replaced by a GeoJSON LineString geometry ([lng, lat]).
+ *
+ * Security: Public route - publishedOnly returns 404 for unpublished water lines
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const listParams = parseListParams(request.nextUrl.searchParams);
+  if (!listParams.success) {
+    return jsonError(listParams.error, 400);
+  }
+
+  const waterLine = await getWaterLineBySlug(params.slug, listParams.data.locale, {
+    publishedOnly: true,
+  });
+  if (!waterLine) {
+    return jsonError('Water line not found', 404);
+  }
+
+  const { path, ...rest } = waterLine;
+
+  return NextResponse.json({
+    success: true,
+    data: { ...rest, geometry: leafletPathToLineString(path) },
+  });
+}
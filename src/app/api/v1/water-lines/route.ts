@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getPublishedWaterLines } from '@/actions/public';
+import { jsonError, paginate, parseListParams } from '@/lib/api';
+import { leafletPathToLineString } from '@/lib/geojson';
+import type { ApiWaterLine } from '@/types/api';
+
+// Always query the database - the dataset changes whenever a record is published
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public API - Water lines (levadas)
+ *
+ * GET /api/v1/water-lines?locale=pt&bbox=...&limit=50&cursor=...
+ *
+ * Paths are returned as GeoJSON LineString geometries ([lng, lat]).
+ *
+ * Security: Public route - getPublishedWaterLines only returns published water lines
+ */
+export async function GET(request: NextRequest) {
+  const params = parseListParams(request.nextUrl.searchParams);
+  if (!params.success) {
+    return jsonError(params.error, 400);
+  }
+
+  const { locale, limit, cursor, bbox } = params.data;
+  const result = await getPublishedWaterLines(locale, { bbox: bbox ?? undefined });
+
+  if (!result.success) {
+    console.error('[GET /api/v1/water-lines]:', result.error);
+    return jsonError(result.error, 500);
+  }
+
+  const waterLines: ApiWaterLine[] = result.data.map((waterLine) => ({
+    id: waterLine.constructionId,
+    waterLineId: waterLine.id,
+    slug: waterLine.slug,
+    name: waterLine.name,
+    color: waterLine.color,
+    geometry: leafletPathToLineString(waterLine.path),
+  }));
+
+  return NextResponse.json(paginate(waterLines, cursor, limit));
+}
@@ -0,0 +1,19 @@
+import type { MetadataRoute } from 'next';
+import { getSiteUrl } from '@/lib/site-url';
+
+// Resolved per request - the site URL may come from the request host
+export const dynamic = 'force-dynamic';
+
+/**
+ * robots.txt - keeps crawlers out of the researcher dashboard and points them at the sitemap
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/*/dashboard', '/*/login'],
+    },
+    sitemap: `${getSiteUrl()}/sitemap.xml`,
+  };
+}
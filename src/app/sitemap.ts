@@ -0,0 +1,58 @@
+import type { MetadataRoute } from 'next';
+import { getPublicResearchers, getPublishedConstructions } from '@/actions/public';
+import { routing } from '@/i18n/routing';
+import { getLanguageAlternates, getLocalizedUrl } from '@/lib/seo';
+import { getSiteUrl } from '@/lib/site-url';
+
+// Always query the database - the sitemap must list newly published records
+export const dynamic = 'force-dynamic';
+
+// Public pages without a record behind them
+const STATIC_PATHS = ['', '/bibliography', '/glossary'];
+
+// Detail page of each type category (poças have no page of their own)
+const DETAIL_PATHS: Record<string, string> = {
+  MILL: 'mill',
+  water_line: 'levada',
+};
+
+/**
+ * Dynamic sitemap.xml
+ *
+ * Lists every public page, every published mill and levada, and the page of every
+ * researcher with published work, in each locale of routing.locales, with hreflang
+ * alternates pointing at the other translations.
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const baseUrl = getSiteUrl();
+  const [result, researchers] = await Promise.all([
+    getPublishedConstructions(routing.defaultLocale),
+    getPublicResearchers(),
+  ]);
+
+  if (!result.success) {
+    console.error('[sitemap]:', result.error);
+  }
+
+  const pages: Array<{ path: string; lastModified?: Date }> = [
+    ...STATIC_PATHS.map((path) => ({ path })),
+    ...(result.success ? result.data : [])
+      .filter((construction) => DETAIL_PATHS[construction.typeCategory])
+      .map((construction) => ({
+        path: `/${DETAIL_PATHS[construction.typeCategory]}/${construction.slug}`,
+        lastModified: construction.updatedAt,
+      })),
+    ...researchers.map((researcher) => ({
+      path: `/researchers/${researcher.id}`,
+      lastModified: researcher.lastModified,
+    })),
+  ];
+
+  return pages.flatMap(({ path, lastModified }) =>
+    routing.locales.map((locale) => ({
+      url: getLocalizedUrl(baseUrl, locale, path),
+      ...(lastModified && { lastModified }),
+      alternates: { languages: getLanguageAlternates(baseUrl, path) },
+    }))
+  );
+}
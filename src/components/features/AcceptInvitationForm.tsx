@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import { acceptInvitation } from '@/actions/users';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, AlertCircle } from 'lucide-react';
+import Link from 'next/link';
+
+interface AcceptInvitationFormProps {
+  locale: string;
+  token: string;
+  email: string;
+  fullName: string | null;
+}
+
+/**
+ * AcceptInvitationForm Component
+ *
+ * Creates the account of an invited researcher:
+ * - Email is fixed by the invitation; name is prefilled when the admin gave one
+ * - Password is chosen here (and repeated)
+ * - On success, goes to the dashboard, or asks to confirm the email first when the
+ *   auth project requires it
+ */
+export const AcceptInvitationForm = ({ locale, token, email, fullName }: AcceptInvitationFormProps) => {
+  const t = useTranslations('invite');
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [needsConfirmation, setNeedsConfirmation] = useState(false);
+
+  const handleSubmit = async (formData: FormData) => {
+    setError(null);
+
+    const name = (formData.get('fullName') as string) ?? '';
+    const password = (formData.get('password') as string) ?? '';
+    const passwordConfirmation = (formData.get('passwordConfirmation') as string) ?? '';
+
+    if (password !== passwordConfirmation) {
+      setError(t('passwordMismatch'));
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await acceptInvitation({ token, fullName: name, password });
+
+      if (!result.success) {
+        setError(result.error || t('error'));
+        return;
+      }
+
+      if (result.data.needsConfirmation) {
+        setNeedsConfirmation(true);
+      } else {
+        // Hard redirect so the new session is picked up
+        window.location.href = `/${locale}/dashboard`;
+      }
+    });
+  };
+
+  if (needsConfirmation) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t('confirmTitle')}</CardTitle>
+          <CardDescription>{t('confirmDescription', { email })}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <Link href={`/${locale}/login`}>{t('goToLogin')}</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description', { email })}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fullName">{t('fullName')}</Label>
+            <Input
+              id="fullName"
+              name="fullName"
+              defaultValue={fullName ?? ''}
+              required
+              disabled={isPending}
+              autoComplete="name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password">{t('password')}</Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              minLength={8}
+              required
+              disabled={isPending}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="passwordConfirmation">{t('passwordConfirmation')}</Label>
+            <Input
+              id="passwordConfirmation"
+              name="passwordConfirmation"
+              type="password"
+              minLength={8}
+              required
+              disabled={isPending}
+              autoComplete="new-password"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t('submitting')}
+              </>
+            ) : (
+              t('submit')
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import {
+  addContributor,
+  getConstructionTeam,
+  getContributorCandidates,
+  removeContributor,
+  transferConstructionOwnership,
+  type ConstructionTeam,
+  type ContributorCandidate,
+} from '@/actions/contributors';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTranslations } from 'next-intl';
+import { ArrowRightLeft, Loader2, Plus, Users, X } from 'lucide-react';
+
+interface ContributorsPanelProps {
+  constructionId: string;
+}
+
+const CONTRIBUTOR_ROLES = ['surveyor', 'author', 'photographer', 'reviewer', 'translator'] as const;
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * ContributorsPanel Component
+ *
+ * Team of the construction being edited:
+ * - Owner and credited contributors with their role (co-authors can edit like the owner)
+ * - Owner / admin: credit a user or a person without an account, remove credits, and
+ *   transfer ownership (the previous owner stays as co-author)
+ */
+export const ContributorsPanel = ({ constructionId }: ContributorsPanelProps) => {
+  const t = useTranslations('contributors');
+  const [team, setTeam] = useState<ConstructionTeam | null>(null);
+  const [candidates, setCandidates] = useState<ContributorCandidate[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<(typeof CONTRIBUTOR_ROLES)[number]>('author');
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const loadTeam = useCallback(async () => {
+    const result = await getConstructionTeam(constructionId);
+    if (result.success) {
+      setTeam(result.data);
+    } else {
+      console.error('[ContributorsPanel]:', result.error);
+    }
+  }, [constructionId]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  useEffect(() => {
+    if (!team?.canManage) {
+      return;
+    }
+    getContributorCandidates().then((result) => {
+      if (result.success) {
+        setCandidates(result.data);
+      }
+    });
+  }, [team?.canManage]);
+
+  if (!team) {
+    return null;
+  }
+
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>, onSuccess?: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        onSuccess?.();
+        await loadTeam();
+      } else {
+        console.error('[ContributorsPanel]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profileId && !name.trim()) {
+      return;
+    }
+    runAction(
+      () => addContributor({ constructionId, profileId: profileId || null, name: profileId ? null : name, role }),
+      () => {
+        setProfileId('');
+        setName('');
+      }
+    );
+  };
+
+  const handleRemove = (contributorId: string) => {
+    if (!confirm(t('confirmRemove'))) {
+      return;
+    }
+    runAction(() => removeContributor(contributorId));
+  };
+
+  const handleTransfer = () => {
+    if (!newOwnerId || !confirm(t('confirmTransfer'))) {
+      return;
+    }
+    // Reload: the current user may no longer manage the team
+    runAction(() => transferConstructionOwnership(constructionId, newOwnerId), () => window.location.reload());
+  };
+
+  const candidateLabel = (candidate: ContributorCandidate) =>
+    candidate.academicAffiliation
+      ? `${candidate.fullName || candidate.id} (${candidate.academicAffiliation})`
+      : candidate.fullName || candidate.id;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Users className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y rounded-md border">
+          <li className="flex items-center justify-between gap-2 p-3">
+            <span className="font-medium">{team.ownerName ?? '-'}</span>
+            <Badge>{t('owner')}</Badge>
+          </li>
+          {team.contributors.map((contributor) => (
+            <li key={contributor.id} className="flex items-center justify-between gap-2 p-3">
+              <span>
+                {contributor.name ?? '-'}
+                {!contributor.profileId && (
+                  <span className="ml-2 text-xs text-muted-foreground">{t('noAccount')}</span>
+                )}
+              </span>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{t(`roles.${contributor.role}`)}</Badge>
+                {team.canManage && (
+                  <Button
+                    onClick={() => handleRemove(contributor.id)}
+                    disabled={isPending}
+                    size="sm"
+                    variant="ghost"
+                    aria-label={t('remove')}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-muted-foreground">{t('coAuthorNotice')}</p>
+
+        {team.canManage && (
+          <>
+            <form onSubmit={handleAdd} className="grid gap-2 md:grid-cols-[1fr_1fr_180px_auto]">
+              <select
+                aria-label={t('user')}
+                value={profileId}
+                onChange={(e) => setProfileId(e.target.value)}
+                disabled={isPending}
+                className={selectClassName}
+              >
+                <option value="">{t('withoutAccount')}</option>
+                {candidates
+                  .filter((candidate) => candidate.id !== team.ownerId)
+                  .map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidateLabel(candidate)}
+                    </option>
+                  ))}
+              </select>
+              <Input
+                aria-label={t('name')}
+                placeholder={t('name')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isPending || Boolean(profileId)}
+              />
+              <select
+                aria-label={t('role')}
+                value={role}
+                onChange={(e) => setRole(e.target.value as (typeof CONTRIBUTOR_ROLES)[number])}
+                disabled={isPending}
+                className={selectClassName}
+              >
+                {CONTRIBUTOR_ROLES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`roles.${value}`)}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit" disabled={isPending || (!profileId && !name.trim())} size="sm" className="h-9">
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                {t('add')}
+              </Button>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+              <span className="text-sm font-medium">{t('transferTitle')}</span>
+              <select
+                aria-label={t('newOwner')}
+                value={newOwnerId}
+                onChange={(e) => setNewOwnerId(e.target.value)}
+                disabled={isPending}
+                className={`${selectClassName} max-w-xs`}
+              >
+                <option value="">{t('newOwner')}</option>
+                {candidates
+                  .filter((candidate) => candidate.id !== team.ownerId)
+                  .map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidateLabel(candidate)}
+                    </option>
+                  ))}
+              </select>
+              <Button onClick={handleTransfer} disabled={isPending || !newOwnerId} size="sm" variant="outline">
+                <ArrowRightLeft className="mr-2 h-4 w-4" />
+                {t('transfer')}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
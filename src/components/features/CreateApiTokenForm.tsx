@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { createApiToken } from '@/actions/api-tokens';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Check, Copy, KeyRound, Loader2 } from 'lucide-react';
+
+interface CreateApiTokenFormProps {
+  isAdmin: boolean;
+}
+
+const API_TOKEN_SCOPES = ['read_drafts', 'write', 'publish'] as const;
+
+type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+const EXPIRY_OPTIONS = ['30', '90', '365', 'never'] as const;
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * CreateApiTokenForm Component
+ *
+ * Creates a personal API token with a name, scopes and validity.
+ * - 'publish' is only offered to admins
+ * - The new token is shown once, with a copy button; only its prefix is kept afterwards
+ */
+export const CreateApiTokenForm = ({ isAdmin }: CreateApiTokenFormProps) => {
+  const t = useTranslations('apiTokens');
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read_drafts']);
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]>('90');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const router = useRouter();
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((value) => value !== scope)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreatedToken(null);
+    setCopied(false);
+
+    startTransition(async () => {
+      const result = await createApiToken({
+        name,
+        scopes,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+      });
+
+      if (result.success) {
+        setCreatedToken(result.data.token);
+        setName('');
+        router.refresh();
+      } else {
+        console.error('[CreateApiTokenForm]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) {
+      return;
+    }
+    await navigator.clipboard.writeText(createdToken);
+    setCopied(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-[1fr_200px]">
+        <div className="space-y-2">
+          <Label htmlFor="api-token-name">{t('name')}</Label>
+          <Input
+            id="api-token-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('namePlaceholder')}
+            maxLength={100}
+            required
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="api-token-expiry">{t('expiry')}</Label>
+          <select
+            id="api-token-expiry"
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value as (typeof EXPIRY_OPTIONS)[number])}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            {EXPIRY_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value === 'never' ? t('expiryNever') : t('expiryDays', { days: Number(value) })}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">{t('scopes.title')}</legend>
+        {API_TOKEN_SCOPES.filter((scope) => scope !== 'publish' || isAdmin).map((scope) => (
+          <div key={scope} className="flex items-start gap-2">
+            <Checkbox
+              id={`api-token-scope-${scope}`}
+              checked={scopes.includes(scope)}
+              onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              disabled={isPending}
+              className="mt-0.5"
+            />
+            <Label htmlFor={`api-token-scope-${scope}`} className="font-normal">
+              <span className="font-medium">{t(`scopes.${scope}`)}</span>
+              <span className="block text-xs text-muted-foreground">{t(`scopes.${scope}Description`)}</span>
+            </Label>
+          </div>
+        ))}
+      </fieldset>
+
+      <Button type="submit" disabled={isPending || !name.trim() || scopes.length === 0}>
+        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+        {t('create')}
+      </Button>
+
+      {createdToken && (
+        <div className="space-y-2 rounded-md border border-green-300 bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-800">{t('createdNotice')}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded bg-white px-2 py-1 font-mono text-xs">{createdToken}</code>
+            <Button type="button" onClick={handleCopy} size="sm" variant="outline">
+              {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+              {copied ? t('copied') : t('copy')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </form>
+  );
+};
@@ -14,7 +14,13 @@ import {
   Factory,
   Droplets,
   CircleDot,
-  Book
+  Book,
+  Upload,
+  History,
+  Trash2,
+  Users,
+  UserCircle,
+  KeyRound
 } from 'lucide-react';
 
 // Utility function to merge class names
@@ -44,12 +50,43 @@ export function DashboardSidebar({ locale, isAdmin = false }: DashboardSidebarPr
       label: t('dashboard.nav.inventory'),
       icon: Package,
     },
+    {
+      href: `/${locale}/dashboard/import`,
+      label: t('dashboard.nav.import'),
+      icon: Upload,
+    },
+    {
+      href: `/${locale}/dashboard/history`,
+      label: t('dashboard.nav.history'),
+      icon: History,
+    },
+    {
+      href: `/${locale}/dashboard/trash`,
+      label: t('dashboard.nav.trash'),
+      icon: Trash2,
+    },
     {
       href: `/${locale}/dashboard/review`,
       label: t('dashboard.nav.reviewQueue'),
       icon: FileText,
       adminOnly: true,
     },
+    {
+      href: `/${locale}/dashboard/users`,
+      label: t('dashboard.nav.users'),
+      icon: Users,
+      adminOnly: true,
+    },
+    {
+      href: `/${locale}/dashboard/profile`,
+      label: t('dashboard.nav.profile'),
+      icon: UserCircle,
+    },
+    {
+      href: `/${locale}/dashboard/api-tokens`,
+      label: t('dashboard.nav.apiTokens'),
+      icon: KeyRound,
+    },
   ].filter((item) => !item.adminOnly || isAdmin);
 
   const newEntrySubmenu = [
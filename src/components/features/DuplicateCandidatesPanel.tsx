@@ -0,0 +1,100 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLocale, useTranslations } from 'next-intl';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import type { DuplicateCandidate } from '@/lib/duplicates';
+
+interface DuplicateCandidatesPanelProps {
+  candidates: DuplicateCandidate[];
+  /**
+   * Other researchers' unpublished records that also match (not shown)
+   */
+  hiddenCount: number;
+  /**
+   * Saves again without the duplicate check
+   */
+  onConfirmDifferent: (e: React.MouseEvent) => void;
+  disabled?: boolean;
+}
+
+/**
+ * DuplicateCandidatesPanel Component
+ *
+ * Shown in the add mill form when the save was stopped because existing mills look like the
+ * same one (nearby, same legacy ID or similar title). Each candidate links to its public page
+ * (published) or its editor (the user's own drafts), in a new tab so the form content is kept.
+ * Other researchers' unpublished matches are only mentioned, without details. The user can
+ * then confirm that this is a different mill and save anyway.
+ */
+export const DuplicateCandidatesPanel = ({
+  candidates,
+  hiddenCount,
+  onConfirmDifferent,
+  disabled,
+}: DuplicateCandidatesPanelProps) => {
+  const t = useTranslations();
+  const locale = useLocale();
+
+  return (
+    <Card className="border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          {t('duplicates.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">{t('duplicates.description')}</p>
+
+        {candidates.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {candidates.map((candidate) => (
+              <li key={candidate.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                <div className="space-y-1">
+                  <a
+                    href={
+                      candidate.status === 'published'
+                        ? `/${locale}/mill/${candidate.slug}`
+                        : `/${locale}/dashboard/edit/${candidate.id}`
+                    }
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 font-medium hover:underline"
+                  >
+                    {candidate.title || candidate.slug}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="outline">{t(`common.${candidate.status}`)}</Badge>
+                    {candidate.legacyId && (
+                      <span>{t('duplicates.legacyId', { legacyId: candidate.legacyId })}</span>
+                    )}
+                    <span>{t('duplicates.distance', { meters: candidate.distanceMeters })}</span>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {candidate.reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary">
+                      {t(`duplicates.reasons.${reason}`)}
+                    </Badge>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hiddenCount > 0 && (
+          <p className="text-sm text-muted-foreground">{t('duplicates.hiddenMatches', { count: hiddenCount })}</p>
+        )}
+
+        <Button type="button" size="sm" variant="outline" onClick={onConfirmDifferent} disabled={disabled}>
+          {t('duplicates.confirmDifferent')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,61 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RevisionDiffTable } from '@/components/features/RevisionDiffTable';
+import { useTranslations } from 'next-intl';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import type { EditConflict } from '@/lib/edit-conflicts';
+
+interface EditConflictPanelProps {
+  conflict: EditConflict;
+  /**
+   * Adopts the server version as the new base: the next save overwrites the record with
+   * the form content (after the user merged the server changes into it)
+   */
+  onKeepMine: () => void;
+}
+
+/**
+ * EditConflictPanel Component
+ *
+ * Shown in an editor when a save was rejected because someone else saved the record
+ * after it was opened. Lists the fields changed on the server (value when the editor was
+ * opened -> current value) so the user can merge them into the form, then either:
+ * - keep their edits (save again to overwrite), or
+ * - load the server version (discarding the unsaved edits)
+ */
+export const EditConflictPanel = ({ conflict, onKeepMine }: EditConflictPanelProps) => {
+  const t = useTranslations('editConflict');
+  const changeCount = Object.keys(conflict.changes).length;
+
+  return (
+    <Card className="border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          {t('title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">{t('description')}</p>
+
+        {changeCount === 0 ? (
+          <p className="text-sm">{t('unknownChanges')}</p>
+        ) : (
+          <RevisionDiffTable diff={conflict.changes} fromLabel={t('whenOpened')} toLabel={t('onServer')} />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" onClick={onKeepMine}>
+            {t('keepMine')}
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => window.location.reload()}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {t('loadServer')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
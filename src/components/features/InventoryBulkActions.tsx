@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import {
+  bulkDelete,
+  bulkPublish,
+  bulkReassignAuthor,
+  bulkSubmitForReview,
+  bulkUnpublish,
+  getAssignableAuthors,
+  type AssignableAuthor,
+  type BulkActionReport,
+} from '@/actions/bulk';
+import { Button } from '@/components/ui/button';
+import { useLocale, useTranslations } from 'next-intl';
+import { Download, Loader2, X } from 'lucide-react';
+
+interface InventoryBulkActionsProps {
+  selectedIds: string[];
+  isAdmin: boolean;
+  /**
+   * Title of an inventory row, for the failure list of the report
+   */
+  getItemTitle: (id: string) => string;
+  /**
+   * Called after an action ran: the table reloads and keeps only the failed items selected
+   */
+  onComplete: (report: BulkActionReport) => void;
+  onClearSelection: () => void;
+}
+
+type BulkAction = 'submit' | 'publish' | 'unpublish' | 'delete' | 'reassign';
+
+/**
+ * InventoryBulkActions Component
+ *
+ * Toolbar for the rows selected in the inventory: submit for review, publish / unpublish
+ * and reassign author (admins), delete, and CSV / XLSX export of the selection.
+ * Shows the per-item report of the last action (which items failed and why).
+ */
+export const InventoryBulkActions = ({
+  selectedIds,
+  isAdmin,
+  getItemTitle,
+  onComplete,
+  onClearSelection,
+}: InventoryBulkActionsProps) => {
+  const t = useTranslations('inventory.bulk');
+  const locale = useLocale();
+  const [isPending, startTransition] = useTransition();
+  const [report, setReport] = useState<(BulkActionReport & { titles: Record<string, string> }) | null>(null);
+  const [authors, setAuthors] = useState<AssignableAuthor[]>([]);
+  const [authorId, setAuthorId] = useState('');
+
+  useEffect(() => {
+    if (!isAdmin) {
+      return;
+    }
+    const fetchAuthors = async () => {
+      const result = await getAssignableAuthors();
+      if (result.success) {
+        setAuthors(result.data);
+      }
+    };
+    fetchAuthors();
+  }, [isAdmin]);
+
+  const runAction = (action: BulkAction) => {
+    if (action === 'delete' && !confirm(t('confirmDelete', { count: selectedIds.length }))) {
+      return;
+    }
+    if (action === 'unpublish' && !confirm(t('confirmUnpublish', { count: selectedIds.length }))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result =
+        action === 'submit' ? await bulkSubmitForReview(selectedIds)
+        : action === 'publish' ? await bulkPublish(selectedIds)
+        : action === 'unpublish' ? await bulkUnpublish(selectedIds)
+        : action === 'delete' ? await bulkDelete(selectedIds)
+        : await bulkReassignAuthor(selectedIds, authorId);
+
+      if (result.success) {
+        // Titles are captured now: deleted rows disappear from the table on reload
+        const titles = Object.fromEntries(
+          result.data.results.filter((item) => !item.success).map((item) => [item.id, getItemTitle(item.id)])
+        );
+        setReport({ ...result.data, titles });
+        onComplete(result.data);
+      } else {
+        console.error('[InventoryBulkActions]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const exportUrl = (format: 'csv' | 'xlsx') =>
+    `/api/export/inventory?${new URLSearchParams({ format, locale, ids: selectedIds.join(',') }).toString()}`;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-3">
+          <span className="mr-2 text-sm font-medium">{t('selected', { count: selectedIds.length })}</span>
+          <Button size="sm" variant="outline" disabled={isPending} onClick={() => runAction('submit')}>
+            {t('submitForReview')}
+          </Button>
+          {isAdmin && (
+            <>
+              <Button size="sm" variant="outline" disabled={isPending} onClick={() => runAction('publish')}>
+                {t('publish')}
+              </Button>
+              <Button size="sm" variant="outline" disabled={isPending} onClick={() => runAction('unpublish')}>
+                {t('unpublish')}
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="destructive" disabled={isPending} onClick={() => runAction('delete')}>
+            {t('delete')}
+          </Button>
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <select
+                aria-label={t('reassignTo')}
+                value={authorId}
+                onChange={(e) => setAuthorId(e.target.value)}
+                className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                <option value="">{t('reassignTo')}</option>
+                {authors.map((author) => (
+                  <option key={author.id} value={author.id}>
+                    {author.fullName || author.id}
+                  </option>
+                ))}
+              </select>
+              <Button size="sm" variant="outline" disabled={isPending || !authorId} onClick={() => runAction('reassign')}>
+                {t('reassign')}
+              </Button>
+            </div>
+          )}
+          <Button asChild size="sm" variant="ghost">
+            <a href={exportUrl('csv')} download>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </a>
+          </Button>
+          <Button asChild size="sm" variant="ghost">
+            <a href={exportUrl('xlsx')} download>
+              <Download className="mr-2 h-4 w-4" />
+              XLSX
+            </a>
+          </Button>
+          <Button size="sm" variant="ghost" disabled={isPending} onClick={onClearSelection}>
+            <X className="mr-2 h-4 w-4" />
+            {t('clearSelection')}
+          </Button>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+
+      {report && (
+        <div
+          className={`rounded-md border p-3 text-sm ${
+            report.failed > 0 ? 'border-amber-200 bg-amber-50 text-amber-900' : 'border-green-200 bg-green-50 text-green-900'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">
+              {t('report', { succeeded: report.succeeded, failed: report.failed })}
+            </p>
+            <button type="button" onClick={() => setReport(null)} aria-label={t('dismiss')}>
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {report.failed > 0 && (
+            <ul className="mt-2 list-disc space-y-1 pl-5">
+              {report.results
+                .filter((item) => !item.success)
+                .map((item) => (
+                  <li key={item.id}>
+                    <span className="font-medium">{report.titles[item.id]}</span>: {item.error}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { inviteUser } from '@/actions/users';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Loader2, Mail } from 'lucide-react';
+
+/**
+ * InviteUserForm Component
+ *
+ * Invites a researcher (or admin) by email. The invitation email is written in the
+ * language chosen here; the link lets the person create their account.
+ */
+export const InviteUserForm = () => {
+  const t = useTranslations('users.invite');
+  const locale = useLocale() as 'pt' | 'en';
+  const [isPending, startTransition] = useTransition();
+  const [email, setEmail] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [academicAffiliation, setAcademicAffiliation] = useState('');
+  const [role, setRole] = useState<'researcher' | 'admin'>('researcher');
+  const [emailLocale, setEmailLocale] = useState<'pt' | 'en'>(locale);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSentTo(null);
+
+    startTransition(async () => {
+      const result = await inviteUser({
+        email,
+        role,
+        fullName: fullName || undefined,
+        academicAffiliation: academicAffiliation || undefined,
+        locale: emailLocale,
+      });
+
+      if (result.success) {
+        setSentTo(email);
+        setEmail('');
+        setFullName('');
+        setAcademicAffiliation('');
+        router.refresh();
+      } else {
+        console.error('[InviteUserForm]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const selectClassName =
+    'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="invite-email">{t('email')}</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invite-full-name">{t('fullName')}</Label>
+          <Input
+            id="invite-full-name"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invite-affiliation">{t('academicAffiliation')}</Label>
+          <Input
+            id="invite-affiliation"
+            value={academicAffiliation}
+            onChange={(e) => setAcademicAffiliation(e.target.value)}
+            disabled={isPending}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">{t('role')}</Label>
+            <select
+              id="invite-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as 'researcher' | 'admin')}
+              disabled={isPending}
+              className={selectClassName}
+            >
+              <option value="researcher">{t('roles.researcher')}</option>
+              <option value="admin">{t('roles.admin')}</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-locale">{t('language')}</Label>
+            <select
+              id="invite-locale"
+              value={emailLocale}
+              onChange={(e) => setEmailLocale(e.target.value as 'pt' | 'en')}
+              disabled={isPending}
+              className={selectClassName}
+            >
+              <option value="pt">Português</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <Button type="submit" disabled={isPending || !email}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+          {t('submit')}
+        </Button>
+        {sentTo && <p className="text-sm text-green-700">{t('sent', { email: sentTo })}</p>}
+      </div>
+    </form>
+  );
+};
@@ -6,6 +6,7 @@ import type { LatLngExpression } from 'leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import type { PublishedMill, MapWaterLine } from '@/actions/public';
+import { parseTrackFile, mergeTrackSegments, TRACK_FILE_ACCEPT, type TrackSegment } from '@/lib/track-import';
 
 // Fix Leaflet icon issue in Next.js/Webpack
 delete (L.Icon.Default.prototype as { _getIconUrl?: unknown })._getIconUrl;
@@ -74,6 +75,21 @@ function MapCenterUpdater({
   return null;
 }
 
+/**
+ * MapBoundsFitter - Fits the map to imported track points whenever they change
+ */
+function MapBoundsFitter({ points }: { points: [number, number][] | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points && points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
+    }
+  }, [map, points]);
+
+  return null;
+}
+
 /**
  * LevadaEditor Component
  * 
@@ -83,6 +99,8 @@ function MapCenterUpdater({
  * - Displays the current path as a colored line
  * - Converts coordinates to GeoJSON LineString format
  * - Phase 5.9.3: Shows existing mills as reference layer
+ * - Imports a path from a GPX track, KML LineString or GeoJSON file; multi-segment
+ *   files are previewed so the user can pick one segment or merge several
  * 
  * @param color - Hex color code for the polyline (e.g., '#3b82f6')
  * @param onPathChange - Callback function called when the path changes, receives array of [lng, lat] tuples
@@ -94,6 +112,13 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
   const [path, setPath] = useState<[number, number][]>(initialPath);
   const [hasInitialized, setHasInitialized] = useState(false);
 
+  // Track file import: segments awaiting selection (multi-segment files only)
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importedSegments, setImportedSegments] = useState<TrackSegment[] | null>(null);
+  const [selectedSegments, setSelectedSegments] = useState<number[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [fitPoints, setFitPoints] = useState<[number, number][] | null>(null);
+
   // Center of Portugal (approximate geographic center)
   // Phase 5.9.7.1: If path has points, center on the drawn coordinates for verification
   // If initialPath exists, center on the first point
@@ -163,6 +188,51 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
     setPath((prev) => prev.slice(0, -1));
   };
 
+  const handleTrackFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    setImportError(null);
+    setIsDrawing(false);
+
+    const result = parseTrackFile(file.name, await file.text());
+    if (!result.success) {
+      setImportError(result.error);
+      return;
+    }
+
+    if (result.data.length === 1) {
+      // Single line: load it straight into the editor for preview
+      setPath(result.data[0]!.path);
+      setFitPoints(result.data[0]!.path);
+    } else {
+      // Multiple segments: preview all and let the user pick or merge
+      setImportedSegments(result.data);
+      setSelectedSegments(result.data.map((_, index) => index));
+      setFitPoints(result.data.flatMap((segment) => segment.path));
+    }
+  };
+
+  const toggleSegment = (index: number) => {
+    setSelectedSegments((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index].sort((a, b) => a - b)
+    );
+  };
+
+  const handleUseSelectedSegments = () => {
+    if (!importedSegments) return;
+    const mergedPath = mergeTrackSegments(selectedSegments.map((index) => importedSegments[index]!));
+    setPath(mergedPath);
+    setFitPoints(mergedPath);
+    setImportedSegments(null);
+  };
+
+  const handleCancelImport = () => {
+    setImportedSegments(null);
+    setSelectedSegments([]);
+  };
+
   // Convert path to Leaflet format [lat, lng] for display
   const leafletPath: LatLngExpression[] = path.map(([lat, lng]) => [lat, lng]);
 
@@ -200,6 +270,20 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
         >
           Clear Path
         </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 rounded-md text-sm font-medium bg-gray-600 text-white hover:bg-gray-700"
+        >
+          Import GPX / KML / GeoJSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={TRACK_FILE_ACCEPT}
+          onChange={handleTrackFileChange}
+          className="hidden"
+        />
         {path.length > 0 && (
           <span className="px-4 py-2 text-sm text-muted-foreground self-center">
             Points: {path.length}
@@ -207,6 +291,53 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
         )}
       </div>
 
+      {importError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {importError}
+        </div>
+      )}
+
+      {/* Segment picker for multi-segment track files */}
+      {importedSegments && (
+        <div className="p-4 border border-input rounded-md space-y-3">
+          <p className="text-sm font-medium">
+            The file contains {importedSegments.length} segments. Select one to use it, or several to merge them in order.
+          </p>
+          <ul className="space-y-2">
+            {importedSegments.map((segment, index) => (
+              <li key={index}>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedSegments.includes(index)}
+                    onChange={() => toggleSegment(index)}
+                  />
+                  <span>{segment.name || `Segment ${index + 1}`}</span>
+                  <span className="text-muted-foreground">({segment.path.length} points)</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleUseSelectedSegments}
+              disabled={selectedSegments.length === 0}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {selectedSegments.length > 1 ? 'Merge Selected Segments' : 'Use Selected Segment'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancelImport}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-gray-600 text-white hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="relative">
         <MapContainer
           center={portugalCenter}
@@ -307,6 +438,9 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
             zoom={defaultZoom} 
           />
 
+          {/* Fit the map to imported track files */}
+          <MapBoundsFitter points={fitPoints} />
+
           {/* Handle map clicks */}
           <MapClickHandler 
             isDrawing={isDrawing} 
@@ -355,6 +489,20 @@ export const LevadaEditor = ({ color, onPathChange, existingMills = [], existing
             );
           })}
 
+          {/* Imported segments awaiting selection (selected: solid, unselected: dashed) */}
+          {importedSegments?.map((segment, index) => (
+            <Polyline
+              key={`imported-${index}`}
+              positions={segment.path}
+              pathOptions={{
+                color: '#f97316', // Orange - distinct from the levada color and reference layers
+                weight: selectedSegments.includes(index) ? 4 : 2,
+                opacity: selectedSegments.includes(index) ? 0.9 : 0.5,
+                dashArray: selectedSegments.includes(index) ? undefined : '6, 6',
+              }}
+            />
+          ))}
+
           {/* Display polyline if path has points */}
           {leafletPath.length > 1 && (
             <Polyline
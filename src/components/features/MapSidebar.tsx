@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { ChevronDown, ChevronUp, Download, X } from 'lucide-react';
 
 interface MapSidebarProps {
   availableDistricts: string[];
@@ -47,6 +47,8 @@ export const MapSidebar = ({ availableDistricts, locale }: MapSidebarProps) => {
   // Get current filter values from URL
   const typologyParams = searchParams.getAll('typology');
   const districtParam = searchParams.get('district');
+  const municipalityParam = searchParams.get('municipality');
+  const drainageBasinParam = searchParams.get('drainageBasin');
   const roofMaterialParams = searchParams.getAll('roofMaterial');
   const roofShapeParams = searchParams.getAll('roofShape');
   const accessParams = searchParams.getAll('access');
@@ -167,6 +169,8 @@ export const MapSidebar = ({ availableDistricts, locale }: MapSidebarProps) => {
   const hasActiveFilters =
     typologyParams.length > 0 ||
     districtParam !== null ||
+    municipalityParam !== null ||
+    drainageBasinParam !== null ||
     roofMaterialParams.length > 0 ||
     roofShapeParams.length > 0 ||
     accessParams.length > 0 ||
@@ -181,6 +185,15 @@ export const MapSidebar = ({ availableDistricts, locale }: MapSidebarProps) => {
     volumetryParams.length > 0 ||
     exteriorFinishParams.length > 0;
 
+  /**
+   * Builds the fieldwork export URL (KML/GPX) for the mills currently shown on the map
+   */
+  const getFieldworkExportUrl = (format: 'kml' | 'gpx') => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('locale', locale);
+    return `/api/export/${format}?${params.toString()}`;
+  };
+
   // Render checkbox group helper
   const renderCheckboxGroup = (
     options: readonly string[],
@@ -392,6 +405,30 @@ export const MapSidebar = ({ availableDistricts, locale }: MapSidebarProps) => {
           {renderCheckboxGroup(motiveApparatusOptions, motiveApparatusParams, 'motiveApparatus', 'taxonomy.motiveApparatus')}
         </div>
       )}
+
+      {/* Fieldwork Download - exports the filtered mills and their levadas */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-semibold">{t('map.fieldwork.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          <p className="text-xs text-gray-600">{t('map.fieldwork.description')}</p>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm" className="flex-1">
+              <a href={getFieldworkExportUrl('kml')} download>
+                <Download className="mr-2 h-4 w-4" />
+                KML
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm" className="flex-1">
+              <a href={getFieldworkExportUrl('gpx')} download>
+                <Download className="mr-2 h-4 w-4" />
+                GPX
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 };
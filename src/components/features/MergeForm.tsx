@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { mergeConstructions, type MergePreview } from '@/actions/merge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useRevisionFormatters } from '@/components/features/RevisionDiffTable';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { GitMerge, Loader2 } from 'lucide-react';
+import type { MergeChoices } from '@/lib/merge';
+
+interface MergeFormProps {
+  preview: MergePreview;
+}
+
+/**
+ * MergeForm Component
+ *
+ * Per-field choice between the survivor's value and the merged record's value (one radio
+ * pair per differing field), then the merge itself after confirmation. Empty survivor
+ * fields default to the merged record's value so nothing is lost by accident.
+ */
+export const MergeForm = ({ preview }: MergeFormProps) => {
+  const t = useTranslations('merge');
+  const locale = useLocale();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const { formatField, formatValue } = useRevisionFormatters();
+
+  const [choices, setChoices] = useState<MergeChoices>(() =>
+    Object.fromEntries(
+      preview.fields.map((field) => [
+        field.key,
+        field.survivor === null || field.survivor === '' ? 'loser' : 'survivor',
+      ])
+    )
+  );
+
+  const handleMerge = () => {
+    if (!confirm(t('confirm'))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await mergeConstructions({
+        survivorId: preview.survivor.id,
+        loserId: preview.loser.id,
+        choices,
+      });
+
+      if (result.success) {
+        router.push(`/${locale}/dashboard/history?construction=${result.data.id}`);
+        router.refresh();
+      } else {
+        console.error('[MergeForm]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const renderChoice = (key: string, side: 'survivor' | 'loser', value: unknown) => (
+    <label className="flex cursor-pointer items-start gap-2">
+      <input
+        type="radio"
+        name={key}
+        className="mt-1"
+        checked={choices[key] === side}
+        onChange={() => setChoices((current) => ({ ...current, [key]: side }))}
+      />
+      <span className="break-words">{formatValue(value)}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      {preview.fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('noDifferences')}</p>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('field')}</TableHead>
+                <TableHead>{t('survivorValue')}</TableHead>
+                <TableHead>{t('loserValue')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.fields.map((field) => (
+                <TableRow key={field.key}>
+                  <TableCell className="font-medium">{formatField(field.key)}</TableCell>
+                  <TableCell className="max-w-xs">{renderChoice(field.key, 'survivor', field.survivor)}</TableCell>
+                  <TableCell className="max-w-xs">{renderChoice(field.key, 'loser', field.loser)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+        <li>{t('summary.images', { count: preview.galleryImageCount })}</li>
+        <li>{t('summary.documents', { count: preview.documentCount })}</li>
+        {preview.copiedLanguages.length > 0 && (
+          <li>
+            {t('summary.languages', {
+              languages: preview.copiedLanguages.map((lang) => lang.toUpperCase()).join(', '),
+            })}
+          </li>
+        )}
+        {preview.relinkedCount > 0 && (
+          <li>{t('summary.relinked', { count: preview.relinkedCount })}</li>
+        )}
+        <li>{t('summary.loser', { slug: preview.loser.slug, survivor: preview.survivor.slug })}</li>
+      </ul>
+
+      <Button type="button" onClick={handleMerge} disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <GitMerge className="mr-2 h-4 w-4" />
+        )}
+        {t('submit')}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { importMillConstructionsCsv, type MillImportReport } from '@/actions/admin';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCircle2, FileSearch, Loader2, Upload } from 'lucide-react';
+
+interface MillImportFormProps {
+  locale: 'pt' | 'en';
+  columns: string[];
+  requiredColumns: string[];
+}
+
+/**
+ * MillImportForm Component
+ *
+ * Client side of the bulk CSV import:
+ * - Reads the selected CSV file in the browser
+ * - Runs a dry run and renders the row-by-row validation report
+ * - Enables the real import only when the dry run has no errors
+ */
+export const MillImportForm = ({ locale, columns, requiredColumns }: MillImportFormProps) => {
+  const t = useTranslations('import');
+  const [isPending, startTransition] = useTransition();
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [contentLocale, setContentLocale] = useState<'pt' | 'en'>(locale);
+  const [report, setReport] = useState<MillImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setReport(null);
+    setError(null);
+    setCsvText(file ? await file.text() : null);
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!csvText) return;
+
+    startTransition(async () => {
+      setError(null);
+      const result = await importMillConstructionsCsv(csvText, { locale: contentLocale, dryRun });
+
+      if (result.success) {
+        setReport(result.data);
+      } else {
+        setError(result.error);
+      }
+    });
+  };
+
+  const canImport = report?.dryRun === true && report.invalidRows === 0 && report.totalRows > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('file.title')}</CardTitle>
+          <CardDescription>
+            {t('file.description', { required: requiredColumns.join(', ') })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csvFile">{t('file.label')}</Label>
+              <Input id="csvFile" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contentLocale">{t('file.contentLocale')}</Label>
+              <select
+                id="contentLocale"
+                value={contentLocale}
+                onChange={(e) => {
+                  setContentLocale(e.target.value as 'pt' | 'en');
+                  setReport(null);
+                }}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="pt">Português</option>
+                <option value="en">English</option>
+              </select>
+            </div>
+          </div>
+
+          <details className="text-sm text-muted-foreground">
+            <summary className="cursor-pointer">{t('file.columns')}</summary>
+            <p className="mt-2 font-mono break-words">{columns.join(', ')}</p>
+          </details>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!csvText || isPending}>
+              {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSearch className="mr-2 h-4 w-4" />}
+              {t('actions.dryRun')}
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={!canImport || isPending}>
+              {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {t('actions.import', { count: report?.validRows ?? 0 })}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Import Result */}
+      {report && !report.dryRun && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-800 flex items-center justify-between gap-4">
+          <span className="flex items-center">
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            {t('report.created', { count: report.createdCount })}
+          </span>
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/${locale}/dashboard/inventory`}>{t('report.viewInventory')}</Link>
+          </Button>
+        </div>
+      )}
+
+      {/* Dry Run Report */}
+      {report && report.dryRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('report.title')}</CardTitle>
+            <CardDescription>
+              {t('report.summary', {
+                total: report.totalRows,
+                valid: report.validRows,
+                invalid: report.invalidRows,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {report.ignoredColumns.length > 0 && (
+              <p className="text-sm text-amber-700">
+                {t('report.ignoredColumns', { columns: report.ignoredColumns.join(', ') })}
+              </p>
+            )}
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('report.row')}</TableHead>
+                    <TableHead>{t('report.legacyId')}</TableHead>
+                    <TableHead>{t('report.rowTitle')}</TableHead>
+                    <TableHead>{t('report.result')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.legacyId || '—'}</TableCell>
+                      <TableCell className="font-medium">{row.title || '—'}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <Badge variant="default">{t('report.valid')}</Badge>
+                        ) : (
+                          <ul className="list-disc pl-4 text-sm text-destructive space-y-1">
+                            {row.errors.map((rowError) => (
+                              <li key={rowError}>{rowError}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -94,9 +94,15 @@ interface MillPdfProps {
 
         [key: string]: any; // Allow other fields
     };
+    // Team credits (owner and contributors), see getConstructionCredits
+    credits?: {
+        name: string;
+        role: string;
+        academicAffiliation: string | null;
+    }[];
 }
 
-export function MillPdfButton({ mill }: MillPdfProps) {
+export function MillPdfButton({ mill, credits = [] }: MillPdfProps) {
     const t = useTranslations();
     const locale = useLocale();
     const [isGenerating, setIsGenerating] = useState(false);
@@ -441,6 +447,24 @@ export function MillPdfButton({ mill }: MillPdfProps) {
                 yPos = (doc as any).lastAutoTable.finalY + 12;
             }
 
+            // Credits
+            const creditData = credits.map(credit => [
+                t(`contributors.roles.${credit.role}`),
+                credit.academicAffiliation ? `${credit.name} (${credit.academicAffiliation})` : credit.name,
+            ]);
+
+            if (creditData.length > 0) {
+                if (yPos > pageHeight - 50) { doc.addPage(); drawHeader((doc as any).internal.getNumberOfPages()); yPos = 35; }
+                yPos = drawSectionTitle(t('mill.detail.credits'), yPos);
+
+                autoTable(doc, {
+                    startY: yPos,
+                    body: creditData,
+                    ...sectionStyles
+                });
+                yPos = (doc as any).lastAutoTable.finalY + 12;
+            }
+
             // --- Observations Text Blocks (MOVED HERE) ---
             const obsSections = [
                 mill.description ? { title: t('mill.detail.description'), text: mill.description } : null,
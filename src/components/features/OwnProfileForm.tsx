@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { updateOwnProfile, type OwnProfile } from '@/actions/researcher';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { CheckCircle2, Loader2, Save } from 'lucide-react';
+
+interface OwnProfileFormProps {
+  profile: OwnProfile;
+}
+
+/**
+ * OwnProfileForm Component
+ *
+ * Edits the details shown on the user's public researcher page: name, academic
+ * affiliation, ORCID iD (an orcid.org URL is accepted) and bio.
+ */
+export const OwnProfileForm = ({ profile }: OwnProfileFormProps) => {
+  const t = useTranslations('profile');
+  const [isPending, startTransition] = useTransition();
+  const [fullName, setFullName] = useState(profile.fullName ?? '');
+  const [academicAffiliation, setAcademicAffiliation] = useState(profile.academicAffiliation ?? '');
+  const [orcid, setOrcid] = useState(profile.orcid ?? '');
+  const [bio, setBio] = useState(profile.bio ?? '');
+  const [saved, setSaved] = useState(false);
+  const router = useRouter();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaved(false);
+
+    startTransition(async () => {
+      const result = await updateOwnProfile({
+        fullName,
+        academicAffiliation: academicAffiliation || null,
+        orcid: orcid || null,
+        bio: bio || null,
+      });
+
+      if (result.success) {
+        setSaved(true);
+        router.refresh();
+      } else {
+        console.error('[OwnProfileForm]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="profile-fullName">{t('fullName')}</Label>
+          <Input
+            id="profile-fullName"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            required
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="profile-academicAffiliation">{t('academicAffiliation')}</Label>
+          <Input
+            id="profile-academicAffiliation"
+            value={academicAffiliation}
+            onChange={(e) => setAcademicAffiliation(e.target.value)}
+            disabled={isPending}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="profile-orcid">{t('orcid')}</Label>
+        <Input
+          id="profile-orcid"
+          value={orcid}
+          onChange={(e) => setOrcid(e.target.value)}
+          placeholder="0000-0000-0000-0000"
+          disabled={isPending}
+          className="max-w-xs font-mono"
+        />
+        <p className="text-xs text-muted-foreground">{t('orcidHint')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="profile-bio">{t('bio')}</Label>
+        <textarea
+          id="profile-bio"
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          maxLength={2000}
+          rows={6}
+          disabled={isPending}
+          className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={isPending || !fullName.trim()}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          {t('save')}
+        </Button>
+        {saved && (
+          <span className="flex items-center gap-1 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            {t('saved')}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
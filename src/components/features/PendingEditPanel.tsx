@@ -0,0 +1,192 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import {
+  approvePendingEdit,
+  discardPendingEdit,
+  getPendingEdit,
+  rejectPendingEdit,
+  type PendingEditDetails,
+} from '@/actions/pending-edits';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RevisionDiffTable } from '@/components/features/RevisionDiffTable';
+import { useRouter } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import { CheckCircle2, GitCompare, Loader2, Trash2 } from 'lucide-react';
+
+interface PendingEditPanelProps {
+  constructionId: string;
+  /**
+   * 'review': admin decision (approve / request changes) on the review detail page
+   * 'editor': notice for the author in the editor, with a discard action
+   */
+  mode: 'review' | 'editor';
+  /**
+   * Editor mode: admins edit the live record, so the copy is only pointed out
+   */
+  isAdmin?: boolean;
+}
+
+/**
+ * PendingEditPanel Component
+ *
+ * Shows the working copy of a published construction next to the live version.
+ * - Field-by-field diff (live -> proposed)
+ * - Review mode: approve (applies the copy atomically) or send back with a required reason
+ * - Editor mode: explains that the live page is unchanged and allows discarding the copy;
+ *   admins (who edit the live record) are told to approve or reject the copy first
+ * Renders nothing when the construction has no pending edit.
+ */
+export const PendingEditPanel = ({ constructionId, mode, isAdmin = false }: PendingEditPanelProps) => {
+  const t = useTranslations('pendingEdits');
+  const locale = useLocale();
+  const router = useRouter();
+  const [pendingEdit, setPendingEdit] = useState<PendingEditDetails | null>(null);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const loadPendingEdit = useCallback(async () => {
+    const result = await getPendingEdit(constructionId);
+    if (result.success) {
+      setPendingEdit(result.data);
+    } else {
+      console.error('[PendingEditPanel]:', result.error);
+    }
+  }, [constructionId]);
+
+  useEffect(() => {
+    loadPendingEdit();
+  }, [loadPendingEdit]);
+
+  if (!pendingEdit) {
+    return null;
+  }
+
+  const runAction = (action: () => Promise<{ success: boolean; error?: string }>, onSuccess: () => void) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.success) {
+        onSuccess();
+      } else {
+        console.error('[PendingEditPanel]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const handleApprove = () => {
+    if (!confirm(t('confirmApprove'))) {
+      return;
+    }
+    runAction(() => approvePendingEdit(constructionId, new Date(pendingEdit.updatedAt).toISOString()), () => {
+      router.push(`/${locale}/dashboard/review`);
+      router.refresh();
+    });
+  };
+
+  const handleReject = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      return;
+    }
+    runAction(() => rejectPendingEdit(constructionId, reason), () => {
+      router.push(`/${locale}/dashboard/review`);
+      router.refresh();
+    });
+  };
+
+  const handleDiscard = () => {
+    if (!confirm(t('confirmDiscard'))) {
+      return;
+    }
+    // Reload so the editor shows the live values again
+    runAction(() => discardPendingEdit(constructionId), () => window.location.reload());
+  };
+
+  const changeCount = Object.keys(pendingEdit.diff).length;
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-800">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2 text-xl">
+          <GitCompare className="h-5 w-5" />
+          {t('title')}
+          <Badge variant={pendingEdit.status === 'review' ? 'secondary' : 'outline'}>
+            {pendingEdit.status === 'review' ? t('statusReview') : t('statusDraft')}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {mode === 'review' ? t('reviewNotice') : isAdmin ? t('adminEditorNotice') : t('editorNotice')}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t('lastSaved', {
+            author: pendingEdit.authorName || t('unknownAuthor'),
+            date: new Date(pendingEdit.updatedAt).toLocaleString(locale),
+          })}
+        </p>
+
+        {changeCount === 0 ? (
+          <p className="text-sm">{t('noChanges')}</p>
+        ) : mode === 'review' ? (
+          <RevisionDiffTable diff={pendingEdit.diff} fromLabel={t('live')} toLabel={t('proposed')} />
+        ) : (
+          <details>
+            <summary className="cursor-pointer text-sm text-muted-foreground">
+              {t('changedFields', { count: changeCount })}
+            </summary>
+            <div className="mt-2">
+              <RevisionDiffTable diff={pendingEdit.diff} fromLabel={t('live')} toLabel={t('proposed')} />
+            </div>
+          </details>
+        )}
+
+        {mode === 'review' ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleApprove} disabled={isPending} size="sm">
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                {t('approve')}
+              </Button>
+              {!isRejecting && (
+                <Button onClick={() => setIsRejecting(true)} disabled={isPending} size="sm" variant="outline">
+                  {t('reject')}
+                </Button>
+              )}
+            </div>
+            {isRejecting && (
+              <form onSubmit={handleReject} className="space-y-2">
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t('reasonPlaceholder')}
+                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  rows={3}
+                  required
+                  disabled={isPending}
+                />
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm" variant="destructive" disabled={isPending || !reason.trim()}>
+                    {t('sendBack')}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setIsRejecting(false)} disabled={isPending}>
+                    {t('cancel')}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        ) : !isAdmin && (
+          <Button onClick={handleDiscard} disabled={isPending} size="sm" variant="outline">
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+            {t('discard')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
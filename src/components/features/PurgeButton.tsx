@@ -0,0 +1,51 @@
+'use client';
+
+import { useTransition } from 'react';
+import { purgeConstruction } from '@/actions/trash';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Trash2 } from 'lucide-react';
+
+interface PurgeButtonProps {
+  constructionId: string;
+}
+
+/**
+ * PurgeButton Component
+ *
+ * Admin-only: permanently removes a construction from the trash after confirmation.
+ */
+export const PurgeButton = ({ constructionId }: PurgeButtonProps) => {
+  const t = useTranslations('trash');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handlePurge = () => {
+    if (!confirm(t('confirmPurge'))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await purgeConstruction(constructionId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[PurgeButton]:', result.error);
+        alert(result.error || t('purgeError'));
+      }
+    });
+  };
+
+  return (
+    <Button onClick={handlePurge} disabled={isPending} size="sm" variant="destructive">
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <Trash2 className="mr-2 h-4 w-4" />
+      )}
+      {t('purge')}
+    </Button>
+  );
+};
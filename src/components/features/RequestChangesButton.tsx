@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { requestChanges } from '@/actions/admin';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import { Loader2, Undo2 } from 'lucide-react';
+
+interface RequestChangesButtonProps {
+  constructionId: string;
+  currentStatus: 'draft' | 'review' | 'published';
+}
+
+/**
+ * RequestChangesButton Component
+ *
+ * Sends a construction under review back to draft.
+ * - Opens an inline form where the reviewer must give a reason
+ * - The reason is stored as a change-request review comment for the author
+ * - Redirects to the dashboard after success (like PublishButton)
+ */
+export const RequestChangesButton = ({ constructionId, currentStatus }: RequestChangesButtonProps) => {
+  const t = useTranslations();
+  const locale = useLocale() as 'pt' | 'en';
+  const [isPending, startTransition] = useTransition();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const router = useRouter();
+
+  // Only items waiting for review can be sent back
+  if (currentStatus !== 'review') {
+    return null;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await requestChanges(constructionId, reason);
+
+      if (result.success) {
+        router.push(`/${locale}/dashboard`);
+        router.refresh();
+      } else {
+        console.error('[RequestChangesButton]:', result.error);
+        alert(result.error || t('review.requestChanges.error'));
+      }
+    });
+  };
+
+  if (!isOpen) {
+    return (
+      <Button onClick={() => setIsOpen(true)} size="sm" variant="outline">
+        <Undo2 className="mr-2 h-4 w-4" />
+        {t('review.requestChanges.button')}
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full space-y-2 rounded-md border p-3 sm:w-96">
+      <label htmlFor={`request-changes-${constructionId}`} className="text-sm font-medium">
+        {t('review.requestChanges.reasonLabel')}
+      </label>
+      <textarea
+        id={`request-changes-${constructionId}`}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder={t('review.requestChanges.reasonPlaceholder')}
+        className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        rows={3}
+        required
+        disabled={isPending}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" variant="destructive" disabled={isPending || !reason.trim()}>
+          {isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t('common.loading')}
+            </>
+          ) : (
+            t('review.requestChanges.submit')
+          )}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setIsOpen(false)} disabled={isPending}>
+          {t('review.requestChanges.cancel')}
+        </Button>
+      </div>
+    </form>
+  );
+};
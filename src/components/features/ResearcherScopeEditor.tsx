@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { updateResearcherScope, type ScopeOptions } from '@/actions/users';
+import type { GeoScope } from '@/lib/geo-scope';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Save } from 'lucide-react';
+
+interface ResearcherScopeEditorProps {
+  profileId: string;
+  name: string;
+  scope: GeoScope | null;
+  options: ScopeOptions;
+}
+
+const SCOPE_FIELDS = ['districts', 'municipalities', 'drainageBasins'] as const;
+
+/**
+ * ResearcherScopeEditor Component
+ *
+ * Admin-only: limits a researcher to districts, municipalities and/or drainage basins.
+ * - Areas are entered comma-separated; names already used by mills are suggested
+ * - Leaving every field empty removes the restriction
+ */
+export const ResearcherScopeEditor = ({ profileId, name, scope, options }: ResearcherScopeEditorProps) => {
+  const t = useTranslations('users.scope');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const [values, setValues] = useState<Record<(typeof SCOPE_FIELDS)[number], string>>({
+    districts: scope?.districts.join(', ') ?? '',
+    municipalities: scope?.municipalities.join(', ') ?? '',
+    drainageBasins: scope?.drainageBasins.join(', ') ?? '',
+  });
+
+  const splitAreas = (value: string) =>
+    value
+      .split(',')
+      .map((area) => area.trim())
+      .filter(Boolean);
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateResearcherScope(profileId, {
+        districts: splitAreas(values.districts),
+        municipalities: splitAreas(values.municipalities),
+        drainageBasins: splitAreas(values.drainageBasins),
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[ResearcherScopeEditor]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium">{name}</p>
+        <span className="text-xs text-muted-foreground">{scope ? t('restricted') : t('unrestricted')}</span>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        {SCOPE_FIELDS.map((field) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`scope-${profileId}-${field}`}>{t(field)}</Label>
+            <Input
+              id={`scope-${profileId}-${field}`}
+              value={values[field]}
+              onChange={(e) => setValues((current) => ({ ...current, [field]: e.target.value }))}
+              placeholder={options[field].slice(0, 3).join(', ')}
+              title={options[field].join(', ')}
+              disabled={isPending}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">{t('hint')}</p>
+        <Button onClick={handleSave} disabled={isPending} size="sm" variant="outline">
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          {t('save')}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+'use client';
+
+import { useTransition } from 'react';
+import { restoreFromTrash } from '@/actions/trash';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Undo2 } from 'lucide-react';
+
+interface RestoreFromTrashButtonProps {
+  constructionId: string;
+}
+
+/**
+ * RestoreFromTrashButton Component
+ *
+ * Takes a construction out of the trash; it returns with the status it had before.
+ */
+export const RestoreFromTrashButton = ({ constructionId }: RestoreFromTrashButtonProps) => {
+  const t = useTranslations('trash');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleRestore = () => {
+    startTransition(async () => {
+      const result = await restoreFromTrash(constructionId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[RestoreFromTrashButton]:', result.error);
+        alert(result.error || t('restoreError'));
+      }
+    });
+  };
+
+  return (
+    <Button onClick={handleRestore} disabled={isPending} size="sm" variant="outline">
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <Undo2 className="mr-2 h-4 w-4" />
+      )}
+      {t('restore')}
+    </Button>
+  );
+};
@@ -0,0 +1,60 @@
+'use client';
+
+import { useTransition } from 'react';
+import { restoreConstructionRevision } from '@/actions/history';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { History, Loader2 } from 'lucide-react';
+
+interface RestoreRevisionButtonProps {
+  revisionId: string;
+  /**
+   * Edit version of the record when the history was loaded
+   */
+  expectedVersion: string;
+}
+
+/**
+ * RestoreRevisionButton Component
+ *
+ * Restores a construction to a previous version after confirmation.
+ * The restore is itself recorded as a new revision, so the page is refreshed to show it.
+ * Researchers restoring a published record get a working copy that awaits approval.
+ */
+export const RestoreRevisionButton = ({ revisionId, expectedVersion }: RestoreRevisionButtonProps) => {
+  const t = useTranslations('history');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleRestore = () => {
+    if (!confirm(t('confirmRestore'))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await restoreConstructionRevision(revisionId, expectedVersion);
+
+      if (result.success) {
+        if (result.data.pending) {
+          alert(t('restoredAsWorkingCopy'));
+        }
+        router.refresh();
+      } else {
+        console.error('[RestoreRevisionButton]:', result.error);
+        alert(result.error || t('restoreError'));
+      }
+    });
+  };
+
+  return (
+    <Button onClick={handleRestore} disabled={isPending} size="sm" variant="outline">
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <History className="mr-2 h-4 w-4" />
+      )}
+      {t('restore')}
+    </Button>
+  );
+};
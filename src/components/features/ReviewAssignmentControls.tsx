@@ -0,0 +1,114 @@
+'use client';
+
+import { useTransition } from 'react';
+import { updateReviewAssignment, type Reviewer } from '@/actions/review-assignments';
+import type { ReviewStatus } from '@/lib/review-assignments';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, UserCheck } from 'lucide-react';
+
+interface ReviewAssignmentControlsProps {
+  constructionId: string;
+  reviewers: Reviewer[];
+  currentUserId: string | null;
+  reviewerId: string | null;
+  dueDate: string | null;
+  reviewStatus: ReviewStatus | null;
+}
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * ReviewAssignmentControls Component
+ *
+ * Reviewer, due date and review status of one review queue item. Every change is saved
+ * immediately; "Assign to me" is a shortcut for unassigned items.
+ */
+export const ReviewAssignmentControls = ({
+  constructionId,
+  reviewers,
+  currentUserId,
+  reviewerId,
+  dueDate,
+  reviewStatus,
+}: ReviewAssignmentControlsProps) => {
+  const t = useTranslations('review.assignment');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const save = (changes: { reviewerId?: string | null; dueDate?: string | null; reviewStatus?: ReviewStatus | null }) => {
+    startTransition(async () => {
+      const result = await updateReviewAssignment({
+        constructionId,
+        reviewerId,
+        dueDate,
+        reviewStatus,
+        ...changes,
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[ReviewAssignmentControls]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  return (
+    <div className="grid min-w-[220px] gap-2">
+      <div className="flex items-center gap-2">
+        <select
+          aria-label={t('reviewer')}
+          value={reviewerId ?? ''}
+          onChange={(e) => save({ reviewerId: e.target.value || null })}
+          disabled={isPending}
+          className={selectClassName}
+        >
+          <option value="">{t('unassigned')}</option>
+          {reviewers.map((reviewer) => (
+            <option key={reviewer.id} value={reviewer.id}>
+              {reviewer.fullName || reviewer.id}
+            </option>
+          ))}
+        </select>
+        {!reviewerId && currentUserId && (
+          <Button
+            size="sm"
+            variant="ghost"
+            title={t('assignToMe')}
+            disabled={isPending}
+            onClick={() => save({ reviewerId: currentUserId })}
+          >
+            <UserCheck className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          aria-label={t('dueDate')}
+          value={dueDate ?? ''}
+          onChange={(e) => save({ dueDate: e.target.value || null })}
+          disabled={isPending}
+          className="h-9"
+        />
+        <select
+          aria-label={t('status')}
+          value={reviewStatus ?? ''}
+          onChange={(e) => save({ reviewStatus: (e.target.value || null) as ReviewStatus | null })}
+          disabled={isPending}
+          className={selectClassName}
+        >
+          <option value="">{t('statuses.notStarted')}</option>
+          <option value="in_progress">{t('statuses.in_progress')}</option>
+          <option value="changes_requested">{t('statuses.changes_requested')}</option>
+        </select>
+        {isPending && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />}
+      </div>
+    </div>
+  );
+};
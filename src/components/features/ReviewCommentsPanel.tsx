@@ -0,0 +1,225 @@
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from 'react';
+import { addReviewComment, getReviewComments, type ReviewCommentItem } from '@/actions/admin';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { formatFieldName } from '@/lib/review-fields';
+import { useTranslations, useLocale } from 'next-intl';
+import { Loader2, MessageSquare, Reply } from 'lucide-react';
+
+const TEXTAREA_CLASS_NAME =
+  'flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+interface ReviewCommentsPanelProps {
+  constructionId: string;
+  /**
+   * Show the field selector for field-level comments (mills only)
+   */
+  allowFieldComments?: boolean;
+}
+
+/**
+ * ReviewCommentsPanel Component
+ *
+ * Threaded review discussion between reviewers and the author of a construction.
+ * - Loads the comments on mount (works in both the server review page and the client editors)
+ * - Change requests are highlighted; their field-level comments appear as replies
+ * - Anyone with access can reply to any comment or start a new thread
+ */
+export const ReviewCommentsPanel = ({ constructionId, allowFieldComments = false }: ReviewCommentsPanelProps) => {
+  const t = useTranslations('review.comments');
+  const locale = useLocale();
+  const [comments, setComments] = useState<ReviewCommentItem[]>([]);
+  const [fieldNames, setFieldNames] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState('');
+  const [fieldName, setFieldName] = useState('');
+  const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const loadComments = useCallback(async () => {
+    const result = await getReviewComments(constructionId);
+    if (result.success) {
+      setComments(result.data.comments);
+      setFieldNames(result.data.fieldNames);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+    setIsLoading(false);
+  }, [constructionId]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const submitComment = (input: { body: string; parentId?: string; fieldName?: string }, onSuccess: () => void) => {
+    startTransition(async () => {
+      const result = await addReviewComment(constructionId, input);
+      if (result.success) {
+        onSuccess();
+        await loadComments();
+      } else {
+        console.error('[ReviewCommentsPanel]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) {
+      return;
+    }
+    submitComment({ body, fieldName: fieldName || undefined }, () => {
+      setBody('');
+      setFieldName('');
+    });
+  };
+
+  const handleReply = (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (!replyBody.trim()) {
+      return;
+    }
+    submitComment({ body: replyBody, parentId }, () => {
+      setReplyBody('');
+      setReplyToId(null);
+    });
+  };
+
+  const repliesByParent = new Map<string, ReviewCommentItem[]>();
+  for (const comment of comments) {
+    if (comment.parentId) {
+      repliesByParent.set(comment.parentId, [...(repliesByParent.get(comment.parentId) ?? []), comment]);
+    }
+  }
+  const threads = comments.filter((comment) => !comment.parentId);
+
+  const renderComment = (comment: ReviewCommentItem, depth: number) => (
+    <div key={comment.id} className={depth > 0 ? 'ml-4 border-l pl-4' : ''}>
+      <div
+        className={`rounded-md border p-3 space-y-2 ${
+          comment.isChangeRequest ? 'border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950' : ''
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{comment.authorName || t('unknownAuthor')}</span>
+          {comment.authorRole === 'admin' && <Badge variant="secondary">{t('reviewer')}</Badge>}
+          {comment.isChangeRequest && <Badge variant="destructive">{t('changeRequest')}</Badge>}
+          {comment.fieldName && <Badge variant="outline">{formatFieldName(comment.fieldName)}</Badge>}
+          <span>{new Date(comment.createdAt).toLocaleString(locale)}</span>
+        </div>
+        <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setReplyToId(replyToId === comment.id ? null : comment.id);
+            setReplyBody('');
+          }}
+        >
+          <Reply className="mr-2 h-3 w-3" />
+          {t('reply')}
+        </Button>
+        {replyToId === comment.id && (
+          <form onSubmit={(e) => handleReply(e, comment.id)} className="space-y-2">
+            <textarea
+              value={replyBody}
+              onChange={(e) => setReplyBody(e.target.value)}
+              placeholder={t('replyPlaceholder')}
+              className={TEXTAREA_CLASS_NAME}
+              rows={3}
+              disabled={isPending}
+            />
+            <Button type="submit" size="sm" disabled={isPending || !replyBody.trim()}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('sendReply')}
+            </Button>
+          </form>
+        )}
+      </div>
+      {(repliesByParent.get(comment.id) ?? []).map((reply) => (
+        <div key={reply.id} className="mt-2">
+          {renderComment(reply, depth + 1)}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <MessageSquare className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {t('loading')}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <>
+            {threads.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('empty')}</p>
+            ) : (
+              <div className="space-y-3">{threads.map((comment) => renderComment(comment, 0))}</div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+              {allowFieldComments && (
+                <div className="space-y-2">
+                  <Label htmlFor={`review-comment-field-${constructionId}`}>{t('field')}</Label>
+                  <select
+                    id={`review-comment-field-${constructionId}`}
+                    value={fieldName}
+                    onChange={(e) => setFieldName(e.target.value)}
+                    className={SELECT_CLASS_NAME}
+                    disabled={isPending}
+                  >
+                    <option value="">{t('generalComment')}</option>
+                    {fieldNames.map((name) => (
+                      <option key={name} value={name}>
+                        {formatFieldName(name)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor={`review-comment-body-${constructionId}`}>{t('newComment')}</Label>
+                <textarea
+                  id={`review-comment-body-${constructionId}`}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder={t('placeholder')}
+                  className={TEXTAREA_CLASS_NAME}
+                  rows={3}
+                  disabled={isPending}
+                />
+              </div>
+              <Button type="submit" size="sm" disabled={isPending || !body.trim()}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('submit')}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatFieldName } from '@/lib/review-fields';
+import type { RevisionDiff } from '@/lib/revisions';
+
+interface RevisionDiffTableProps {
+  diff: RevisionDiff;
+  fromLabel?: string;
+  toLabel?: string;
+}
+
+/**
+ * Labels for revision diff keys and values, shared by the tables that compare two
+ * versions of a construction (diffs, merge choices)
+ *
+ * Diff keys look like 'translations.pt.title' or 'millsData.roofShape' and are shown as
+ * "Section › Field"; paths are summarized by their point count.
+ */
+export const useRevisionFormatters = () => {
+  const t = useTranslations('history');
+
+  const formatField = (key: string): string => {
+    const parts = key.split('.');
+    const field = formatFieldName(parts.pop()!);
+    const [section, subsection, lang] = parts;
+
+    if (section === 'translations') {
+      return `${t('sections.translations', { lang: (subsection ?? '').toUpperCase() })} › ${field}`;
+    }
+    if (section === 'waterLine' && subsection === 'translations') {
+      return `${t('sections.waterLineTranslations', { lang: (lang ?? '').toUpperCase() })} › ${field}`;
+    }
+    if (section === 'construction' || section === 'millsData' || section === 'pocasData' || section === 'waterLine') {
+      return `${t(`sections.${section}`)} › ${field}`;
+    }
+    return key;
+  };
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (Array.isArray(value) && value.length > 0 && value.every(Array.isArray)) {
+      return t('points', { count: value.length });
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  };
+
+  return { formatField, formatValue };
+};
+
+/**
+ * RevisionDiffTable Component
+ *
+ * Field-by-field comparison of two versions of a construction (revision history,
+ * pending edits).
+ */
+export const RevisionDiffTable = ({ diff, fromLabel, toLabel }: RevisionDiffTableProps) => {
+  const t = useTranslations('history');
+  const { formatField, formatValue } = useRevisionFormatters();
+
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('field')}</TableHead>
+            <TableHead>{fromLabel ?? t('before')}</TableHead>
+            <TableHead>{toLabel ?? t('after')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {Object.entries(diff).map(([key, change]) => (
+            <TableRow key={key}>
+              <TableCell className="font-medium">{formatField(key)}</TableCell>
+              <TableCell className="max-w-xs break-words text-muted-foreground">{formatValue(change.from)}</TableCell>
+              <TableCell className="max-w-xs break-words">{formatValue(change.to)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+'use client';
+
+import { useTransition } from 'react';
+import { revokeApiToken } from '@/actions/api-tokens';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, X } from 'lucide-react';
+
+interface RevokeApiTokenButtonProps {
+  tokenId: string;
+}
+
+/**
+ * RevokeApiTokenButton Component
+ *
+ * Revokes a personal API token after confirmation; scripts using it stop working at once.
+ */
+export const RevokeApiTokenButton = ({ tokenId }: RevokeApiTokenButtonProps) => {
+  const t = useTranslations('apiTokens');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleRevoke = () => {
+    if (!confirm(t('confirmRevoke'))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeApiToken(tokenId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[RevokeApiTokenButton]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  return (
+    <Button onClick={handleRevoke} disabled={isPending} size="sm" variant="outline">
+      {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+      {t('revoke')}
+    </Button>
+  );
+};
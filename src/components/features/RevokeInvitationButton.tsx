@@ -0,0 +1,47 @@
+'use client';
+
+import { useTransition } from 'react';
+import { revokeInvitation } from '@/actions/users';
+import { Button } from '@/components/ui/button';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, X } from 'lucide-react';
+
+interface RevokeInvitationButtonProps {
+  invitationId: string;
+}
+
+/**
+ * RevokeInvitationButton Component
+ *
+ * Admin-only: invalidates the link of a pending invitation after confirmation.
+ */
+export const RevokeInvitationButton = ({ invitationId }: RevokeInvitationButtonProps) => {
+  const t = useTranslations('users.invitations');
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleRevoke = () => {
+    if (!confirm(t('confirmRevoke'))) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await revokeInvitation(invitationId);
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[RevokeInvitationButton]:', result.error);
+        alert(result.error || t('revokeError'));
+      }
+    });
+  };
+
+  return (
+    <Button onClick={handleRevoke} disabled={isPending} size="sm" variant="outline">
+      {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+      {t('revoke')}
+    </Button>
+  );
+};
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import {
+  changeUserRole,
+  setUserDeactivated,
+  updateUserProfile,
+  type ManagedUser,
+  type UserRole,
+} from '@/actions/users';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Save, UserCheck, UserX } from 'lucide-react';
+
+interface UserAccountRowProps {
+  user: ManagedUser;
+  isCurrentUser: boolean;
+}
+
+/**
+ * UserAccountRow Component
+ *
+ * One account in the user management table: name and affiliation are edited inline
+ * (saved with the button), the role and deactivation apply immediately after a confirmation.
+ * Admins cannot change the role or access of their own account.
+ */
+export const UserAccountRow = ({ user, isCurrentUser }: UserAccountRowProps) => {
+  const t = useTranslations('users');
+  const [isPending, startTransition] = useTransition();
+  const [fullName, setFullName] = useState(user.fullName ?? '');
+  const [academicAffiliation, setAcademicAffiliation] = useState(user.academicAffiliation ?? '');
+  const router = useRouter();
+
+  const isDirty = fullName !== (user.fullName ?? '') || academicAffiliation !== (user.academicAffiliation ?? '');
+
+  const run = (action: () => Promise<{ success: true } | { success: false; error: string }>) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        console.error('[UserAccountRow]:', result.error);
+        alert(result.error || t('error'));
+      }
+    });
+  };
+
+  const handleRoleChange = (role: UserRole) => {
+    if (!confirm(t('confirmRole', { name: user.fullName || user.email || user.id, role: t(`roles.${role}`) }))) {
+      return;
+    }
+    run(() => changeUserRole(user.id, role));
+  };
+
+  const handleDeactivation = () => {
+    const deactivate = !user.deactivatedAt;
+    if (deactivate && !confirm(t('confirmDeactivate', { name: user.fullName || user.email || user.id }))) {
+      return;
+    }
+    run(() => setUserDeactivated(user.id, deactivate));
+  };
+
+  return (
+    <TableRow className={user.deactivatedAt ? 'opacity-60' : undefined}>
+      <TableCell>
+        <Input
+          aria-label={t('fullName')}
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          disabled={isPending}
+          className="h-9 min-w-[180px]"
+        />
+        <p className="mt-1 text-xs text-muted-foreground">{user.email ?? '-'}</p>
+      </TableCell>
+      <TableCell>
+        <Input
+          aria-label={t('academicAffiliation')}
+          value={academicAffiliation}
+          onChange={(e) => setAcademicAffiliation(e.target.value)}
+          disabled={isPending}
+          className="h-9 min-w-[180px]"
+        />
+      </TableCell>
+      <TableCell>
+        <select
+          aria-label={t('role')}
+          value={user.role}
+          onChange={(e) => handleRoleChange(e.target.value as UserRole)}
+          disabled={isPending || isCurrentUser}
+          className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="public">{t('roles.public')}</option>
+          <option value="researcher">{t('roles.researcher')}</option>
+          <option value="admin">{t('roles.admin')}</option>
+        </select>
+      </TableCell>
+      <TableCell>
+        {user.deactivatedAt ? (
+          <Badge variant="destructive">{t('deactivated')}</Badge>
+        ) : (
+          <Badge variant="secondary">{t('active')}</Badge>
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isPending || !isDirty}
+            onClick={() =>
+              run(() => updateUserProfile(user.id, { fullName: fullName || null, academicAffiliation: academicAffiliation || null }))
+            }
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {t('save')}
+          </Button>
+          {!isCurrentUser && (
+            <Button
+              size="sm"
+              variant={user.deactivatedAt ? 'outline' : 'destructive'}
+              disabled={isPending}
+              onClick={handleDeactivation}
+            >
+              {user.deactivatedAt ? <UserCheck className="mr-2 h-4 w-4" /> : <UserX className="mr-2 h-4 w-4" />}
+              {user.deactivatedAt ? t('reactivate') : t('deactivate')}
+            </Button>
+          )}
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+};
@@ -1,5 +1,5 @@
 // src/db/schema.ts
-import { pgEnum, pgTable, pgSchema, uuid, varchar, text, timestamp, boolean, integer, index, customType, primaryKey, real } from 'drizzle-orm/pg-core';
+import { pgEnum, pgTable, pgSchema, uuid, varchar, text, timestamp, boolean, integer, date, index, customType, primaryKey, real, jsonb, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
 
@@ -244,6 +244,11 @@ export const profiles = pgTable('profiles', {
   role: userRoleEnum('role').default('public').notNull(),
   fullName: varchar('full_name', { length: 255 }),
   academicAffiliation: varchar('academic_affiliation', { length: 255 }),
+  // Public researcher page (/researchers/[id])
+  orcid: varchar('orcid', { length: 19 }), // ORCID iD as 0000-0000-0000-000X
+  bio: text('bio'),
+  // Set when an admin deactivates the account: treated as "No Access" (like a missing profile)
+  deactivatedAt: timestamp('deactivated_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -277,6 +282,9 @@ export const constructions = pgTable(
     createdBy: uuid('created_by').references(() => profiles.id),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    // Trash (soft delete): set when the record is moved to the trash, cleared on restore
+    deletedAt: timestamp('deleted_at', { withTimezone: true }),
+    deletedBy: uuid('deleted_by').references(() => profiles.id, { onDelete: 'set null' }),
   },
   (table) => {
     return {
@@ -483,6 +491,264 @@ export const bibliography = pgTable('bibliography', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// ============================================================================
+// STEP 5.9: Table `review_comments` (Review Workflow Feedback)
+// ============================================================================
+
+export const reviewComments = pgTable(
+  'review_comments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    constructionId: uuid('construction_id')
+      .notNull()
+      .references(() => constructions.id, { onDelete: 'cascade' }),
+    // Replies point at the comment they answer (threads)
+    parentId: uuid('parent_id').references((): AnyPgColumn => reviewComments.id, { onDelete: 'cascade' }),
+    authorId: uuid('author_id').references(() => profiles.id, { onDelete: 'set null' }),
+    // Optional field-level comment: mills_data property name (e.g. 'roofShape')
+    fieldName: varchar('field_name', { length: 100 }),
+    body: text('body').notNull(),
+    // True for the reason given by "Request changes" (record returned to draft)
+    isChangeRequest: boolean('is_change_request').default(false).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      constructionIdx: index('review_comments_construction_idx').on(table.constructionId),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.10: Table `construction_revisions` (Revision History / Audit Log)
+// ============================================================================
+
+export const constructionRevisions = pgTable(
+  'construction_revisions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // No foreign key: the history of a deleted construction must survive it
+    constructionId: uuid('construction_id').notNull(),
+    action: varchar('action', { length: 20 }).notNull(), // 'create' | 'update' | 'status' | 'delete' | 'restore' | 'purge' | 'merge'
+    authorId: uuid('author_id').references(() => profiles.id, { onDelete: 'set null' }),
+    // Full record state after the action (before it, for 'delete') - see src/lib/revisions.ts
+    snapshot: jsonb('snapshot').notNull(),
+    // Changed fields relative to the previous state: { 'millsData.roofShape': { from, to }, ... }
+    diff: jsonb('diff').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      constructionIdx: index('construction_revisions_construction_idx').on(table.constructionId, table.createdAt),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.11: Table `pending_edits` (Working copies of published constructions)
+// ============================================================================
+
+export const pendingEdits = pgTable('pending_edits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // One working copy per construction
+  constructionId: uuid('construction_id')
+    .notNull()
+    .unique()
+    .references(() => constructions.id, { onDelete: 'cascade' }),
+  authorId: uuid('author_id').references(() => profiles.id, { onDelete: 'set null' }),
+  // 'draft' = working copy, 'review' = waiting in the review queue
+  status: statusEnum('status').notNull().default('draft'),
+  // Proposed record state (same format as construction_revisions.snapshot)
+  snapshot: jsonb('snapshot').notNull(),
+  // When the working copy last entered the review queue (null while it is a draft)
+  submittedAt: timestamp('submitted_at', { withTimezone: true }),
+  // Live constructions.updated_at the working copy was taken from; approval is refused if the
+  // live record changed since (null for copies created before this column existed)
+  baseUpdatedAt: timestamp('base_updated_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// ============================================================================
+// STEP 5.12: Table `construction_slug_redirects` (Slugs of merged constructions)
+// ============================================================================
+
+export const constructionSlugRedirects = pgTable('construction_slug_redirects', {
+  // Slug of a construction merged into another one (old public URL)
+  slug: varchar('slug', { length: 255 }).primaryKey(),
+  // Construction that survived the merge; its current slug is the redirect target
+  constructionId: uuid('construction_id')
+    .notNull()
+    .references(() => constructions.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// ============================================================================
+// STEP 5.13: Table `review_assignments` (Reviewer, due date and progress of queued items)
+// ============================================================================
+
+export const reviewAssignments = pgTable(
+  'review_assignments',
+  {
+    // One assignment per construction (covers the record or its pending edit in the queue)
+    constructionId: uuid('construction_id')
+      .primaryKey()
+      .references(() => constructions.id, { onDelete: 'cascade' }),
+    reviewerId: uuid('reviewer_id').references(() => profiles.id, { onDelete: 'set null' }),
+    assignedBy: uuid('assigned_by').references(() => profiles.id, { onDelete: 'set null' }),
+    dueDate: date('due_date'),
+    reviewStatus: varchar('review_status', { length: 20 }), // 'in_progress' | 'changes_requested' (null = not started)
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      reviewerIdx: index('review_assignments_reviewer_idx').on(table.reviewerId),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.14: Table `profile_audit_log` (Admin changes to user accounts)
+// ============================================================================
+
+export const profileAuditLog = pgTable(
+  'profile_audit_log',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // No foreign key: the log of a removed account must survive it
+    profileId: uuid('profile_id').notNull(),
+    actorId: uuid('actor_id').references(() => profiles.id, { onDelete: 'set null' }),
+    action: varchar('action', { length: 20 }).notNull(), // 'role' | 'profile' | 'deactivate' | 'reactivate' | 'invite' | 'scope'
+    // Changed fields: { role: { from, to }, ... }
+    changes: jsonb('changes').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      profileIdx: index('profile_audit_log_profile_idx').on(table.profileId, table.createdAt),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.15: Table `user_invitations` (Researchers invited by email)
+// ============================================================================
+
+export const userInvitations = pgTable('user_invitations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  email: varchar('email', { length: 255 }).notNull(),
+  role: userRoleEnum('role').notNull().default('researcher'),
+  fullName: varchar('full_name', { length: 255 }),
+  academicAffiliation: varchar('academic_affiliation', { length: 255 }),
+  // SHA-256 of the token sent in the invitation link (the token itself is never stored)
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  invitedBy: uuid('invited_by').references(() => profiles.id, { onDelete: 'set null' }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// ============================================================================
+// STEP 5.16: Table `researcher_scopes` (Regions a researcher may work on)
+// ============================================================================
+
+export const researcherScopes = pgTable(
+  'researcher_scopes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    profileId: uuid('profile_id')
+      .notNull()
+      .references(() => profiles.id, { onDelete: 'cascade' }),
+    // Which constructions column the area is matched against
+    kind: varchar('kind', { length: 20 }).notNull(), // 'district' | 'municipality' | 'drainage_basin'
+    value: text('value').notNull(), // Area name as stored on constructions (matched case-insensitively)
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      profileIdx: index('researcher_scopes_profile_idx').on(table.profileId),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.17: Table `construction_contributors` (Credits and co-authorship)
+// ============================================================================
+
+export const constructionContributors = pgTable(
+  'construction_contributors',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    constructionId: uuid('construction_id')
+      .notNull()
+      .references(() => constructions.id, { onDelete: 'cascade' }),
+    // Account of the contributor; null for people without an account (credited by name)
+    profileId: uuid('profile_id').references(() => profiles.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }), // Credited name when there is no account
+    role: varchar('role', { length: 20 }).notNull(), // 'surveyor' | 'author' | 'photographer' | 'reviewer' | 'translator'
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      constructionIdx: index('construction_contributors_construction_idx').on(table.constructionId),
+      profileIdx: index('construction_contributors_profile_idx').on(table.profileId),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.18: Table `api_tokens` (Personal API tokens for scripted clients)
+// ============================================================================
+
+export const apiTokens = pgTable(
+  'api_tokens',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // Owner: requests made with the token act as this user, with their current role
+    profileId: uuid('profile_id')
+      .notNull()
+      .references(() => profiles.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    // SHA-256 of the token (the token itself is only shown once, when created)
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(), // First characters, to recognise the token
+    scopes: text('scopes').array().notNull(), // 'read_drafts' | 'write' | 'publish'
+    expiresAt: timestamp('expires_at', { withTimezone: true }), // null = never expires
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      profileIdx: index('api_tokens_profile_idx').on(table.profileId),
+    };
+  }
+);
+
+// ============================================================================
+// STEP 5.19: Table `api_token_usage` (Requests made with API tokens)
+// ============================================================================
+
+export const apiTokenUsage = pgTable(
+  'api_token_usage',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tokenId: uuid('token_id')
+      .notNull()
+      .references(() => apiTokens.id, { onDelete: 'cascade' }),
+    method: varchar('method', { length: 10 }).notNull(),
+    path: text('path').notNull(),
+    status: integer('status').notNull(), // HTTP status of the response
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      tokenIdx: index('api_token_usage_token_idx').on(table.tokenId, table.createdAt),
+    };
+  }
+);
+
 // ============================================================================
 // STEP 6: Define Relations
 // ============================================================================
@@ -547,6 +813,38 @@ export const waterLineTranslationsRelations = relations(
   })
 );
 
+// Review Workflow: Comment Relations
+export const reviewCommentsRelations = relations(reviewComments, ({ one }) => ({
+  construction: one(constructions, {
+    fields: [reviewComments.constructionId],
+    references: [constructions.id],
+  }),
+  author: one(profiles, {
+    fields: [reviewComments.authorId],
+    references: [profiles.id],
+  }),
+}));
+
+// Revision History: Revision Relations
+export const constructionRevisionsRelations = relations(constructionRevisions, ({ one }) => ({
+  author: one(profiles, {
+    fields: [constructionRevisions.authorId],
+    references: [profiles.id],
+  }),
+}));
+
+// Pending Edits: Working Copy Relations
+export const pendingEditsRelations = relations(pendingEdits, ({ one }) => ({
+  construction: one(constructions, {
+    fields: [pendingEdits.constructionId],
+    references: [constructions.id],
+  }),
+  author: one(profiles, {
+    fields: [pendingEdits.authorId],
+    references: [profiles.id],
+  }),
+}));
+
 // Phase 5.9.7: Poças Data Relations
 export const pocasDataRelations = relations(pocasData, ({ one }) => ({
   construction: one(constructions, {
@@ -598,6 +896,35 @@ export type NewPocasData = InferInsertModel<typeof pocasData>;
 export type BibliographyEntry = InferSelectModel<typeof bibliography>;
 export type NewBibliographyEntry = InferInsertModel<typeof bibliography>;
 
+export type ReviewComment = InferSelectModel<typeof reviewComments>;
+export type NewReviewComment = InferInsertModel<typeof reviewComments>;
+
+export type ConstructionRevision = InferSelectModel<typeof constructionRevisions>;
+export type NewConstructionRevision = InferInsertModel<typeof constructionRevisions>;
+
+export type PendingEdit = InferSelectModel<typeof pendingEdits>;
+export type NewPendingEdit = InferInsertModel<typeof pendingEdits>;
+
+export type ReviewAssignment = InferSelectModel<typeof reviewAssignments>;
+export type NewReviewAssignment = InferInsertModel<typeof reviewAssignments>;
+
+export type ProfileAuditLogEntry = InferSelectModel<typeof profileAuditLog>;
+export type NewProfileAuditLogEntry = InferInsertModel<typeof profileAuditLog>;
+
+export type UserInvitation = InferSelectModel<typeof userInvitations>;
+export type NewUserInvitation = InferInsertModel<typeof userInvitations>;
+
+export type ResearcherScope = InferSelectModel<typeof researcherScopes>;
+export type NewResearcherScope = InferInsertModel<typeof researcherScopes>;
+export type ConstructionContributor = InferSelectModel<typeof constructionContributors>;
+export type NewConstructionContributor = InferInsertModel<typeof constructionContributors>;
+
+export type ApiToken = InferSelectModel<typeof apiTokens>;
+export type NewApiToken = InferInsertModel<typeof apiTokens>;
+
+export type ApiTokenUsage = InferSelectModel<typeof apiTokenUsage>;
+export type NewApiTokenUsage = InferInsertModel<typeof apiTokenUsage>;
+
 export const schema = {
   constructions,
   millsData,
@@ -607,4 +934,7 @@ export const schema = {
   waterLineTranslations,
   pocasData,
   bibliography,
+  reviewComments,
+  constructionRevisions,
+  pendingEdits,
 };
\ No newline at end of file
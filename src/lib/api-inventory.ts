@@ -0,0 +1,213 @@
+import {
+  getConstructionByIdForEdit,
+  getItemTypeById,
+  getPocaByIdForEdit,
+  getWaterLineByIdForEdit,
+  submitForReview,
+  updateConstructionStatus,
+  updateMillConstruction,
+} from '@/actions/admin';
+import { z } from 'zod';
+import type { BulkActionReport, BulkItemResult } from '@/actions/bulk';
+import type { EditConflict } from '@/lib/edit-conflicts';
+import type { ApiTokenScope } from '@/lib/api-tokens';
+
+/**
+ * Authenticated Inventory API Utilities
+ *
+ * Logic behind the token-authenticated /api/v1/inventory endpoints (see
+ * src/lib/api-tokens.ts). Everything goes through the dashboard server actions, so a
+ * token has exactly the permissions of its owner in the editor (own and co-authored
+ * drafts, regional scopes, pending edits of published records, review readiness).
+ */
+
+/** Maximum number of mills updated by one batch request */
+export const MAX_API_BATCH_ITEMS = 100;
+
+/** Statuses that can be requested through the status endpoint */
+export const API_STATUS_CHANGES = ['draft', 'review', 'published'] as const;
+
+export type ApiStatusChange = (typeof API_STATUS_CHANGES)[number];
+
+/**
+ * Body of PATCH /api/v1/inventory/:id
+ */
+export const millUpdateRequestSchema = z.object({
+  changes: z.record(z.string(), z.unknown()),
+  expectedVersion: z.string().min(1, 'expectedVersion is required'), // Version returned by GET, for conflict detection
+});
+
+/**
+ * Body of POST /api/v1/inventory/batch
+ */
+export const millBatchRequestSchema = z.object({
+  items: z
+    .array(millUpdateRequestSchema.extend({ id: z.string().uuid('Invalid construction ID') }))
+    .min(1, 'At least one item is required')
+    .max(MAX_API_BATCH_ITEMS, `At most ${MAX_API_BATCH_ITEMS} items can be updated at once`),
+});
+
+/**
+ * Body of POST /api/v1/inventory/:id/status
+ */
+export const statusChangeRequestSchema = z.object({
+  status: z.enum(API_STATUS_CHANGES),
+});
+
+/** Editor fields that are not mill data (identity, workflow and coordinates as lat/lng) */
+const NON_EDITABLE_FIELDS = ['id', 'slug', 'version', 'status', 'createdBy', 'lat', 'lng'];
+
+type InventoryApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; conflict?: EditConflict };
+
+/**
+ * Fetches an inventory item with the same data as its editor
+ *
+ * @returns The item type and the editor data (mills: every ficha field, lat/lng)
+ */
+export async function getInventoryItemForApi(
+  id: string,
+  locale: string
+): Promise<InventoryApiResult<Record<string, unknown> & { type: 'MILL' | 'LEVADA' | 'POCA' }>> {
+  const typeResult = await getItemTypeById(id);
+  if (!typeResult.success) {
+    return typeResult;
+  }
+
+  const type = typeResult.data.type;
+  const result =
+    type === 'MILL'
+      ? await getConstructionByIdForEdit(id, locale)
+      : type === 'LEVADA'
+        ? await getWaterLineByIdForEdit(id, locale)
+        : await getPocaByIdForEdit(id, locale);
+
+  if (!result.success) {
+    return result;
+  }
+
+  return { success: true, data: { type, ...result.data } };
+}
+
+/**
+ * Applies a partial update to a mill
+ *
+ * The changes are merged onto the record as the editor would load it and saved with
+ * updateMillConstruction: omitted fields keep their value, null clears a field.
+ * Field names are those of the create / update schema (latitude / longitude).
+ * 'status' may only be set to 'review', to send an unpublished record to review in the same
+ * request; every other status change goes through changeStatusFromApi (scope checks).
+ *
+ * @param id - Construction UUID of a mill
+ * @param changes - Fields to change
+ * @param options - Locale of title / description and the version the client last read
+ *   (required: a stale version is rejected with the conflict instead of overwriting)
+ * @returns The saved mill's id and slug, or the error (with the conflict on stale versions)
+ */
+export async function updateMillFromApi(
+  id: string,
+  changes: Record<string, unknown>,
+  options: { locale: string; expectedVersion: string }
+): Promise<InventoryApiResult<{ id: string; slug: string }>> {
+  const typeResult = await getItemTypeById(id);
+  if (!typeResult.success) {
+    return typeResult;
+  }
+  if (typeResult.data.type !== 'MILL') {
+    return { success: false, error: 'Only mills can be updated through the API' };
+  }
+
+  const current = await getConstructionByIdForEdit(id, options.locale);
+  if (!current.success) {
+    return current;
+  }
+
+  const fields: Record<string, unknown> = {
+    latitude: current.data.lat,
+    longitude: current.data.lng,
+  };
+  for (const [key, value] of Object.entries(current.data)) {
+    if (!NON_EDITABLE_FIELDS.includes(key)) {
+      fields[key] = value;
+    }
+  }
+
+  const unknownFields = Object.keys(changes).filter((key) => !(key in fields) && key !== 'status');
+  if (unknownFields.length > 0) {
+    return { success: false, error: `Validation failed: Unknown fields: ${unknownFields.join(', ')}` };
+  }
+
+  // Publishing and unpublishing need the 'publish' scope: only the status endpoint checks it
+  if ('status' in changes && (changes.status !== 'review' || current.data.status === 'published')) {
+    return {
+      success: false,
+      error: "Validation failed: status can only be set to 'review' on unpublished records. Use the status endpoint",
+    };
+  }
+
+  // The update schema expects omitted (undefined) rather than null optional fields
+  const merged: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries({ ...fields, ...changes })) {
+    if (value !== null) {
+      merged[key] = value;
+    }
+  }
+
+  return updateMillConstruction({
+    ...merged,
+    id,
+    locale: options.locale,
+    expectedVersion: options.expectedVersion,
+  } as Parameters<typeof updateMillConstruction>[0]);
+}
+
+/**
+ * Applies partial updates to several mills, one at a time
+ *
+ * Like the dashboard bulk actions, items are independent: the report lists which
+ * succeeded and why the others failed (nothing is rolled back).
+ */
+export async function updateMillsFromApi(
+  items: z.infer<typeof millBatchRequestSchema>['items'],
+  locale: string
+): Promise<BulkActionReport> {
+  const results: BulkItemResult[] = [];
+  for (const item of items) {
+    try {
+      const result = await updateMillFromApi(item.id, item.changes, {
+        locale,
+        expectedVersion: item.expectedVersion,
+      });
+      results.push(result.success ? { id: item.id, success: true } : { id: item.id, success: false, error: result.error });
+    } catch (error) {
+      console.error('[updateMillsFromApi]:', item.id, error);
+      results.push({ id: item.id, success: false, error: 'An unexpected error occurred' });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
+/**
+ * Scope a token needs to move a record to the given status
+ *
+ * Sending to review is part of editing ('write'); publishing and unpublishing need 'publish'.
+ */
+export function getStatusChangeScope(status: ApiStatusChange): ApiTokenScope {
+  return status === 'review' ? 'write' : 'publish';
+}
+
+/**
+ * Moves an inventory item to another workflow status
+ *
+ * - 'review': submitForReview (authors and admins, review readiness checks)
+ * - 'published' / 'draft': updateConstructionStatus (admin-only)
+ */
+export async function changeStatusFromApi(
+  id: string,
+  status: ApiStatusChange
+): Promise<InventoryApiResult<{ id: string; status: string }>> {
+  return status === 'review' ? submitForReview(id) : updateConstructionStatus(id, status);
+}
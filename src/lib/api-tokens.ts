@@ -0,0 +1,172 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { apiTokens, apiTokenUsage, profiles } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { jsonError } from '@/lib/api';
+
+/**
+ * Personal API Token Utilities
+ *
+ * Researchers and admins create personal tokens in the dashboard (/dashboard/api-tokens)
+ * for scripted clients such as Python notebooks. A token is sent as
+ * "Authorization: Bearer mttc_..." to the authenticated /api/v1 endpoints and:
+ * - Acts as its owner: getSessionUserId returns the owner while the request is handled,
+ *   so every server action applies the owner's current role, regions and authorship
+ * - Is limited by its scopes: 'read_drafts' (inventory and drafts), 'write' (edit mills,
+ *   send to review) and 'publish' (publish / unpublish, admin-only)
+ * - Stops working when revoked, expired or when the owner is deactivated
+ * Every authenticated request is logged in api_token_usage.
+ *
+ * Server-only: imports the database client.
+ */
+
+export const API_TOKEN_SCOPES = ['read_drafts', 'write', 'publish'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** Recognisable prefix of every token (helps secret scanners and users) */
+export const API_TOKEN_PREFIX = 'mttc_';
+
+/**
+ * Token owner and scopes of the request being handled
+ */
+export interface ApiTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: ApiTokenScope[];
+}
+
+const apiTokenContext = new AsyncLocalStorage<ApiTokenIdentity>();
+
+/**
+ * SHA-256 of a token, as stored in api_tokens.token_hash
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates a new token
+ *
+ * @returns The token (shown to the user once), its hash and its display prefix
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, 12) };
+}
+
+/**
+ * Returns the token identity of the request being handled by withApiToken, if any
+ */
+export function getApiTokenIdentity(): ApiTokenIdentity | null {
+  return apiTokenContext.getStore() ?? null;
+}
+
+/**
+ * Resolves the bearer token of a request
+ *
+ * Revoked and expired tokens, and tokens of deactivated or non-researcher accounts,
+ * are rejected. The 'publish' scope is only honoured while the owner is an admin.
+ *
+ * @param authorization - Value of the Authorization header
+ * @returns The token identity, or null if the token is missing or not valid
+ */
+export async function authenticateApiToken(authorization: string | null): Promise<ApiTokenIdentity | null> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token?.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({
+      id: apiTokens.id,
+      profileId: apiTokens.profileId,
+      scopes: apiTokens.scopes,
+      expiresAt: apiTokens.expiresAt,
+      revokedAt: apiTokens.revokedAt,
+      role: profiles.role,
+      deactivatedAt: profiles.deactivatedAt,
+    })
+    .from(apiTokens)
+    .innerJoin(profiles, eq(profiles.id, apiTokens.profileId))
+    .where(eq(apiTokens.tokenHash, hashApiToken(token)))
+    .limit(1);
+
+  const now = new Date();
+  if (
+    !row ||
+    row.revokedAt ||
+    (row.expiresAt && row.expiresAt <= now) ||
+    row.deactivatedAt ||
+    row.role === 'public'
+  ) {
+    return null;
+  }
+
+  await db.update(apiTokens).set({ lastUsedAt: now }).where(eq(apiTokens.id, row.id));
+
+  const scopes = (row.scopes as ApiTokenScope[]).filter(
+    (scope) => API_TOKEN_SCOPES.includes(scope) && (scope !== 'publish' || row.role === 'admin')
+  );
+
+  return { tokenId: row.id, userId: row.profileId, scopes };
+}
+
+/**
+ * Records a request made with a token (failures are logged, never thrown)
+ */
+export async function logApiTokenUsage(
+  tokenId: string,
+  entry: { method: string; path: string; status: number }
+): Promise<void> {
+  try {
+    await db.insert(apiTokenUsage).values({ tokenId, ...entry });
+  } catch (error) {
+    console.error('[logApiTokenUsage]:', error);
+  }
+}
+
+/**
+ * Runs a route handler as the owner of the request's API token
+ *
+ * - 401 when the token is missing or not valid (session cookies are not accepted)
+ * - 403 when the token lacks the required scope
+ * - Otherwise the handler runs with getSessionUserId returning the token owner
+ * The response status is recorded in the token's usage log.
+ *
+ * @param request - Incoming request
+ * @param scope - Scope the endpoint requires (null = any valid token)
+ * @param handler - Route logic
+ */
+export async function withApiToken(
+  request: NextRequest,
+  scope: ApiTokenScope | null,
+  handler: (identity: ApiTokenIdentity) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const identity = await authenticateApiToken(request.headers.get('authorization'));
+  if (!identity) {
+    return jsonError('Invalid or missing API token', 401);
+  }
+
+  let response: NextResponse;
+  if (scope && !identity.scopes.includes(scope)) {
+    response = jsonError(`Forbidden: this token does not have the '${scope}' scope`, 403);
+  } else {
+    try {
+      response = await apiTokenContext.run(identity, () => handler(identity));
+    } catch (error) {
+      console.error(`[${request.method} ${request.nextUrl.pathname}]:`, error);
+      response = jsonError('An error occurred while handling the request', 500);
+    }
+  }
+
+  await logApiTokenUsage(identity.tokenId, {
+    method: request.method,
+    path: request.nextUrl.pathname,
+    status: response.status,
+  });
+
+  return response;
+}
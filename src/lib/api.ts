@@ -0,0 +1,195 @@
+import { NextResponse } from 'next/server';
+import type { BoundingBox } from '@/actions/public';
+import { routing } from '@/i18n/routing';
+import type { PaginatedResponse } from '@/types/api';
+import type { z } from 'zod';
+
+/**
+ * Public API Utilities
+ *
+ * Shared helpers for the versioned JSON route handlers under /api/v1:
+ * - Common query parameter parsing (locale, limit, cursor, bbox) and JSON body validation
+ * - Opaque cursor pagination
+ * - Standardized JSON error responses (and their status for failed server actions)
+ */
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+/**
+ * Common list parameters accepted by every /api/v1 collection endpoint
+ */
+export interface ListParams {
+  locale: string;
+  limit: number;
+  cursor: string | null;
+  bbox: BoundingBox | null;
+}
+
+/**
+ * Returns a JSON error response in the same shape as failed server actions
+ */
+export function jsonError(error: string, status: number) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+/**
+ * HTTP status for the error message of a failed server action
+ *
+ * - 403: role / permission errors ('Unauthorized: ...', 'User not authenticated')
+ * - 404: missing records ('... not found')
+ * - 500: unexpected errors ('An error occurred while ...')
+ * - 400: everything else (validation and workflow rules)
+ */
+export function getActionErrorStatus(error: string): number {
+  if (error.startsWith('Unauthorized') || error === 'User not authenticated') {
+    return 403;
+  }
+  if (error.toLowerCase().endsWith('not found')) {
+    return 404;
+  }
+  if (error.startsWith('An error occurred')) {
+    return 500;
+  }
+  return 400;
+}
+
+/**
+ * Parses a bbox query parameter ("minLng,minLat,maxLng,maxLat")
+ *
+ * @returns Parsed bounding box, or null if the value is malformed or out of range
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => isNaN(part))) {
+    return null;
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = parts as BoundingBox;
+  if (
+    minLng < -180 || maxLng > 180 || minLat < -90 || maxLat > 90 ||
+    minLng > maxLng || minLat > maxLat
+  ) {
+    return null;
+  }
+
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+/**
+ * Parses the common list parameters from a request URL
+ *
+ * - locale: 'pt' | 'en' (defaults to the routing default locale)
+ * - limit: 1..MAX_PAGE_LIMIT (defaults to DEFAULT_PAGE_LIMIT)
+ * - cursor: opaque cursor returned as pagination.nextCursor by the previous page
+ * - bbox: minLng,minLat,maxLng,maxLat in WGS 84
+ *
+ * @returns Standardized result with parsed params or a validation error
+ */
+export function parseListParams(
+  searchParams: URLSearchParams
+): { success: true; data: ListParams } | { success: false; error: string } {
+  const locale = searchParams.get('locale') || routing.defaultLocale;
+  if (!routing.locales.includes(locale as 'en' | 'pt')) {
+    return { success: false, error: `Invalid locale. Must be one of: ${routing.locales.join(', ')}` };
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    return { success: false, error: `Invalid limit. Must be an integer between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+
+  const bboxParam = searchParams.get('bbox');
+  const bbox = bboxParam ? parseBoundingBox(bboxParam) : null;
+  if (bboxParam && !bbox) {
+    return { success: false, error: 'Invalid bbox. Expected minLng,minLat,maxLng,maxLat' };
+  }
+
+  return {
+    success: true,
+    data: {
+      locale,
+      limit,
+      cursor: searchParams.get('cursor'),
+      bbox,
+    },
+  };
+}
+
+/**
+ * Parses and validates a JSON request body
+ *
+ * @returns Standardized result with the parsed body or a validation error
+ */
+export async function parseJsonBody<T>(
+  request: Request,
+  schema: z.ZodType<T>
+): Promise<{ success: true; data: T } | { success: false; error: string }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { success: false, error: 'Invalid JSON body' };
+  }
+
+  const validationResult = schema.safeParse(body);
+  if (!validationResult.success) {
+    const errors = validationResult.error.issues.map((e) => e.message).join(', ');
+    return { success: false, error: `Validation failed: ${errors}` };
+  }
+
+  return { success: true, data: validationResult.data };
+}
+
+/**
+ * Encodes an item id into an opaque, URL-safe cursor
+ */
+function encodeCursor(id: string): string {
+  return Buffer.from(id, 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor
+ */
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, 'base64url').toString('utf8');
+}
+
+/**
+ * Applies keyset (cursor) pagination to an already-filtered result set
+ *
+ * Items are ordered by id so pages stay stable while records are added or edited.
+ * The cursor points at the last id of the previous page; the next page starts after it,
+ * so a record deleted between requests never shifts the following pages.
+ *
+ * Filtering (published status, MillFilters, bbox) happens in the database through the
+ * public server actions; the inventory is small enough to page in memory afterwards.
+ *
+ * @param items - Filtered items with a string id
+ * @param cursor - Cursor from the previous page (or null for the first page)
+ * @param limit - Page size
+ * @returns Page of items plus the cursor for the next page (null on the last page)
+ */
+export function paginate<T extends { id: string }>(
+  items: T[],
+  cursor: string | null,
+  limit: number
+): PaginatedResponse<T> {
+  const sorted = [...items].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const afterId = cursor ? decodeCursor(cursor) : null;
+  const remaining = afterId ? sorted.filter((item) => item.id > afterId) : sorted;
+  const page = remaining.slice(0, limit);
+  const hasMore = remaining.length > limit;
+
+  return {
+    success: true,
+    data: page,
+    pagination: {
+      limit,
+      count: page.length,
+      total: items.length,
+      nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]!.id) : null,
+    },
+  };
+}
@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase';
 import { db } from '@/lib/db';
 import { profiles } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { getApiTokenIdentity } from '@/lib/api-tokens';
 
 /**
  * Supabase Auth Helper Functions
@@ -44,10 +45,19 @@ export async function getCurrentUser() {
 
 /**
  * Gets the current user's UUID from Supabase session
+ *
+ * Requests to the token-authenticated API (see src/lib/api-tokens.ts) act as the
+ * token's owner instead; the session cookie is not consulted.
+ *
  * @returns User UUID if authenticated, null otherwise
  */
 export async function getSessionUserId(): Promise<string | null> {
   try {
+    const apiToken = getApiTokenIdentity();
+    if (apiToken) {
+      return apiToken.userId;
+    }
+
     const user = await getCurrentUser();
     return user?.id ?? null;
   } catch (error) {
@@ -60,7 +70,8 @@ export async function getSessionUserId(): Promise<string | null> {
  * Gets the current user's role from public.profiles
  * 
  * Security: If a user is authenticated in Supabase but missing a profiles entry,
- * they are treated as having "No Access" (returns 'public').
+ * or their account was deactivated by an admin, they are treated as having
+ * "No Access" (returns 'public').
  * This is a closed system - only users with pre-provisioned profiles can access.
  * 
  * @returns User role ('admin' | 'researcher' | 'public'). 
@@ -77,7 +88,7 @@ export async function getCurrentUserRole(): Promise<'admin' | 'researcher' | 'pu
     console.log('[getCurrentUserRole]: Querying profile for user ID:', userId);
 
     const profileResult = await db
-      .select({ role: profiles.role })
+      .select({ role: profiles.role, deactivatedAt: profiles.deactivatedAt })
       .from(profiles)
       .where(eq(profiles.id, userId))
       .limit(1);
@@ -90,6 +101,12 @@ export async function getCurrentUserRole(): Promise<'admin' | 'researcher' | 'pu
       return 'public';
     }
 
+    if (profile.deactivatedAt) {
+      // Deactivated account - treat as "No Access"
+      console.warn(`[getCurrentUserRole]: User ${userId} is deactivated - returning public (No Access)`);
+      return 'public';
+    }
+
     console.log('[getCurrentUserRole]: Found role:', profile.role);
     return profile.role;
   } catch (error) {
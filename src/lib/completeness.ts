@@ -0,0 +1,136 @@
+import type { millsData } from '@/db/schema';
+
+/**
+ * Mill Completeness Rules
+ *
+ * Scores how much of the Ficha (mills_data) a mill record has filled in, per section, and
+ * lists the fields required before it can go to review. Rules depend on the typology:
+ * - hydraulic mills (azenha, rodizio, mare) are scored on captation and conduction; rodízio
+ *   fields only apply to rodizio and mare (tide mills turn rodízios), wheel fields of the
+ *   azenha only to azenha
+ * - wind mills (torre_fixa, giratorio, velas, armacao) are scored on the motive apparatus
+ * - epigraphy details only apply when an epigraphy is present
+ *
+ * Client-safe: pure functions over the mills_data fields (also the field names of the
+ * create / update mill forms).
+ */
+
+type MillFields = typeof millsData.$inferSelect;
+type Typology = MillFields['typology'];
+
+export type CompletenessSection = 'architecture' | 'motiveSystems' | 'grinding' | 'epigraphy' | 'conservation';
+
+/**
+ * Mill data to score; fields may be missing (e.g. form input with empty fields left out)
+ */
+export type CompletenessInput = Partial<MillFields> & { typology: Typology };
+
+interface CompletenessRule {
+  field: keyof MillFields;
+  section: CompletenessSection;
+  mandatory?: boolean; // Required to submit the record for review
+  appliesTo?: (mill: CompletenessInput) => boolean; // Always applies when omitted
+}
+
+const HYDRAULIC_TYPOLOGIES: Typology[] = ['azenha', 'rodizio', 'mare'];
+const RODIZIO_TYPOLOGIES: Typology[] = ['rodizio', 'mare'];
+const WIND_TYPOLOGIES: Typology[] = ['torre_fixa', 'giratorio', 'velas', 'armacao'];
+
+const isHydraulic = (mill: CompletenessInput) => HYDRAULIC_TYPOLOGIES.includes(mill.typology);
+const isRodizio = (mill: CompletenessInput) => RODIZIO_TYPOLOGIES.includes(mill.typology);
+const isAzenha = (mill: CompletenessInput) => mill.typology === 'azenha';
+const isWind = (mill: CompletenessInput) => WIND_TYPOLOGIES.includes(mill.typology);
+const hasEpigraphy = (mill: CompletenessInput) => mill.epigraphyPresence === true;
+
+const RULES: CompletenessRule[] = [
+  // Architecture (Section III)
+  { field: 'planShape', section: 'architecture', mandatory: true },
+  { field: 'volumetry', section: 'architecture' },
+  { field: 'constructionTechnique', section: 'architecture', mandatory: true },
+  { field: 'exteriorFinish', section: 'architecture' },
+  { field: 'roofShape', section: 'architecture' },
+  { field: 'roofMaterial', section: 'architecture' },
+
+  // Motive systems (Section IV)
+  { field: 'captationType', section: 'motiveSystems', mandatory: true, appliesTo: isHydraulic },
+  { field: 'conductionType', section: 'motiveSystems', appliesTo: isHydraulic },
+  { field: 'conductionState', section: 'motiveSystems', appliesTo: isHydraulic },
+  { field: 'admissionRodizio', section: 'motiveSystems', appliesTo: isRodizio },
+  { field: 'wheelTypeRodizio', section: 'motiveSystems', mandatory: true, appliesTo: isRodizio },
+  { field: 'rodizioQty', section: 'motiveSystems', appliesTo: isRodizio },
+  { field: 'admissionAzenha', section: 'motiveSystems', appliesTo: isAzenha },
+  { field: 'wheelTypeAzenha', section: 'motiveSystems', mandatory: true, appliesTo: isAzenha },
+  { field: 'azenhaQty', section: 'motiveSystems', appliesTo: isAzenha },
+  { field: 'motiveApparatus', section: 'motiveSystems', mandatory: true, appliesTo: isWind },
+
+  // Grinding mechanism
+  { field: 'millstoneQuantity', section: 'grinding', mandatory: true },
+  { field: 'millstoneDiameter', section: 'grinding' },
+  { field: 'millstoneState', section: 'grinding' },
+
+  // Epigraphy (Section V)
+  { field: 'epigraphyLocation', section: 'epigraphy', mandatory: true, appliesTo: hasEpigraphy },
+  { field: 'epigraphyType', section: 'epigraphy', mandatory: true, appliesTo: hasEpigraphy },
+  { field: 'epigraphyDescription', section: 'epigraphy', appliesTo: hasEpigraphy },
+
+  // Conservation (Section VI)
+  { field: 'ratingStructure', section: 'conservation' },
+  { field: 'ratingRoof', section: 'conservation' },
+  { field: 'ratingHydraulic', section: 'conservation', appliesTo: isHydraulic },
+  { field: 'ratingMechanism', section: 'conservation' },
+  { field: 'ratingOverall', section: 'conservation', mandatory: true },
+];
+
+/**
+ * Completeness of one mill record
+ */
+export interface CompletenessReport {
+  score: number; // Filled applicable fields, 0-100
+  sections: Array<{ section: CompletenessSection; filled: number; total: number }>; // Sections with applicable fields
+  missingMandatory: Array<keyof MillFields>; // Empty fields required for review
+}
+
+/**
+ * Returns true when a field holds a value (0 counts, blank text does not)
+ */
+function isFilled(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  return value !== null && value !== undefined;
+}
+
+/**
+ * Scores a mill record against the rules for its typology
+ */
+export function computeCompleteness(mill: CompletenessInput): CompletenessReport {
+  const sections = new Map<CompletenessSection, { filled: number; total: number }>();
+  const missingMandatory: Array<keyof MillFields> = [];
+  let filled = 0;
+  let total = 0;
+
+  for (const rule of RULES) {
+    if (rule.appliesTo && !rule.appliesTo(mill)) {
+      continue;
+    }
+
+    const section = sections.get(rule.section) ?? { filled: 0, total: 0 };
+    const fieldFilled = isFilled(mill[rule.field]);
+
+    section.total += 1;
+    total += 1;
+    if (fieldFilled) {
+      section.filled += 1;
+      filled += 1;
+    } else if (rule.mandatory) {
+      missingMandatory.push(rule.field);
+    }
+    sections.set(rule.section, section);
+  }
+
+  return {
+    score: total > 0 ? Math.round((filled / total) * 100) : 100,
+    sections: Array.from(sections, ([section, counts]) => ({ section, ...counts })),
+    missingMandatory,
+  };
+}
@@ -0,0 +1,125 @@
+import { db } from '@/lib/db';
+import { constructionContributors, constructions } from '@/db/schema';
+import { and, eq, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * Contributor Utilities
+ *
+ * A construction has one owner (constructions.createdBy) and any number of credited
+ * contributors (construction_contributors), each with a role. Contributors with the
+ * 'author' role are co-authors: they have the same edit rights as the owner (edit, submit
+ * for review, delete drafts, restore). Only the owner and admins manage the contributors
+ * and can transfer ownership.
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+export const CONTRIBUTOR_ROLES = ['surveyor', 'author', 'photographer', 'reviewer', 'translator'] as const;
+
+export type ContributorRole = (typeof CONTRIBUTOR_ROLES)[number];
+
+/**
+ * SQL condition: the user is a co-author of the construction referenced by the column
+ *
+ * @param constructionIdColumn - Column holding a construction ID (e.g. constructions.id)
+ */
+export function getCoAuthorCondition(constructionIdColumn: AnyPgColumn, userId: string): SQL {
+  return sql`exists (select 1 from ${constructionContributors} where ${constructionContributors.constructionId} = ${constructionIdColumn} and ${constructionContributors.profileId} = ${userId} and ${constructionContributors.role} = 'author')`;
+}
+
+/**
+ * SQL condition on the constructions table: the user owns or co-authors the construction
+ */
+export function getAuthorshipCondition(userId: string): SQL {
+  return or(eq(constructions.createdBy, userId), getCoAuthorCondition(constructions.id, userId))!;
+}
+
+/**
+ * Returns true when the user owns or co-authors the construction
+ */
+export async function isConstructionAuthor(
+  executor: DbExecutor,
+  construction: { id: string; createdBy: string | null },
+  userId: string
+): Promise<boolean> {
+  if (construction.createdBy === userId) {
+    return true;
+  }
+
+  const [coAuthor] = await executor
+    .select({ id: constructionContributors.id })
+    .from(constructionContributors)
+    .where(
+      and(
+        eq(constructionContributors.constructionId, construction.id),
+        eq(constructionContributors.profileId, userId),
+        eq(constructionContributors.role, 'author')
+      )
+    )
+    .limit(1);
+
+  return Boolean(coAuthor);
+}
+
+/**
+ * Credits the contributors of a merged construction on the survivor
+ *
+ * The merged record's owner becomes a co-author of the survivor (unless they own it).
+ * Credits the survivor already has (same person and role) are not duplicated.
+ */
+export async function mergeContributors(
+  executor: DbExecutor,
+  input: { survivorId: string; loserId: string }
+): Promise<void> {
+  const [survivor] = await executor
+    .select({ createdBy: constructions.createdBy })
+    .from(constructions)
+    .where(eq(constructions.id, input.survivorId))
+    .limit(1);
+  const [loser] = await executor
+    .select({ createdBy: constructions.createdBy })
+    .from(constructions)
+    .where(eq(constructions.id, input.loserId))
+    .limit(1);
+
+  const existing = await executor
+    .select()
+    .from(constructionContributors)
+    .where(eq(constructionContributors.constructionId, input.survivorId));
+  const incoming = await executor
+    .select()
+    .from(constructionContributors)
+    .where(eq(constructionContributors.constructionId, input.loserId));
+
+  const candidates: Array<{ profileId: string | null; name: string | null; role: string }> = incoming.map((row) => ({
+    profileId: row.profileId,
+    name: row.name,
+    role: row.role,
+  }));
+  if (loser?.createdBy && loser.createdBy !== survivor?.createdBy) {
+    candidates.push({ profileId: loser.createdBy, name: null, role: 'author' });
+  }
+
+  const creditKey = (row: { profileId: string | null; name: string | null; role: string }) =>
+    `${row.profileId ?? `name:${row.name?.trim().toLowerCase()}`}|${row.role}`;
+  const seen = new Set(existing.map(creditKey));
+
+  const rows = candidates.filter((row) => {
+    const key = creditKey(row);
+    if (seen.has(key) || (row.profileId && row.profileId === survivor?.createdBy && row.role === 'author')) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  if (rows.length > 0) {
+    await executor
+      .insert(constructionContributors)
+      .values(rows.map((row) => ({ ...row, constructionId: input.survivorId })));
+  }
+}
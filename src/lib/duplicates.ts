@@ -0,0 +1,169 @@
+import { db } from '@/lib/db';
+import { constructions, constructionTranslations } from '@/db/schema';
+import { and, asc, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { getAuthorshipCondition } from '@/lib/contributors';
+
+/**
+ * Duplicate Mill Detection
+ *
+ * The same mill is often surveyed more than once (different teams, paper inventory entries
+ * digitised twice). Before a new mill is created, existing mills are matched on:
+ * - distance: within DUPLICATE_MILL_RADIUS_METERS of the new location (PostGIS ST_DWithin)
+ * - legacyId: same paper inventory code
+ * - title: trigram similarity (pg_trgm) with any translation of an existing title
+ *
+ * Drafts and records in review are matched too (someone may already be documenting the mill);
+ * trashed records are not. Only admins see the details of other researchers' unpublished
+ * records; everyone else is told that such a record exists, without a link.
+ *
+ * Server-only: imports the database client.
+ * Requires the pg_trgm extension (migrations/add_duplicate_detection.sql).
+ */
+
+/**
+ * Search radius used when DUPLICATE_MILL_RADIUS_METERS is not set
+ */
+const DEFAULT_RADIUS_METERS = 50;
+
+/**
+ * Minimum pg_trgm similarity (0-1) for two titles to count as similar (threshold of %)
+ */
+const TITLE_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Maximum number of candidates returned
+ */
+const MAX_CANDIDATES = 10;
+
+export type DuplicateMatchReason = 'distance' | 'legacyId' | 'title';
+
+/**
+ * Existing mill that may be the one being created
+ */
+export interface DuplicateCandidate {
+  id: string;
+  slug: string;
+  title: string | null; // Title in the requested locale
+  status: 'draft' | 'review' | 'published';
+  legacyId: string | null;
+  distanceMeters: number;
+  reasons: DuplicateMatchReason[];
+}
+
+/**
+ * Returns the configured search radius in meters
+ */
+export function getDuplicateRadiusMeters(): number {
+  const configured = Number(process.env.DUPLICATE_MILL_RADIUS_METERS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RADIUS_METERS;
+}
+
+/**
+ * Result of a duplicate check
+ */
+export interface DuplicateMatches {
+  candidates: DuplicateCandidate[];
+  hiddenCount: number; // Other researchers' unpublished matches, only reported as a count
+}
+
+/**
+ * Finds existing mills that may be duplicates of a new one
+ *
+ * Admins see every candidate. Other users see published mills and the ones they own or
+ * co-author; other researchers' drafts and records in review are only counted.
+ *
+ * @param input.viewer - User running the check
+ * @returns Candidates, strongest matches (most reasons) first, then nearest first
+ */
+export async function findMillDuplicateCandidates(input: {
+  latitude: number;
+  longitude: number;
+  legacyId?: string;
+  title: string;
+  locale: string;
+  viewer: { userId: string; isAdmin: boolean };
+}): Promise<DuplicateMatches> {
+  const radiusMeters = getDuplicateRadiusMeters();
+  const legacyId = input.legacyId?.trim() || null;
+  const point = sql`ST_SetSRID(ST_MakePoint(${input.longitude}, ${input.latitude}), 4326)::geography`;
+
+  // Any translation counts, so a title entered in pt matches the en one too. The % operator
+  // (unlike similarity()) can use the GIN trigram index on construction_translations.title
+  const titleMatch = inArray(
+    constructions.id,
+    db
+      .select({ constructionId: constructionTranslations.constructionId })
+      .from(constructionTranslations)
+      .where(sql`${constructionTranslations.title} % ${input.title}`)
+  );
+
+  const visible = input.viewer.isAdmin
+    ? sql<boolean>`true`
+    : sql<boolean>`(${constructions.status} = 'published' or ${getAuthorshipCondition(input.viewer.userId)})`;
+
+  const matches = [sql`ST_DWithin(${constructions.geom}, ${point}, ${radiusMeters})`, titleMatch];
+  if (legacyId) {
+    matches.push(eq(constructions.legacyId, legacyId));
+  }
+
+  const rows = await db.transaction(async (tx) => {
+    // Threshold used by %, for this transaction only
+    await tx.execute(sql`select set_config('pg_trgm.similarity_threshold', ${String(TITLE_SIMILARITY_THRESHOLD)}, true)`);
+
+    return tx
+      .select({
+        id: constructions.id,
+        slug: constructions.slug,
+        title: constructionTranslations.title,
+        status: constructions.status,
+        legacyId: constructions.legacyId,
+        distanceMeters: sql<number>`ST_Distance(${constructions.geom}, ${point})`.mapWith(Number),
+        titleMatch: sql<boolean>`${titleMatch}`.mapWith(Boolean),
+        visible: visible.mapWith(Boolean),
+      })
+      .from(constructions)
+      .leftJoin(
+        constructionTranslations,
+        and(
+          eq(constructionTranslations.constructionId, constructions.id),
+          eq(constructionTranslations.langCode, input.locale)
+        )
+      )
+      .where(
+        and(
+          eq(constructions.typeCategory, 'MILL'),
+          isNull(constructions.deletedAt),
+          or(...matches)
+        )
+      )
+      // Same inventory code first so it is never cut off by the limit, then nearest first
+      .orderBy(
+        desc(sql`coalesce(${constructions.legacyId} = ${legacyId}, false)`),
+        asc(sql`ST_Distance(${constructions.geom}, ${point})`)
+      )
+      .limit(MAX_CANDIDATES);
+  });
+
+  const candidates = rows.filter((row) => row.visible).map((row): DuplicateCandidate => {
+    const reasons: DuplicateMatchReason[] = [];
+    if (row.distanceMeters <= radiusMeters) reasons.push('distance');
+    if (legacyId && row.legacyId === legacyId) reasons.push('legacyId');
+    if (row.titleMatch) reasons.push('title');
+
+    return {
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      status: row.status,
+      legacyId: row.legacyId,
+      distanceMeters: Math.round(row.distanceMeters),
+      reasons,
+    };
+  });
+
+  return {
+    // Stable sort keeps the distance order among candidates with the same number of reasons
+    candidates: candidates.sort((a, b) => b.reasons.length - a.reasons.length),
+    hiddenCount: rows.length - candidates.length,
+  };
+}
@@ -0,0 +1,141 @@
+import { db } from '@/lib/db';
+import { constructions, constructionRevisions, pendingEdits } from '@/db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import {
+  diffSnapshots,
+  parseStoredSnapshot,
+  takeConstructionSnapshot,
+  type RevisionDiff,
+} from '@/lib/revisions';
+
+/**
+ * Edit Conflict Detection (optimistic concurrency)
+ *
+ * Editors load a record together with its version: the updatedAt of the construction, or of
+ * its working copy when the record has a pending edit (admins, who edit the live rows
+ * directly, always get the construction's). Updates send the version back and are
+ * rejected when someone else saved the record in the meantime, instead of silently
+ * overwriting their changes. The version is required and is checked inside the save
+ * transaction with the rows locked (assertEditVersion), so concurrent saves cannot both pass.
+ *
+ * The fields changed on the server are found by looking up the revision whose snapshot has the
+ * loaded version (every save records one) and diffing it against the current state. Working
+ * copies keep no history of their own, so a conflict on one may come without a field list.
+ *
+ * Server-only: imports the database client.
+ */
+
+/**
+ * A rejected save: the record changed since the editor loaded it
+ */
+export interface EditConflict {
+  version: string; // Current version on the server; sending it back overwrites the record
+  changes: RevisionDiff; // from = value when the editor loaded the record, to = current value
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+/**
+ * Thrown inside a save transaction when the record changed since the editor loaded it
+ *
+ * Rolls the transaction back; the update actions turn it into their conflict response.
+ */
+export class EditConflictError extends Error {
+  constructor(public conflict: EditConflict) {
+    super('This record was changed by someone else while you were editing it');
+  }
+}
+
+/**
+ * Returns the current edit version of a construction (null if it does not exist)
+ *
+ * @param options.lock - Lock the construction and working copy rows (FOR UPDATE) until
+ *   the transaction ends, so no other save can change the version in between
+ * @param options.live - Version of the live record, ignoring any working copy
+ */
+export async function getEditVersion(
+  constructionId: string,
+  executor: DbExecutor = db,
+  options: { lock?: boolean; live?: boolean } = {}
+): Promise<string | null> {
+  const constructionQuery = executor
+    .select({ updatedAt: constructions.updatedAt })
+    .from(constructions)
+    .where(eq(constructions.id, constructionId))
+    .limit(1);
+  const [construction] = options.lock ? await constructionQuery.for('update') : await constructionQuery;
+
+  if (!construction) {
+    return null;
+  }
+
+  if (options.live) {
+    return construction.updatedAt.toISOString();
+  }
+
+  const pendingEditQuery = executor
+    .select({ updatedAt: pendingEdits.updatedAt })
+    .from(pendingEdits)
+    .where(eq(pendingEdits.constructionId, constructionId))
+    .limit(1);
+  const [pendingEdit] = options.lock ? await pendingEditQuery.for('update') : await pendingEditQuery;
+
+  return (pendingEdit ?? construction).updatedAt.toISOString();
+}
+
+/**
+ * Checks the version an editor loaded against the current one, inside the save transaction
+ *
+ * The construction (and its working copy) stay locked until the transaction commits, so two
+ * saves of the same version cannot both pass: the second waits and then sees the new version.
+ *
+ * @param tx - Transaction the save runs in
+ * @param expectedVersion - Version returned with the editor data
+ * @param options.live - The save writes the live rows (see getEditVersion)
+ * @throws EditConflictError when the record changed since it was loaded
+ */
+export async function assertEditVersion(
+  tx: DbTransaction,
+  constructionId: string,
+  expectedVersion: string,
+  options: { live?: boolean } = {}
+): Promise<void> {
+  const version = await getEditVersion(constructionId, tx, { lock: true, live: options.live });
+  if (!version || version === expectedVersion) {
+    return;
+  }
+
+  const [loadedRevision] = await tx
+    .select({ snapshot: constructionRevisions.snapshot })
+    .from(constructionRevisions)
+    .where(
+      and(
+        eq(constructionRevisions.constructionId, constructionId),
+        sql`${constructionRevisions.snapshot}->'construction'->>'updatedAt' = ${expectedVersion}`
+      )
+    )
+    .orderBy(desc(constructionRevisions.createdAt))
+    .limit(1);
+
+  if (!loadedRevision) {
+    throw new EditConflictError({ version, changes: {} });
+  }
+
+  const [pendingEdit] = options.live
+    ? []
+    : await tx
+      .select({ snapshot: pendingEdits.snapshot })
+      .from(pendingEdits)
+      .where(eq(pendingEdits.constructionId, constructionId))
+      .limit(1);
+
+  const current = pendingEdit
+    ? parseStoredSnapshot(pendingEdit.snapshot)
+    : await takeConstructionSnapshot(tx, constructionId);
+
+  throw new EditConflictError({
+    version,
+    changes: diffSnapshots(parseStoredSnapshot(loadedRevision.snapshot), current),
+  });
+}
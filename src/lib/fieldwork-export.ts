@@ -0,0 +1,262 @@
+import {
+  getPublishedMills,
+  getPublishedWaterLines,
+  getWaterLineBySlug,
+  type MapWaterLine,
+  type PublishedMill,
+} from '@/actions/public';
+import { parseMillFilters, validateMillFilters } from '@/lib/map-filters';
+
+/**
+ * Fieldwork Export Utilities (KML / GPX)
+ *
+ * Builds KML and GPX files of a filtered selection of published mills and levadas
+ * so researchers can load them on handheld GPS units and phone apps (OsmAnd,
+ * Locus, Google Earth, Garmin BaseCamp).
+ *
+ * Coordinates: MapWaterLine / WaterLineDetail paths are in Leaflet [lat, lng] order.
+ * KML writes "lng,lat" tuples; GPX writes lat/lon attributes.
+ */
+
+export type FieldworkExportFormat = 'kml' | 'gpx';
+
+export const FIELDWORK_EXPORT_CONTENT_TYPES: Record<FieldworkExportFormat, string> = {
+  kml: 'application/vnd.google-earth.kml+xml; charset=utf-8',
+  gpx: 'application/gpx+xml; charset=utf-8',
+};
+
+const DEFAULT_LINE_COLOR = '#3b82f6';
+const DEFAULT_MILL_COLOR = '#b45309';
+
+/**
+ * Mills and levadas selected for export
+ */
+export interface FieldworkSelection {
+  name: string; // Document name (levada, municipality, district or basin)
+  mills: PublishedMill[];
+  waterLines: MapWaterLine[];
+}
+
+/**
+ * Loads the selection described by the request query parameters
+ *
+ * - levada=<slug>: a single published levada with its published connected mills
+ * - otherwise: published mills matching MillFilters (district, municipality,
+ *   drainageBasin, typology, ...) and the levadas feeding them; with no filter the
+ *   whole published inventory is exported
+ *
+ * @param searchParams - Request URL search params
+ * @param locale - Language code ('pt' | 'en')
+ * @returns Standardized response with the selection, or an error with its HTTP status
+ */
+export async function getFieldworkSelection(
+  searchParams: URLSearchParams,
+  locale: string
+): Promise<
+  | { success: true; data: FieldworkSelection }
+  | { success: false; error: string; status: number }
+> {
+  const levadaSlug = searchParams.get('levada');
+
+  if (levadaSlug) {
+    const levada = await getWaterLineBySlug(levadaSlug, locale, { publishedOnly: true });
+    if (!levada) {
+      return { success: false, error: 'Levada not found', status: 404 };
+    }
+
+    return {
+      success: true,
+      data: {
+        name: levada.name,
+        mills: levada.connectedMills,
+        waterLines: [{ id: levada.id, slug: levada.slug, path: levada.path, color: levada.color, name: levada.name }],
+      },
+    };
+  }
+
+  const filters = parseMillFilters(searchParams);
+  const filterError = validateMillFilters(filters);
+  if (filterError) {
+    return { success: false, error: filterError, status: 400 };
+  }
+
+  const [millsResult, waterLinesResult] = await Promise.all([
+    getPublishedMills(locale, filters),
+    getPublishedWaterLines(locale),
+  ]);
+
+  if (!millsResult.success) {
+    return { success: false, error: millsResult.error, status: 500 };
+  }
+  if (!waterLinesResult.success) {
+    return { success: false, error: waterLinesResult.error, status: 500 };
+  }
+
+  // Filtered exports only carry the levadas that feed the selected mills
+  const isFiltered = Object.keys(filters).length > 0;
+  const connectedWaterLineIds = new Set(millsResult.data.map((mill) => mill.waterLineId));
+  const waterLines = isFiltered
+    ? waterLinesResult.data.filter((waterLine) => connectedWaterLineIds.has(waterLine.id))
+    : waterLinesResult.data;
+
+  return {
+    success: true,
+    data: {
+      name: filters.municipality || filters.district || filters.drainageBasin || 'MTTC Inventory',
+      mills: millsResult.data,
+      waterLines,
+    },
+  };
+}
+
+/**
+ * Escapes text for XML element content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Normalizes a CSS hex color ('#abc' or '#aabbcc') to 6 lowercase hex digits
+ */
+function toHex6(color: string | null, fallback: string): string {
+  const hex = (color && /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color) ? color : fallback).slice(1);
+  return (hex.length === 3 ? hex.replace(/./g, (digit) => digit + digit) : hex).toLowerCase();
+}
+
+/**
+ * Converts a CSS hex color to KML aabbggrr notation (fully opaque)
+ */
+function toKmlColor(color: string | null, fallback: string): string {
+  const hex = toHex6(color, fallback);
+  return `ff${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`;
+}
+
+/**
+ * Short plain-text description of a mill for placemarks and waypoints
+ */
+function describeMill(mill: PublishedMill): string {
+  return [
+    mill.legacyId && `Ref: ${mill.legacyId}`,
+    `Typology: ${mill.typology}`,
+    [mill.place, mill.parish, mill.municipality, mill.district].filter(Boolean).join(', '),
+    mill.access && `Access: ${mill.access}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Serializes a selection to KML 2.2
+ *
+ * Each water line colour becomes a shared style used by the levada LineString and
+ * tinting the icons of the mills it feeds.
+ *
+ * @param selection - Mills and levadas to export
+ * @param baseUrl - Site origin, for links back to the public pages
+ * @param locale - Locale of the linked pages
+ */
+export function selectionToKml(selection: FieldworkSelection, baseUrl: string, locale: string): string {
+  const styleId = (color: string | null, fallback: string) => `style-${toHex6(color, fallback)}`;
+
+  const styles = new Map<string, string>();
+  for (const waterLine of selection.waterLines) {
+    styles.set(styleId(waterLine.color, DEFAULT_LINE_COLOR), toKmlColor(waterLine.color, DEFAULT_LINE_COLOR));
+  }
+  for (const mill of selection.mills) {
+    styles.set(styleId(mill.waterLineColor, DEFAULT_MILL_COLOR), toKmlColor(mill.waterLineColor, DEFAULT_MILL_COLOR));
+  }
+
+  const styleElements = Array.from(styles.entries()).map(([id, kmlColor]) => `
+    <Style id="${id}">
+      <IconStyle>
+        <color>${kmlColor}</color>
+        <Icon><href>https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon>
+      </IconStyle>
+      <LineStyle>
+        <color>${kmlColor}</color>
+        <width>4</width>
+      </LineStyle>
+    </Style>`);
+
+  const millPlacemarks = selection.mills.map((mill) => `
+      <Placemark>
+        <name>${escapeXml(mill.title || mill.slug)}</name>
+        <description>${escapeXml(`${describeMill(mill)}\n${baseUrl}/${locale}/mill/${mill.slug}`)}</description>
+        <styleUrl>#${styleId(mill.waterLineColor, DEFAULT_MILL_COLOR)}</styleUrl>
+        <Point><coordinates>${mill.lng},${mill.lat}</coordinates></Point>
+      </Placemark>`);
+
+  const levadaPlacemarks = selection.waterLines.map((waterLine) => `
+      <Placemark>
+        <name>${escapeXml(waterLine.name)}</name>
+        <description>${escapeXml(`${baseUrl}/${locale}/levada/${waterLine.slug}`)}</description>
+        <styleUrl>#${styleId(waterLine.color, DEFAULT_LINE_COLOR)}</styleUrl>
+        <LineString>
+          <tessellate>1</tessellate>
+          <coordinates>${waterLine.path.map(([lat, lng]) => `${lng},${lat}`).join(' ')}</coordinates>
+        </LineString>
+      </Placemark>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(selection.name)}</name>${styleElements.join('')}
+    <Folder>
+      <name>Levadas</name>${levadaPlacemarks.join('')}
+    </Folder>
+    <Folder>
+      <name>Mills</name>${millPlacemarks.join('')}
+    </Folder>
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * Serializes a selection to GPX 1.1
+ *
+ * Mills become waypoints and levadas become tracks. Levada colours are written with
+ * the gpx_style extension (read by OsmAnd, Locus and QGIS).
+ *
+ * @param selection - Mills and levadas to export
+ * @param baseUrl - Site origin, for links back to the public pages
+ * @param locale - Locale of the linked pages
+ */
+export function selectionToGpx(selection: FieldworkSelection, baseUrl: string, locale: string): string {
+  const waypoints = selection.mills.map((mill) => `
+  <wpt lat="${mill.lat}" lon="${mill.lng}">
+    <name>${escapeXml(mill.title || mill.slug)}</name>
+    <desc>${escapeXml(describeMill(mill))}</desc>
+    <link href="${escapeXml(`${baseUrl}/${locale}/mill/${mill.slug}`)}"><text>${escapeXml(mill.slug)}</text></link>
+    <sym>Building</sym>
+    <type>${escapeXml(mill.typology)}</type>
+  </wpt>`);
+
+  const tracks = selection.waterLines.map((waterLine) => `
+  <trk>
+    <name>${escapeXml(waterLine.name)}</name>
+    <link href="${escapeXml(`${baseUrl}/${locale}/levada/${waterLine.slug}`)}"><text>${escapeXml(waterLine.slug)}</text></link>
+    <type>levada</type>
+    <extensions>
+      <gpx_style:line><gpx_style:color>${toHex6(waterLine.color, DEFAULT_LINE_COLOR)}</gpx_style:color></gpx_style:line>
+    </extensions>
+    <trkseg>${waterLine.path.map(([lat, lng]) => `
+      <trkpt lat="${lat}" lon="${lng}"/>`).join('')}
+    </trkseg>
+  </trk>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="MTTC Project" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpx_style="http://www.topografix.com/GPX/gpx_style/0/2">
+  <metadata>
+    <name>${escapeXml(selection.name)}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>${waypoints.join('')}${tracks.join('')}
+</gpx>
+`;
+}
@@ -0,0 +1,113 @@
+import { db } from '@/lib/db';
+import { constructions, researcherScopes } from '@/db/schema';
+import { eq, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * Geographic Scope Utilities
+ *
+ * Regional teams: admins can limit a researcher to a set of districts, municipalities and/or
+ * drainage basins (researcher_scopes). A construction is within scope when any of its
+ * district, municipality or drainage basin is one of the researcher's areas (names compared
+ * case-insensitively). Researchers without areas, and admins, are not restricted.
+ *
+ * The scope applies on top of the author checks: a researcher still needs to own or
+ * co-author a record to edit it, and the record must also be in their region. Only mills
+ * carry these location fields, so levadas and poças are not scoped.
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+export type ScopeKind = 'district' | 'municipality' | 'drainage_basin';
+
+export const SCOPE_KINDS: ScopeKind[] = ['district', 'municipality', 'drainage_basin'];
+
+/**
+ * Areas a researcher may work on, per kind
+ */
+export interface GeoScope {
+  districts: string[];
+  municipalities: string[];
+  drainageBasins: string[];
+}
+
+/**
+ * Location fields of a construction
+ */
+export interface ScopedLocation {
+  district?: string | null;
+  municipality?: string | null;
+  drainageBasin?: string | null;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Reads the areas of a profile
+ *
+ * @returns The scope, or null when the profile is not restricted (no areas)
+ */
+export async function getGeoScope(executor: DbExecutor, profileId: string): Promise<GeoScope | null> {
+  const rows = await executor
+    .select({ kind: researcherScopes.kind, value: researcherScopes.value })
+    .from(researcherScopes)
+    .where(eq(researcherScopes.profileId, profileId));
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const valuesOf = (kind: ScopeKind) => rows.filter((row) => row.kind === kind).map((row) => row.value);
+  return {
+    districts: valuesOf('district'),
+    municipalities: valuesOf('municipality'),
+    drainageBasins: valuesOf('drainage_basin'),
+  };
+}
+
+/**
+ * Returns true when a location lies in one of the scope's areas
+ */
+export function isWithinGeoScope(scope: GeoScope, location: ScopedLocation): boolean {
+  const matches = (areas: string[], value: string | null | undefined) =>
+    Boolean(value) && areas.some((area) => normalize(area) === normalize(value!));
+
+  return (
+    matches(scope.districts, location.district) ||
+    matches(scope.municipalities, location.municipality) ||
+    matches(scope.drainageBasins, location.drainageBasin)
+  );
+}
+
+/**
+ * SQL condition on the constructions table matching the scope's areas
+ */
+export function getGeoScopeCondition(scope: GeoScope): SQL {
+  const matchesAny = (column: AnyPgColumn, areas: string[]) =>
+    areas.length > 0
+      ? sql`lower(trim(${column})) in (${sql.join(areas.map((area) => sql`${normalize(area)}`), sql`, `)})`
+      : undefined;
+
+  return (
+    or(
+      matchesAny(constructions.district, scope.districts),
+      matchesAny(constructions.municipality, scope.municipalities),
+      matchesAny(constructions.drainageBasin, scope.drainageBasins)
+    ) ?? sql`1 = 0`
+  );
+}
+
+/**
+ * Returns why a researcher may not work on a location, or null if they may
+ *
+ * @param scope - The researcher's scope (null = not restricted)
+ */
+export function getGeoScopeBlocker(scope: GeoScope | null, location: ScopedLocation): string | null {
+  if (!scope || isWithinGeoScope(scope, location)) {
+    return null;
+  }
+  return 'Unauthorized: This construction is outside the regions assigned to you';
+}
@@ -0,0 +1,120 @@
+import type { MapData, PublishedMill, PublishedPoca, PublishedWaterLine } from '@/actions/public';
+import type {
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONLineString,
+  GeoJSONPoint,
+} from '@/types/geojson';
+
+/**
+ * GeoJSON Serialization Utilities
+ *
+ * Converts the public map data (mills, poças, water lines) into GeoJSON features.
+ *
+ * Coordinate order: GeoJSON requires [lng, lat]. Mills and poças carry separate
+ * lat/lng fields; MapWaterLine paths are in Leaflet [lat, lng] order and must be
+ * swapped back before serialization.
+ */
+
+/**
+ * Converts a published mill into a GeoJSON Point feature
+ */
+export function millToFeature(mill: PublishedMill): GeoJSONFeature<GeoJSONPoint> {
+  return {
+    type: 'Feature',
+    id: mill.id,
+    geometry: {
+      type: 'Point',
+      coordinates: [mill.lng, mill.lat],
+    },
+    properties: {
+      featureType: 'mill',
+      slug: mill.slug,
+      title: mill.title,
+      description: mill.description,
+      legacyId: mill.legacyId,
+      typology: mill.typology,
+      district: mill.district,
+      municipality: mill.municipality,
+      parish: mill.parish,
+      place: mill.place,
+      address: mill.address,
+      drainageBasin: mill.drainageBasin,
+      access: mill.access,
+      legalProtection: mill.legalProtection,
+      propertyStatus: mill.propertyStatus,
+      waterLineId: mill.waterLineId,
+      mainImage: mill.mainImage,
+    },
+  };
+}
+
+/**
+ * Converts a published poça into a GeoJSON Point feature
+ */
+export function pocaToFeature(poca: PublishedPoca): GeoJSONFeature<GeoJSONPoint> {
+  return {
+    type: 'Feature',
+    id: poca.id,
+    geometry: {
+      type: 'Point',
+      coordinates: [poca.lng, poca.lat],
+    },
+    properties: {
+      featureType: 'poca',
+      slug: poca.slug,
+      title: poca.title,
+      waterLineId: poca.waterLineId,
+    },
+  };
+}
+
+/**
+ * Converts a Leaflet [lat, lng] path into a GeoJSON LineString ([lng, lat])
+ */
+export function leafletPathToLineString(path: [number, number][]): GeoJSONLineString {
+  return {
+    type: 'LineString',
+    coordinates: path.map(([lat, lng]) => [lng, lat] as [number, number]),
+  };
+}
+
+/**
+ * Converts a published water line into a GeoJSON LineString feature
+ *
+ * Keyed by its construction UUID like mills and poças; the water_lines id they reference
+ * as waterLineId is kept as a property.
+ */
+export function waterLineToFeature(waterLine: PublishedWaterLine): GeoJSONFeature<GeoJSONLineString> {
+  return {
+    type: 'Feature',
+    id: waterLine.constructionId,
+    geometry: leafletPathToLineString(waterLine.path),
+    properties: {
+      featureType: 'levada',
+      slug: waterLine.slug,
+      title: waterLine.name,
+      color: waterLine.color,
+      waterLineId: waterLine.id,
+    },
+  };
+}
+
+/**
+ * Builds a single FeatureCollection from the public map data
+ *
+ * Order: mills, poças, then water lines (matches the map layer order).
+ *
+ * @param data - Result of getMapData
+ * @returns GeoJSON FeatureCollection with Point and LineString features
+ */
+export function mapDataToFeatureCollection(data: MapData): GeoJSONFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...data.mills.map(millToFeature),
+      ...data.pocas.map(pocaToFeature),
+      ...data.waterLines.map(waterLineToFeature),
+    ],
+  };
+}
@@ -0,0 +1,134 @@
+import ExcelJS from 'exceljs';
+import { getTableColumns } from 'drizzle-orm';
+import type { InventoryExportRow } from '@/actions/admin';
+import { millsData } from '@/db/schema';
+
+/**
+ * Inventory Tabular Export Utilities
+ *
+ * Serializes InventoryExportRow[] (from getInventoryExportRows) to CSV or XLSX.
+ * Headers use the database column names (snake_case) so the files load cleanly
+ * into R (read.csv / readxl) and spreadsheets without renaming.
+ */
+
+export type InventoryExportFormat = 'csv' | 'xlsx';
+
+export const INVENTORY_EXPORT_FORMATS: InventoryExportFormat[] = ['csv', 'xlsx'];
+
+export const INVENTORY_EXPORT_CONTENT_TYPES: Record<InventoryExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type ExportColumn = { key: keyof InventoryExportRow; header: string };
+
+/**
+ * Core and translated columns, in export order
+ */
+const CONSTRUCTION_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'id' },
+  { key: 'slug', header: 'slug' },
+  { key: 'legacyId', header: 'legacy_id' },
+  { key: 'typeCategory', header: 'type_category' },
+  { key: 'status', header: 'status' },
+  { key: 'lat', header: 'lat' },
+  { key: 'lng', header: 'lng' },
+  { key: 'title', header: 'title' },
+  { key: 'description', header: 'description' },
+  { key: 'district', header: 'district' },
+  { key: 'municipality', header: 'municipality' },
+  { key: 'parish', header: 'parish' },
+  { key: 'place', header: 'place' },
+  { key: 'address', header: 'address' },
+  { key: 'drainageBasin', header: 'drainage_basin' },
+  { key: 'observationsStructure', header: 'observations_structure' },
+  { key: 'observationsRoof', header: 'observations_roof' },
+  { key: 'observationsHydraulic', header: 'observations_hydraulic' },
+  { key: 'observationsMechanism', header: 'observations_mechanism' },
+  { key: 'observationsGeneral', header: 'observations_general' },
+  { key: 'mainImage', header: 'main_image' },
+  { key: 'galleryImages', header: 'gallery_images' },
+  { key: 'documentPaths', header: 'document_paths' },
+  { key: 'customIconUrl', header: 'custom_icon_url' },
+  { key: 'createdBy', header: 'created_by' },
+  { key: 'createdAt', header: 'created_at' },
+  { key: 'updatedAt', header: 'updated_at' },
+];
+
+/**
+ * Every mills_data column (one per enum field), derived from the schema so new
+ * columns are exported without touching this file
+ */
+const MILL_COLUMNS: ExportColumn[] = Object.entries(getTableColumns(millsData))
+  .filter(([key]) => key !== 'constructionId')
+  .map(([key, column]) => ({ key: key as keyof InventoryExportRow, header: column.name }));
+
+export const INVENTORY_EXPORT_COLUMNS: ExportColumn[] = [...CONSTRUCTION_COLUMNS, ...MILL_COLUMNS];
+
+// Separator for array columns (image and document paths never contain it)
+const ARRAY_SEPARATOR = '|';
+
+/**
+ * Converts a cell value to its CSV string form
+ *
+ * Dates are ISO 8601, booleans TRUE/FALSE (read as logical by R), null is empty.
+ */
+function toCsvValue(value: InventoryExportRow[keyof InventoryExportRow]): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(ARRAY_SEPARATOR);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Serializes export rows to CSV
+ *
+ * Prefixed with a UTF-8 BOM so Excel detects the encoding (accented place names).
+ */
+export function inventoryToCsv(rows: InventoryExportRow[]): string {
+  const lines = [
+    INVENTORY_EXPORT_COLUMNS.map((column) => escapeCsvField(column.header)).join(','),
+    ...rows.map((row) =>
+      INVENTORY_EXPORT_COLUMNS.map((column) => escapeCsvField(toCsvValue(row[column.key]))).join(',')
+    ),
+  ];
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Serializes export rows to an XLSX workbook with a single "Inventory" sheet
+ *
+ * Numbers, booleans and dates keep their native cell types; arrays are joined.
+ */
+export async function inventoryToXlsx(rows: InventoryExportRow[]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Inventory');
+
+  sheet.columns = INVENTORY_EXPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(12, column.header.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  for (const row of rows) {
+    sheet.addRow(
+      INVENTORY_EXPORT_COLUMNS.map((column) => {
+        const value = row[column.key];
+        return Array.isArray(value) ? value.join(ARRAY_SEPARATOR) : value;
+      })
+    );
+  }
+
+  return workbook.xlsx.writeBuffer();
+}
@@ -0,0 +1,463 @@
+import type { MillDetail, ResearcherProfile, WaterLineDetail } from '@/actions/public';
+import { getPublicUrl } from '@/lib/storage';
+import { getOrcidUrl } from '@/lib/orcid';
+
+/**
+ * Linked Data Utilities (schema.org JSON-LD / CIDOC-CRM RDF)
+ *
+ * - schema.org: LandmarksOrHistoricalBuildings objects embedded as JSON-LD in the
+ *   public mill and levada pages (search engines, heritage aggregators), and Person objects
+ *   in the researcher pages
+ * - CIDOC-CRM 7.1: RDF description of a MillDetail, serialized as Turtle or JSON-LD
+ *   for the per-record download
+ *
+ * Resource IRIs are the public page URLs (with a fragment for the described object),
+ * so every identifier resolves to a human-readable record.
+ */
+
+export type RdfFormat = 'turtle' | 'jsonld';
+
+export const RDF_FORMATS: RdfFormat[] = ['turtle', 'jsonld'];
+
+export const RDF_CONTENT_TYPES: Record<RdfFormat, string> = {
+  turtle: 'text/turtle; charset=utf-8',
+  jsonld: 'application/ld+json; charset=utf-8',
+};
+
+export const RDF_FILE_EXTENSIONS: Record<RdfFormat, string> = {
+  turtle: 'ttl',
+  jsonld: 'jsonld',
+};
+
+/**
+ * Serializes a JSON-LD object for an inline <script type="application/ld+json">
+ *
+ * Escapes "<" so user-entered text can never close the script element.
+ */
+export function serializeJsonLdScript(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+/**
+ * Returns the public page URL of a mill or levada
+ */
+function getPageUrl(baseUrl: string, locale: string, kind: 'mill' | 'levada', slug: string): string {
+  return `${baseUrl}/${locale}/${kind}/${slug}`;
+}
+
+/**
+ * Returns public URLs of the main and gallery images (main image first)
+ */
+function getImageUrls(mill: Pick<MillDetail, 'mainImage' | 'galleryImages'>): string[] {
+  return [mill.mainImage, ...(mill.galleryImages ?? [])]
+    .map((path) => (path ? getPublicUrl(path) : null))
+    .filter((url): url is string => url !== null);
+}
+
+// ============================================================================
+// schema.org
+// ============================================================================
+
+/**
+ * Builds the schema.org JSON-LD for a mill detail page
+ *
+ * @param mill - Published mill
+ * @param baseUrl - Site origin (see getSiteUrl)
+ * @param locale - Page locale
+ */
+export function millToSchemaOrg(mill: MillDetail, baseUrl: string, locale: string): Record<string, unknown> {
+  const url = getPageUrl(baseUrl, locale, 'mill', mill.slug);
+  const images = getImageUrls(mill);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'LandmarksOrHistoricalBuildings',
+    '@id': `${url}#mill`,
+    url,
+    name: mill.title || mill.slug,
+    ...(mill.description && { description: mill.description }),
+    ...(mill.legacyId && { identifier: mill.legacyId }),
+    inLanguage: locale,
+    keywords: [mill.typology, mill.epoch, mill.currentUse].filter(Boolean).join(', '),
+    geo: {
+      '@type': 'GeoCoordinates',
+      latitude: mill.lat,
+      longitude: mill.lng,
+    },
+    address: {
+      '@type': 'PostalAddress',
+      ...(mill.address && { streetAddress: mill.address }),
+      ...((mill.place || mill.parish || mill.municipality) && {
+        addressLocality: [mill.place, mill.parish, mill.municipality].filter(Boolean).join(', '),
+      }),
+      ...(mill.district && { addressRegion: mill.district }),
+      addressCountry: 'PT',
+    },
+    ...(images.length > 0 && { image: images }),
+    ...(mill.waterLineSlug && {
+      containedInPlace: {
+        '@type': 'LandmarksOrHistoricalBuildings',
+        '@id': `${getPageUrl(baseUrl, locale, 'levada', mill.waterLineSlug)}#levada`,
+        name: mill.waterLineName,
+      },
+    }),
+  };
+}
+
+/**
+ * Builds the schema.org JSON-LD for a levada detail page
+ *
+ * The path is a GeoShape line ("lat lng lat lng ..." as required by schema.org) and
+ * the published mills it feeds are listed with containsPlace.
+ *
+ * @param levada - Water line with its connected mills
+ * @param baseUrl - Site origin (see getSiteUrl)
+ * @param locale - Page locale
+ */
+export function levadaToSchemaOrg(levada: WaterLineDetail, baseUrl: string, locale: string): Record<string, unknown> {
+  const url = getPageUrl(baseUrl, locale, 'levada', levada.slug);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'LandmarksOrHistoricalBuildings',
+    '@id': `${url}#levada`,
+    url,
+    name: levada.name,
+    ...(levada.description && { description: levada.description }),
+    inLanguage: locale,
+    geo: {
+      '@type': 'GeoShape',
+      line: levada.path.map(([lat, lng]) => `${lat} ${lng}`).join(' '),
+    },
+    containsPlace: levada.connectedMills.map((mill) => ({
+      '@type': 'LandmarksOrHistoricalBuildings',
+      '@id': `${getPageUrl(baseUrl, locale, 'mill', mill.slug)}#mill`,
+      name: mill.title || mill.slug,
+      geo: { '@type': 'GeoCoordinates', latitude: mill.lat, longitude: mill.lng },
+    })),
+  };
+}
+
+/**
+ * Builds the schema.org JSON-LD for a researcher page
+ *
+ * The ORCID iD is given as sameAs, the identifier citation managers resolve.
+ *
+ * @param researcher - Researcher with their contributions
+ * @param baseUrl - Site origin (see getSiteUrl)
+ * @param locale - Page locale
+ */
+export function researcherToSchemaOrg(
+  researcher: ResearcherProfile,
+  baseUrl: string,
+  locale: string
+): Record<string, unknown> {
+  const url = `${baseUrl}/${locale}/researchers/${researcher.id}`;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    '@id': `${url}#person`,
+    url,
+    ...(researcher.fullName && { name: researcher.fullName }),
+    ...(researcher.bio && { description: researcher.bio }),
+    ...(researcher.orcid && { sameAs: getOrcidUrl(researcher.orcid) }),
+    ...(researcher.academicAffiliation && {
+      affiliation: { '@type': 'Organization', name: researcher.academicAffiliation },
+    }),
+  };
+}
+
+// ============================================================================
+// CIDOC-CRM
+// ============================================================================
+
+const RDF_PREFIXES = {
+  crm: 'http://www.cidoc-crm.org/cidoc-crm/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  geo: 'http://www.opengis.net/ont/geosparql#',
+} as const;
+
+type RdfPrefix = keyof typeof RDF_PREFIXES;
+type PrefixedName = `${RdfPrefix}:${string}`;
+
+type RdfTerm =
+  | { kind: 'iri'; value: string }
+  | { kind: 'literal'; value: string; language?: string; datatype?: PrefixedName };
+
+interface RdfTriple {
+  subject: string; // Absolute IRI
+  predicate: PrefixedName;
+  object: RdfTerm;
+}
+
+const iri = (value: string): RdfTerm => ({ kind: 'iri', value });
+const text = (value: string, language?: string): RdfTerm => ({ kind: 'literal', value, language });
+const typed = (value: string | number, datatype: PrefixedName): RdfTerm => ({
+  kind: 'literal',
+  value: String(value),
+  datatype,
+});
+
+/**
+ * Expands a prefixed name (crm:E22_Human-Made_Object) to its full IRI
+ */
+function expand(name: PrefixedName): string {
+  const [prefix, local] = name.split(/:(.*)/) as [RdfPrefix, string];
+  return `${RDF_PREFIXES[prefix]}${local}`;
+}
+
+/**
+ * Compacts a vocabulary IRI to a prefixed name when possible (used for rdf:type values)
+ */
+function compact(value: string): string {
+  for (const [prefix, namespace] of Object.entries(RDF_PREFIXES)) {
+    const local = value.slice(namespace.length);
+    if (value.startsWith(namespace) && /^[A-Za-z0-9_-]+$/.test(local)) {
+      return `${prefix}:${local}`;
+    }
+  }
+  return value;
+}
+
+/**
+ * Builds the CIDOC-CRM triples describing a mill
+ *
+ * Mapping:
+ * - mill: E22_Human-Made_Object, typed by typology (E55_Type)
+ * - title / legacy id: E41_Appellation / E42_Identifier (P1_is_identified_by)
+ * - description and observations: P3_has_note
+ * - location: E53_Place defined by a WKT point (P168_place_is_defined_by)
+ * - dimensions (metres): E54_Dimension (P43_has_dimension)
+ * - conservation ratings: E3_Condition_State (P44_has_condition)
+ * - epoch: E12_Production with an E52_Time-Span (P108i_was_produced_by)
+ * - images: E36_Visual_Item (P138i_has_representation)
+ * - levada: E25_Human-Made_Feature the mill is part of (P46i_forms_part_of)
+ */
+function millToCidocTriples(mill: MillDetail, baseUrl: string, locale: string): RdfTriple[] {
+  const pageUrl = getPageUrl(baseUrl, locale, 'mill', mill.slug);
+  const subject = `${pageUrl}#mill`;
+  const node = (fragment: string) => `${pageUrl}#${fragment}`;
+  const triples: RdfTriple[] = [];
+  const add = (s: string, predicate: PrefixedName, object: RdfTerm) => triples.push({ subject: s, predicate, object });
+  const addType = (s: string, type: PrefixedName) => add(s, 'rdf:type', iri(expand(type)));
+
+  addType(subject, 'crm:E22_Human-Made_Object');
+  add(subject, 'rdfs:label', text(mill.title || mill.slug, locale));
+  add(subject, 'rdfs:seeAlso', iri(pageUrl));
+
+  // Appellations
+  if (mill.title) {
+    add(subject, 'crm:P1_is_identified_by', iri(node('title')));
+    addType(node('title'), 'crm:E41_Appellation');
+    add(node('title'), 'crm:P190_has_symbolic_content', text(mill.title, locale));
+  }
+  if (mill.legacyId) {
+    add(subject, 'crm:P1_is_identified_by', iri(node('legacy-id')));
+    addType(node('legacy-id'), 'crm:E42_Identifier');
+    add(node('legacy-id'), 'crm:P190_has_symbolic_content', text(mill.legacyId));
+  }
+
+  // Classification (enum codes as E55_Type labels)
+  const types: Array<[string, string | null]> = [
+    ['typology', mill.typology],
+    ['current-use', mill.currentUse],
+    ['setting', mill.setting],
+    ['plan-shape', mill.planShape],
+    ['volumetry', mill.volumetry],
+    ['construction-technique', mill.constructionTechnique],
+    ['roof-shape', mill.roofShape],
+    ['roof-material', mill.roofMaterial],
+  ];
+  for (const [field, value] of types) {
+    if (!value) continue;
+    add(subject, 'crm:P2_has_type', iri(node(`type-${field}`)));
+    addType(node(`type-${field}`), 'crm:E55_Type');
+    add(node(`type-${field}`), 'rdfs:label', text(`${field}: ${value}`));
+  }
+
+  // Notes
+  const notes = [
+    mill.description,
+    mill.observationsStructure,
+    mill.observationsRoof,
+    mill.observationsHydraulic,
+    mill.observationsMechanism,
+    mill.observationsGeneral,
+  ];
+  for (const note of notes) {
+    if (note) add(subject, 'crm:P3_has_note', text(note, locale));
+  }
+
+  // Location
+  add(subject, 'crm:P53_has_former_or_current_location', iri(node('place')));
+  addType(node('place'), 'crm:E53_Place');
+  add(node('place'), 'crm:P168_place_is_defined_by', typed(`POINT(${mill.lng} ${mill.lat})`, 'geo:wktLiteral'));
+  const placeLabel = [mill.place, mill.parish, mill.municipality, mill.district].filter(Boolean).join(', ');
+  if (placeLabel) {
+    add(node('place'), 'rdfs:label', text(placeLabel));
+  }
+
+  // Dimensions
+  const dimensions: Array<[string, number | null]> = [
+    ['length', mill.length],
+    ['width', mill.width],
+    ['height', mill.height],
+  ];
+  for (const [dimension, value] of dimensions) {
+    if (value === null) continue;
+    add(subject, 'crm:P43_has_dimension', iri(node(`dimension-${dimension}`)));
+    addType(node(`dimension-${dimension}`), 'crm:E54_Dimension');
+    add(node(`dimension-${dimension}`), 'rdfs:label', text(dimension));
+    add(node(`dimension-${dimension}`), 'crm:P90_has_value', typed(value, 'xsd:decimal'));
+    add(node(`dimension-${dimension}`), 'crm:P91_has_unit', iri(node('unit-metre')));
+  }
+  if (dimensions.some(([, value]) => value !== null)) {
+    addType(node('unit-metre'), 'crm:E58_Measurement_Unit');
+    add(node('unit-metre'), 'rdfs:label', text('metre'));
+  }
+
+  // Conservation
+  const ratings: Array<[string, string | null]> = [
+    ['overall', mill.ratingOverall],
+    ['structure', mill.ratingStructure],
+    ['roof', mill.ratingRoof],
+    ['hydraulic', mill.ratingHydraulic],
+    ['mechanism', mill.ratingMechanism],
+  ];
+  for (const [aspect, rating] of ratings) {
+    if (!rating) continue;
+    add(subject, 'crm:P44_has_condition', iri(node(`condition-${aspect}`)));
+    addType(node(`condition-${aspect}`), 'crm:E3_Condition_State');
+    add(node(`condition-${aspect}`), 'rdfs:label', text(`${aspect}: ${rating}`));
+  }
+
+  // Production (epoch)
+  if (mill.epoch) {
+    add(subject, 'crm:P108i_was_produced_by', iri(node('production')));
+    addType(node('production'), 'crm:E12_Production');
+    add(node('production'), 'crm:P4_has_time-span', iri(node('production-time-span')));
+    addType(node('production-time-span'), 'crm:E52_Time-Span');
+    add(node('production-time-span'), 'rdfs:label', text(mill.epoch));
+  }
+
+  // Images
+  getImageUrls(mill).forEach((imageUrl, index) => {
+    add(subject, 'crm:P138i_has_representation', iri(node(`image-${index + 1}`)));
+    addType(node(`image-${index + 1}`), 'crm:E36_Visual_Item');
+    add(node(`image-${index + 1}`), 'rdfs:seeAlso', iri(imageUrl));
+  });
+
+  // Levada
+  if (mill.waterLineSlug) {
+    const levada = `${getPageUrl(baseUrl, locale, 'levada', mill.waterLineSlug)}#levada`;
+    add(subject, 'crm:P46i_forms_part_of', iri(levada));
+    addType(levada, 'crm:E25_Human-Made_Feature');
+    if (mill.waterLineName) {
+      add(levada, 'rdfs:label', text(mill.waterLineName, locale));
+    }
+  }
+
+  return triples;
+}
+
+/**
+ * Escapes a string for a Turtle quoted literal
+ */
+function escapeTurtleString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Serializes a term in Turtle syntax
+ */
+function termToTurtle(term: RdfTerm): string {
+  if (term.kind === 'iri') {
+    const name = compact(term.value);
+    return name === term.value ? `<${term.value}>` : name;
+  }
+  const literal = `"${escapeTurtleString(term.value)}"`;
+  if (term.language) return `${literal}@${term.language}`;
+  if (term.datatype) return `${literal}^^${term.datatype}`;
+  return literal;
+}
+
+/**
+ * Groups triples by subject, keeping first-seen order
+ */
+function groupBySubject(triples: RdfTriple[]): Map<string, RdfTriple[]> {
+  const groups = new Map<string, RdfTriple[]>();
+  for (const triple of triples) {
+    groups.set(triple.subject, [...(groups.get(triple.subject) ?? []), triple]);
+  }
+  return groups;
+}
+
+/**
+ * Serializes triples to Turtle
+ */
+function triplesToTurtle(triples: RdfTriple[]): string {
+  const prefixes = Object.entries(RDF_PREFIXES).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+
+  const blocks = Array.from(groupBySubject(triples).entries()).map(([subject, subjectTriples]) => {
+    const statements = subjectTriples.map(
+      (triple) => `    ${triple.predicate === 'rdf:type' ? 'a' : triple.predicate} ${termToTurtle(triple.object)}`
+    );
+    return `<${subject}>\n${statements.join(' ;\n')} .`;
+  });
+
+  return `${prefixes.join('\n')}\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Serializes triples to JSON-LD (@graph of node objects, prefixes in @context)
+ */
+function triplesToJsonLd(triples: RdfTriple[]): Record<string, unknown> {
+  const graph = Array.from(groupBySubject(triples).entries()).map(([subject, subjectTriples]) => {
+    const nodeObject: Record<string, unknown> = { '@id': subject };
+
+    for (const { predicate, object } of subjectTriples) {
+      const key = predicate === 'rdf:type' ? '@type' : predicate;
+      const value =
+        predicate === 'rdf:type'
+          ? compact(object.value)
+          : object.kind === 'iri'
+            ? { '@id': object.value }
+            : {
+                '@value': object.value,
+                ...(object.language && { '@language': object.language }),
+                ...(object.datatype && { '@type': object.datatype }),
+              };
+
+      const existing = nodeObject[key];
+      nodeObject[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+
+    return nodeObject;
+  });
+
+  return { '@context': RDF_PREFIXES, '@graph': graph };
+}
+
+/**
+ * Serializes the CIDOC-CRM description of a mill
+ *
+ * @param mill - Published mill
+ * @param baseUrl - Site origin (see getSiteUrl)
+ * @param locale - Locale of the translated fields and page IRIs
+ * @param format - 'turtle' | 'jsonld'
+ * @returns Document body for RDF_CONTENT_TYPES[format]
+ */
+export function millToCidocCrm(mill: MillDetail, baseUrl: string, locale: string, format: RdfFormat): string {
+  const triples = millToCidocTriples(mill, baseUrl, locale);
+
+  return format === 'turtle'
+    ? triplesToTurtle(triples)
+    : JSON.stringify(triplesToJsonLd(triples), null, 2);
+}
@@ -0,0 +1,73 @@
+/**
+ * Mailer
+ *
+ * Outgoing email (researcher invitations) goes through the `Mailer` interface so the
+ * delivery service can be swapped without touching the callers. The transport is chosen
+ * with MAILER_TRANSPORT:
+ * - 'console' (default): local stand-in that prints the message to the server log, so
+ *   invitation links can be copied during development
+ * - 'webhook': POSTs the message as JSON to MAILER_WEBHOOK_URL (a mail relay or the HTTP API
+ *   of an email service), with MAILER_WEBHOOK_TOKEN as bearer token when set
+ *
+ * Server-only: reads server environment variables.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Local stand-in: logs the message instead of sending it
+ */
+const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(
+      `[mailer]: Email to ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+};
+
+/**
+ * Sends messages to an HTTP endpoint as JSON ({ from, to, subject, text })
+ */
+function createWebhookMailer(url: string, token: string | undefined): Mailer {
+  return {
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ from: process.env.MAILER_FROM, ...message }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mailer webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Returns the mailer configured for this environment
+ */
+export function getMailer(): Mailer {
+  const transport = process.env.MAILER_TRANSPORT ?? 'console';
+
+  if (transport === 'webhook') {
+    const url = process.env.MAILER_WEBHOOK_URL;
+    if (!url) {
+      throw new Error('MAILER_WEBHOOK_URL is required for the webhook mailer');
+    }
+    return createWebhookMailer(url, process.env.MAILER_WEBHOOK_TOKEN);
+  }
+
+  return consoleMailer;
+}
@@ -0,0 +1,112 @@
+import type { MillFilters } from '@/actions/public';
+import {
+  typologyEnum,
+  roofMaterialEnum,
+  roofShapeEnum,
+  accessEnum,
+  motiveApparatusEnum,
+  epochEnum,
+  currentUseEnum,
+  settingEnum,
+  legalProtectionEnum,
+  propertyStatusEnum,
+  constructionTechniqueEnum,
+  planShapeEnum,
+  volumetryEnum,
+  exteriorFinishEnum,
+} from '@/db/schema';
+
+/**
+ * Map Filter Utilities
+ *
+ * Converts URL query parameters into the MillFilters shape used by getPublishedMills.
+ * Shared by the public route handlers so every endpoint accepts the same parameters
+ * as the map page (e.g. ?typology=azenha&typology=rodizio&district=Viseu).
+ */
+
+/**
+ * MillFilters keys that accept multiple values, mapped to the pgEnum values they accept
+ */
+const MULTI_VALUE_FILTER_ENUMS = {
+  typology: typologyEnum.enumValues,
+  roofMaterial: roofMaterialEnum.enumValues,
+  roofShape: roofShapeEnum.enumValues,
+  access: accessEnum.enumValues,
+  motiveApparatus: motiveApparatusEnum.enumValues,
+  epoch: epochEnum.enumValues,
+  currentUse: currentUseEnum.enumValues,
+  setting: settingEnum.enumValues,
+  legalProtection: legalProtectionEnum.enumValues,
+  propertyStatus: propertyStatusEnum.enumValues,
+  constructionTechnique: constructionTechniqueEnum.enumValues,
+  planShape: planShapeEnum.enumValues,
+  volumetry: volumetryEnum.enumValues,
+  exteriorFinish: exteriorFinishEnum.enumValues,
+} as const satisfies Record<string, readonly string[]>;
+
+type MultiValueFilterKey = keyof typeof MULTI_VALUE_FILTER_ENUMS;
+
+const MULTI_VALUE_FILTER_KEYS = Object.keys(MULTI_VALUE_FILTER_ENUMS) as MultiValueFilterKey[];
+
+/**
+ * Parses MillFilters from URL search params
+ *
+ * Multi-value filters accept both repeated parameters (?typology=a&typology=b)
+ * and comma-separated values (?typology=a,b). Empty values are ignored.
+ *
+ * @param searchParams - Request URL search params
+ * @returns MillFilters object (empty when no filter parameters are present)
+ */
+export function parseMillFilters(searchParams: URLSearchParams): MillFilters {
+  const filters: MillFilters = {};
+
+  for (const key of MULTI_VALUE_FILTER_KEYS) {
+    const values = searchParams
+      .getAll(key)
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter((value) => value !== '');
+
+    if (values.length > 0) {
+      filters[key] = values;
+    }
+  }
+
+  const district = searchParams.get('district')?.trim();
+  if (district) {
+    filters.district = district;
+  }
+
+  const municipality = searchParams.get('municipality')?.trim();
+  if (municipality) {
+    filters.municipality = municipality;
+  }
+
+  const drainageBasin = searchParams.get('drainageBasin')?.trim();
+  if (drainageBasin) {
+    filters.drainageBasin = drainageBasin;
+  }
+
+  return filters;
+}
+
+/**
+ * Validates multi-value filters against the Postgres enums
+ *
+ * getPublishedMills passes filter values straight to inArray(), so an unknown value
+ * would surface as a database error. Route handlers call this first to return a 400.
+ *
+ * @param filters - Parsed MillFilters
+ * @returns Error message for the first invalid value, or null if all values are valid
+ */
+export function validateMillFilters(filters: MillFilters): string | null {
+  for (const key of MULTI_VALUE_FILTER_KEYS) {
+    const allowed: readonly string[] = MULTI_VALUE_FILTER_ENUMS[key];
+    const invalid = filters[key]?.find((value) => !allowed.includes(value));
+    if (invalid !== undefined) {
+      return `Invalid value "${invalid}" for filter "${key}". Allowed values: ${allowed.join(', ')}`;
+    }
+  }
+
+  return null;
+}
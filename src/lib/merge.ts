@@ -0,0 +1,261 @@
+import { db } from '@/lib/db';
+import { constructions, constructionSlugRedirects, millsData, pendingEdits, pocasData } from '@/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import {
+  diffSnapshots,
+  restoreConstructionSnapshot,
+  takeConstructionSnapshot,
+  withRevision,
+  type ConstructionSnapshot,
+} from '@/lib/revisions';
+import { moveConstructionToTrash } from '@/lib/trash';
+import { mergeContributors } from '@/lib/contributors';
+
+/**
+ * Construction Merge Utilities
+ *
+ * Combines two duplicate constructions of the same type. One record (the survivor) keeps its
+ * identity - id, slug, author, status - and receives the content of the other (the merged record):
+ * - fields that differ are taken from whichever side the admin chose (survivor by default)
+ * - galleryImages and documentPaths are combined; a main image that loses ends up in the gallery
+ * - translations are merged per language: a language only the merged record has is copied,
+ *   fields of a language both have are chosen like any other field
+ * - mills and poças linked to the merged record's levada are re-pointed to the survivor's
+ * - the merged record's contributors (and its owner, as co-author) are credited on the survivor
+ *
+ * The merged record is then moved to the trash and its slug redirects to the survivor
+ * (construction_slug_redirects). The survivor records a 'merge' revision.
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+/**
+ * Which record a field value is taken from, keyed by revision diff path
+ */
+export type MergeChoices = Record<string, 'survivor' | 'loser'>;
+
+/**
+ * Field whose value differs between the two records
+ */
+export interface MergeField {
+  key: string; // Revision diff path ('construction.district', 'translations.pt.title', ...)
+  survivor: unknown;
+  loser: unknown;
+}
+
+// Identity, workflow and bookkeeping fields: always the survivor's, never offered as a choice
+const FIXED_FIELDS: Record<string, Set<string>> = {
+  construction: new Set([
+    'id', 'slug', 'typeCategory', 'status', 'createdBy', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy',
+    // Combined instead of chosen
+    'galleryImages', 'documentPaths',
+  ]),
+  translations: new Set(['constructionId', 'langCode']),
+  millsData: new Set(['constructionId']),
+  pocasData: new Set(['constructionId']),
+  waterLine: new Set(['id', 'constructionId', 'slug', 'createdAt', 'updatedAt']),
+  waterLineTranslations: new Set(['waterLineId', 'locale']),
+};
+
+/**
+ * Splits a diff path into its section, language (for translations) and field name
+ */
+function parseFieldKey(key: string): { section: string; lang: string | null; field: string } {
+  const parts = key.split('.');
+  if (parts[0] === 'waterLine' && parts[1] === 'translations') {
+    return { section: 'waterLineTranslations', lang: parts[2] ?? null, field: parts[3] ?? '' };
+  }
+  if (parts[0] === 'translations') {
+    return { section: 'translations', lang: parts[1] ?? null, field: parts[2] ?? '' };
+  }
+  return { section: parts[0] ?? '', lang: null, field: parts[1] ?? '' };
+}
+
+/**
+ * Returns the fields the admin chooses between, in diff order
+ *
+ * Translations of a language only one record has are not listed: they are kept or copied whole.
+ */
+export function getMergeFields(survivor: ConstructionSnapshot, loser: ConstructionSnapshot): MergeField[] {
+  const sharedLanguages = new Set(
+    survivor.translations
+      .map((translation) => translation.langCode)
+      .filter((langCode) => loser.translations.some((translation) => translation.langCode === langCode))
+  );
+  const sharedWaterLineLocales = new Set(
+    (survivor.waterLine?.translations ?? [])
+      .map((translation) => translation.locale)
+      .filter((locale) => loser.waterLine?.translations.some((translation) => translation.locale === locale))
+  );
+
+  return Object.entries(diffSnapshots(survivor, loser))
+    .filter(([key]) => {
+      const { section, lang, field } = parseFieldKey(key);
+      if (FIXED_FIELDS[section]?.has(field)) {
+        return false;
+      }
+      if (section === 'translations') {
+        return sharedLanguages.has(lang ?? '');
+      }
+      if (section === 'waterLineTranslations') {
+        return sharedWaterLineLocales.has(lang ?? '');
+      }
+      return true;
+    })
+    .map(([key, change]) => ({ key, survivor: change.from, loser: change.to }));
+}
+
+/**
+ * Builds the state of the survivor after the merge
+ *
+ * @param choices - Fields to take from the merged record; anything else keeps the survivor's value
+ */
+export function buildMergedSnapshot(
+  survivor: ConstructionSnapshot,
+  loser: ConstructionSnapshot,
+  choices: MergeChoices
+): ConstructionSnapshot {
+  const merged = structuredClone(survivor);
+
+  for (const { key, loser: value } of getMergeFields(survivor, loser)) {
+    if (choices[key] !== 'loser') {
+      continue;
+    }
+
+    const { section, lang, field } = parseFieldKey(key);
+    const target: Record<string, unknown> | null | undefined =
+      section === 'construction' ? merged.construction
+      : section === 'translations' ? merged.translations.find((translation) => translation.langCode === lang)
+      : section === 'millsData' ? merged.millsData
+      : section === 'pocasData' ? merged.pocasData
+      : section === 'waterLine' ? merged.waterLine
+      : section === 'waterLineTranslations' ? merged.waterLine?.translations.find((translation) => translation.locale === lang)
+      : null;
+
+    if (target) {
+      target[field] = value;
+    }
+  }
+
+  // Languages only the merged record has
+  for (const translation of loser.translations) {
+    if (!merged.translations.some((existing) => existing.langCode === translation.langCode)) {
+      merged.translations.push({ ...translation, constructionId: merged.construction.id });
+    }
+  }
+  if (merged.waterLine && loser.waterLine) {
+    for (const translation of loser.waterLine.translations) {
+      if (!merged.waterLine.translations.some((existing) => existing.locale === translation.locale)) {
+        merged.waterLine.translations.push({ ...translation, waterLineId: merged.waterLine.id });
+      }
+    }
+  }
+
+  // No image or document is lost: both lists are combined, plus the main image that lost
+  const mainImage = merged.construction.mainImage;
+  const galleryImages = [
+    ...(survivor.construction.galleryImages ?? []),
+    ...(loser.construction.galleryImages ?? []),
+    ...[survivor.construction.mainImage, loser.construction.mainImage].filter(
+      (image): image is string => !!image && image !== mainImage
+    ),
+  ];
+  const documentPaths = [
+    ...(survivor.construction.documentPaths ?? []),
+    ...(loser.construction.documentPaths ?? []),
+  ];
+  merged.construction.galleryImages = galleryImages.length > 0 ? Array.from(new Set(galleryImages)) : null;
+  merged.construction.documentPaths = documentPaths.length > 0 ? Array.from(new Set(documentPaths)) : null;
+
+  return merged;
+}
+
+/**
+ * Returns why two constructions cannot be merged, or null if they can
+ */
+export async function getMergeBlocker(
+  executor: DbExecutor,
+  survivorId: string,
+  loserId: string
+): Promise<string | null> {
+  if (survivorId === loserId) {
+    return 'A record cannot be merged with itself';
+  }
+
+  const records = await executor
+    .select({ id: constructions.id, typeCategory: constructions.typeCategory, deletedAt: constructions.deletedAt })
+    .from(constructions)
+    .where(inArray(constructions.id, [survivorId, loserId]));
+
+  if (records.length !== 2 || records.some((record) => record.deletedAt)) {
+    return 'Both records must exist and be outside the trash';
+  }
+  if (records[0]!.typeCategory !== records[1]!.typeCategory) {
+    return 'Only records of the same type can be merged';
+  }
+
+  const [pendingEdit] = await executor
+    .select({ id: pendingEdits.id })
+    .from(pendingEdits)
+    .where(inArray(pendingEdits.constructionId, [survivorId, loserId]))
+    .limit(1);
+
+  if (pendingEdit) {
+    return 'One of the records has a pending edit. Approve or reject it before merging';
+  }
+
+  return null;
+}
+
+/**
+ * Merges `loserId` into `survivorId` (see the module comment)
+ *
+ * The caller is responsible for permission checks and for getMergeBlocker.
+ */
+export async function mergeConstructionInto(
+  tx: DbTransaction,
+  input: { survivorId: string; loserId: string; choices: MergeChoices; userId: string }
+): Promise<void> {
+  const survivor = await takeConstructionSnapshot(tx, input.survivorId);
+  const loser = await takeConstructionSnapshot(tx, input.loserId);
+  if (!survivor || !loser) {
+    throw new Error('Failed to merge constructions - record not found');
+  }
+
+  await withRevision(tx, { constructionId: input.survivorId, action: 'merge', authorId: input.userId }, async () => {
+    await restoreConstructionSnapshot(tx, buildMergedSnapshot(survivor, loser, input.choices));
+
+    if (survivor.waterLine && loser.waterLine) {
+      await tx
+        .update(millsData)
+        .set({ waterLineId: survivor.waterLine.id })
+        .where(eq(millsData.waterLineId, loser.waterLine.id));
+
+      await tx
+        .update(pocasData)
+        .set({ waterLineId: survivor.waterLine.id })
+        .where(eq(pocasData.waterLineId, loser.waterLine.id));
+    }
+  });
+
+  await mergeContributors(tx, { survivorId: input.survivorId, loserId: input.loserId });
+
+  // Old URLs of the merged record (including earlier merges into it) lead to the survivor
+  await tx
+    .update(constructionSlugRedirects)
+    .set({ constructionId: input.survivorId })
+    .where(eq(constructionSlugRedirects.constructionId, input.loserId));
+
+  await tx
+    .insert(constructionSlugRedirects)
+    .values({ slug: loser.construction.slug, constructionId: input.survivorId })
+    .onConflictDoUpdate({
+      target: constructionSlugRedirects.slug,
+      set: { constructionId: input.survivorId, createdAt: new Date() },
+    });
+
+  await moveConstructionToTrash(tx, input.loserId, input.userId);
+}
@@ -0,0 +1,351 @@
+import {
+  typologyEnum,
+  epochEnum,
+  settingEnum,
+  currentUseEnum,
+  accessEnum,
+  legalProtectionEnum,
+  propertyStatusEnum,
+  planShapeEnum,
+  volumetryEnum,
+  constructionTechniqueEnum,
+  exteriorFinishEnum,
+  roofShapeEnum,
+  roofMaterialEnum,
+  captationTypeEnum,
+  conductionTypeEnum,
+  conductionStateEnum,
+  admissionRodizioEnum,
+  admissionAzenhaEnum,
+  wheelTypeRodizioEnum,
+  wheelTypeAzenhaEnum,
+  motiveApparatusEnum,
+  millstoneStateEnum,
+  epigraphyLocationEnum,
+  epigraphyTypeEnum,
+  conservationStateEnum,
+} from '@/db/schema';
+
+/**
+ * Mill CSV Import Utilities
+ *
+ * Parses spreadsheet transcriptions of the paper "Ficha de Inventário" into the
+ * field names of createMillConstructionSchema. This module only parses and coerces
+ * cell values; the server action (importMillConstructionsCsv) runs the Zod schema
+ * and writes the drafts.
+ *
+ * Column headers are matched case- and separator-insensitively, so both the form
+ * field names (legacyId, roofMaterial) and the database column names used by the
+ * inventory export (legacy_id, roof_material, lat, lng) are accepted.
+ */
+
+type MillImportFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'enum';
+
+interface MillImportField {
+  type: MillImportFieldType;
+  enumValues?: readonly string[];
+}
+
+/**
+ * Importable createMillConstructionSchema fields and how to coerce their cells
+ *
+ * Enum fields are checked against the pgEnum values so a typo is reported with the
+ * list of accepted values instead of a generic validation error.
+ */
+const MILL_IMPORT_FIELDS: Record<string, MillImportField> = {
+  // General Info
+  title: { type: 'string' },
+  description: { type: 'string' },
+  legacyId: { type: 'string' },
+  // Location
+  latitude: { type: 'number' },
+  longitude: { type: 'number' },
+  district: { type: 'string' },
+  municipality: { type: 'string' },
+  parish: { type: 'string' },
+  address: { type: 'string' },
+  place: { type: 'string' },
+  drainageBasin: { type: 'string' },
+  // Characterization (Section II)
+  typology: { type: 'enum', enumValues: typologyEnum.enumValues },
+  epoch: { type: 'enum', enumValues: epochEnum.enumValues },
+  setting: { type: 'enum', enumValues: settingEnum.enumValues },
+  currentUse: { type: 'enum', enumValues: currentUseEnum.enumValues },
+  // Access & Legal
+  access: { type: 'enum', enumValues: accessEnum.enumValues },
+  legalProtection: { type: 'enum', enumValues: legalProtectionEnum.enumValues },
+  propertyStatus: { type: 'enum', enumValues: propertyStatusEnum.enumValues },
+  // Architecture (Section III)
+  planShape: { type: 'enum', enumValues: planShapeEnum.enumValues },
+  volumetry: { type: 'enum', enumValues: volumetryEnum.enumValues },
+  constructionTechnique: { type: 'enum', enumValues: constructionTechniqueEnum.enumValues },
+  exteriorFinish: { type: 'enum', enumValues: exteriorFinishEnum.enumValues },
+  roofShape: { type: 'enum', enumValues: roofShapeEnum.enumValues },
+  roofMaterial: { type: 'enum', enumValues: roofMaterialEnum.enumValues },
+  length: { type: 'number' },
+  width: { type: 'number' },
+  height: { type: 'number' },
+  stoneTypeGranite: { type: 'boolean' },
+  stoneTypeSchist: { type: 'boolean' },
+  stoneTypeOther: { type: 'boolean' },
+  stoneMaterialDescription: { type: 'string' },
+  gableMaterialLusa: { type: 'boolean' },
+  gableMaterialMarselha: { type: 'boolean' },
+  gableMaterialMeiaCana: { type: 'boolean' },
+  // Motive Systems - Hydraulic (Section IV)
+  captationType: { type: 'enum', enumValues: captationTypeEnum.enumValues },
+  conductionType: { type: 'enum', enumValues: conductionTypeEnum.enumValues },
+  conductionState: { type: 'enum', enumValues: conductionStateEnum.enumValues },
+  admissionRodizio: { type: 'enum', enumValues: admissionRodizioEnum.enumValues },
+  admissionAzenha: { type: 'enum', enumValues: admissionAzenhaEnum.enumValues },
+  wheelTypeRodizio: { type: 'enum', enumValues: wheelTypeRodizioEnum.enumValues },
+  wheelTypeAzenha: { type: 'enum', enumValues: wheelTypeAzenhaEnum.enumValues },
+  rodizioQty: { type: 'integer' },
+  azenhaQty: { type: 'integer' },
+  // Motive Systems - Wind
+  motiveApparatus: { type: 'enum', enumValues: motiveApparatusEnum.enumValues },
+  // Grinding Mechanism
+  millstoneQuantity: { type: 'integer' },
+  millstoneDiameter: { type: 'string' },
+  millstoneState: { type: 'enum', enumValues: millstoneStateEnum.enumValues },
+  hasTremonha: { type: 'boolean' },
+  hasQuelha: { type: 'boolean' },
+  hasUrreiro: { type: 'boolean' },
+  hasAliviadouro: { type: 'boolean' },
+  hasFarinaleiro: { type: 'boolean' },
+  // Epigraphy (Section V)
+  epigraphyPresence: { type: 'boolean' },
+  epigraphyLocation: { type: 'enum', enumValues: epigraphyLocationEnum.enumValues },
+  epigraphyType: { type: 'enum', enumValues: epigraphyTypeEnum.enumValues },
+  epigraphyDescription: { type: 'string' },
+  // Conservation Ratings (Section VI)
+  ratingStructure: { type: 'enum', enumValues: conservationStateEnum.enumValues },
+  ratingRoof: { type: 'enum', enumValues: conservationStateEnum.enumValues },
+  ratingHydraulic: { type: 'enum', enumValues: conservationStateEnum.enumValues },
+  ratingMechanism: { type: 'enum', enumValues: conservationStateEnum.enumValues },
+  ratingOverall: { type: 'enum', enumValues: conservationStateEnum.enumValues },
+  observationsStructure: { type: 'string' },
+  observationsRoof: { type: 'string' },
+  observationsHydraulic: { type: 'string' },
+  observationsMechanism: { type: 'string' },
+  observationsGeneral: { type: 'string' },
+  // Annexes
+  hasOven: { type: 'boolean' },
+  hasMillerHouse: { type: 'boolean' },
+  hasStable: { type: 'boolean' },
+  hasFullingMill: { type: 'boolean' },
+  // Hydraulic Infrastructure
+  waterLineId: { type: 'string' },
+};
+
+/**
+ * Field names accepted as CSV headers (in form order), for the import page help text
+ */
+export const MILL_IMPORT_COLUMNS = Object.keys(MILL_IMPORT_FIELDS);
+
+/**
+ * Columns that must be present in the header row
+ */
+export const MILL_IMPORT_REQUIRED_COLUMNS = ['title', 'latitude', 'longitude', 'typology'];
+
+/**
+ * Extra header spellings (normalized) mapped to field names
+ */
+const HEADER_ALIASES: Record<string, string> = {
+  lat: 'latitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  long: 'longitude',
+  titulo: 'title',
+  descricao: 'description',
+  distrito: 'district',
+  concelho: 'municipality',
+  freguesia: 'parish',
+  lugar: 'place',
+  morada: 'address',
+  tipologia: 'typology',
+};
+
+// Cell values accepted as booleans (checkbox columns in the fichas)
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'sim', 's', 'x'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'nao', 'não'];
+
+/**
+ * Normalizes a header for matching: lowercase, accents and separators removed
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+const FIELD_BY_NORMALIZED_HEADER = new Map<string, string>([
+  ...MILL_IMPORT_COLUMNS.map((field) => [normalizeHeader(field), field] as [string, string]),
+  ...Object.entries(HEADER_ALIASES),
+]);
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180)
+ *
+ * Supports quoted fields with embedded delimiters, quotes and line breaks.
+ * The delimiter is detected from the header line: spreadsheets saved with a
+ * Portuguese locale use ';' instead of ','.
+ */
+function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (e.g. trailing newlines or empty spreadsheet rows)
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Coerces a raw cell into the field's type
+ *
+ * @returns Coerced value, or an error message
+ */
+function coerceCell(
+  field: string,
+  definition: MillImportField,
+  raw: string
+): { value: unknown } | { error: string } {
+  switch (definition.type) {
+    case 'number':
+    case 'integer': {
+      // Accept decimal commas ("5,45") as written in Portuguese spreadsheets
+      const value = Number(raw.includes('.') ? raw : raw.replace(',', '.'));
+      if (isNaN(value) || (definition.type === 'integer' && !Number.isInteger(value))) {
+        return { error: `${field}: "${raw}" is not a valid ${definition.type}` };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const normalized = raw.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: `${field}: "${raw}" is not a valid boolean (use true/false, sim/não or x)` };
+    }
+    case 'enum': {
+      const value = raw.toLowerCase();
+      if (!definition.enumValues?.includes(value)) {
+        return { error: `${field}: "${raw}" is not allowed. Allowed values: ${definition.enumValues?.join(', ')}` };
+      }
+      return { value };
+    }
+    default:
+      return { value: raw };
+  }
+}
+
+/**
+ * A parsed CSV data row, ready for schema validation
+ */
+export interface ParsedMillImportRow {
+  rowNumber: number; // Spreadsheet row number (header is row 1)
+  values: Record<string, unknown>; // Coerced values keyed by createMillConstructionSchema field
+  errors: string[]; // Cell-level errors (type coercion, enum values)
+}
+
+/**
+ * Parsed CSV file
+ */
+export interface ParsedMillImport {
+  rows: ParsedMillImportRow[];
+  ignoredColumns: string[]; // Headers that did not match any field
+}
+
+/**
+ * Parses a mill import CSV into coerced rows
+ *
+ * Empty cells are omitted so optional fields fall back to the schema defaults.
+ *
+ * @param csvText - Raw CSV file contents
+ * @returns Standardized response with parsed rows, or a file-level error
+ */
+export function parseMillImportCsv(
+  csvText: string
+): { success: true; data: ParsedMillImport } | { success: false; error: string } {
+  const [headerRow, ...dataRows] = parseCsv(csvText);
+  if (!headerRow) {
+    return { success: false, error: 'The file is empty' };
+  }
+
+  const fields = headerRow.map((header) => FIELD_BY_NORMALIZED_HEADER.get(normalizeHeader(header)) ?? null);
+
+  const missing = MILL_IMPORT_REQUIRED_COLUMNS.filter((field) => !fields.includes(field));
+  if (missing.length > 0) {
+    return { success: false, error: `Missing required columns: ${missing.join(', ')}` };
+  }
+
+  if (dataRows.length === 0) {
+    return { success: false, error: 'The file has no data rows' };
+  }
+
+  const rows = dataRows.map((cells, index) => {
+    const values: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    fields.forEach((field, column) => {
+      const raw = cells[column]?.trim() ?? '';
+      if (!field || raw === '') return;
+
+      const result = coerceCell(field, MILL_IMPORT_FIELDS[field]!, raw);
+      if ('error' in result) {
+        errors.push(result.error);
+      } else {
+        values[field] = result.value;
+      }
+    });
+
+    return { rowNumber: index + 2, values, errors };
+  });
+
+  return {
+    success: true,
+    data: {
+      rows,
+      ignoredColumns: headerRow.filter((header, column) => !fields[column] && header.trim() !== ''),
+    },
+  };
+}
@@ -0,0 +1,535 @@
+import {
+  getHarvestableConstructions,
+  getHarvestingSummary,
+  type HarvestableConstruction,
+} from '@/actions/public';
+import { routing } from '@/i18n/routing';
+import { generateSlug } from '@/lib/slug';
+import { getPublicUrl } from '@/lib/storage';
+
+/**
+ * OAI-PMH 2.0 Data Provider
+ *
+ * Implements the six protocol verbs over published constructions for heritage
+ * aggregators (Europeana-style harvesters):
+ * - Metadata format: oai_dc (Dublin Core), mapped from constructions and their translations
+ * - Sets: "type:<typeCategory>" and "district:<district slug>" (with "type" and "district" parents)
+ * - Datestamps: constructions.updatedAt, second granularity (from/until selective harvesting)
+ * - Flow control: stateless resumption tokens encoding the request arguments and offset
+ *
+ * Spec: https://www.openarchives.org/OAI/openarchivesprotocol.html
+ */
+
+export const OAI_BASE_PATH = '/api/oai';
+
+export const OAI_PAGE_SIZE = 100;
+
+const OAI_DC_PREFIX = 'oai_dc';
+
+const REPOSITORY_NAME = 'MTTC Project';
+
+const TYPE_CATEGORY_LABELS: Record<string, string> = {
+  MILL: 'Mill',
+  POCA: 'Poça (water pool)',
+  water_line: 'Levada (water channel)',
+};
+
+type OaiVerb = 'Identify' | 'ListMetadataFormats' | 'ListSets' | 'ListIdentifiers' | 'ListRecords' | 'GetRecord';
+
+const OAI_VERBS: OaiVerb[] = ['Identify', 'ListMetadataFormats', 'ListSets', 'ListIdentifiers', 'ListRecords', 'GetRecord'];
+
+// Arguments allowed for each verb (besides "verb")
+const VERB_ARGUMENTS: Record<OaiVerb, string[]> = {
+  Identify: [],
+  ListMetadataFormats: ['identifier'],
+  ListSets: ['resumptionToken'],
+  ListIdentifiers: ['metadataPrefix', 'from', 'until', 'set', 'resumptionToken'],
+  ListRecords: ['metadataPrefix', 'from', 'until', 'set', 'resumptionToken'],
+  GetRecord: ['identifier', 'metadataPrefix'],
+};
+
+type OaiErrorCode =
+  | 'badArgument'
+  | 'badResumptionToken'
+  | 'badVerb'
+  | 'cannotDisseminateFormat'
+  | 'idDoesNotExist'
+  | 'noRecordsMatch';
+
+class OaiError extends Error {
+  constructor(
+    public code: OaiErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Arguments of a list request, encoded in resumption tokens
+ */
+interface ListArguments {
+  metadataPrefix: string;
+  from?: string;
+  until?: string;
+  set?: string;
+  offset: number;
+}
+
+/**
+ * Escapes text for XML element content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats a date as an OAI datestamp (YYYY-MM-DDThh:mm:ssZ)
+ */
+function toDatestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Parses a from/until argument (day or second granularity)
+ *
+ * Returns the lower bound for "from" and the exclusive upper bound for "until"
+ * (the end of the given day or second).
+ */
+function parseDatestamp(value: string, bound: 'from' | 'until'): Date {
+  const match = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}Z)?$/.exec(value);
+  const date = match ? new Date(match[1] ? value : `${value}T00:00:00Z`) : null;
+
+  if (!date || isNaN(date.getTime())) {
+    throw new OaiError('badArgument', `Invalid ${bound} datestamp: ${value}`);
+  }
+
+  if (bound === 'until') {
+    date.setTime(date.getTime() + (match![1] ? 1000 : 24 * 60 * 60 * 1000));
+  }
+  return date;
+}
+
+/**
+ * Returns the repository identifier used in OAI identifiers (the site host name)
+ */
+function getRepositoryIdentifier(baseUrl: string): string {
+  return new URL(baseUrl).hostname;
+}
+
+/**
+ * Builds the OAI identifier of a construction (oai:<host>:<uuid>)
+ */
+function toOaiIdentifier(baseUrl: string, id: string): string {
+  return `oai:${getRepositoryIdentifier(baseUrl)}:${id}`;
+}
+
+/**
+ * Extracts the construction id from an OAI identifier (null if it is not ours)
+ */
+function fromOaiIdentifier(baseUrl: string, identifier: string): string | null {
+  const prefix = `oai:${getRepositoryIdentifier(baseUrl)}:`;
+  const id = identifier.startsWith(prefix) ? identifier.slice(prefix.length) : '';
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) ? id : null;
+}
+
+/**
+ * Returns the leaf setSpecs a construction belongs to (parents are implied by the hierarchy)
+ */
+function getSetSpecs(construction: HarvestableConstruction): string[] {
+  const districtSlug = construction.district ? generateSlug(construction.district) : '';
+  return [`type:${construction.typeCategory}`, ...(districtSlug ? [`district:${districtSlug}`] : [])];
+}
+
+/**
+ * Resolves a setSpec to query filters
+ *
+ * @throws OaiError noRecordsMatch when the set does not exist
+ */
+async function resolveSet(
+  setSpec: string | undefined
+): Promise<{ typeCategory?: string; district?: string; hasDistrict?: boolean }> {
+  // Parent sets: every construction has a type, but not every one has a district
+  if (!setSpec || setSpec === 'type') return {};
+  if (setSpec === 'district') return { hasDistrict: true };
+
+  const summary = await getHarvestingSummary();
+  if (!summary.success) {
+    throw new Error(summary.error);
+  }
+
+  const [kind, value] = setSpec.split(/:(.*)/);
+  if (kind === 'type' && value && summary.data.typeCategories.includes(value)) {
+    return { typeCategory: value };
+  }
+  if (kind === 'district' && value) {
+    const district = summary.data.districts.find((name) => generateSlug(name) === value);
+    if (district) return { district };
+  }
+
+  throw new OaiError('noRecordsMatch', `No records in set: ${setSpec}`);
+}
+
+/**
+ * Encodes list arguments as an opaque resumption token
+ */
+function encodeResumptionToken(args: ListArguments): string {
+  return Buffer.from(JSON.stringify(args)).toString('base64url');
+}
+
+/**
+ * Decodes a resumption token
+ *
+ * @throws OaiError badResumptionToken when the token is malformed
+ */
+function decodeResumptionToken(token: string): ListArguments {
+  try {
+    const args = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as ListArguments;
+    const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+    if (
+      typeof args.metadataPrefix !== 'string' ||
+      !Number.isInteger(args.offset) ||
+      args.offset < 0 ||
+      !isOptionalString(args.from) ||
+      !isOptionalString(args.until) ||
+      !isOptionalString(args.set)
+    ) {
+      throw new Error('Invalid token payload');
+    }
+    return args;
+  } catch {
+    throw new OaiError('badResumptionToken', 'The resumptionToken is invalid or expired');
+  }
+}
+
+/**
+ * Builds the <header> of a record
+ */
+function buildHeader(construction: HarvestableConstruction, baseUrl: string): string {
+  const setSpecs = getSetSpecs(construction)
+    .map((spec) => `<setSpec>${escapeXml(spec)}</setSpec>`)
+    .join('');
+
+  return `<header><identifier>${escapeXml(toOaiIdentifier(baseUrl, construction.id))}</identifier>` +
+    `<datestamp>${toDatestamp(construction.updatedAt)}</datestamp>${setSpecs}</header>`;
+}
+
+/**
+ * Maps a construction to Dublin Core (oai_dc)
+ *
+ * - title / description / language: one element per translation (xml:lang)
+ * - identifier: public page URL (mills and levadas) and legacy inventory code
+ * - subject / type: type category, typology (mills) and DCMI type PhysicalObject
+ * - coverage: place names and a DCMI Point (WGS 84)
+ */
+function buildDublinCore(construction: HarvestableConstruction, baseUrl: string): string {
+  const element = (name: string, value: string, language?: string) =>
+    `<dc:${name}${language ? ` xml:lang="${escapeXml(language)}"` : ''}>${escapeXml(value)}</dc:${name}>`;
+
+  const pagePath =
+    construction.typeCategory === 'MILL' ? 'mill' : construction.typeCategory === 'water_line' ? 'levada' : null;
+  const imageUrls = [construction.mainImage, ...(construction.galleryImages ?? [])]
+    .map((path) => (path ? getPublicUrl(path) : null))
+    .filter((url): url is string => url !== null);
+  const placeName = [construction.place, construction.parish, construction.municipality, construction.district]
+    .filter(Boolean)
+    .join(', ');
+
+  const elements = [
+    ...construction.translations.map((translation) => element('title', translation.title, translation.locale)),
+    ...construction.translations
+      .filter((translation) => translation.description)
+      .map((translation) => element('description', translation.description!, translation.locale)),
+    element('type', 'PhysicalObject'),
+    element('subject', TYPE_CATEGORY_LABELS[construction.typeCategory] ?? construction.typeCategory),
+    ...(construction.typology ? [element('subject', construction.typology)] : []),
+    ...(pagePath
+      ? routing.locales.map((locale) => element('identifier', `${baseUrl}/${locale}/${pagePath}/${construction.slug}`))
+      : []),
+    ...(construction.legacyId ? [element('identifier', construction.legacyId)] : []),
+    ...(placeName ? [element('coverage', placeName)] : []),
+    ...(construction.lat !== null && construction.lng !== null
+      ? [element('coverage', `east=${construction.lng}; north=${construction.lat}; projection=WGS84`)]
+      : []),
+    element('date', construction.createdAt.toISOString().slice(0, 10)),
+    ...Array.from(new Set(construction.translations.map((translation) => translation.locale))).map((locale) =>
+      element('language', locale)
+    ),
+    element('publisher', REPOSITORY_NAME),
+    ...imageUrls.map((url) => element('relation', url)),
+  ];
+
+  return '<oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    'xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/oai_dc/ http://www.openarchives.org/OAI/2.0/oai_dc.xsd">' +
+    `${elements.join('')}</oai_dc:dc>`;
+}
+
+/**
+ * Validates the request arguments against the verb
+ *
+ * @throws OaiError badVerb / badArgument
+ */
+function validateArguments(params: URLSearchParams): OaiVerb {
+  const verb = params.get('verb');
+  if (!verb || params.getAll('verb').length > 1 || !OAI_VERBS.includes(verb as OaiVerb)) {
+    throw new OaiError('badVerb', verb ? `Illegal verb: ${verb}` : 'Missing verb argument');
+  }
+
+  const allowed = VERB_ARGUMENTS[verb as OaiVerb];
+  for (const key of new Set(params.keys())) {
+    if (key === 'verb') continue;
+    if (!allowed.includes(key)) {
+      throw new OaiError('badArgument', `Illegal argument for ${verb}: ${key}`);
+    }
+    if (params.getAll(key).length > 1) {
+      throw new OaiError('badArgument', `Repeated argument: ${key}`);
+    }
+  }
+
+  if (params.has('resumptionToken') && Array.from(params.keys()).some((key) => key !== 'verb' && key !== 'resumptionToken')) {
+    throw new OaiError('badArgument', 'resumptionToken is an exclusive argument');
+  }
+
+  return verb as OaiVerb;
+}
+
+/**
+ * Checks the metadataPrefix argument
+ *
+ * @throws OaiError badArgument / cannotDisseminateFormat
+ */
+function requireMetadataPrefix(metadataPrefix: string | null): string {
+  if (!metadataPrefix) {
+    throw new OaiError('badArgument', 'Missing metadataPrefix argument');
+  }
+  if (metadataPrefix !== OAI_DC_PREFIX) {
+    throw new OaiError('cannotDisseminateFormat', `Unsupported metadata format: ${metadataPrefix}`);
+  }
+  return metadataPrefix;
+}
+
+async function handleIdentify(baseUrl: string): Promise<string> {
+  const summary = await getHarvestingSummary();
+  if (!summary.success) {
+    throw new Error(summary.error);
+  }
+
+  const earliest = summary.data.earliestUpdatedAt ?? new Date(0);
+  const adminEmail = process.env.OAI_ADMIN_EMAIL || `admin@${getRepositoryIdentifier(baseUrl)}`;
+
+  return '<Identify>' +
+    `<repositoryName>${escapeXml(REPOSITORY_NAME)}</repositoryName>` +
+    `<baseURL>${escapeXml(`${baseUrl}${OAI_BASE_PATH}`)}</baseURL>` +
+    '<protocolVersion>2.0</protocolVersion>' +
+    `<adminEmail>${escapeXml(adminEmail)}</adminEmail>` +
+    `<earliestDatestamp>${toDatestamp(earliest)}</earliestDatestamp>` +
+    '<deletedRecord>no</deletedRecord>' +
+    '<granularity>YYYY-MM-DDThh:mm:ssZ</granularity>' +
+    '<description><oai-identifier xmlns="http://www.openarchives.org/OAI/2.0/oai-identifier" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    'xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/oai-identifier http://www.openarchives.org/OAI/2.0/oai-identifier.xsd">' +
+    '<scheme>oai</scheme>' +
+    `<repositoryIdentifier>${escapeXml(getRepositoryIdentifier(baseUrl))}</repositoryIdentifier>` +
+    '<delimiter>:</delimiter>' +
+    `<sampleIdentifier>${escapeXml(toOaiIdentifier(baseUrl, '00000000-0000-0000-0000-000000000000'))}</sampleIdentifier>` +
+    '</oai-identifier></description>' +
+    '</Identify>';
+}
+
+async function handleListMetadataFormats(params: URLSearchParams, baseUrl: string): Promise<string> {
+  const identifier = params.get('identifier');
+  if (identifier) {
+    await getRecordById(identifier, baseUrl);
+  }
+
+  return '<ListMetadataFormats><metadataFormat>' +
+    `<metadataPrefix>${OAI_DC_PREFIX}</metadataPrefix>` +
+    '<schema>http://www.openarchives.org/OAI/2.0/oai_dc.xsd</schema>' +
+    '<metadataNamespace>http://www.openarchives.org/OAI/2.0/oai_dc/</metadataNamespace>' +
+    '</metadataFormat></ListMetadataFormats>';
+}
+
+async function handleListSets(params: URLSearchParams): Promise<string> {
+  if (params.has('resumptionToken')) {
+    // The set list is always returned complete
+    throw new OaiError('badResumptionToken', 'The resumptionToken is invalid or expired');
+  }
+
+  const summary = await getHarvestingSummary();
+  if (!summary.success) {
+    throw new Error(summary.error);
+  }
+
+  const set = (spec: string, name: string) =>
+    `<set><setSpec>${escapeXml(spec)}</setSpec><setName>${escapeXml(name)}</setName></set>`;
+
+  const districtSets = new Map(summary.data.districts.map((district) => [generateSlug(district), district]));
+
+  return '<ListSets>' +
+    set('type', 'Construction types') +
+    summary.data.typeCategories
+      .map((typeCategory) => set(`type:${typeCategory}`, TYPE_CATEGORY_LABELS[typeCategory] ?? typeCategory))
+      .join('') +
+    set('district', 'Districts') +
+    Array.from(districtSets.entries())
+      .filter(([slug]) => slug)
+      .map(([slug, district]) => set(`district:${slug}`, district))
+      .join('') +
+    '</ListSets>';
+}
+
+/**
+ * Handles ListIdentifiers and ListRecords (same selection, different payload)
+ */
+async function handleList(params: URLSearchParams, baseUrl: string, withMetadata: boolean): Promise<string> {
+  const token = params.get('resumptionToken');
+  const args: ListArguments = token
+    ? decodeResumptionToken(token)
+    : {
+        metadataPrefix: requireMetadataPrefix(params.get('metadataPrefix')),
+        from: params.get('from') ?? undefined,
+        until: params.get('until') ?? undefined,
+        set: params.get('set') ?? undefined,
+        offset: 0,
+      };
+
+  requireMetadataPrefix(args.metadataPrefix);
+
+  const from = args.from ? parseDatestamp(args.from, 'from') : undefined;
+  const until = args.until ? parseDatestamp(args.until, 'until') : undefined;
+  if (args.from && args.until && args.from.length !== args.until.length) {
+    throw new OaiError('badArgument', 'from and until must have the same granularity');
+  }
+
+  const setFilters = await resolveSet(args.set);
+  const result = await getHarvestableConstructions({
+    from,
+    until,
+    ...setFilters,
+    offset: args.offset,
+    limit: OAI_PAGE_SIZE,
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  const items = result.data.items;
+  if (items.length === 0 && args.offset === 0) {
+    throw new OaiError('noRecordsMatch', 'No records match the request arguments');
+  }
+
+  const nextOffset = args.offset + items.length;
+  const hasMore = nextOffset < result.data.total;
+  const resumption = token || hasMore
+    ? `<resumptionToken completeListSize="${result.data.total}" cursor="${args.offset}">` +
+      `${hasMore ? encodeResumptionToken({ ...args, offset: nextOffset }) : ''}</resumptionToken>`
+    : '';
+
+  const entries = items.map((item) =>
+    withMetadata
+      ? `<record>${buildHeader(item, baseUrl)}<metadata>${buildDublinCore(item, baseUrl)}</metadata></record>`
+      : buildHeader(item, baseUrl)
+  );
+
+  const element = withMetadata ? 'ListRecords' : 'ListIdentifiers';
+  return `<${element}>${entries.join('')}${resumption}</${element}>`;
+}
+
+/**
+ * Loads a published construction by OAI identifier
+ *
+ * @throws OaiError idDoesNotExist
+ */
+async function getRecordById(identifier: string, baseUrl: string): Promise<HarvestableConstruction> {
+  const id = fromOaiIdentifier(baseUrl, identifier);
+  const result = id ? await getHarvestableConstructions({ id, limit: 1 }) : null;
+
+  if (result && !result.success) {
+    throw new Error(result.error);
+  }
+
+  const construction = result?.data.items[0];
+  if (!construction) {
+    throw new OaiError('idDoesNotExist', `Unknown identifier: ${identifier}`);
+  }
+  return construction;
+}
+
+async function handleGetRecord(params: URLSearchParams, baseUrl: string): Promise<string> {
+  const identifier = params.get('identifier');
+  if (!identifier) {
+    throw new OaiError('badArgument', 'Missing identifier argument');
+  }
+  requireMetadataPrefix(params.get('metadataPrefix'));
+
+  const construction = await getRecordById(identifier, baseUrl);
+
+  return `<GetRecord><record>${buildHeader(construction, baseUrl)}` +
+    `<metadata>${buildDublinCore(construction, baseUrl)}</metadata></record></GetRecord>`;
+}
+
+/**
+ * Handles an OAI-PMH request and returns the XML response document
+ *
+ * Protocol errors are returned as <error> elements (HTTP 200, as required by the spec);
+ * unexpected errors are rethrown for the route handler.
+ *
+ * @param params - Request arguments (query string for GET, form body for POST)
+ * @param baseUrl - Site origin (see getSiteUrl)
+ */
+export async function handleOaiRequest(params: URLSearchParams, baseUrl: string): Promise<string> {
+  let body: string;
+  let requestAttributes = '';
+
+  try {
+    const verb = validateArguments(params);
+    // Echo the arguments only for valid requests (spec 3.2)
+    requestAttributes = Array.from(params.entries())
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join('');
+
+    switch (verb) {
+      case 'Identify':
+        body = await handleIdentify(baseUrl);
+        break;
+      case 'ListMetadataFormats':
+        body = await handleListMetadataFormats(params, baseUrl);
+        break;
+      case 'ListSets':
+        body = await handleListSets(params);
+        break;
+      case 'ListIdentifiers':
+        body = await handleList(params, baseUrl, false);
+        break;
+      case 'ListRecords':
+        body = await handleList(params, baseUrl, true);
+        break;
+      case 'GetRecord':
+        body = await handleGetRecord(params, baseUrl);
+        break;
+    }
+  } catch (error) {
+    if (!(error instanceof OaiError)) {
+      throw error;
+    }
+    if (error.code === 'badVerb' || error.code === 'badArgument') {
+      requestAttributes = '';
+    }
+    body = `<error code="${error.code}">${escapeXml(error.message)}</error>`;
+  }
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    'xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/ http://www.openarchives.org/OAI/2.0/OAI-PMH.xsd">' +
+    `<responseDate>${toDatestamp(new Date())}</responseDate>` +
+    `<request${requestAttributes}>${escapeXml(`${baseUrl}${OAI_BASE_PATH}`)}</request>` +
+    `${body}</OAI-PMH>\n`;
+}
@@ -0,0 +1,332 @@
+import { NextResponse } from 'next/server';
+import {
+  getPublishedMills,
+  getPublishedPocas,
+  getPublishedWaterLines,
+  type BoundingBox,
+  type MillFilters,
+} from '@/actions/public';
+import { parseBoundingBox } from '@/lib/api';
+import { millToFeature, pocaToFeature, waterLineToFeature } from '@/lib/geojson';
+import type { GeoJSONFeature } from '@/types/geojson';
+import type {
+  OgcCollection,
+  OgcCollections,
+  OgcConformance,
+  OgcFeature,
+  OgcFeatureCollection,
+  OgcLandingPage,
+  OgcLink,
+} from '@/types/ogc';
+
+/**
+ * OGC API - Features Utilities
+ *
+ * Builds the response documents for the OGC API - Features service under /api/ogc
+ * (landing page, conformance, collections, items, single item) so desktop GIS
+ * (QGIS, ArcGIS Pro) can add the inventory layers as live WFS3-style layers.
+ *
+ * Features come from the same published-only queries as the map page
+ * (getPublishedMills, getPublishedPocas, getPublishedWaterLines), which read the
+ * PostGIS constructions.geom and water_lines.path columns. Only CRS84 is served.
+ *
+ * Feature ids are construction UUIDs in every collection. Levadas also carry the
+ * water_lines id as the waterLineId property, the value mills and poças reference.
+ */
+
+export const OGC_BASE_PATH = '/api/ogc';
+
+export const CRS84 = 'http://www.opengis.net/def/crs/OGC/1.3/CRS84';
+
+export const OGC_DEFAULT_LIMIT = 10;
+export const OGC_MAX_LIMIT = 10000;
+
+const CONFORMANCE_CLASSES = [
+  'http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/core',
+  'http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/geojson',
+];
+
+/**
+ * Feature collections exposed by the service
+ */
+const OGC_COLLECTIONS = {
+  mills: {
+    title: 'Mills',
+    description: 'Published traditional mills (points). Accepts the map filters (typology, district, ...) as additional query parameters.',
+  },
+  pocas: {
+    title: 'Poças',
+    description: 'Published poças - water reservoirs feeding the levadas (points).',
+  },
+  levadas: {
+    title: 'Levadas',
+    description: 'Published levadas - water channels (line strings).',
+  },
+} as const;
+
+export type OgcCollectionId = keyof typeof OGC_COLLECTIONS;
+
+export const OGC_COLLECTION_IDS = Object.keys(OGC_COLLECTIONS) as OgcCollectionId[];
+
+export function isOgcCollectionId(value: string): value is OgcCollectionId {
+  return Object.prototype.hasOwnProperty.call(OGC_COLLECTIONS, value);
+}
+
+/**
+ * Returns an OGC exception response ({ code, description })
+ */
+export function ogcError(code: string, description: string, status: number) {
+  return NextResponse.json({ code, description }, { status });
+}
+
+/**
+ * Returns a JSON response with the given media type
+ */
+export function ogcResponse(body: unknown, contentType = 'application/json') {
+  return new NextResponse(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': `${contentType}; charset=utf-8` },
+  });
+}
+
+/**
+ * Builds the landing page document
+ *
+ * @param baseUrl - Request origin (e.g. https://example.org)
+ */
+export function buildLandingPage(baseUrl: string): OgcLandingPage {
+  const root = `${baseUrl}${OGC_BASE_PATH}`;
+
+  return {
+    title: 'MTTC Project - OGC API Features',
+    description: 'Published inventory of traditional mills, poças and levadas',
+    links: [
+      { href: root, rel: 'self', type: 'application/json', title: 'This document' },
+      { href: `${root}/conformance`, rel: 'conformance', type: 'application/json', title: 'Conformance classes' },
+      { href: `${root}/collections`, rel: 'data', type: 'application/json', title: 'Feature collections' },
+    ],
+  };
+}
+
+/**
+ * Builds the conformance document
+ */
+export function buildConformance(): OgcConformance {
+  return { conformsTo: CONFORMANCE_CLASSES };
+}
+
+/**
+ * Builds the metadata document for a single collection
+ */
+export function buildCollection(baseUrl: string, collectionId: OgcCollectionId): OgcCollection {
+  const href = `${baseUrl}${OGC_BASE_PATH}/collections/${collectionId}`;
+
+  return {
+    id: collectionId,
+    title: OGC_COLLECTIONS[collectionId].title,
+    description: OGC_COLLECTIONS[collectionId].description,
+    itemType: 'feature',
+    crs: [CRS84],
+    links: [
+      { href, rel: 'self', type: 'application/json', title: 'This collection' },
+      { href: `${href}/items`, rel: 'items', type: 'application/geo+json', title: 'Features' },
+    ],
+  };
+}
+
+/**
+ * Builds the collections list document
+ */
+export function buildCollections(baseUrl: string): OgcCollections {
+  return {
+    collections: OGC_COLLECTION_IDS.map((collectionId) => buildCollection(baseUrl, collectionId)),
+    links: [
+      { href: `${baseUrl}${OGC_BASE_PATH}/collections`, rel: 'self', type: 'application/json', title: 'This document' },
+    ],
+  };
+}
+
+/**
+ * Query parameters accepted by the items endpoint
+ */
+export interface OgcItemsParams {
+  limit: number;
+  offset: number;
+  bbox: BoundingBox | null;
+}
+
+/**
+ * Parses limit/offset/bbox for the items endpoint
+ *
+ * Per the spec, a limit above the server maximum is clamped rather than rejected.
+ *
+ * @returns Standardized result with parsed params or a validation error
+ */
+export function parseOgcItemsParams(
+  searchParams: URLSearchParams
+): { success: true; data: OgcItemsParams } | { success: false; error: string } {
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : OGC_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { success: false, error: 'Invalid limit. Must be a positive integer' };
+  }
+
+  const offsetParam = searchParams.get('offset');
+  const offset = offsetParam ? Number(offsetParam) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { success: false, error: 'Invalid offset. Must be a non-negative integer' };
+  }
+
+  const bboxCrs = searchParams.get('bbox-crs');
+  if (bboxCrs && bboxCrs !== CRS84) {
+    return { success: false, error: `Unsupported bbox-crs. Only ${CRS84} is supported` };
+  }
+
+  const bboxParam = searchParams.get('bbox');
+  const bbox = bboxParam ? parseBoundingBox(bboxParam) : null;
+  if (bboxParam && !bbox) {
+    return { success: false, error: 'Invalid bbox. Expected minLng,minLat,maxLng,maxLat' };
+  }
+
+  return {
+    success: true,
+    data: { limit: Math.min(limit, OGC_MAX_LIMIT), offset, bbox },
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Fetches all matching features of a collection as GeoJSON
+ *
+ * Features are ordered by id so offset paging stays stable between requests.
+ *
+ * @param collectionId - Collection identifier
+ * @param locale - Language code ('pt' | 'en')
+ * @param options - Bounding box and (mills only) map filters
+ * @returns Standardized response with array of GeoJSON features
+ */
+export async function getCollectionFeatures(
+  collectionId: OgcCollectionId,
+  locale: string,
+  options: {
+    bbox?: BoundingBox;
+    millFilters?: MillFilters;
+  } = {}
+): Promise<
+  | { success: true; data: GeoJSONFeature[] }
+  | { success: false; error: string }
+> {
+  const byId = (a: GeoJSONFeature, b: GeoJSONFeature) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+  switch (collectionId) {
+    case 'mills': {
+      const result = await getPublishedMills(locale, { ...options.millFilters, bbox: options.bbox });
+      return result.success ? { success: true, data: result.data.map(millToFeature).sort(byId) } : result;
+    }
+    case 'pocas': {
+      const result = await getPublishedPocas(locale, { bbox: options.bbox });
+      return result.success ? { success: true, data: result.data.map(pocaToFeature).sort(byId) } : result;
+    }
+    case 'levadas': {
+      const result = await getPublishedWaterLines(locale, { bbox: options.bbox });
+      return result.success ? { success: true, data: result.data.map(waterLineToFeature).sort(byId) } : result;
+    }
+  }
+}
+
+/**
+ * Fetches a single feature of a collection by its construction UUID
+ *
+ * @param collectionId - Collection identifier
+ * @param featureId - Construction UUID
+ * @param locale - Language code ('pt' | 'en')
+ * @returns Standardized response with the feature, or null when it is not published
+ */
+export async function getCollectionFeature(
+  collectionId: OgcCollectionId,
+  featureId: string,
+  locale: string
+): Promise<
+  | { success: true; data: GeoJSONFeature | null }
+  | { success: false; error: string }
+> {
+  // Not a UUID: cannot match (and would fail the uuid comparison in the query)
+  if (!UUID_PATTERN.test(featureId)) {
+    return { success: true, data: null };
+  }
+
+  switch (collectionId) {
+    case 'mills': {
+      const result = await getPublishedMills(locale, { id: featureId });
+      return result.success ? { success: true, data: result.data[0] ? millToFeature(result.data[0]) : null } : result;
+    }
+    case 'pocas': {
+      const result = await getPublishedPocas(locale, { id: featureId });
+      return result.success ? { success: true, data: result.data[0] ? pocaToFeature(result.data[0]) : null } : result;
+    }
+    case 'levadas': {
+      const result = await getPublishedWaterLines(locale, { id: featureId });
+      return result.success ? { success: true, data: result.data[0] ? waterLineToFeature(result.data[0]) : null } : result;
+    }
+  }
+}
+
+/**
+ * Builds a paged items document with next/prev links
+ *
+ * @param requestUrl - Full request URL (query parameters are carried over into links)
+ * @param features - All matching features, in a stable order
+ * @param params - Parsed limit/offset
+ */
+export function buildFeatureCollection(
+  requestUrl: URL,
+  features: GeoJSONFeature[],
+  params: OgcItemsParams
+): OgcFeatureCollection {
+  const { limit, offset } = params;
+  const page = features.slice(offset, offset + limit);
+
+  const linkTo = (rel: string, pageOffset: number): OgcLink => {
+    const url = new URL(requestUrl);
+    url.searchParams.set('limit', String(limit));
+    url.searchParams.set('offset', String(pageOffset));
+    return { href: url.toString(), rel, type: 'application/geo+json' };
+  };
+
+  const links: OgcLink[] = [{ href: requestUrl.toString(), rel: 'self', type: 'application/geo+json' }];
+  if (offset + limit < features.length) {
+    links.push(linkTo('next', offset + limit));
+  }
+  if (offset > 0) {
+    links.push(linkTo('prev', Math.max(0, offset - limit)));
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: page,
+    numberMatched: features.length,
+    numberReturned: page.length,
+    timeStamp: new Date().toISOString(),
+    links,
+  };
+}
+
+/**
+ * Adds self/collection links to a single feature
+ */
+export function buildFeature(
+  baseUrl: string,
+  collectionId: OgcCollectionId,
+  feature: GeoJSONFeature
+): OgcFeature {
+  const collectionHref = `${baseUrl}${OGC_BASE_PATH}/collections/${collectionId}`;
+
+  return {
+    ...feature,
+    links: [
+      { href: `${collectionHref}/items/${feature.id}`, rel: 'self', type: 'application/geo+json' },
+      { href: collectionHref, rel: 'collection', type: 'application/json' },
+    ],
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * ORCID Utilities
+ *
+ * ORCID iDs are stored in their canonical form (0000-0000-0000-000X). Users may paste
+ * the full https://orcid.org/ URL; the last character is an ISO 7064 MOD 11-2 check digit.
+ */
+
+const ORCID_PATTERN = /^(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])$/;
+
+/**
+ * Normalizes an ORCID iD or URL to 0000-0000-0000-000X
+ *
+ * @returns The canonical iD, or null when the input is not a valid ORCID iD
+ */
+export function normalizeOrcid(input: string): string | null {
+  const value = input
+    .trim()
+    .toUpperCase()
+    .replace(/^(HTTPS?:\/\/)?(WWW\.)?ORCID\.ORG\//, '');
+  const match = value.match(ORCID_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const digits = match.slice(1).join('');
+  let total = 0;
+  for (const digit of digits.slice(0, -1)) {
+    total = (total + Number(digit)) * 2;
+  }
+  const remainder = (12 - (total % 11)) % 11;
+  const checkDigit = remainder === 10 ? 'X' : String(remainder);
+
+  return checkDigit === digits.slice(-1) ? match.slice(1).join('-') : null;
+}
+
+/**
+ * Returns the public orcid.org URL of an iD
+ */
+export function getOrcidUrl(orcid: string): string {
+  return `https://orcid.org/${orcid}`;
+}
@@ -0,0 +1,164 @@
+import { db } from '@/lib/db';
+import { constructions, pendingEdits } from '@/db/schema';
+import { eq, TransactionRollbackError } from 'drizzle-orm';
+import { assertEditVersion } from '@/lib/edit-conflicts';
+import {
+  parseStoredSnapshot,
+  restoreConstructionSnapshot,
+  takeConstructionSnapshot,
+} from '@/lib/revisions';
+
+/**
+ * Pending Edit Utilities
+ *
+ * Researchers' edits of a published construction are kept as a working copy (a proposed
+ * snapshot in pending_edits) so the live record stays untouched until an admin approves it.
+ *
+ * The existing update logic is reused without duplicating it: the update runs in a
+ * transaction that is rolled back after the resulting state has been captured. Loading a
+ * working copy into the editor works the same way in reverse (apply, read, roll back).
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Runs `work` in a transaction that is always rolled back
+ *
+ * Inside an outer transaction (`executor` = tx) this is a savepoint: only `work` is undone.
+ *
+ * @returns The value produced by `work` before the rollback
+ */
+async function runAndRollBack<T>(
+  work: (tx: DbTransaction) => Promise<T>,
+  executor: typeof db | DbTransaction = db
+): Promise<T> {
+  let result: { value: T } | null = null;
+
+  try {
+    await executor.transaction(async (tx) => {
+      result = { value: await work(tx) };
+      tx.rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) {
+      throw error;
+    }
+  }
+
+  if (!result) {
+    throw new Error('Rolled back work did not complete');
+  }
+  return (result as { value: T }).value;
+}
+
+/**
+ * Fetches the pending edit of a construction, if any
+ *
+ * @param options.lock - Lock the row (FOR UPDATE) until the transaction ends
+ */
+export async function getPendingEditRow(
+  constructionId: string,
+  executor: typeof db | DbTransaction = db,
+  options: { lock?: boolean } = {}
+) {
+  const query = executor
+    .select()
+    .from(pendingEdits)
+    .where(eq(pendingEdits.constructionId, constructionId))
+    .limit(1);
+  const [pendingEdit] = options.lock ? await query.for('update') : await query;
+
+  return pendingEdit ?? null;
+}
+
+/**
+ * Creates or updates the working copy of a published construction
+ *
+ * The update is applied on top of the current working copy (when there is one) and the
+ * resulting state is stored as the new proposal; the live rows are left unchanged.
+ * The version check, the proposal and the write happen in one transaction.
+ *
+ * @param input.applyUpdate - The regular update logic (e.g. the body of updateMillConstruction)
+ * @param input.status - 'review' puts the working copy in the review queue; keeps the current status if omitted
+ * @param input.expectedVersion - Version the editor loaded
+ * @throws EditConflictError when the record or its working copy changed since it was loaded
+ */
+export async function savePendingEdit(input: {
+  constructionId: string;
+  authorId: string;
+  status?: 'draft' | 'review';
+  expectedVersion: string;
+  applyUpdate: (tx: DbTransaction) => Promise<unknown>;
+}): Promise<void> {
+  await db.transaction(async (tx) => {
+    await assertEditVersion(tx, input.constructionId, input.expectedVersion);
+
+    const existing = await getPendingEditRow(input.constructionId, tx);
+    const [live] = await tx
+      .select({ updatedAt: constructions.updatedAt })
+      .from(constructions)
+      .where(eq(constructions.id, input.constructionId))
+      .limit(1);
+
+    const proposed = await runAndRollBack(async (savepoint) => {
+      if (existing) {
+        await restoreConstructionSnapshot(savepoint, parseStoredSnapshot(existing.snapshot));
+      }
+      await input.applyUpdate(savepoint);
+      return takeConstructionSnapshot(savepoint, input.constructionId);
+    }, tx);
+
+    if (!proposed) {
+      throw new Error('Construction not found');
+    }
+
+    const status = input.status ?? (existing?.status === 'review' ? 'review' : 'draft');
+    // Saving again while queued keeps the original submission time (queue age)
+    const submittedAt =
+      status !== 'review' ? null : existing?.status === 'review' ? existing.submittedAt ?? new Date() : new Date();
+
+    await tx
+      .insert(pendingEdits)
+      .values({
+        constructionId: input.constructionId,
+        authorId: input.authorId,
+        status,
+        snapshot: proposed,
+        submittedAt,
+        // The copy stays based on the live version it was first taken from
+        baseUpdatedAt: live?.updatedAt ?? null,
+      })
+      .onConflictDoUpdate({
+        target: pendingEdits.constructionId,
+        set: { authorId: input.authorId, status, snapshot: proposed, submittedAt, updatedAt: new Date() },
+      });
+  });
+}
+
+/**
+ * Reads data with the working copy of a construction applied (for the editors)
+ *
+ * Without a pending edit, `load` simply runs against the live tables. Admins save straight
+ * to the live rows, so they must load those (options.live): editing the unreviewed copy
+ * would publish it without going through approval.
+ *
+ * @param load - Query to run; must use the given executor instead of `db`
+ * @param options.live - Ignore the working copy
+ */
+export async function withPendingEditApplied<T>(
+  constructionId: string,
+  load: (executor: typeof db | DbTransaction) => Promise<T>,
+  options: { live?: boolean } = {}
+): Promise<T> {
+  const pendingEdit = options.live ? null : await getPendingEditRow(constructionId);
+  if (!pendingEdit) {
+    return load(db);
+  }
+
+  return runAndRollBack(async (tx) => {
+    await restoreConstructionSnapshot(tx, parseStoredSnapshot(pendingEdit.snapshot));
+    return load(tx);
+  });
+}
@@ -0,0 +1,55 @@
+import { db } from '@/lib/db';
+import { reviewAssignments } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Review Assignment Utilities
+ *
+ * Items in the review queue (records in review and pending edits of published records) can
+ * get a reviewer, a due date and a progress status, stored per construction in
+ * review_assignments. The row follows the item through the review cycle:
+ * - requesting changes keeps the reviewer and marks the item 'changes_requested', so a
+ *   resubmission goes back to the same reviewer
+ * - publishing / approving ends the cycle and removes the row
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+export const REVIEW_STATUSES = ['in_progress', 'changes_requested'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+/**
+ * Days in the queue after which an item is flagged as waiting too long
+ */
+export const REVIEW_STALE_DAYS = 14;
+
+/**
+ * Whole days an item has been waiting in the queue
+ */
+export function getQueueAgeDays(submittedAt: Date, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - submittedAt.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Marks the item of a construction as sent back to its author (keeps reviewer and due date)
+ */
+export async function markChangesRequested(executor: DbExecutor, constructionId: string): Promise<void> {
+  await executor
+    .insert(reviewAssignments)
+    .values({ constructionId, reviewStatus: 'changes_requested' })
+    .onConflictDoUpdate({
+      target: reviewAssignments.constructionId,
+      set: { reviewStatus: 'changes_requested', updatedAt: new Date() },
+    });
+}
+
+/**
+ * Removes the assignment of a construction once its review is over (published / approved)
+ */
+export async function clearReviewAssignment(executor: DbExecutor, constructionId: string): Promise<void> {
+  await executor.delete(reviewAssignments).where(eq(reviewAssignments.constructionId, constructionId));
+}
@@ -0,0 +1,14 @@
+/**
+ * Review Comment Field Utilities
+ *
+ * Field-level review comments point at a mills_data property (e.g. 'roofShape').
+ * Client-safe: the list of commentable fields is returned by getReviewComments.
+ */
+
+/**
+ * Formats a mills_data property name for display ('roofShape' -> 'Roof shape')
+ */
+export function formatFieldName(fieldName: string): string {
+  const words = fieldName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,343 @@
+import { db } from '@/lib/db';
+import {
+  constructions,
+  constructionTranslations,
+  constructionRevisions,
+  millsData,
+  pocasData,
+  waterLines,
+  waterLineTranslations,
+} from '@/db/schema';
+import { eq, getTableColumns, sql } from 'drizzle-orm';
+
+/**
+ * Revision History Utilities
+ *
+ * Every create / update / status change / delete / restore / purge / merge of a construction stores a
+ * JSON snapshot of the whole record plus a field-level diff against the previous state
+ * in construction_revisions. Snapshots are taken inside the mutation's transaction so the
+ * history always matches what was committed.
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type RevisionAction = 'create' | 'update' | 'status' | 'delete' | 'restore' | 'purge' | 'merge';
+
+/**
+ * Changed fields keyed by path ('construction.district', 'translations.pt.title',
+ * 'millsData.roofShape', 'waterLine.path', ...)
+ */
+export type RevisionDiff = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Full state of a construction as stored in a revision
+ *
+ * Geometry is stored as plain coordinates: construction.geom as [lng, lat] and
+ * waterLine.path as an array of [lng, lat] (the formats the schema custom types write).
+ * Timestamps are ISO strings once serialized to JSON.
+ */
+export interface ConstructionSnapshot {
+  construction: Omit<typeof constructions.$inferSelect, 'geom'> & { geom: [number, number] };
+  translations: Array<typeof constructionTranslations.$inferSelect>;
+  millsData: typeof millsData.$inferSelect | null;
+  pocasData: typeof pocasData.$inferSelect | null;
+  waterLine:
+    | (Omit<typeof waterLines.$inferSelect, 'path'> & {
+        path: [number, number][];
+        translations: Array<typeof waterLineTranslations.$inferSelect>;
+      })
+    | null;
+}
+
+// Bookkeeping fields that change on every save and would only add noise to diffs
+const IGNORED_DIFF_FIELDS = new Set(['construction.updatedAt', 'waterLine.updatedAt']);
+
+/**
+ * Reads the current state of a construction
+ *
+ * @returns The snapshot, or null if the construction does not exist
+ */
+export async function takeConstructionSnapshot(
+  tx: DbTransaction,
+  constructionId: string
+): Promise<ConstructionSnapshot | null> {
+  const { geom: _geom, ...constructionColumns } = getTableColumns(constructions);
+  const [construction] = await tx
+    .select({
+      ...constructionColumns,
+      lng: sql<number>`ST_X(${constructions.geom}::geometry)`,
+      lat: sql<number>`ST_Y(${constructions.geom}::geometry)`,
+    })
+    .from(constructions)
+    .where(eq(constructions.id, constructionId))
+    .limit(1);
+
+  if (!construction) {
+    return null;
+  }
+
+  const { lng, lat, ...constructionFields } = construction;
+
+  const translations = await tx
+    .select()
+    .from(constructionTranslations)
+    .where(eq(constructionTranslations.constructionId, constructionId))
+    .orderBy(constructionTranslations.langCode);
+
+  const [mill] = await tx.select().from(millsData).where(eq(millsData.constructionId, constructionId)).limit(1);
+  const [poca] = await tx.select().from(pocasData).where(eq(pocasData.constructionId, constructionId)).limit(1);
+
+  const { path: _path, ...waterLineColumns } = getTableColumns(waterLines);
+  const [waterLine] = await tx
+    .select({ ...waterLineColumns, pathGeoJson: sql<string>`ST_AsGeoJSON(${waterLines.path})` })
+    .from(waterLines)
+    .where(eq(waterLines.constructionId, constructionId))
+    .limit(1);
+
+  let waterLineSnapshot: ConstructionSnapshot['waterLine'] = null;
+  if (waterLine) {
+    const { pathGeoJson, ...waterLineFields } = waterLine;
+    const waterLineTranslationRows = await tx
+      .select()
+      .from(waterLineTranslations)
+      .where(eq(waterLineTranslations.waterLineId, waterLine.id))
+      .orderBy(waterLineTranslations.locale);
+
+    waterLineSnapshot = {
+      ...waterLineFields,
+      path: (JSON.parse(pathGeoJson) as { coordinates: [number, number][] }).coordinates,
+      translations: waterLineTranslationRows,
+    };
+  }
+
+  return {
+    construction: { ...constructionFields, geom: [Number(lng), Number(lat)] },
+    translations,
+    millsData: mill ?? null,
+    pocasData: poca ?? null,
+    waterLine: waterLineSnapshot,
+  };
+}
+
+/**
+ * Flattens a snapshot into path -> value pairs (translations keyed by language)
+ */
+function flattenSnapshot(snapshot: ConstructionSnapshot | null): Record<string, unknown> {
+  if (!snapshot) {
+    return {};
+  }
+
+  const flat: Record<string, unknown> = {};
+  const addFields = (prefix: string, fields: object | null) => {
+    for (const [key, value] of Object.entries(fields ?? {})) {
+      flat[`${prefix}.${key}`] = value;
+    }
+  };
+
+  addFields('construction', snapshot.construction);
+  for (const translation of snapshot.translations) {
+    addFields(`translations.${translation.langCode}`, translation);
+  }
+  addFields('millsData', snapshot.millsData);
+  addFields('pocasData', snapshot.pocasData);
+  if (snapshot.waterLine) {
+    const { translations, ...waterLine } = snapshot.waterLine;
+    addFields('waterLine', waterLine);
+    for (const translation of translations) {
+      addFields(`waterLine.translations.${translation.locale}`, translation);
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Computes the changed fields between two snapshots
+ *
+ * A null snapshot stands for "record does not exist" (before a create, after a delete).
+ * Values are compared by their JSON representation, so Dates and ISO strings match.
+ */
+export function diffSnapshots(
+  before: ConstructionSnapshot | null,
+  after: ConstructionSnapshot | null
+): RevisionDiff {
+  const beforeFields = flattenSnapshot(before);
+  const afterFields = flattenSnapshot(after);
+  const diff: RevisionDiff = {};
+
+  for (const key of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+    if (IGNORED_DIFF_FIELDS.has(key)) {
+      continue;
+    }
+    const from = beforeFields[key] ?? null;
+    const to = afterFields[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[key] = { from, to };
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Stores a revision for a construction
+ *
+ * @param before - State before the action (null for 'create')
+ * @param after - State after the action (null for 'delete' / 'purge'; the stored snapshot is then `before`)
+ */
+export async function recordRevision(
+  tx: DbTransaction,
+  input: {
+    constructionId: string;
+    action: RevisionAction;
+    authorId: string | null;
+    before: ConstructionSnapshot | null;
+    after: ConstructionSnapshot | null;
+  }
+): Promise<void> {
+  const snapshot = input.after ?? input.before;
+  if (!snapshot) {
+    return;
+  }
+
+  await tx.insert(constructionRevisions).values({
+    constructionId: input.constructionId,
+    action: input.action,
+    authorId: input.authorId,
+    snapshot,
+    diff: diffSnapshots(input.before, input.after),
+  });
+}
+
+/**
+ * Records the 'create' revision of a construction inserted earlier in the transaction
+ */
+export async function recordCreateRevision(
+  tx: DbTransaction,
+  constructionId: string,
+  authorId: string | null
+): Promise<void> {
+  const after = await takeConstructionSnapshot(tx, constructionId);
+  await recordRevision(tx, { constructionId, action: 'create', authorId, before: null, after });
+}
+
+/**
+ * Wraps a mutation of an existing construction: snapshots the record before and after
+ * `mutate` and records the revision in the same transaction
+ *
+ * @returns Whatever `mutate` returns
+ */
+export async function withRevision<T>(
+  tx: DbTransaction,
+  input: { constructionId: string; action: Exclude<RevisionAction, 'create'>; authorId: string | null },
+  mutate: () => Promise<T>
+): Promise<T> {
+  const before = await takeConstructionSnapshot(tx, input.constructionId);
+  const result = await mutate();
+  // A trashed record still exists, but its history shows it as gone
+  const after = input.action === 'delete' || input.action === 'purge'
+    ? null
+    : await takeConstructionSnapshot(tx, input.constructionId);
+
+  await recordRevision(tx, { ...input, before, after });
+
+  return result;
+}
+
+/**
+ * Converts an ISO string (from a JSON snapshot) back to a Date
+ */
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Writes the content of a snapshot back to an existing construction
+ *
+ * Restores core fields, geometry, translations and type-specific data. Identity and
+ * workflow fields are kept as they are now: id, slug, type, author, creation date, status
+ * and trash state (a restore is a new edit, not a publication decision).
+ */
+export async function restoreConstructionSnapshot(
+  tx: DbTransaction,
+  snapshot: ConstructionSnapshot
+): Promise<void> {
+  const constructionId = snapshot.construction.id;
+  const {
+    id: _id,
+    slug: _slug,
+    typeCategory: _typeCategory,
+    status: _status,
+    createdBy: _createdBy,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    deletedAt: _deletedAt,
+    deletedBy: _deletedBy,
+    ...constructionFields
+  } = snapshot.construction;
+
+  await tx
+    .update(constructions)
+    .set({ ...constructionFields, updatedAt: new Date() })
+    .where(eq(constructions.id, constructionId));
+
+  await tx.delete(constructionTranslations).where(eq(constructionTranslations.constructionId, constructionId));
+  if (snapshot.translations.length > 0) {
+    await tx.insert(constructionTranslations).values(snapshot.translations);
+  }
+
+  if (snapshot.millsData) {
+    const { constructionId: _millConstructionId, ...millFields } = snapshot.millsData;
+    await tx
+      .insert(millsData)
+      .values(snapshot.millsData)
+      .onConflictDoUpdate({ target: millsData.constructionId, set: millFields });
+  }
+
+  if (snapshot.pocasData) {
+    await tx
+      .insert(pocasData)
+      .values(snapshot.pocasData)
+      .onConflictDoUpdate({ target: pocasData.constructionId, set: { waterLineId: snapshot.pocasData.waterLineId } });
+  }
+
+  if (snapshot.waterLine) {
+    const { translations, id: waterLineId, path, color } = snapshot.waterLine;
+
+    await tx
+      .update(waterLines)
+      .set({ path, color, updatedAt: new Date() })
+      .where(eq(waterLines.id, waterLineId));
+
+    await tx.delete(waterLineTranslations).where(eq(waterLineTranslations.waterLineId, waterLineId));
+    if (translations.length > 0) {
+      await tx.insert(waterLineTranslations).values(translations);
+    }
+  }
+}
+
+/**
+ * Parses a stored snapshot (JSON) back into a typed snapshot
+ *
+ * Only the timestamps need converting; everything else round-trips through JSON as is.
+ */
+export function parseStoredSnapshot(value: unknown): ConstructionSnapshot {
+  const snapshot = value as ConstructionSnapshot;
+  return {
+    ...snapshot,
+    construction: {
+      ...snapshot.construction,
+      createdAt: toDate(snapshot.construction.createdAt),
+      updatedAt: toDate(snapshot.construction.updatedAt),
+    },
+    waterLine: snapshot.waterLine
+      ? {
+          ...snapshot.waterLine,
+          createdAt: toDate(snapshot.waterLine.createdAt),
+          updatedAt: toDate(snapshot.waterLine.updatedAt),
+        }
+      : null,
+  };
+}
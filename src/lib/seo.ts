@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import { routing } from '@/i18n/routing';
+
+/**
+ * SEO Metadata Utilities
+ *
+ * Shared helpers for generateMetadata in the public pages and for the sitemap:
+ * canonical URLs with hreflang alternates for every locale in routing.locales.
+ */
+
+export const SITE_NAME = 'MTTC Project';
+
+// OpenGraph locale tags (language_TERRITORY)
+const OPEN_GRAPH_LOCALES: Record<string, string> = {
+  pt: 'pt_PT',
+  en: 'en_GB',
+};
+
+// Search engines truncate meta descriptions at roughly this length
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Builds the URL of a localized page
+ *
+ * @param baseUrl - Site origin (see getSiteUrl)
+ * @param locale - Page locale
+ * @param path - Path after the locale prefix ('' for the home page, '/mill/azenha-do-rio', ...)
+ */
+export function getLocalizedUrl(baseUrl: string, locale: string, path: string): string {
+  return `${baseUrl}/${locale}${path}`;
+}
+
+/**
+ * Returns hreflang alternates for a path (one per locale, plus x-default)
+ */
+export function getLanguageAlternates(baseUrl: string, path: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(routing.locales.map((locale) => [locale, getLocalizedUrl(baseUrl, locale, path)])),
+    'x-default': getLocalizedUrl(baseUrl, routing.defaultLocale, path),
+  };
+}
+
+/**
+ * Builds the canonical URL and hreflang alternates of a localized page
+ */
+export function getPageAlternates(baseUrl: string, locale: string, path: string): Metadata['alternates'] {
+  return {
+    canonical: getLocalizedUrl(baseUrl, locale, path),
+    languages: getLanguageAlternates(baseUrl, path),
+  };
+}
+
+/**
+ * Builds OpenGraph metadata with the site-wide fields (site name, locale and its alternates)
+ *
+ * Needed in every page because Next.js replaces (does not merge) the parent openGraph object.
+ */
+export function getOpenGraph(
+  locale: string,
+  fields: { title: string; description?: string; url: string; images?: string[] }
+): Metadata['openGraph'] {
+  return {
+    type: 'website',
+    siteName: SITE_NAME,
+    locale: OPEN_GRAPH_LOCALES[locale] ?? locale,
+    alternateLocale: routing.locales
+      .filter((alternate) => alternate !== locale)
+      .map((alternate) => OPEN_GRAPH_LOCALES[alternate] ?? alternate),
+    ...fields,
+  };
+}
+
+/**
+ * Collapses whitespace and truncates text for a meta description (on a word boundary)
+ */
+export function toMetaDescription(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= MAX_DESCRIPTION_LENGTH) {
+    return normalized;
+  }
+
+  const truncated = normalized.slice(0, MAX_DESCRIPTION_LENGTH - 1);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${lastSpace > 0 ? truncated.slice(0, lastSpace) : truncated}…`;
+}
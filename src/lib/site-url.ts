@@ -0,0 +1,28 @@
+import { headers } from 'next/headers';
+
+/**
+ * Site URL Utility
+ *
+ * Resolves the absolute origin of the site for URLs that must not be relative
+ * (structured data, feeds, harvesting endpoints).
+ */
+
+/**
+ * Returns the site origin without a trailing slash (e.g., "https://mttc.example.org")
+ *
+ * Uses NEXT_PUBLIC_SITE_URL when set; otherwise derives the origin from the current
+ * request headers (honouring reverse proxy x-forwarded-* headers).
+ * Server-only: must be called during a request (Server Component or Route Handler).
+ */
+export function getSiteUrl(): string {
+  const configuredUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  if (configuredUrl) {
+    return configuredUrl.replace(/\/+$/, '');
+  }
+
+  const requestHeaders = headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+
+  return `${protocol}://${host}`;
+}
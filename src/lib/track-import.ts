@@ -0,0 +1,262 @@
+/**
+ * Track File Import Utilities
+ *
+ * Parses GPS tracks recorded by field teams (GPX, KML, GeoJSON) into path segments
+ * for the LevadaEditor. Browser-only: XML formats are read with DOMParser.
+ *
+ * Coordinate order: segments use the Leaflet [lat, lng] order of the editor.
+ * The water line form converts to PostGIS [lng, lat] when saving, as for drawn paths.
+ */
+
+export type TrackFileFormat = 'gpx' | 'kml' | 'geojson';
+
+/**
+ * A continuous line read from a track file (GPX trkseg/rte, KML LineString, GeoJSON line)
+ */
+export interface TrackSegment {
+  name: string | null;
+  path: [number, number][]; // [lat, lng] (Leaflet format)
+}
+
+/**
+ * File extensions accepted by the track import input
+ */
+export const TRACK_FILE_ACCEPT = '.gpx,.kml,.geojson,.json';
+
+/**
+ * Detects the file format from the extension, falling back to the content
+ */
+function detectFormat(fileName: string, content: string): TrackFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/i.test(start)) return 'gpx';
+  if (/<kml[\s>]/i.test(start)) return 'kml';
+  return null;
+}
+
+/**
+ * Returns true if the pair is a valid WGS 84 coordinate
+ */
+function isValidLatLng(lat: number, lng: number): boolean {
+  return !isNaN(lat) && !isNaN(lng) && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+/**
+ * Removes consecutive duplicate points (GPS loggers repeat fixes while standing still)
+ */
+function dedupe(path: [number, number][]): [number, number][] {
+  return path.filter(
+    (point, index) => index === 0 || point[0] !== path[index - 1]![0] || point[1] !== path[index - 1]![1]
+  );
+}
+
+/**
+ * Returns the text of the first direct <name> child of an element
+ */
+function childName(element: Element | null): string | null {
+  if (!element) return null;
+  const nameElement = Array.from(element.children).find((child) => child.localName === 'name');
+  return nameElement?.textContent?.trim() || null;
+}
+
+/**
+ * Reads lat/lon attributes of GPX points (trkpt/rtept)
+ */
+function gpxPoints(parent: Element, pointTag: string): [number, number][] {
+  return Array.from(parent.getElementsByTagNameNS('*', pointTag))
+    .map((point) => [Number(point.getAttribute('lat')), Number(point.getAttribute('lon'))] as [number, number])
+    .filter(([lat, lng]) => isValidLatLng(lat, lng));
+}
+
+/**
+ * Parses GPX tracks (one segment per trkseg) and routes
+ */
+function parseGpx(document: Document): TrackSegment[] {
+  const segments: TrackSegment[] = [];
+
+  for (const track of Array.from(document.getElementsByTagNameNS('*', 'trk'))) {
+    const trackName = childName(track);
+    const trackSegments = Array.from(track.getElementsByTagNameNS('*', 'trkseg'));
+
+    trackSegments.forEach((trackSegment, index) => {
+      segments.push({
+        name: trackSegments.length > 1 ? `${trackName ?? 'Track'} (${index + 1})` : trackName,
+        path: gpxPoints(trackSegment, 'trkpt'),
+      });
+    });
+  }
+
+  for (const route of Array.from(document.getElementsByTagNameNS('*', 'rte'))) {
+    segments.push({ name: childName(route), path: gpxPoints(route, 'rtept') });
+  }
+
+  return segments;
+}
+
+/**
+ * Parses a KML coordinates string ("lng,lat[,alt] lng,lat[,alt] ...")
+ */
+function parseKmlCoordinates(text: string): [number, number][] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      return [lat, lng] as [number, number];
+    })
+    .filter(([lat, lng]) => isValidLatLng(lat, lng));
+}
+
+/**
+ * Parses KML LineStrings (including inside MultiGeometry) and gx:Track elements
+ */
+function parseKml(document: Document): TrackSegment[] {
+  const placemarkName = (element: Element) => childName(element.closest('Placemark'));
+
+  const lineStrings = Array.from(document.getElementsByTagNameNS('*', 'LineString')).map((lineString) => ({
+    name: placemarkName(lineString),
+    path: parseKmlCoordinates(lineString.getElementsByTagNameNS('*', 'coordinates')[0]?.textContent ?? ''),
+  }));
+
+  // Google Earth / phone apps record tracks as gx:Track with "lng lat alt" gx:coord elements
+  const tracks = Array.from(document.getElementsByTagNameNS('*', 'Track')).map((track) => ({
+    name: placemarkName(track),
+    path: Array.from(track.getElementsByTagNameNS('*', 'coord'))
+      .map((coord) => {
+        const [lng, lat] = (coord.textContent ?? '').trim().split(/\s+/).map(Number);
+        return [lat, lng] as [number, number];
+      })
+      .filter(([lat, lng]) => isValidLatLng(lat, lng)),
+  }));
+
+  return [...lineStrings, ...tracks];
+}
+
+/**
+ * Parses GeoJSON LineString and MultiLineString geometries ([lng, lat] positions)
+ */
+function parseGeoJson(content: string): TrackSegment[] {
+  const segments: TrackSegment[] = [];
+
+  const toPath = (positions: unknown): [number, number][] =>
+    (Array.isArray(positions) ? positions : [])
+      .map((position) => {
+        const [lng, lat] = Array.isArray(position) ? position.map(Number) : [NaN, NaN];
+        return [lat, lng] as [number, number];
+      })
+      .filter(([lat, lng]) => isValidLatLng(lat, lng));
+
+  const visit = (node: unknown, name: string | null) => {
+    if (!node || typeof node !== 'object') return;
+    const object = node as Record<string, unknown>;
+
+    switch (object.type) {
+      case 'FeatureCollection':
+        (Array.isArray(object.features) ? object.features : []).forEach((feature) => visit(feature, null));
+        break;
+      case 'Feature': {
+        const properties = object.properties as Record<string, unknown> | null;
+        const featureName = typeof properties?.name === 'string' ? properties.name : null;
+        visit(object.geometry, featureName);
+        break;
+      }
+      case 'GeometryCollection':
+        (Array.isArray(object.geometries) ? object.geometries : []).forEach((geometry) => visit(geometry, name));
+        break;
+      case 'LineString':
+        segments.push({ name, path: toPath(object.coordinates) });
+        break;
+      case 'MultiLineString': {
+        const lines = Array.isArray(object.coordinates) ? object.coordinates : [];
+        lines.forEach((line, index) => {
+          segments.push({ name: lines.length > 1 ? `${name ?? 'Line'} (${index + 1})` : name, path: toPath(line) });
+        });
+        break;
+      }
+    }
+  };
+
+  visit(JSON.parse(content), null);
+  return segments;
+}
+
+/**
+ * Parses a GPX, KML or GeoJSON file into line segments
+ *
+ * Segments with fewer than 2 points are dropped. Point features are ignored.
+ *
+ * @param fileName - Original file name (used to detect the format)
+ * @param content - File contents
+ * @returns Standardized response with the segments in file order
+ */
+export function parseTrackFile(
+  fileName: string,
+  content: string
+): { success: true; data: TrackSegment[] } | { success: false; error: string } {
+  const format = detectFormat(fileName, content);
+  if (!format) {
+    return { success: false, error: 'Unsupported file. Use a GPX track, KML LineString or GeoJSON file' };
+  }
+
+  let segments: TrackSegment[];
+  try {
+    if (format === 'geojson') {
+      segments = parseGeoJson(content);
+    } else {
+      const document = new DOMParser().parseFromString(content, 'application/xml');
+      if (document.getElementsByTagName('parsererror').length > 0) {
+        return { success: false, error: `Invalid ${format.toUpperCase()} file` };
+      }
+      segments = format === 'gpx' ? parseGpx(document) : parseKml(document);
+    }
+  } catch (error) {
+    console.error('[parseTrackFile]:', error);
+    return { success: false, error: `Invalid ${format === 'geojson' ? 'GeoJSON' : format.toUpperCase()} file` };
+  }
+
+  const lines = segments
+    .map((segment) => ({ ...segment, path: dedupe(segment.path) }))
+    .filter((segment) => segment.path.length >= 2);
+
+  if (lines.length === 0) {
+    return { success: false, error: 'No lines found in the file (at least 2 points are required)' };
+  }
+
+  return { success: true, data: lines };
+}
+
+/**
+ * Squared planar distance between two [lat, lng] points (only used for comparisons)
+ */
+function distanceSquared(a: [number, number], b: [number, number]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+}
+
+/**
+ * Merges segments into a single path, in the given order
+ *
+ * Each segment is reversed when its end is closer to the current path end than its
+ * start, so tracks recorded in opposite directions join without a zig-zag.
+ *
+ * @param segments - Segments to merge
+ * @returns Single [lat, lng] path
+ */
+export function mergeTrackSegments(segments: TrackSegment[]): [number, number][] {
+  return segments.reduce<[number, number][]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (!last) return [...segment.path];
+
+    const first = segment.path[0]!;
+    const end = segment.path[segment.path.length - 1]!;
+    const ordered = distanceSquared(last, end) < distanceSquared(last, first)
+      ? [...segment.path].reverse()
+      : segment.path;
+
+    return dedupe([...merged, ...ordered]);
+  }, []);
+}
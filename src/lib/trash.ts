@@ -0,0 +1,150 @@
+import { db } from '@/lib/db';
+import { constructions, millsData, pocasData, waterLines } from '@/db/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { withRevision } from '@/lib/revisions';
+
+/**
+ * Trash Utilities
+ *
+ * Deleting a construction moves it to the trash (constructions.deleted_at) instead of removing
+ * its rows, so related data (mills_data, pocas_data, translations, water_lines) survives and a
+ * restore brings the record back unchanged. Only admins remove trashed records for good (purge).
+ *
+ * Poças reference their levada with ON DELETE RESTRICT; the trash follows the same rule:
+ * - a levada cannot be trashed while poças outside the trash still point to it
+ * - a poça cannot be restored while its levada is in the trash
+ * - a levada cannot be purged while any poça (trashed or not) still points to it
+ *
+ * Server-only: imports the database client.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+/**
+ * Counts the poças linked to the levada of a construction
+ *
+ * @param includeTrashed - Also count poças that are in the trash
+ * @returns 0 when the construction is not a levada
+ */
+async function countLinkedPocas(
+  executor: DbExecutor,
+  constructionId: string,
+  includeTrashed: boolean
+): Promise<number> {
+  const [result] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(pocasData)
+    .innerJoin(waterLines, eq(waterLines.id, pocasData.waterLineId))
+    .innerJoin(constructions, eq(constructions.id, pocasData.constructionId))
+    .where(
+      and(
+        eq(waterLines.constructionId, constructionId),
+        includeTrashed ? undefined : isNull(constructions.deletedAt)
+      )
+    );
+
+  return result?.count ?? 0;
+}
+
+/**
+ * Returns why a construction cannot be moved to the trash, or null if it can
+ */
+export async function getTrashBlocker(executor: DbExecutor, constructionId: string): Promise<string | null> {
+  const linkedPocas = await countLinkedPocas(executor, constructionId, false);
+  if (linkedPocas > 0) {
+    return `This levada still has ${linkedPocas} linked poça(s). Move them to the trash or link them to another levada first`;
+  }
+  return null;
+}
+
+/**
+ * Returns why a trashed construction cannot be restored, or null if it can
+ */
+export async function getRestoreBlocker(executor: DbExecutor, constructionId: string): Promise<string | null> {
+  const [levada] = await executor
+    .select({ deletedAt: constructions.deletedAt })
+    .from(pocasData)
+    .innerJoin(waterLines, eq(waterLines.id, pocasData.waterLineId))
+    .innerJoin(constructions, eq(constructions.id, waterLines.constructionId))
+    .where(eq(pocasData.constructionId, constructionId))
+    .limit(1);
+
+  if (levada?.deletedAt) {
+    return 'The levada of this poça is in the trash. Restore the levada first';
+  }
+  return null;
+}
+
+/**
+ * Returns why a trashed construction cannot be purged, or null if it can
+ */
+export async function getPurgeBlocker(executor: DbExecutor, constructionId: string): Promise<string | null> {
+  const linkedPocas = await countLinkedPocas(executor, constructionId, true);
+  if (linkedPocas > 0) {
+    return `This levada is still linked to ${linkedPocas} poça(s), including trashed ones. Purge them or link them to another levada first`;
+  }
+  return null;
+}
+
+/**
+ * Moves a construction to the trash (recorded as a 'delete' revision)
+ *
+ * The caller is responsible for permission checks and for getTrashBlocker.
+ */
+export async function moveConstructionToTrash(
+  tx: DbTransaction,
+  constructionId: string,
+  userId: string
+): Promise<void> {
+  await withRevision(tx, { constructionId, action: 'delete', authorId: userId }, async () => {
+    const result = await tx
+      .update(constructions)
+      .set({ deletedAt: new Date(), deletedBy: userId })
+      .where(and(eq(constructions.id, constructionId), isNull(constructions.deletedAt)))
+      .returning({ id: constructions.id });
+
+    if (result.length === 0) {
+      throw new Error('Failed to move construction to the trash - no rows affected');
+    }
+  });
+}
+
+/**
+ * Permanently removes a trashed construction (recorded as a 'purge' revision)
+ *
+ * Foreign keys cascade from constructions to mills_data, pocas_data, translations and
+ * water_lines. Mills linked to a purged levada keep existing without the link.
+ * The caller is responsible for permission checks and for getPurgeBlocker.
+ */
+export async function purgeTrashedConstruction(
+  tx: DbTransaction,
+  constructionId: string,
+  userId: string
+): Promise<void> {
+  await withRevision(tx, { constructionId, action: 'purge', authorId: userId }, async () => {
+    const [waterLine] = await tx
+      .select({ id: waterLines.id })
+      .from(waterLines)
+      .where(eq(waterLines.constructionId, constructionId))
+      .limit(1);
+
+    if (waterLine) {
+      await tx
+        .update(millsData)
+        .set({ waterLineId: null })
+        .where(eq(millsData.waterLineId, waterLine.id));
+
+      await tx.delete(waterLines).where(eq(waterLines.id, waterLine.id));
+    }
+
+    const result = await tx
+      .delete(constructions)
+      .where(eq(constructions.id, constructionId))
+      .returning({ id: constructions.id });
+
+    if (result.length === 0) {
+      throw new Error('Failed to purge construction - no rows affected');
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import type { GeoJSONLineString } from '@/types/geojson';
+
+/**
+ * Public API (/api/v1) Response Types
+ */
+
+/**
+ * Cursor pagination metadata returned by every collection endpoint
+ */
+export interface PaginationInfo {
+  limit: number;
+  count: number; // Items in this page
+  total: number; // Items matching the filters across all pages
+  nextCursor: string | null; // Pass as ?cursor= to fetch the next page (null on the last page)
+}
+
+/**
+ * Standardized paginated response (same success/data envelope as server actions)
+ */
+export interface PaginatedResponse<T> {
+  success: true;
+  data: T[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Water line as exposed by the public API
+ *
+ * Unlike MapWaterLine (Leaflet [lat, lng] path), the geometry is a GeoJSON LineString
+ * in [lng, lat] order so external GIS clients can consume it directly.
+ */
+export interface ApiWaterLine {
+  id: string; // Construction UUID, like mills and poças
+  waterLineId: string; // water_lines id, referenced by mills and poças as waterLineId
+  slug: string;
+  name: string;
+  color: string;
+  geometry: GeoJSONLineString;
+}
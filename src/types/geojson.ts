@@ -0,0 +1,38 @@
+/**
+ * GeoJSON Type Definitions (RFC 7946)
+ *
+ * Minimal typed subset of the GeoJSON spec used by the public export endpoints.
+ * Coordinates are always in [lng, lat] order (WGS 84 / EPSG:4326).
+ */
+
+export type GeoJSONPosition = [number, number];
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: GeoJSONPosition[];
+}
+
+export type GeoJSONGeometry = GeoJSONPoint | GeoJSONLineString;
+
+export interface GeoJSONFeature<
+  G extends GeoJSONGeometry = GeoJSONGeometry,
+  P extends Record<string, unknown> = Record<string, unknown>
+> {
+  type: 'Feature';
+  id: string;
+  geometry: G;
+  properties: P;
+}
+
+export interface GeoJSONFeatureCollection<
+  G extends GeoJSONGeometry = GeoJSONGeometry,
+  P extends Record<string, unknown> = Record<string, unknown>
+> {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature<G, P>[];
+}
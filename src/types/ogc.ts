@@ -0,0 +1,55 @@
+import type { GeoJSONFeature, GeoJSONFeatureCollection } from '@/types/geojson';
+
+/**
+ * OGC API - Features Type Definitions (OGC 17-069r4, Part 1: Core)
+ *
+ * Minimal typed subset of the response documents served under /api/ogc.
+ */
+
+export interface OgcLink {
+  href: string;
+  rel: string;
+  type?: string;
+  title?: string;
+}
+
+export interface OgcLandingPage {
+  title: string;
+  description: string;
+  links: OgcLink[];
+}
+
+export interface OgcConformance {
+  conformsTo: string[];
+}
+
+export interface OgcCollection {
+  id: string;
+  title: string;
+  description: string;
+  itemType: 'feature';
+  crs: string[];
+  extent?: {
+    spatial: {
+      bbox: [number, number, number, number][];
+      crs: string;
+    };
+  };
+  links: OgcLink[];
+}
+
+export interface OgcCollections {
+  collections: OgcCollection[];
+  links: OgcLink[];
+}
+
+export interface OgcFeatureCollection extends GeoJSONFeatureCollection {
+  numberMatched: number;
+  numberReturned: number;
+  timeStamp: string;
+  links: OgcLink[];
+}
+
+export interface OgcFeature extends GeoJSONFeature {
+  links: OgcLink[];
+}